@@ -9,7 +9,9 @@ import { LandingPage } from "@/pages/LandingPage";
 import { AuthPage } from "@/pages/AuthPage";
 import { DashboardPage } from "@/pages/DashboardPage";
 import { PipelinePage } from "@/pages/PipelinePage";
+import { AnalyticsPage } from "@/pages/AnalyticsPage";
 import { ContactDetailPage } from "@/pages/ContactDetailPage";
+import { FirmDetailPage } from "@/pages/FirmDetailPage";
 import { CalendarPage } from "@/pages/CalendarPage";
 import { SettingsPage } from "@/pages/SettingsPage";
 import { LearningPage } from "@/pages/LearningPage";
@@ -95,9 +97,11 @@ const App = () => (
           >
             <Route path="/dashboard" element={<DashboardPage />} />
             <Route path="/pipeline" element={<PipelinePage />} />
+            <Route path="/analytics" element={<AnalyticsPage />} />
             <Route path="/calendar" element={<CalendarPage />} />
             <Route path="/tasks" element={<TasksPage />} />
             <Route path="/contact/:id" element={<ContactDetailPage />} />
+            <Route path="/firm/:id" element={<FirmDetailPage />} />
             <Route path="/settings" element={<SettingsPage />} />
             <Route path="/learning" element={<LearningPage />} />
             <Route path="/learning/flashcards/:deckId" element={<FlashcardDeckPage />} />
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarDays, Check, Copy, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { calendarFeedUrl, useCalendarFeed } from '@/hooks/useCalendarFeed';
+import { toast } from 'sonner';
+
+export function CalendarFeedCard() {
+  const { user } = useAuth();
+  const { feed, isLoading, createFeed, resetFeed, deleteFeed } = useCalendarFeed(user?.id);
+  const [copied, setCopied] = useState(false);
+
+  const feedUrl = feed ? calendarFeedUrl(feed) : null;
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      toast.success('Copied to clipboard');
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error('Failed to copy');
+    }
+  };
+
+  const handleCreate = () => {
+    createFeed.mutate(undefined, {
+      onError: () => toast.error('Failed to create calendar feed'),
+    });
+  };
+
+  const handleReset = () => {
+    resetFeed.mutate(undefined, {
+      onSuccess: () => toast.success('New feed URL created. Update your calendar subscriptions.'),
+      onError: () => toast.error('Failed to reset calendar feed'),
+    });
+  };
+
+  const handleDelete = () => {
+    deleteFeed.mutate(undefined, {
+      onSuccess: () => toast.success('Calendar feed turned off'),
+      onError: () => toast.error('Failed to turn off calendar feed'),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe to your scheduled calls from Apple Calendar, Outlook, Thunderbird or any other
+          calendar app that accepts an ICS URL
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? null : feedUrl ? (
+          <>
+            <div className="flex items-center gap-2 p-3 rounded-lg border bg-muted/30">
+              <code className="text-sm font-mono flex-1 truncate select-all">{feedUrl}</code>
+              <Button variant="ghost" size="sm" className="h-8 px-2 gap-1.5" onClick={handleCopy}>
+                {copied ? (
+                  <><Check className="h-3.5 w-3.5" /> Copied</>
+                ) : (
+                  <><Copy className="h-3.5 w-3.5" /> Copy</>
+                )}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Keep this URL private: anyone with it can see your calls.
+              {feed?.last_fetched_at && ` Last fetched ${format(new Date(feed.last_fetched_at), 'MMM d, h:mm a')}.`}
+            </p>
+            <div className="flex gap-2">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={resetFeed.isPending}>
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    Reset URL
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Reset the feed URL?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The current URL will stop working, and calendars subscribed to it will need the new one.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleReset}>Reset</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                onClick={handleDelete}
+                disabled={deleteFeed.isPending}
+              >
+                Turn Off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button variant="outline" onClick={handleCreate} disabled={createFeed.isPending}>
+            Create Feed URL
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -32,7 +32,9 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
-import { Trash2, CheckCircle, XCircle } from 'lucide-react';
+import { Trash2, CheckCircle, XCircle, Download } from 'lucide-react';
+import { downloadFile } from '@/lib/contact-export';
+import { callEventToIcs, icsFileName, type IcsPerson } from '@/lib/ics';
 import type { CallEvent, CallEventStatus } from '@/lib/types';
 
 const editCallSchema = z.object({
@@ -46,7 +48,7 @@ const editCallSchema = z.object({
 type EditCallFormData = z.infer<typeof editCallSchema>;
 
 type CallEventWithSimpleContact = Omit<CallEvent, 'contact'> & { 
-  contact?: { id: string; name: string; firm: string | null } 
+  contact?: { id: string; name: string; firm: string | null; email?: string | null } 
 };
 
 interface EditCallModalProps {
@@ -56,7 +58,9 @@ interface EditCallModalProps {
   onSubmit: (id: string, data: Partial<EditCallFormData>) => Promise<void>;
   onStatusChange: (id: string, status: CallEventStatus) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
-  onLogInteraction?: (event: CallEventWithSimpleContact) => void;
+  onDebrief?: (event: CallEventWithSimpleContact) => void;
+  /** The user, as the organizer of the downloaded .ics invite */
+  organizer?: IcsPerson;
   isSubmitting?: boolean;
 }
 
@@ -67,10 +71,11 @@ export function EditCallModal({
   onSubmit,
   onStatusChange,
   onDelete,
-  onLogInteraction,
+  onDebrief,
+  organizer,
   isSubmitting,
 }: EditCallModalProps) {
-  const [showLogPrompt, setShowLogPrompt] = useState(false);
+  const [showDebriefPrompt, setShowDebriefPrompt] = useState(false);
 
   const form = useForm<EditCallFormData>({
     resolver: zodResolver(editCallSchema),
@@ -104,7 +109,7 @@ export function EditCallModal({
   const handleMarkCompleted = async () => {
     if (!event) return;
     await onStatusChange(event.id, 'completed');
-    setShowLogPrompt(true);
+    setShowDebriefPrompt(true);
   };
 
   const handleCancel = async () => {
@@ -119,16 +124,22 @@ export function EditCallModal({
     onOpenChange(false);
   };
 
-  const handleLogInteraction = () => {
-    if (event && onLogInteraction) {
-      onLogInteraction(event);
+  const handleDownloadIcs = () => {
+    if (!event) return;
+    const attendee = event.contact?.email ? { name: event.contact.name, email: event.contact.email } : undefined;
+    downloadFile(callEventToIcs(event, { organizer, attendee }), icsFileName(event.title), 'text/calendar;charset=utf-8');
+  };
+
+  const handleDebrief = () => {
+    if (event && onDebrief) {
+      onDebrief(event);
     }
-    setShowLogPrompt(false);
+    setShowDebriefPrompt(false);
     onOpenChange(false);
   };
 
-  const handleSkipLog = () => {
-    setShowLogPrompt(false);
+  const handleSkipDebrief = () => {
+    setShowDebriefPrompt(false);
     onOpenChange(false);
   };
 
@@ -142,7 +153,7 @@ export function EditCallModal({
 
   return (
     <>
-      <Dialog open={open && !showLogPrompt} onOpenChange={onOpenChange}>
+      <Dialog open={open && !showDebriefPrompt} onOpenChange={onOpenChange}>
         <DialogContent className="sm:max-w-[500px] overflow-hidden">
           <DialogHeader>
             <div className="flex items-center gap-2">
@@ -262,6 +273,15 @@ export function EditCallModal({
                       </Button>
                     </>
                   )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDownloadIcs}
+                    title="Download .ics"
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
                   <AlertDialog>
                     <AlertDialogTrigger asChild>
                       <Button type="button" variant="ghost" size="sm" className="text-destructive">
@@ -294,19 +314,19 @@ export function EditCallModal({
         </DialogContent>
       </Dialog>
 
-      {/* Log Interaction Prompt */}
-      <AlertDialog open={showLogPrompt} onOpenChange={setShowLogPrompt}>
+      {/* Debrief Prompt */}
+      <AlertDialog open={showDebriefPrompt} onOpenChange={setShowDebriefPrompt}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Log call notes?</AlertDialogTitle>
+            <AlertDialogTitle>Debrief this call?</AlertDialogTitle>
             <AlertDialogDescription>
-              Would you like to log this call as an interaction with notes? This helps track your relationship history.
+              Record what you discussed, any advice and promised follow-ups while it's fresh. Follow-ups become tasks.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel onClick={handleSkipLog}>Skip</AlertDialogCancel>
-            <AlertDialogAction onClick={handleLogInteraction}>
-              Log Interaction
+            <AlertDialogCancel onClick={handleSkipDebrief}>Skip</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDebrief}>
+              Add Debrief
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
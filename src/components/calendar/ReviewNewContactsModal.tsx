@@ -19,7 +19,7 @@ import {
 } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import type { PendingContact, ConfirmedContact } from '@/hooks/useGoogleCalendar';
+import type { PendingContact, ConfirmedContact } from '@/hooks/useCalendarProvider';
 import type { ConnectionType } from '@/lib/types';
 
 interface ReviewNewContactsModalProps {
@@ -132,7 +132,7 @@ export function ReviewNewContactsModal({
         <DialogHeader>
           <DialogTitle>New Contacts Found</DialogTitle>
           <DialogDescription>
-            The following attendees from your Google Calendar don't match any existing contacts.
+            The following attendees from your calendar don't match any existing contacts.
             Review and edit their details, or uncheck to skip.
           </DialogDescription>
         </DialogHeader>
@@ -53,7 +53,7 @@ interface ScheduleCallModalProps {
   onOpenChange: (open: boolean) => void;
   contacts: Contact[];
   onSubmit: (data: ScheduleCallFormData & { title: string; sendInvite: boolean }) => Promise<void>;
-  gcalConnected?: boolean;
+  calendarConnected?: boolean;
   defaultDate?: Date;
   isSubmitting?: boolean;
   preselectedContactId?: string;
@@ -68,7 +68,7 @@ export function ScheduleCallModal({
   defaultDate,
   isSubmitting,
   preselectedContactId,
-  gcalConnected,
+  calendarConnected,
   userName,
 }: ScheduleCallModalProps) {
   const [contactOpen, setContactOpen] = useState(false);
@@ -279,7 +279,7 @@ export function ScheduleCallModal({
               )}
             />
 
-            {gcalConnected && selectedContact?.email && (
+            {calendarConnected && selectedContact?.email && (
               <div className="flex items-center space-x-2">
                 <Checkbox
                   id="send-invite"
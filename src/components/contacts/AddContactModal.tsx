@@ -30,6 +30,10 @@ import {
 } from '@/components/ui/select';
 import { useContacts } from '@/hooks/useContacts';
 import { useAuth } from '@/hooks/useAuth';
+import { useFirms } from '@/hooks/useFirms';
+import { FirmCombobox } from '@/components/firms/FirmCombobox';
+import { ContactPicker } from './ContactPicker';
+import { findByNameOrAlias } from '@/lib/firms';
 import { CONNECTION_TYPES, type ConnectionType, type ContactStage } from '@/lib/types';
 import { toast } from 'sonner';
 import { useSubscription, type UsageData } from '@/hooks/useSubscription';
@@ -42,6 +46,7 @@ const contactSchema = z.object({
   position: z.string().optional(),
   email: z.string().email().optional().or(z.literal('')),
   connection_type: z.enum(['cold', 'alumni', 'friend', 'referral']),
+  referred_by_id: z.string().nullable().optional(),
   notes_summary: z.string().optional(),
 });
 
@@ -61,7 +66,8 @@ export function AddContactModal({ open: controlledOpen, onOpenChange: controlled
   const open = isControlled ? controlledOpen : internalOpen;
   const setOpen = isControlled ? (controlledOnOpenChange ?? setInternalOpen) : setInternalOpen;
   const { user } = useAuth();
-  const { createContact } = useContacts(user?.id);
+  const { firms } = useFirms(user?.id);
+  const { contacts, createContact } = useContacts(user?.id);
   const { checkUsage } = useSubscription();
   const [paywallOpen, setPaywallOpen] = useState(false);
   const [paywallUsage, setPaywallUsage] = useState<UsageData | null>(null);
@@ -75,10 +81,14 @@ export function AddContactModal({ open: controlledOpen, onOpenChange: controlled
       position: '',
       email: '',
       connection_type: 'cold',
+      referred_by_id: null,
       notes_summary: '',
     },
   });
 
+  // Suggest groups of whichever firm the typed name resolves to
+  const firmGroups = findByNameOrAlias(firms, form.watch('firm'))?.groups ?? [];
+
   const handleOpenChange = async (newOpen: boolean) => {
     if (newOpen) {
       const result = await checkUsage('contact');
@@ -103,12 +113,15 @@ export function AddContactModal({ open: controlledOpen, onOpenChange: controlled
         email: data.email || null,
         phone: null,
         connection_type: data.connection_type as ConnectionType,
+        referred_by_id: data.connection_type === 'referral' ? data.referred_by_id ?? null : null,
         relationship_strength: 1,
         stage,
         last_contacted_at: null,
         next_followup_at: null,
         notes_summary: data.notes_summary || null,
         prep_questions_json: null,
+        tags: [],
+        custom_fields: {},
       });
       toast.success('Contact added successfully');
       setOpen(false);
@@ -166,7 +179,7 @@ export function AddContactModal({ open: controlledOpen, onOpenChange: controlled
                   <FormItem>
                     <FormLabel>Firm</FormLabel>
                     <FormControl>
-                      <Input placeholder="Goldman Sachs" {...field} />
+                      <FirmCombobox placeholder="Goldman Sachs" options={firms} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -180,7 +193,7 @@ export function AddContactModal({ open: controlledOpen, onOpenChange: controlled
                   <FormItem>
                     <FormLabel>Group</FormLabel>
                     <FormControl>
-                      <Input placeholder="TMT" {...field} />
+                      <FirmCombobox placeholder="TMT" options={firmGroups} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -243,6 +256,25 @@ export function AddContactModal({ open: controlledOpen, onOpenChange: controlled
               )}
             />
 
+            {form.watch('connection_type') === 'referral' && (
+              <FormField
+                control={form.control}
+                name="referred_by_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Referred By</FormLabel>
+                    <ContactPicker
+                      value={field.value ?? null}
+                      onChange={field.onChange}
+                      contacts={contacts}
+                      placeholder="Who introduced you?"
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="notes_summary"
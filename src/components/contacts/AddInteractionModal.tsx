@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Plus } from 'lucide-react';
+import { Paperclip, Plus, X } from 'lucide-react';
 import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import {
@@ -15,6 +15,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -22,6 +23,7 @@ import {
 } from '@/components/ui/form';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import {
   Select,
   SelectContent,
@@ -31,12 +33,24 @@ import {
 } from '@/components/ui/select';
 import { useInteractions } from '@/hooks/useInteractions';
 import { useAuth } from '@/hooks/useAuth';
-import { INTERACTION_TYPES, type InteractionType } from '@/lib/types';
+import {
+  INTERACTION_OUTCOMES,
+  INTERACTION_TYPES,
+  type InteractionOutcome,
+  type InteractionType,
+} from '@/lib/types';
 import { toast } from 'sonner';
 
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const NO_OUTCOME = '__none__';
+
 const interactionSchema = z.object({
-  type: z.enum(['email', 'call', 'coffee_chat']),
+  type: z.enum(INTERACTION_TYPES.map((t) => t.value) as [InteractionType, ...InteractionType[]]),
   date: z.string(),
+  duration: z.string().refine((v) => !v || (Number.isInteger(Number(v)) && Number(v) > 0), {
+    message: 'Enter a whole number of minutes',
+  }),
+  outcome: z.string(),
   notes: z.string().optional(),
 });
 
@@ -46,20 +60,35 @@ interface AddInteractionModalProps {
   contactId: string;
 }
 
+const defaultValues = (): InteractionFormData => ({
+  type: 'email',
+  date: format(new Date(), 'yyyy-MM-dd'),
+  duration: '',
+  outcome: NO_OUTCOME,
+  notes: '',
+});
+
 export function AddInteractionModal({ contactId }: AddInteractionModalProps) {
   const [open, setOpen] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
   const { user } = useAuth();
   const { createInteraction } = useInteractions(contactId, user?.id);
 
   const form = useForm<InteractionFormData>({
     resolver: zodResolver(interactionSchema),
-    defaultValues: {
-      type: 'email',
-      date: format(new Date(), 'yyyy-MM-dd'),
-      notes: '',
-    },
+    defaultValues: defaultValues(),
   });
 
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const tooLarge = selected.filter((f) => f.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
+      toast.error(`Attachments must be under 10 MB: ${tooLarge.map((f) => f.name).join(', ')}`);
+    }
+    setFiles((current) => [...current, ...selected.filter((f) => f.size <= MAX_ATTACHMENT_BYTES)]);
+  };
+
   const onSubmit = async (data: InteractionFormData) => {
     try {
       await createInteraction.mutateAsync({
@@ -67,14 +96,14 @@ export function AddInteractionModal({ contactId }: AddInteractionModalProps) {
         type: data.type as InteractionType,
         date: new Date(data.date).toISOString(),
         notes: data.notes || null,
+        duration_minutes: data.duration ? Number(data.duration) : null,
+        outcome: data.outcome === NO_OUTCOME ? null : (data.outcome as InteractionOutcome),
+        files,
       });
       toast.success('Interaction logged');
       setOpen(false);
-      form.reset({
-        type: 'email',
-        date: format(new Date(), 'yyyy-MM-dd'),
-        notes: '',
-      });
+      setFiles([]);
+      form.reset(defaultValues());
     } catch (error) {
       toast.error('Failed to log interaction');
     }
@@ -88,7 +117,7 @@ export function AddInteractionModal({ contactId }: AddInteractionModalProps) {
           Log Interaction
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Log Interaction</DialogTitle>
         </DialogHeader>
@@ -119,15 +148,57 @@ export function AddInteractionModal({ contactId }: AddInteractionModalProps) {
               )}
             />
 
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="duration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration (min)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} placeholder="30" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <FormField
               control={form.control}
-              name="date"
+              name="outcome"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Date</FormLabel>
-                  <FormControl>
-                    <Input type="date" {...field} />
-                  </FormControl>
+                  <FormLabel>Outcome</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_OUTCOME}>—</SelectItem>
+                      {INTERACTION_OUTCOMES.map((outcome) => (
+                        <SelectItem key={outcome.value} value={outcome.value}>
+                          {outcome.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <FormMessage />
                 </FormItem>
               )}
@@ -142,16 +213,44 @@ export function AddInteractionModal({ contactId }: AddInteractionModalProps) {
                   <FormControl>
                     <Textarea
                       placeholder="What did you discuss?"
-                      className="resize-none"
-                      rows={4}
+                      className="resize-none font-mono text-sm"
+                      rows={6}
                       {...field}
                     />
                   </FormControl>
+                  <FormDescription>
+                    Markdown supported: **bold**, *italic*, # headings and - lists
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            <div className="space-y-2">
+              <Label htmlFor="interaction-attachments">Attachments</Label>
+              {files.length > 0 && (
+                <ul className="space-y-1">
+                  {files.map((file, index) => (
+                    <li key={`${file.name}-${index}`} className="flex items-center gap-2 text-sm">
+                      <Paperclip className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                      <span className="truncate flex-1">{file.name}</span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        aria-label={`Remove ${file.name}`}
+                        onClick={() => setFiles((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Input id="interaction-attachments" type="file" multiple onChange={handleFilesSelected} />
+            </div>
+
             <div className="flex justify-end gap-3 pt-4">
               <Button type="button" variant="outline" onClick={() => setOpen(false)}>
                 Cancel
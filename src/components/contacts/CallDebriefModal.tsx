@@ -0,0 +1,331 @@
+import { useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowRight, Plus, Star, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { useCallDebriefs } from '@/hooks/useCallDebriefs';
+import { useContacts } from '@/hooks/useContacts';
+import { useStages } from '@/hooks/useStages';
+import { suggestStageAfterDebrief } from '@/lib/call-debrief';
+import { isStagePast } from '@/lib/stages';
+import type { ContactStage } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { StageBadge } from './StageBadge';
+import { TagInput } from './TagInput';
+import { toast } from 'sonner';
+
+const debriefSchema = z.object({
+  topics: z.string().trim().min(1, 'Add what you talked about'),
+  advice: z.string(),
+  followUps: z.array(z.object({
+    title: z.string(),
+    dueDate: z.string(),
+  })),
+  introOffers: z.array(z.string()),
+  rating: z.number().min(0).max(5),
+  askedForReferral: z.boolean(),
+});
+
+type DebriefFormData = z.infer<typeof debriefSchema>;
+
+const EMPTY_DEBRIEF: DebriefFormData = {
+  topics: '',
+  advice: '',
+  followUps: [],
+  introOffers: [],
+  rating: 0,
+  askedForReferral: false,
+};
+
+interface CallDebriefModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contactId: string;
+  contactName: string;
+  /** The calendar call being debriefed, when there is one */
+  callEventId?: string | null;
+  onComplete: () => void;
+}
+
+function RatingInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <div className="flex items-center gap-1">
+      {[1, 2, 3, 4, 5].map((level) => (
+        <button
+          key={level}
+          type="button"
+          aria-label={`${level} out of 5`}
+          onClick={() => onChange(level === value ? 0 : level)}
+          className="text-muted-foreground hover:text-primary"
+        >
+          <Star className={cn('h-5 w-5', level <= value && 'fill-primary text-primary')} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function CallDebriefModal({
+  open,
+  onOpenChange,
+  contactId,
+  contactName,
+  callEventId = null,
+  onComplete,
+}: CallDebriefModalProps) {
+  const { user } = useAuth();
+  const { saveDebrief } = useCallDebriefs(contactId, user?.id);
+  const { contacts, updateContactStage } = useContacts(user?.id);
+  const { stageKeys, getConfig } = useStages(user?.id);
+  // Set once the debrief is saved and it points to a further stage
+  const [suggestion, setSuggestion] = useState<{ from: ContactStage; to: ContactStage } | null>(null);
+
+  const form = useForm<DebriefFormData>({
+    resolver: zodResolver(debriefSchema),
+    defaultValues: EMPTY_DEBRIEF,
+  });
+  const followUps = useFieldArray({ control: form.control, name: 'followUps' });
+
+  const close = () => {
+    form.reset(EMPTY_DEBRIEF);
+    setSuggestion(null);
+    onOpenChange(false);
+  };
+
+  const onSubmit = async (data: DebriefFormData) => {
+    const debrief = {
+      topics: data.topics.trim(),
+      advice: data.advice.trim() || null,
+      follow_ups: data.followUps
+        .filter((f) => f.title.trim())
+        .map((f) => ({ title: f.title.trim(), due_date: f.dueDate || null })),
+      intro_offers: data.introOffers,
+      rating: data.rating || null,
+      asked_for_referral: data.askedForReferral,
+    };
+
+    try {
+      await saveDebrief.mutateAsync({ contactId, callEventId, debrief });
+    } catch (error) {
+      toast.error('Failed to save debrief');
+      return;
+    }
+
+    const taskCount = debrief.follow_ups.length;
+    toast.success(taskCount > 0 ? `Debrief saved, ${taskCount} follow-up ${taskCount === 1 ? 'task' : 'tasks'} created` : 'Debrief saved');
+    onComplete();
+
+    // The call just happened, so the contact is at Call Done at the least
+    const currentStage = contacts.find((c) => c.id === contactId)?.stage ?? 'call_done';
+    const baseStage = isStagePast(stageKeys, currentStage, 'call_done') ? currentStage : 'call_done';
+    const suggestedStage = suggestStageAfterDebrief(debrief, baseStage, stageKeys);
+    if (suggestedStage) {
+      setSuggestion({ from: baseStage, to: suggestedStage });
+    } else {
+      close();
+    }
+  };
+
+  const handleAcceptSuggestion = () => {
+    if (!suggestion) return;
+    const stage = suggestion.to;
+    updateContactStage.mutate(
+      { id: contactId, stage },
+      {
+        onSuccess: () => toast.success(`Moved ${contactName} to ${getConfig(stage).label}`),
+        onError: () => toast.error('Failed to move contact'),
+      }
+    );
+    close();
+  };
+
+  const handleSkip = () => {
+    onComplete();
+    close();
+  };
+
+  if (suggestion) {
+    const { askedForReferral, rating } = form.getValues();
+    return (
+      <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Update {contactName}'s stage?</DialogTitle>
+            <DialogDescription>
+              {askedForReferral
+                ? 'You asked for a referral on this call.'
+                : `You rated this call ${rating}/5, which sounds like a strong connection.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center justify-center gap-3 py-2">
+            <StageBadge stage={suggestion.from} />
+            <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            <StageBadge stage={suggestion.to} />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="ghost" onClick={close}>
+              Keep at {getConfig(suggestion.from).label}
+            </Button>
+            <Button type="button" onClick={handleAcceptSuggestion}>
+              Move to {getConfig(suggestion.to).label}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Call Debrief</DialogTitle>
+          <DialogDescription>
+            How did the call with {contactName} go? Promised follow-ups become tasks.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="topics"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Topics discussed</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Their path into the group, deal flow, culture..."
+                      className="resize-none"
+                      rows={3}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="advice"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Advice received</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="What they'd do in your position..."
+                      className="resize-none"
+                      rows={3}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label>Follow-ups promised</Label>
+              {followUps.fields.map((item, index) => (
+                <div key={item.id} className="flex items-center gap-2">
+                  <Input
+                    placeholder="Send resume, read their deal memo..."
+                    {...form.register(`followUps.${index}.title`)}
+                  />
+                  <Input type="date" className="w-40 shrink-0" {...form.register(`followUps.${index}.dueDate`)} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0"
+                    aria-label="Remove follow-up"
+                    onClick={() => followUps.remove(index)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => followUps.append({ title: '', dueDate: '' })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add follow-up
+              </Button>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="introOffers"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Offered to introduce</FormLabel>
+                  <TagInput value={field.value} onChange={field.onChange} placeholder="Names, press Enter to add" />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex items-center justify-between gap-4">
+              <FormField
+                control={form.control}
+                name="rating"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>How did it go?</FormLabel>
+                    <RatingInput value={field.value} onChange={field.onChange} />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="askedForReferral"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>I asked for a referral</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="ghost" onClick={handleSkip}>
+                Skip
+              </Button>
+              <Button type="submit" disabled={saveDebrief.isPending}>
+                {saveDebrief.isPending ? 'Saving...' : 'Save Debrief'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
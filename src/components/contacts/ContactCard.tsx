@@ -1,8 +1,12 @@
 import { forwardRef } from 'react';
 import { format, formatDistanceToNow } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
-import { Building2, Clock, CalendarClock, Phone } from 'lucide-react';
+import { Building2, Clock, CalendarClock, Phone, Snowflake } from 'lucide-react';
 import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/useAuth';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { contactCustomFields } from '@/lib/custom-fields';
 import { RelationshipStrength } from './RelationshipStrength';
 import type { Contact, CallEvent } from '@/lib/types';
 
@@ -15,6 +19,9 @@ interface ContactCardProps {
 export const ContactCard = forwardRef<HTMLDivElement, ContactCardProps>(
   function ContactCard({ contact, scheduledCall, onEditCall }, ref) {
     const navigate = useNavigate();
+    const { user } = useAuth();
+    const { customFields } = useCustomFields(user?.id);
+    const fieldValues = contactCustomFields(contact, customFields);
 
     const lastContacted = contact.last_contacted_at
       ? formatDistanceToNow(new Date(contact.last_contacted_at), { addSuffix: true })
@@ -57,6 +64,22 @@ export const ContactCard = forwardRef<HTMLDivElement, ContactCardProps>(
             </div>
           )}
 
+          {fieldValues.map(({ field, value }) => (
+            <div key={field.id} className="text-xs text-muted-foreground truncate">
+              <span className="font-medium">{field.name}:</span> {value}
+            </div>
+          ))}
+
+          {contact.tags?.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {contact.tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="px-1.5 py-0 text-[10px] font-normal">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+
           {/* Show scheduled call time if available */}
           {scheduledCall && (
             <div 
@@ -72,6 +95,12 @@ export const ContactCard = forwardRef<HTMLDivElement, ContactCardProps>(
           <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
             <Clock className="h-3 w-3 shrink-0" />
             <span>{lastContacted}</span>
+            {contact.went_cold_at && (
+              <span className="ml-auto flex items-center gap-1 text-sky-600" title="No reply after follow-ups">
+                <Snowflake className="h-3 w-3" />
+                Cold
+              </span>
+            )}
           </div>
         </div>
       </Card>
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Check, ChevronsUpDown, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import type { Contact } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface ContactPickerProps {
+  value: string | null;
+  onChange: (contactId: string | null) => void;
+  contacts: Contact[];
+  placeholder?: string;
+}
+
+// Searchable single-contact select with a clear button
+export function ContactPicker({ value, onChange, contacts, placeholder = 'Select contact...' }: ContactPickerProps) {
+  const [open, setOpen] = useState(false);
+  const selected = contacts.find((c) => c.id === value);
+
+  return (
+    <div className="flex items-center gap-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" role="combobox" className="flex-1 justify-between font-normal">
+            <span className={cn('truncate', !selected && 'text-muted-foreground')}>
+              {selected ? selected.name : placeholder}
+            </span>
+            <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search contacts..." />
+            <CommandList>
+              <CommandEmpty>No contacts found.</CommandEmpty>
+              <CommandGroup>
+                {contacts.map((contact) => (
+                  <CommandItem
+                    key={contact.id}
+                    value={`${contact.name} ${contact.firm ?? ''} ${contact.id}`}
+                    onSelect={() => {
+                      onChange(contact.id);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check className={cn('h-4 w-4 mr-2', contact.id === value ? 'opacity-100' : 'opacity-0')} />
+                    <div className="flex flex-col">
+                      <span>{contact.name}</span>
+                      {contact.firm && <span className="text-xs text-muted-foreground">{contact.firm}</span>}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {selected && (
+        <Button type="button" variant="ghost" size="icon" title="Clear" onClick={() => onChange(null)}>
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface ContactMultiPickerProps {
+  value: string[];
+  onChange: (contactIds: string[]) => void;
+  contacts: Contact[];
+  placeholder?: string;
+}
+
+// Searchable multi-contact select; picked contacts show as removable chips
+export function ContactMultiPicker({ value, onChange, contacts, placeholder = 'Add contacts...' }: ContactMultiPickerProps) {
+  const selected = value
+    .map((id) => contacts.find((c) => c.id === id))
+    .filter((c): c is Contact => !!c);
+
+  const toggle = (contactId: string) =>
+    onChange(value.includes(contactId) ? value.filter((id) => id !== contactId) : [...value, contactId]);
+
+  return (
+    <div className="space-y-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" role="combobox" className="w-full justify-between font-normal">
+            <span className="truncate text-muted-foreground">
+              {selected.length === 0 ? placeholder : `${selected.length} selected`}
+            </span>
+            <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search contacts..." />
+            <CommandList>
+              <CommandEmpty>No contacts found.</CommandEmpty>
+              <CommandGroup>
+                {contacts.map((contact) => (
+                  <CommandItem
+                    key={contact.id}
+                    value={`${contact.name} ${contact.firm ?? ''} ${contact.id}`}
+                    onSelect={() => toggle(contact.id)}
+                  >
+                    <Check className={cn('h-4 w-4 mr-2', value.includes(contact.id) ? 'opacity-100' : 'opacity-0')} />
+                    <div className="flex flex-col">
+                      <span>{contact.name}</span>
+                      {contact.firm && <span className="text-xs text-muted-foreground">{contact.firm}</span>}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {selected.map((contact) => (
+            <Badge key={contact.id} variant="secondary" className="gap-1 pr-1">
+              {contact.name}
+              <button
+                type="button"
+                className="rounded-sm text-muted-foreground hover:text-foreground"
+                aria-label={`Remove ${contact.name}`}
+                onClick={() => toggle(contact.id)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useStages } from '@/hooks/useStages';
+import { MAIN_PIPELINE_LABEL } from '@/lib/pipelines';
+import type { Contact } from '@/lib/types';
+import { StageBadge } from './StageBadge';
+import { toast } from 'sonner';
+
+interface ContactPipelinesProps {
+  contact: Contact;
+}
+
+// The contact's stage in each pipeline it belongs to. Hidden until the user has extra pipelines.
+export function ContactPipelines({ contact }: ContactPipelinesProps) {
+  const { user } = useAuth();
+  const { pipelines, memberships, addToPipeline, updatePipelineStage, removeFromPipeline } = usePipelines(user?.id);
+  const { stages } = useStages(user?.id);
+
+  if (pipelines.length === 0) return null;
+
+  const joined = memberships.filter((m) => m.contact_id === contact.id);
+  const available = pipelines.filter((p) => !joined.some((m) => m.pipeline_id === p.id));
+
+  const handleAdd = (pipelineId: string) => {
+    addToPipeline.mutate(
+      { pipelineId, contactIds: [contact.id], stage: stages[0].key },
+      { onError: () => toast.error('Failed to add to pipeline') }
+    );
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4 flex flex-wrap items-center gap-3 text-sm">
+        <div className="flex items-center gap-2 rounded-lg border px-3 py-1.5">
+          <span className="text-muted-foreground">{MAIN_PIPELINE_LABEL}</span>
+          <StageBadge stage={contact.stage} />
+        </div>
+        {joined.map((membership) => (
+          <div key={membership.id} className="flex items-center gap-2 rounded-lg border pl-3 pr-1 py-1">
+            <span className="text-muted-foreground">
+              {pipelines.find((p) => p.id === membership.pipeline_id)?.name}
+            </span>
+            <Select
+              value={membership.stage}
+              onValueChange={(stage) =>
+                updatePipelineStage.mutate(
+                  { id: membership.id, stage },
+                  { onError: () => toast.error('Failed to update stage') }
+                )
+              }
+            >
+              <SelectTrigger className="h-7 w-40 border-0 shadow-none">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {stages.map((stage) => (
+                  <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-muted-foreground hover:text-destructive"
+              title="Remove from pipeline"
+              onClick={() =>
+                removeFromPipeline.mutate(membership.id, {
+                  onError: () => toast.error('Failed to remove from pipeline'),
+                })
+              }
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+        {available.length > 0 && (
+          <Select value="" onValueChange={handleAdd}>
+            <SelectTrigger className="h-8 w-44">
+              <SelectValue placeholder="Add to pipeline..." />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((pipeline) => (
+                <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,402 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ArrowRight,
+  Briefcase,
+  CalendarClock,
+  CheckSquare,
+  Coffee,
+  Inbox,
+  Linkedin,
+  Mail,
+  MapPin,
+  MessageSquare,
+  Paperclip,
+  Phone,
+  Presentation,
+  Square,
+  Trash2,
+  Users,
+  type LucideIcon,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useCallDebriefs } from '@/hooks/useCallDebriefs';
+import { useCallEvents } from '@/hooks/useCallEvents';
+import { useContacts } from '@/hooks/useContacts';
+import { useContactInboundEmails } from '@/hooks/useInboundEmails';
+import { useInteractionEvents } from '@/hooks/useInteractionEvents';
+import { getAttachmentUrl, useInteractions, useUserInteractions } from '@/hooks/useInteractions';
+import { useStageEvents } from '@/hooks/useStageEvents';
+import { useTasks } from '@/hooks/useTasks';
+import { buildContactTimeline, formatFileSize, TIMELINE_KINDS, type TimelineItem, type TimelineKind } from '@/lib/timeline';
+import {
+  INTERACTION_OUTCOMES,
+  INTERACTION_TYPES,
+  STAGE_EVENT_SOURCES,
+  type Contact,
+  type Interaction,
+  type InteractionAttachment,
+  type InteractionEvent,
+  type InteractionType,
+} from '@/lib/types';
+import { AddInteractionModal } from './AddInteractionModal';
+import { CallDebriefModal } from './CallDebriefModal';
+import { MarkdownNotes } from './MarkdownNotes';
+import { StageBadge } from './StageBadge';
+
+const INTERACTION_ICONS: Record<InteractionType, LucideIcon> = {
+  email: Mail,
+  call: Phone,
+  coffee_chat: Coffee,
+  linkedin_message: Linkedin,
+  text_message: MessageSquare,
+  info_session: Presentation,
+  superday: Briefcase,
+  career_fair: Users,
+  networking_event: Users,
+};
+
+const INBOUND_STATUS_LABELS: Record<string, string> = {
+  processed: 'Scheduled',
+  needs_confirmation: 'Needs Review',
+  ignored: 'Ignored',
+  failed: 'Failed',
+};
+
+interface ContactTimelineProps {
+  contactId: string;
+}
+
+function AttachmentLink({ attachment }: { attachment: InteractionAttachment }) {
+  const open = async () => {
+    try {
+      window.open(await getAttachmentUrl(attachment), '_blank', 'noopener');
+    } catch (error) {
+      toast.error('Failed to open attachment');
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" size="sm" className="h-7 max-w-full" onClick={open}>
+      <Paperclip className="h-3.5 w-3.5 mr-1.5 shrink-0" />
+      <span className="truncate">{attachment.name}</span>
+      <span className="ml-1.5 text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+    </Button>
+  );
+}
+
+interface InteractionEntryProps {
+  interaction: Interaction;
+  /** The group event this was logged under, if any */
+  event?: InteractionEvent;
+  /** Everyone else logged under the same event */
+  otherAttendees: Contact[];
+  onDelete: () => void;
+}
+
+function InteractionEntry({ interaction, event, otherAttendees, onDelete }: InteractionEntryProps) {
+  const typeLabel = INTERACTION_TYPES.find((t) => t.value === interaction.type)?.label ?? interaction.type;
+  const outcomeLabel = INTERACTION_OUTCOMES.find((o) => o.value === interaction.outcome)?.label ?? interaction.outcome;
+  const attachments = interaction.attachments ?? [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="font-medium text-sm">{event?.name ?? typeLabel}</span>
+        {event && <Badge variant="outline">{typeLabel}</Badge>}
+        {interaction.duration_minutes && (
+          <Badge variant="outline">{interaction.duration_minutes} min</Badge>
+        )}
+        {outcomeLabel && <Badge variant="secondary">{outcomeLabel}</Badge>}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="ml-auto h-7 w-7 text-muted-foreground hover:text-destructive"
+              aria-label="Delete interaction"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this interaction?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {attachments.length > 0
+                  ? 'Its notes and attachments are deleted permanently.'
+                  : 'Its notes are deleted permanently.'}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={onDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+      {event?.location && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <MapPin className="h-3 w-3" />
+          {event.location}
+        </p>
+      )}
+      {event?.notes && <MarkdownNotes notes={event.notes} />}
+      {interaction.notes && <MarkdownNotes notes={interaction.notes} />}
+      {otherAttendees.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Also met:{' '}
+          {otherAttendees.map((contact, index) => (
+            <span key={contact.id}>
+              {index > 0 && ', '}
+              <Link to={`/contact/${contact.id}`} className="text-foreground hover:underline">
+                {contact.name}
+              </Link>
+            </span>
+          ))}
+        </p>
+      )}
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map((attachment) => (
+            <AttachmentLink key={attachment.path} attachment={attachment} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function itemIcon(item: TimelineItem): LucideIcon {
+  switch (item.kind) {
+    case 'interaction':
+      return INTERACTION_ICONS[item.interaction.type] ?? Mail;
+    case 'call':
+      return CalendarClock;
+    case 'email':
+      return Inbox;
+    case 'task':
+      return item.task.completed ? CheckSquare : Square;
+    case 'stage':
+      return ArrowRight;
+  }
+}
+
+// Interactions are logged by day; everything else has a real timestamp
+function itemDate(item: TimelineItem): string {
+  return format(new Date(item.date), item.kind === 'interaction' ? 'MMM d, yyyy' : 'MMM d, yyyy h:mm a');
+}
+
+export function ContactTimeline({ contactId }: ContactTimelineProps) {
+  const { user } = useAuth();
+  const { interactions, isLoading: interactionsLoading, deleteInteraction } = useInteractions(contactId, user?.id);
+  const { callEvents, isLoading: callsLoading } = useCallEvents(user?.id);
+  const { tasks, isLoading: tasksLoading } = useTasks(user?.id);
+  const { stageEvents, isLoading: stageEventsLoading } = useStageEvents(user?.id);
+  const { inboundEmails, isLoading: emailsLoading } = useContactInboundEmails(contactId);
+  const { events } = useInteractionEvents(user?.id);
+  const { data: userInteractions = [] } = useUserInteractions(user?.id);
+  const { contacts } = useContacts(user?.id);
+  const { debriefs } = useCallDebriefs(contactId, user?.id);
+  const [kinds, setKinds] = useState<TimelineKind[]>(TIMELINE_KINDS.map((k) => k.value));
+  const [debriefCallId, setDebriefCallId] = useState<string | null>(null);
+
+  const items = useMemo(
+    () => buildContactTimeline(contactId, { interactions, callEvents, inboundEmails, tasks, stageEvents }),
+    [contactId, interactions, callEvents, inboundEmails, tasks, stageEvents]
+  );
+  const visibleItems = items.filter((item) => kinds.includes(item.kind));
+
+  const eventsById = useMemo(() => new Map(events.map((e) => [e.id, e])), [events]);
+  const attendeesByEvent = useMemo(() => {
+    const contactsById = new Map(contacts.map((c) => [c.id, c]));
+    const byEvent = new Map<string, Contact[]>();
+    for (const interaction of userInteractions) {
+      const contact = contactsById.get(interaction.contact_id);
+      if (!interaction.event_id || !contact) continue;
+      byEvent.set(interaction.event_id, [...(byEvent.get(interaction.event_id) ?? []), contact]);
+    }
+    return byEvent;
+  }, [userInteractions, contacts]);
+  const debriefedCallIds = useMemo(
+    () => new Set(debriefs.map((d) => d.call_event_id).filter(Boolean)),
+    [debriefs]
+  );
+
+  const handleDelete = async (interaction: Interaction) => {
+    try {
+      await deleteInteraction.mutateAsync(interaction);
+      toast.success('Interaction deleted');
+    } catch (error) {
+      toast.error('Failed to delete interaction');
+    }
+  };
+
+  if (interactionsLoading || callsLoading || tasksLoading || stageEventsLoading || emailsLoading) {
+    return <div className="animate-pulse text-muted-foreground">Loading timeline...</div>;
+  }
+
+  if (items.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <p className="text-muted-foreground mb-4">No interactions yet</p>
+          <AddInteractionModal contactId={contactId} />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const renderBody = (item: TimelineItem) => {
+    switch (item.kind) {
+      case 'interaction':
+        return (
+          <InteractionEntry
+            interaction={item.interaction}
+            event={item.interaction.event_id ? eventsById.get(item.interaction.event_id) : undefined}
+            otherAttendees={
+              item.interaction.event_id
+                ? (attendeesByEvent.get(item.interaction.event_id) ?? []).filter((c) => c.id !== contactId)
+                : []
+            }
+            onDelete={() => handleDelete(item.interaction)}
+          />
+        );
+      case 'call':
+        return (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-medium text-sm">{item.callEvent.title}</span>
+              <Badge variant={item.callEvent.status === 'canceled' ? 'outline' : 'secondary'} className="capitalize">
+                {item.callEvent.status}
+              </Badge>
+              {debriefedCallIds.has(item.callEvent.id) ? (
+                <Badge variant="outline">Debriefed</Badge>
+              ) : item.callEvent.status === 'completed' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="ml-auto h-7"
+                  onClick={() => setDebriefCallId(item.callEvent.id)}
+                >
+                  Add debrief
+                </Button>
+              )}
+            </div>
+            {item.callEvent.location && (
+              <p className="text-xs text-muted-foreground">{item.callEvent.location}</p>
+            )}
+            {item.callEvent.notes && (
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{item.callEvent.notes}</p>
+            )}
+          </div>
+        );
+      case 'email':
+        return (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-medium text-sm">{item.email.subject || '(no subject)'}</span>
+              <Badge variant={item.email.status === 'failed' ? 'destructive' : 'secondary'}>
+                {INBOUND_STATUS_LABELS[item.email.status] ?? item.email.status}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">Forwarded email from {item.email.from_address}</p>
+          </div>
+        );
+      case 'task':
+        return (
+          <div className="space-y-1">
+            <span className={item.task.completed ? 'text-sm line-through text-muted-foreground' : 'text-sm font-medium'}>
+              {item.task.title}
+            </span>
+            {item.task.due_date && (
+              <p className="text-xs text-muted-foreground">Due {format(new Date(item.task.due_date), 'MMM d, yyyy')}</p>
+            )}
+          </div>
+        );
+      case 'stage':
+        return (
+          <div className="flex items-center gap-2 flex-wrap text-sm">
+            {item.stageEvent.from_stage && (
+              <>
+                <StageBadge stage={item.stageEvent.from_stage} />
+                <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+              </>
+            )}
+            <StageBadge stage={item.stageEvent.to_stage} />
+            <span className="text-xs text-muted-foreground">
+              {STAGE_EVENT_SOURCES.find((s) => s.value === item.stageEvent.source)?.label ?? item.stageEvent.source}
+            </span>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        size="sm"
+        className="justify-start flex-wrap"
+        value={kinds}
+        onValueChange={(values) => setKinds(values as TimelineKind[])}
+      >
+        {TIMELINE_KINDS.map((kind) => (
+          <ToggleGroupItem key={kind.value} value={kind.value}>{kind.label}</ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {visibleItems.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing to show with these filters.</p>
+      ) : (
+        <ol className="relative space-y-4 border-l border-border ml-4">
+          {visibleItems.map((item) => {
+            const Icon = itemIcon(item);
+            return (
+              <li key={`${item.kind}-${item.id}`} className="relative pl-8">
+                <span className="absolute -left-4 top-3 flex h-8 w-8 items-center justify-center rounded-full border bg-background">
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                </span>
+                <Card>
+                  <CardContent className="p-4 space-y-2">
+                    <p className="text-xs text-muted-foreground">{itemDate(item)}</p>
+                    {renderBody(item)}
+                  </CardContent>
+                </Card>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <CallDebriefModal
+        open={!!debriefCallId}
+        onOpenChange={(open) => !open && setDebriefCallId(null)}
+        contactId={contactId}
+        contactName={contacts.find((c) => c.id === contactId)?.name ?? 'this contact'}
+        callEventId={debriefCallId}
+        onComplete={() => {}}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { CustomFieldDefinition } from '@/lib/types';
+
+const NO_VALUE = '__none__';
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  /** Raw form value; converted with parseCustomFieldInput on save */
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export function CustomFieldInput({ field, value, onChange }: CustomFieldInputProps) {
+  if (field.field_type === 'select') {
+    return (
+      <Select value={value || NO_VALUE} onValueChange={(v) => onChange(v === NO_VALUE ? '' : v)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_VALUE}>—</SelectItem>
+          {/* Keep a value whose option has since been removed selectable */}
+          {[...field.options, ...(value && !field.options.includes(value) ? [value] : [])].map((option) => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      type={field.field_type === 'number' ? 'number' : field.field_type === 'date' ? 'date' : 'text'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { CUSTOM_FIELD_TYPES, type CustomFieldDefinition, type CustomFieldType } from '@/lib/types';
+import { toast } from 'sonner';
+
+function parseOptions(input: string): string[] {
+  return [...new Set(input.split(',').map((o) => o.trim()).filter(Boolean))];
+}
+
+function TypeSelect({ value, onChange }: { value: CustomFieldType; onChange: (type: CustomFieldType) => void }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as CustomFieldType)}>
+      <SelectTrigger className="h-8 w-28">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CUSTOM_FIELD_TYPES.map((type) => (
+          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function FieldRow({ field }: { field: CustomFieldDefinition }) {
+  const { user } = useAuth();
+  const { updateField, deleteField } = useCustomFields(user?.id);
+  const [name, setName] = useState(field.name);
+  const [options, setOptions] = useState(field.options.join(', '));
+
+  const save = async (updates: Parameters<typeof updateField.mutateAsync>[0]) => {
+    try {
+      await updateField.mutateAsync(updates);
+    } catch {
+      toast.error('Failed to update field');
+    }
+  };
+
+  const handleNameBlur = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(field.name);
+      return;
+    }
+    if (trimmed !== field.name) save({ id: field.id, name: trimmed });
+  };
+
+  const handleOptionsBlur = () => {
+    const parsed = parseOptions(options);
+    setOptions(parsed.join(', '));
+    if (parsed.join(',') !== field.options.join(',')) save({ id: field.id, options: parsed });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border p-3 text-sm">
+      <Input className="h-8 w-48" value={name} onChange={(e) => setName(e.target.value)} onBlur={handleNameBlur} />
+      <TypeSelect value={field.field_type} onChange={(field_type) => save({ id: field.id, field_type })} />
+      {field.field_type === 'select' && (
+        <Input
+          className="h-8 flex-1 min-w-48"
+          placeholder="Options, comma separated"
+          value={options}
+          onChange={(e) => setOptions(e.target.value)}
+          onBlur={handleOptionsBlur}
+        />
+      )}
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="ml-auto h-8 w-8 text-muted-foreground hover:text-destructive"
+            title="Delete field"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {field.name}</AlertDialogTitle>
+            <AlertDialogDescription>
+              The field and the values you've entered for it stop showing on your contacts.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteField.mutate(field.id, { onError: () => toast.error('Failed to delete field') })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export function CustomFieldsCard() {
+  const { user } = useAuth();
+  const { customFields, createField } = useCustomFields(user?.id);
+  const [name, setName] = useState('');
+  const [fieldType, setFieldType] = useState<CustomFieldType>('text');
+  const [options, setOptions] = useState('');
+
+  const handleAdd = async () => {
+    if (!name.trim()) return;
+    try {
+      await createField.mutateAsync({
+        name: name.trim(),
+        field_type: fieldType,
+        options: fieldType === 'select' ? parseOptions(options) : [],
+      });
+      setName('');
+      setOptions('');
+      toast.success('Field added');
+    } catch {
+      toast.error('Failed to add field');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Fields</CardTitle>
+        <CardDescription>
+          Extra details to keep on every contact, like hometown or a deal they worked on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {customFields.map((field) => (
+          <FieldRow key={field.id} field={field} />
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Input
+            className="w-48"
+            placeholder="New field name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+          <TypeSelect value={fieldType} onChange={setFieldType} />
+          {fieldType === 'select' && (
+            <Input
+              className="flex-1 min-w-48"
+              placeholder="Options, comma separated"
+              value={options}
+              onChange={(e) => setOptions(e.target.value)}
+            />
+          )}
+          <Button variant="outline" onClick={handleAdd} disabled={createField.isPending || !name.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Field
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
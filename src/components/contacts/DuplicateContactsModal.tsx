@@ -0,0 +1,241 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useContacts } from '@/hooks/useContacts';
+import { useAuth } from '@/hooks/useAuth';
+import { useStages } from '@/hooks/useStages';
+import {
+  MERGE_FIELDS,
+  buildMergedContact,
+  defaultMergeSelection,
+  findDuplicateCandidates,
+  type DuplicateCandidate,
+  type MergeField,
+  type MergeSelection,
+} from '@/lib/contact-duplicates';
+import { getStageLabel } from '@/lib/stages';
+import { CONNECTION_TYPES, type Contact, type StageDefinition } from '@/lib/types';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+function pairKey(candidate: DuplicateCandidate) {
+  return `${candidate.a.id}:${candidate.b.id}`;
+}
+
+function formatFieldValue(contact: Contact, field: MergeField, stages: StageDefinition[]): string {
+  const value = contact[field];
+  if (value === null || value === undefined || value === '') return '—';
+  switch (field) {
+    case 'connection_type':
+      return CONNECTION_TYPES.find((t) => t.value === value)?.label ?? String(value);
+    case 'stage':
+      return getStageLabel(stages, contact.stage);
+    case 'relationship_strength':
+      return `${value}/5`;
+    case 'last_contacted_at':
+    case 'next_followup_at':
+      return format(new Date(value as string), 'MMM d, yyyy');
+    default:
+      return String(value);
+  }
+}
+
+export function DuplicateContactsModal() {
+  const [open, setOpen] = useState(false);
+  const { user } = useAuth();
+  const { contacts, mergeContacts } = useContacts(user?.id);
+  const { stages } = useStages(user?.id);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [merging, setMerging] = useState<DuplicateCandidate | null>(null);
+  const [survivor, setSurvivor] = useState<'a' | 'b'>('a');
+  const [selection, setSelection] = useState<MergeSelection | null>(null);
+
+  const candidates = useMemo(
+    () => (open ? findDuplicateCandidates(contacts).filter((c) => !dismissed.has(pairKey(c))) : []),
+    [open, contacts, dismissed]
+  );
+
+  const startMerge = (candidate: DuplicateCandidate) => {
+    // Keep the older record by default so its created_at and history anchor the merge
+    const keep = new Date(candidate.a.created_at) <= new Date(candidate.b.created_at) ? 'a' : 'b';
+    setMerging(candidate);
+    setSurvivor(keep);
+    setSelection(defaultMergeSelection(keep, candidate.a, candidate.b));
+  };
+
+  const handleSurvivorChange = (keep: 'a' | 'b') => {
+    if (!merging) return;
+    setSurvivor(keep);
+    setSelection(defaultMergeSelection(keep, merging.a, merging.b));
+  };
+
+  const handleMerge = async () => {
+    if (!merging || !selection) return;
+    const survivorContact = survivor === 'a' ? merging.a : merging.b;
+    const duplicateContact = survivor === 'a' ? merging.b : merging.a;
+
+    try {
+      await mergeContacts.mutateAsync({
+        survivorId: survivorContact.id,
+        duplicateId: duplicateContact.id,
+        merged: buildMergedContact(merging.a, merging.b, selection),
+      });
+      toast.success('Contacts merged');
+      setMerging(null);
+      setSelection(null);
+    } catch (error) {
+      console.error('Merge error:', error);
+      toast.error('Failed to merge contacts');
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (!newOpen) {
+      setMerging(null);
+      setSelection(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Users className="h-4 w-4 mr-2" />
+          Duplicates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        {merging && selection ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Merge Contacts</DialogTitle>
+              <DialogDescription>
+                Choose which value to keep for each field. Interactions, calls, tasks and
+                forwarded emails from both contacts are kept, and prep questions and tags are combined.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-[140px_1fr_1fr] gap-2 text-sm">
+                <div />
+                {(['a', 'b'] as const).map((side) => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => handleSurvivorChange(side)}
+                    className={cn(
+                      'rounded-md border px-3 py-2 text-left transition-colors',
+                      survivor === side ? 'border-primary bg-primary/5' : 'border-input hover:bg-muted/50'
+                    )}
+                  >
+                    <span className="block text-xs text-muted-foreground">
+                      {survivor === side ? 'Keep this record' : 'Merge into the other'}
+                    </span>
+                    <span className="font-medium">{merging[side].name}</span>
+                  </button>
+                ))}
+
+                {MERGE_FIELDS.map(({ value: field, label }) => (
+                  <div key={field} className="contents">
+                    <div className="py-2 text-muted-foreground">{label}</div>
+                    {(['a', 'b'] as const).map((side) => (
+                      <button
+                        key={side}
+                        type="button"
+                        onClick={() => setSelection((prev) => (prev ? { ...prev, [field]: side } : prev))}
+                        className={cn(
+                          'rounded-md border px-3 py-2 text-left truncate transition-colors',
+                          selection[field] === side
+                            ? 'border-primary bg-primary/5 text-foreground'
+                            : 'border-input text-muted-foreground hover:bg-muted/50'
+                        )}
+                        title={formatFieldValue(merging[side], field, stages)}
+                      >
+                        {formatFieldValue(merging[side], field, stages)}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-between gap-3 pt-2">
+                <Button variant="ghost" onClick={() => setMerging(null)}>
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back
+                </Button>
+                <Button onClick={handleMerge} disabled={mergeContacts.isPending}>
+                  {mergeContacts.isPending ? 'Merging...' : 'Merge Contacts'}
+                </Button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Possible Duplicates</DialogTitle>
+              <DialogDescription>
+                Contacts that look like the same person, matched by email, name and firm.
+              </DialogDescription>
+            </DialogHeader>
+
+            {candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No duplicates found.</p>
+            ) : (
+              <ScrollArea className="max-h-[60vh]">
+                <div className="space-y-2">
+                  {candidates.map((candidate) => (
+                    <div
+                      key={pairKey(candidate)}
+                      className="flex items-center justify-between gap-4 rounded-lg border p-3"
+                    >
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                          <span className="truncate">{candidate.a.name}</span>
+                          <span className="text-muted-foreground">&</span>
+                          <span className="truncate">{candidate.b.name}</span>
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {candidate.a.firm || 'No firm'} · {candidate.b.firm || 'No firm'}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <Badge variant="secondary">{Math.round(candidate.score * 100)}% match</Badge>
+                          {candidate.reasons.map((reason) => (
+                            <Badge key={reason} variant="outline">{reason}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex shrink-0 gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDismissed((prev) => new Set(prev).add(pairKey(candidate)))}
+                        >
+                          Not a duplicate
+                        </Button>
+                        <Button size="sm" onClick={() => startMerge(candidate)}>
+                          Merge
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
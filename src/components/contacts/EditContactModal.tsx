@@ -31,16 +31,27 @@ import {
 import { Slider } from '@/components/ui/slider';
 import { useContacts } from '@/hooks/useContacts';
 import { useAuth } from '@/hooks/useAuth';
+import { useFirms } from '@/hooks/useFirms';
+import { useStages } from '@/hooks/useStages';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { FirmCombobox } from '@/components/firms/FirmCombobox';
+import { findByNameOrAlias } from '@/lib/firms';
+import { referralDescendants } from '@/lib/referrals';
+import { collectTags, parseCustomFieldInput } from '@/lib/custom-fields';
+import { timezoneOptions } from '@/lib/timezones';
+import { ContactPicker } from './ContactPicker';
+import { TagInput } from './TagInput';
+import { CustomFieldInput } from './CustomFieldInput';
 import { 
   CONNECTION_TYPES, 
-  STAGE_CONFIG,
-  PIPELINE_STAGES,
   type Contact, 
   type ConnectionType,
   type ContactStage 
 } from '@/lib/types';
 import { toast } from 'sonner';
 
+const NO_TIMEZONE = '__none__';
+
 const editContactSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   firm: z.string().optional(),
@@ -48,10 +59,15 @@ const editContactSchema = z.object({
   position: z.string().optional(),
   email: z.string().email().optional().or(z.literal('')),
   phone: z.string().optional(),
+  timezone: z.string(),
   connection_type: z.enum(['cold', 'alumni', 'friend', 'referral']),
+  referred_by_id: z.string().nullable(),
   relationship_strength: z.number().min(1).max(5),
-  stage: z.enum(['researching', 'messaged', 'scheduled', 'call_done', 'strong_connection', 'referral_requested', 'interview', 'offer']),
+  stage: z.string().min(1),
   notes_summary: z.string().optional(),
+  tags: z.array(z.string()),
+  // Raw input per custom field id
+  custom_fields: z.record(z.string()),
 });
 
 type EditContactFormData = z.infer<typeof editContactSchema>;
@@ -63,7 +79,10 @@ interface EditContactModalProps {
 export function EditContactModal({ contact }: EditContactModalProps) {
   const [open, setOpen] = useState(false);
   const { user } = useAuth();
-  const { updateContact } = useContacts(user?.id);
+  const { firms } = useFirms(user?.id);
+  const { stages } = useStages(user?.id);
+  const { customFields } = useCustomFields(user?.id);
+  const { contacts, updateContact } = useContacts(user?.id);
 
   const form = useForm<EditContactFormData>({
     resolver: zodResolver(editContactSchema),
@@ -74,14 +93,35 @@ export function EditContactModal({ contact }: EditContactModalProps) {
       position: contact.position || '',
       email: contact.email || '',
       phone: contact.phone || '',
+      timezone: contact.timezone || NO_TIMEZONE,
       connection_type: contact.connection_type,
+      referred_by_id: contact.referred_by_id,
       relationship_strength: contact.relationship_strength,
       stage: contact.stage,
       notes_summary: contact.notes_summary || '',
+      tags: contact.tags ?? [],
+      custom_fields: Object.fromEntries(
+        customFields.map((field) => [field.id, String(contact.custom_fields?.[field.id] ?? '')])
+      ),
     },
   });
 
+  // Suggest groups of whichever firm the typed name resolves to
+  const firmGroups = findByNameOrAlias(firms, form.watch('firm'))?.groups ?? [];
+
+  // Anyone this contact introduced can't also be its referrer
+  const introduced = new Set(referralDescendants(contacts, contact.id).map((c) => c.id));
+  const referrerOptions = contacts.filter((c) => c.id !== contact.id && !introduced.has(c.id));
+
   const onSubmit = async (data: EditContactFormData) => {
+    // Values of deleted fields are left as they are
+    const customFieldValues = { ...contact.custom_fields };
+    for (const field of customFields) {
+      const value = parseCustomFieldInput(field, data.custom_fields[field.id] ?? '');
+      if (value === undefined) delete customFieldValues[field.id];
+      else customFieldValues[field.id] = value;
+    }
+
     try {
       await updateContact.mutateAsync({
         id: contact.id,
@@ -91,10 +131,14 @@ export function EditContactModal({ contact }: EditContactModalProps) {
         position: data.position || null,
         email: data.email || null,
         phone: data.phone || null,
+        timezone: data.timezone === NO_TIMEZONE ? null : data.timezone,
         connection_type: data.connection_type as ConnectionType,
+        referred_by_id: data.connection_type === 'referral' ? data.referred_by_id : null,
         relationship_strength: data.relationship_strength,
         stage: data.stage as ContactStage,
         notes_summary: data.notes_summary || null,
+        tags: data.tags,
+        custom_fields: customFieldValues,
       });
       toast.success('Contact updated');
       setOpen(false);
@@ -139,7 +183,7 @@ export function EditContactModal({ contact }: EditContactModalProps) {
                   <FormItem>
                     <FormLabel>Firm</FormLabel>
                     <FormControl>
-                      <Input {...field} />
+                      <FirmCombobox options={firms} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -153,7 +197,7 @@ export function EditContactModal({ contact }: EditContactModalProps) {
                   <FormItem>
                     <FormLabel>Group</FormLabel>
                     <FormControl>
-                      <Input {...field} />
+                      <FirmCombobox options={firmGroups} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -189,9 +233,9 @@ export function EditContactModal({ contact }: EditContactModalProps) {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {PIPELINE_STAGES.map((stage) => (
-                          <SelectItem key={stage} value={stage}>
-                            {STAGE_CONFIG[stage].label}
+                        {stages.map((stage) => (
+                          <SelectItem key={stage.key} value={stage.key}>
+                            {stage.label}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -232,6 +276,32 @@ export function EditContactModal({ contact }: EditContactModalProps) {
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="timezone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Timezone</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_TIMEZONE}>Not set</SelectItem>
+                      {timezoneOptions(contact.timezone).map((tz) => (
+                        <SelectItem key={tz.value} value={tz.value}>
+                          {tz.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -280,6 +350,65 @@ export function EditContactModal({ contact }: EditContactModalProps) {
               />
             </div>
 
+            {form.watch('connection_type') === 'referral' && (
+              <FormField
+                control={form.control}
+                name="referred_by_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Referred By</FormLabel>
+                    <ContactPicker
+                      value={field.value}
+                      onChange={field.onChange}
+                      contacts={referrerOptions}
+                      placeholder="Who introduced you?"
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <TagInput
+                    value={field.value}
+                    onChange={field.onChange}
+                    suggestions={collectTags(contacts)}
+                    placeholder="e.g. target, superday"
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {customFields.length > 0 && (
+              <div className="grid grid-cols-2 gap-4">
+                {customFields.map((customField) => (
+                  <FormField
+                    key={customField.id}
+                    control={form.control}
+                    name={`custom_fields.${customField.id}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{customField.name}</FormLabel>
+                        <CustomFieldInput
+                          field={customField}
+                          value={field.value ?? ''}
+                          onChange={field.onChange}
+                        />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="notes_summary"
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useAuth } from '@/hooks/useAuth';
+import { useContactExport } from '@/hooks/useContactExport';
+import { useStages } from '@/hooks/useStages';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import {
+  EXPORT_FORMATS,
+  downloadFile,
+  serializeContacts,
+  type ExportFormat,
+  type ExportOptions,
+} from '@/lib/contact-export';
+import { toast } from 'sonner';
+
+const INCLUDE_OPTIONS: { key: keyof ExportOptions; label: string }[] = [
+  { key: 'includeInteractions', label: 'Interactions' },
+  { key: 'includeCallEvents', label: 'Calls' },
+  { key: 'includePrepQuestions', label: 'Prep questions' },
+];
+
+export function ExportContactsModal() {
+  const [open, setOpen] = useState(false);
+  const { user } = useAuth();
+  const { fetchContactsForExport } = useContactExport(user?.id);
+  const { stages } = useStages(user?.id);
+  const { customFields } = useCustomFields(user?.id);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [options, setOptions] = useState<ExportOptions>({
+    includeInteractions: true,
+    includeCallEvents: true,
+    includePrepQuestions: true,
+  });
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const contacts = await fetchContactsForExport();
+      if (contacts.length === 0) {
+        toast.error('No contacts to export');
+        return;
+      }
+
+      const { content, mimeType, extension } = serializeContacts(contacts, exportFormat, options, stages, customFields);
+      downloadFile(content, `offerready-contacts-${format(new Date(), 'yyyy-MM-dd')}.${extension}`, mimeType);
+      toast.success(`Exported ${contacts.length} contact${contacts.length === 1 ? '' : 's'}`);
+      setOpen(false);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Failed to export contacts');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Export Contacts</DialogTitle>
+          <DialogDescription>Download your whole pipeline.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <Label>Format</Label>
+            <RadioGroup
+              value={exportFormat}
+              onValueChange={(value) => setExportFormat(value as ExportFormat)}
+            >
+              {EXPORT_FORMATS.map((f) => (
+                <div key={f.value} className="flex items-start space-x-2">
+                  <RadioGroupItem value={f.value} id={`export-${f.value}`} className="mt-0.5" />
+                  <Label htmlFor={`export-${f.value}`} className="cursor-pointer">
+                    <span className="font-medium">{f.label}</span>
+                    <span className="block text-xs text-muted-foreground font-normal">{f.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Include</Label>
+            <div className="flex flex-wrap gap-2">
+              {INCLUDE_OPTIONS.map((opt) => (
+                <label
+                  key={opt.key}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-md border cursor-pointer transition-colors ${
+                    options[opt.key] ? 'border-primary bg-primary/5' : 'border-input hover:bg-muted/50'
+                  }`}
+                >
+                  <Checkbox
+                    checked={options[opt.key]}
+                    onCheckedChange={(checked) => setOptions((prev) => ({ ...prev, [opt.key]: checked === true }))}
+                  />
+                  <span className="text-sm">{opt.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleExport} disabled={exporting}>
+              {exporting ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Exporting...
+                </>
+              ) : (
+                'Export'
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,432 @@
+import { useMemo, useRef, useState } from 'react';
+import { Upload, FileSpreadsheet, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useContacts } from '@/hooks/useContacts';
+import { useContactExport } from '@/hooks/useContactExport';
+import { useStages } from '@/hooks/useStages';
+import { useAuth } from '@/hooks/useAuth';
+import { useSubscription, type UsageData } from '@/hooks/useSubscription';
+import { PaywallModal } from '@/components/paywall/PaywallModal';
+import { parseContactExport, type ContactExportFile } from '@/lib/contact-export';
+import {
+  IMPORT_FIELDS,
+  autoMapColumns,
+  buildImportRows,
+  createDuplicateChecker,
+  parseContactsCsv,
+  type ColumnMapping,
+  type ImportField,
+  type ParsedCsv,
+} from '@/lib/contact-import';
+import {
+  CONNECTION_TYPES,
+  type ConnectionType,
+  type ContactStage,
+} from '@/lib/types';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+const UNMAPPED = '__none__';
+
+export function ImportContactsModal() {
+  const [open, setOpen] = useState(false);
+  const { user } = useAuth();
+  const { contacts, importContacts } = useContacts(user?.id);
+  const { stages } = useStages(user?.id);
+  const { restoreContacts } = useContactExport(user?.id);
+  const { checkUsage } = useSubscription();
+  const [paywallOpen, setPaywallOpen] = useState(false);
+  const [paywallUsage, setPaywallUsage] = useState<UsageData | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedCsv | null>(null);
+  const [backup, setBackup] = useState<ContactExportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaultConnectionType, setDefaultConnectionType] = useState<ConnectionType>('cold');
+  const [defaultStage, setDefaultStage] = useState<ContactStage>('researching');
+
+  const rows = useMemo(() => {
+    if (!parsed) return [];
+    return buildImportRows(parsed, mapping, contacts, {
+      connection_type: defaultConnectionType,
+      stage: defaultStage,
+    }, stages);
+  }, [parsed, mapping, contacts, defaultConnectionType, defaultStage, stages]);
+
+  const backupSummary = useMemo(() => {
+    if (!backup) return null;
+    const isDuplicate = createDuplicateChecker(contacts);
+    const newContacts = backup.contacts.filter((c) => !isDuplicate(c));
+    return {
+      newContacts: newContacts.length,
+      duplicates: backup.contacts.length - newContacts.length,
+      interactions: newContacts.reduce((sum, c) => sum + (c.interactions?.length ?? 0), 0),
+      callEvents: newContacts.reduce((sum, c) => sum + (c.call_events?.length ?? 0), 0),
+    };
+  }, [backup, contacts]);
+
+  const validRows = rows.filter((r) => r.status === 'valid');
+  const invalidCount = rows.filter((r) => r.status === 'invalid').length;
+  const duplicateCount = rows.filter((r) => r.status === 'duplicate').length;
+
+  const reset = () => {
+    setFileName(null);
+    setParsed(null);
+    setBackup(null);
+    setMapping({});
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (!newOpen) reset();
+  };
+
+  const handleFileSelect = async (file: File) => {
+    const lowerName = file.name.toLowerCase();
+    if (lowerName.endsWith('.json')) {
+      try {
+        setBackup(parseContactExport(await file.text()));
+        setFileName(file.name);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to read JSON file');
+      }
+      return;
+    }
+
+    if (!lowerName.endsWith('.csv')) {
+      toast.error('Please upload a CSV or JSON file');
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      const result = parseContactsCsv(text);
+      if (result.headers.length === 0 || result.rows.length === 0) {
+        toast.error('No rows found in this file');
+        return;
+      }
+      setFileName(file.name);
+      setParsed(result);
+      setMapping(autoMapColumns(result.headers));
+    } catch (error) {
+      console.error('CSV parse error:', error);
+      toast.error('Failed to read CSV file');
+    }
+  };
+
+  const handleMappingChange = (column: number, value: string) => {
+    setMapping((prev) => ({
+      ...prev,
+      [column]: value === UNMAPPED ? null : (value as ImportField),
+    }));
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+
+    const usage = await checkUsage('contact', validRows.length);
+    if (!usage.allowed) {
+      setPaywallUsage(usage.usage);
+      setPaywallOpen(true);
+      return;
+    }
+
+    try {
+      const { imported } = await importContacts.mutateAsync(validRows.map((r) => r.contact));
+      const skipped = rows.length - imported;
+      toast.success(
+        `Imported ${imported} contact${imported === 1 ? '' : 's'}${skipped ? ` (${skipped} skipped)` : ''}`
+      );
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Import error:', error);
+      toast.error('Failed to import contacts');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup || !backupSummary?.newContacts) return;
+
+    const usage = await checkUsage('contact', backupSummary.newContacts);
+    if (!usage.allowed) {
+      setPaywallUsage(usage.usage);
+      setPaywallOpen(true);
+      return;
+    }
+
+    try {
+      const { restored, skipped } = await restoreContacts.mutateAsync(backup.contacts);
+      toast.success(
+        `Restored ${restored} contact${restored === 1 ? '' : 's'}${skipped ? ` (${skipped} skipped)` : ''}`
+      );
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast.error('Failed to import backup');
+    }
+  };
+
+  const hasNameColumn = Object.values(mapping).some(
+    (field) => field === 'name' || field === 'first_name' || field === 'last_name'
+  );
+
+  return (
+    <>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Contacts</DialogTitle>
+          <DialogDescription>
+            Upload a CSV spreadsheet, a LinkedIn Connections.csv export, or an OfferReady JSON export.
+          </DialogDescription>
+        </DialogHeader>
+
+        {backup && backupSummary ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{fileName}</span>
+              <Button variant="ghost" size="sm" onClick={reset}>
+                Choose another file
+              </Button>
+            </div>
+            <div className="rounded-lg border p-4 space-y-1 text-sm">
+              <p>
+                <span className="font-medium">{backupSummary.newContacts}</span> contacts,{' '}
+                <span className="font-medium">{backupSummary.interactions}</span> interactions and{' '}
+                <span className="font-medium">{backupSummary.callEvents}</span> calls will be imported.
+              </p>
+              {backupSummary.duplicates > 0 && (
+                <p className="text-muted-foreground">
+                  {backupSummary.duplicates} contacts already exist and will be skipped.
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Interaction attachments, group events and calendar links stay with the account that
+                made the backup. Call debriefs, outreach sequences and pipelines aren't part of a backup.
+              </p>
+            </div>
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRestore}
+                disabled={backupSummary.newContacts === 0 || restoreContacts.isPending}
+              >
+                {restoreContacts.isPending ? 'Importing...' : 'Import backup'}
+              </Button>
+            </div>
+          </div>
+        ) : !parsed ? (
+          <div
+            className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-border p-10 text-center cursor-pointer hover:border-primary/50 transition-colors"
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              const file = e.dataTransfer.files[0];
+              if (file) handleFileSelect(file);
+            }}
+          >
+            <FileSpreadsheet className="h-8 w-8 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              Drop a CSV or JSON file here, or click to browse
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv,.json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFileSelect(file);
+              }}
+            />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{fileName}</span>
+              <Button variant="ghost" size="sm" onClick={reset}>
+                Choose another file
+              </Button>
+            </div>
+
+            {/* Column mapping */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Map columns</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {parsed.headers.map((header, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground truncate w-1/2" title={header}>
+                      {header || `Column ${index + 1}`}
+                    </span>
+                    <Select
+                      value={mapping[index] ?? UNMAPPED}
+                      onValueChange={(value) => handleMappingChange(index, value)}
+                    >
+                      <SelectTrigger className="h-8 w-1/2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                        {IMPORT_FIELDS.map((field) => (
+                          <SelectItem key={field.value} value={field.value}>
+                            {field.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Defaults for rows without a connection type / stage column */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1.5">
+                <label className="text-sm font-medium text-muted-foreground">Default connection type</label>
+                <Select
+                  value={defaultConnectionType}
+                  onValueChange={(value) => setDefaultConnectionType(value as ConnectionType)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONNECTION_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-sm font-medium text-muted-foreground">Default stage</label>
+                <Select value={defaultStage} onValueChange={(value) => setDefaultStage(value as ContactStage)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stages.map((stage) => (
+                      <SelectItem key={stage.key} value={stage.key}>
+                        {stage.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {!hasNameColumn && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                Map at least one name column to import contacts.
+              </div>
+            )}
+
+            {/* Preview */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="secondary">{validRows.length} ready</Badge>
+                {duplicateCount > 0 && <Badge variant="outline">{duplicateCount} duplicates</Badge>}
+                {invalidCount > 0 && <Badge variant="destructive">{invalidCount} with errors</Badge>}
+              </div>
+              <ScrollArea className="h-64 rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">#</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Firm</TableHead>
+                      <TableHead>Position</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow
+                        key={row.rowNumber}
+                        className={cn(row.status !== 'valid' && 'text-muted-foreground')}
+                      >
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell className="font-medium">{row.contact.name || '—'}</TableCell>
+                        <TableCell>{row.contact.firm || '—'}</TableCell>
+                        <TableCell>{row.contact.position || '—'}</TableCell>
+                        <TableCell>{row.contact.email || '—'}</TableCell>
+                        <TableCell>
+                          {row.status === 'valid' && <span className="text-primary">Ready</span>}
+                          {row.status === 'duplicate' && <span>Duplicate — skipped</span>}
+                          {row.status === 'invalid' && (
+                            <span className="text-destructive">{row.errors.join('; ')}</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={validRows.length === 0 || importContacts.isPending}
+              >
+                {importContacts.isPending
+                  ? 'Importing...'
+                  : `Import ${validRows.length} contact${validRows.length === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+
+    <PaywallModal
+      open={paywallOpen}
+      onOpenChange={setPaywallOpen}
+      feature="contact"
+      usage={paywallUsage}
+    />
+    </>
+  );
+}
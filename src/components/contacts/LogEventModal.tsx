@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Presentation } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useContacts } from '@/hooks/useContacts';
+import { useInteractionEvents } from '@/hooks/useInteractionEvents';
+import { EVENT_INTERACTION_TYPES, INTERACTION_TYPES, type InteractionType } from '@/lib/types';
+import { ContactMultiPicker } from './ContactPicker';
+import { toast } from 'sonner';
+
+const eventSchema = z.object({
+  type: z.string(),
+  name: z.string().trim().min(1, 'Name is required'),
+  date: z.string(),
+  location: z.string().optional(),
+  notes: z.string().optional(),
+  contactIds: z.array(z.string()).min(1, 'Pick at least one person you met'),
+});
+
+type EventFormData = z.infer<typeof eventSchema>;
+
+interface LogEventModalProps {
+  /** Attendees to start with, e.g. the contact whose page this was opened from */
+  defaultContactIds?: string[];
+  trigger?: React.ReactNode;
+}
+
+const defaultValues = (contactIds: string[]): EventFormData => ({
+  type: 'info_session',
+  name: '',
+  date: format(new Date(), 'yyyy-MM-dd'),
+  location: '',
+  notes: '',
+  contactIds,
+});
+
+export function LogEventModal({ defaultContactIds = [], trigger }: LogEventModalProps) {
+  const [open, setOpen] = useState(false);
+  const { user } = useAuth();
+  const { contacts } = useContacts(user?.id);
+  const { logEvent } = useInteractionEvents(user?.id);
+
+  const form = useForm<EventFormData>({
+    resolver: zodResolver(eventSchema),
+    defaultValues: defaultValues(defaultContactIds),
+  });
+
+  // Pick up the current selection each time the dialog opens
+  const defaultKey = defaultContactIds.join(',');
+  useEffect(() => {
+    if (open) form.reset(defaultValues(defaultKey ? defaultKey.split(',') : []));
+  }, [open, defaultKey, form]);
+
+  const onSubmit = async (data: EventFormData) => {
+    try {
+      await logEvent.mutateAsync({
+        name: data.name.trim(),
+        type: data.type as InteractionType,
+        date: new Date(data.date).toISOString(),
+        location: data.location?.trim() || null,
+        notes: data.notes || null,
+        contactIds: data.contactIds,
+      });
+      toast.success(`Event logged for ${data.contactIds.length} ${data.contactIds.length === 1 ? 'contact' : 'contacts'}`);
+      setOpen(false);
+    } catch (error) {
+      toast.error('Failed to log event');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger ?? (
+          <Button size="sm" variant="outline">
+            <Presentation className="h-4 w-4 mr-2" />
+            Log Event
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Log Event</DialogTitle>
+          <DialogDescription>
+            Record an info session, superday or career fair once for everyone you met there.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {INTERACTION_TYPES.filter((t) => EVENT_INTERACTION_TYPES.includes(t.value)).map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Goldman Sachs TMT info session" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Location</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Campus, Zoom, 200 West St..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="contactIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>People you met</FormLabel>
+                  <ContactMultiPicker value={field.value} onChange={field.onChange} contacts={contacts} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Takeaways, who to follow up with..."
+                      className="resize-none font-mono text-sm"
+                      rows={4}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={logEvent.isPending}>
+                {logEvent.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { parseUserMarkdown } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+interface MarkdownNotesProps {
+  notes: string;
+  className?: string;
+}
+
+export function MarkdownNotes({ notes, className }: MarkdownNotesProps) {
+  const html = useMemo(() => parseUserMarkdown(notes), [notes]);
+
+  return (
+    <div
+      className={cn(
+        'prose prose-sm prose-slate dark:prose-invert max-w-none text-muted-foreground',
+        'prose-headings:text-foreground prose-headings:font-semibold prose-headings:mt-3 prose-headings:mb-1',
+        'prose-p:my-1 prose-ul:my-1 prose-li:my-0 prose-strong:text-foreground',
+        'prose-code:before:content-none prose-code:after:content-none',
+        className
+      )}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,86 @@
+import { Link } from 'react-router-dom';
+import { ArrowDown, GitBranch } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import { useContacts } from '@/hooks/useContacts';
+import { referralAncestors, referralTree, type ReferralNode } from '@/lib/referrals';
+import type { Contact } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { StageBadge } from './StageBadge';
+
+interface ReferralChainProps {
+  contact: Contact;
+}
+
+function ChainEntry({ contact, current = false }: { contact: Contact; current?: boolean }) {
+  const content = (
+    <>
+      <span className="font-medium">{contact.name}</span>
+      {contact.firm && <span className="text-muted-foreground truncate">{contact.firm}</span>}
+      <StageBadge stage={contact.stage} />
+    </>
+  );
+
+  if (current) {
+    return (
+      <div className="inline-flex items-center gap-2 rounded-lg border border-primary bg-primary/5 px-3 py-1.5 text-sm">
+        {content}
+      </div>
+    );
+  }
+  return (
+    <Link
+      to={`/contact/${contact.id}`}
+      className="inline-flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm hover:bg-muted/50"
+    >
+      {content}
+    </Link>
+  );
+}
+
+function ReferralBranch({ nodes }: { nodes: ReferralNode[] }) {
+  return (
+    <ul className="ml-4 space-y-2 border-l pl-4">
+      {nodes.map((node) => (
+        <li key={node.contact.id} className="space-y-2">
+          <ChainEntry contact={node.contact} />
+          {node.children.length > 0 && <ReferralBranch nodes={node.children} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Who introduced this contact, and everyone they went on to introduce. Hidden when there's no chain.
+export function ReferralChain({ contact }: ReferralChainProps) {
+  const { user } = useAuth();
+  const { contacts } = useContacts(user?.id);
+
+  const ancestors = referralAncestors(contacts, contact.id);
+  const introduced = referralTree(contacts, contact.id);
+
+  if (ancestors.length === 0 && introduced.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-medium flex items-center gap-2">
+          <GitBranch className="h-4 w-4" />
+          Introduction Chain
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {ancestors.map((ancestor) => (
+          <div key={ancestor.id} className="space-y-2">
+            <ChainEntry contact={ancestor} />
+            <ArrowDown className="ml-4 h-4 w-4 text-muted-foreground" />
+          </div>
+        ))}
+        <div className={cn(introduced.length > 0 && 'space-y-2')}>
+          <ChainEntry contact={contact} current />
+          {introduced.length > 0 && <ReferralBranch nodes={introduced} />}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useMemo } from 'react';
+import { Check, HelpCircle, Pin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAuth } from '@/hooks/useAuth';
+import { useContacts } from '@/hooks/useContacts';
+import { useStages } from '@/hooks/useStages';
+import { scoreRelationship } from '@/lib/relationship-score';
+import type { Contact, Interaction } from '@/lib/types';
+import { RelationshipStrength } from './RelationshipStrength';
+import { toast } from 'sonner';
+
+interface RelationshipSuggestionProps {
+  contact: Contact;
+  interactions: Interaction[];
+}
+
+// Suggested strength next to the manual one, with a "why" breakdown and accept / pin actions
+export function RelationshipSuggestion({ contact, interactions }: RelationshipSuggestionProps) {
+  const { user } = useAuth();
+  const { updateContact } = useContacts(user?.id);
+  const { stages } = useStages(user?.id);
+  const score = useMemo(() => scoreRelationship(contact, interactions, stages), [contact, interactions, stages]);
+
+  const update = async (updates: Partial<Contact>, message: string) => {
+    try {
+      await updateContact.mutateAsync({ id: contact.id, ...updates });
+      toast.success(message);
+    } catch {
+      toast.error('Failed to update relationship strength');
+    }
+  };
+
+  if (contact.relationship_strength_pinned) {
+    return (
+      <button
+        type="button"
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        onClick={() => update({ relationship_strength_pinned: false }, 'Suggestions turned back on')}
+        title="Unpin to see suggested strength again"
+      >
+        <Pin className="h-3 w-3 fill-current" />
+        Pinned
+      </button>
+    );
+  }
+
+  const differs = score.suggested !== contact.relationship_strength;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <Popover>
+        <PopoverTrigger asChild>
+          <button type="button" className="flex items-center gap-1.5 hover:text-foreground">
+            {differs ? (
+              <>
+                Suggested
+                <RelationshipStrength strength={score.suggested} />
+              </>
+            ) : (
+              'Matches suggestion'
+            )}
+            <HelpCircle className="h-3 w-3" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80" align="start">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Why {score.suggested}/5?</span>
+              <span className="text-xs text-muted-foreground">{score.points} points</span>
+            </div>
+            {score.factors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No interactions logged yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {score.factors.map((factor) => (
+                  <li key={factor.label} className="flex items-start justify-between gap-3 text-sm">
+                    <div>
+                      <div className="font-medium">{factor.label}</div>
+                      <div className="text-xs text-muted-foreground">{factor.detail}</div>
+                    </div>
+                    {factor.points > 0 && (
+                      <span className="shrink-0 tabular-nums text-muted-foreground">+{factor.points}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Coffee chats count most, then calls, then emails. Older interactions count for less.
+            </p>
+          </div>
+        </PopoverContent>
+      </Popover>
+      {differs && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          title="Accept suggestion"
+          disabled={updateContact.isPending}
+          onClick={() => update({ relationship_strength: score.suggested }, 'Relationship strength updated')}
+        >
+          <Check className="h-3.5 w-3.5" />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        title="Pin current strength"
+        disabled={updateContact.isPending}
+        onClick={() => update({ relationship_strength_pinned: true }, 'Relationship strength pinned')}
+      >
+        <Pin className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { cn } from '@/lib/utils';
-import { STAGE_CONFIG, type ContactStage } from '@/lib/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useStages } from '@/hooks/useStages';
+import type { ContactStage } from '@/lib/types';
 
 interface StageBadgeProps {
   stage: ContactStage;
@@ -7,7 +9,9 @@ interface StageBadgeProps {
 }
 
 export function StageBadge({ stage, className }: StageBadgeProps) {
-  const config = STAGE_CONFIG[stage];
+  const { user } = useAuth();
+  const { getConfig } = useStages(user?.id);
+  const config = getConfig(stage);
   
   return (
     <span className={cn('stage-badge', config.className, className)}>
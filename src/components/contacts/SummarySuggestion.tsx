@@ -0,0 +1,86 @@
+import { useMemo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useContactSummary } from '@/hooks/useContactSummary';
+import { diffWords } from '@/lib/text-diff';
+import type { Contact } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface SummarySuggestionProps {
+  contact: Contact;
+  /** Called once the suggestion has replaced the notes */
+  onAccepted?: () => void;
+}
+
+// Regenerated summary shown as a diff against the current notes, with accept / dismiss
+export function SummarySuggestion({ contact, onAccepted }: SummarySuggestionProps) {
+  const { acceptSuggestion, dismissSuggestion } = useContactSummary(contact.id);
+  const suggestion = contact.notes_summary_suggestion;
+  const segments = useMemo(
+    () => (suggestion ? diffWords(contact.notes_summary ?? '', suggestion) : []),
+    [contact.notes_summary, suggestion]
+  );
+
+  if (!suggestion) return null;
+
+  const handleAccept = async () => {
+    try {
+      await acceptSuggestion.mutateAsync(suggestion);
+      onAccepted?.();
+      toast.success('Summary updated');
+    } catch {
+      toast.error('Failed to update summary');
+    }
+  };
+
+  const handleDismiss = async () => {
+    try {
+      await dismissSuggestion.mutateAsync();
+    } catch {
+      toast.error('Failed to dismiss suggestion');
+    }
+  };
+
+  const pending = acceptSuggestion.isPending || dismissSuggestion.isPending;
+
+  return (
+    <div className="rounded-lg border border-primary/30 bg-primary/5 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Sparkles className="h-4 w-4 text-primary" />
+          Suggested summary update
+        </div>
+        {contact.notes_summary_suggested_at && (
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(contact.notes_summary_suggested_at), { addSuffix: true })}
+          </span>
+        )}
+      </div>
+      <p className="text-sm whitespace-pre-wrap">
+        {segments.map((segment, index) => (
+          <span
+            key={index}
+            className={cn(
+              segment.kind === 'added' && 'bg-green-500/15 text-green-700 dark:text-green-400',
+              segment.kind === 'removed' && 'bg-destructive/10 text-destructive line-through'
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" disabled={pending} onClick={handleDismiss}>
+          <X className="h-4 w-4 mr-1" />
+          Dismiss
+        </Button>
+        <Button size="sm" disabled={pending} onClick={handleAccept}>
+          <Check className="h-4 w-4 mr-1" />
+          Accept
+        </Button>
+      </div>
+    </div>
+  );
+}
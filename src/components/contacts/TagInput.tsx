@@ -0,0 +1,66 @@
+import { useId, useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { normalizeTags } from '@/lib/custom-fields';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Tags already in use, offered as completions */
+  suggestions?: string[];
+  placeholder?: string;
+}
+
+// Chips plus a text box; Enter or comma adds a tag, Backspace on an empty box removes the last one
+export function TagInput({ value, onChange, suggestions = [], placeholder = 'Add tag...' }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+  const listId = useId();
+
+  const add = (tag: string) => {
+    if (tag.trim()) onChange(normalizeTags([...value, tag]));
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      add(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex min-h-10 flex-wrap items-center gap-1.5 rounded-md border border-input bg-background px-3 py-1.5 text-sm ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+      {value.map((tag) => (
+        <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+          {tag}
+          <button
+            type="button"
+            className="rounded-sm text-muted-foreground hover:text-foreground"
+            aria-label={`Remove ${tag}`}
+            onClick={() => onChange(value.filter((t) => t !== tag))}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <input
+        className="min-w-24 flex-1 bg-transparent outline-none placeholder:text-muted-foreground"
+        list={listId}
+        value={draft}
+        placeholder={value.length === 0 ? placeholder : undefined}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => add(draft)}
+      />
+      <datalist id={listId}>
+        {suggestions
+          .filter((s) => !value.some((t) => t.toLowerCase() === s.toLowerCase()))
+          .map((s) => (
+            <option key={s} value={s} />
+          ))}
+      </datalist>
+    </div>
+  );
+}
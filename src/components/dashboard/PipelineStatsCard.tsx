@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Columns3 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { StageBadge } from '@/components/contacts/StageBadge';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useStages } from '@/hooks/useStages';
+import { contactsInPipeline, MAIN_PIPELINE_LABEL } from '@/lib/pipelines';
+import { isStagePast } from '@/lib/stages';
+import type { Contact } from '@/lib/types';
+
+const MAIN_PIPELINE = '__main__';
+
+interface PipelineStatsCardProps {
+  userId: string | undefined;
+  contacts: Contact[];
+}
+
+// Stage counts for one pipeline at a time
+export function PipelineStatsCard({ userId, contacts }: PipelineStatsCardProps) {
+  const navigate = useNavigate();
+  const { pipelines, memberships } = usePipelines(userId);
+  const { stages, stageKeys } = useStages(userId);
+  const [pipelineId, setPipelineId] = useState<string | null>(null);
+
+  const scoped = useMemo(
+    () => contactsInPipeline(contacts, memberships, pipelineId),
+    [contacts, memberships, pipelineId]
+  );
+
+  const counts = useMemo(() => {
+    const byStage = new Map<string, number>();
+    for (const contact of scoped) byStage.set(contact.stage, (byStage.get(contact.stage) ?? 0) + 1);
+    return byStage;
+  }, [scoped]);
+
+  const pastCallDone = scoped.filter(
+    (c) => c.stage === 'call_done' || isStagePast(stageKeys, c.stage, 'call_done')
+  ).length;
+  const maxCount = Math.max(1, ...counts.values());
+
+  return (
+    <Card className="border-l-4 border-l-violet-500/60">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <Columns3 className="h-4 w-4 text-violet-600" />
+            Pipeline
+          </CardTitle>
+          {pipelines.length > 0 && (
+            <Select
+              value={pipelineId ?? MAIN_PIPELINE}
+              onValueChange={(v) => setPipelineId(v === MAIN_PIPELINE ? null : v)}
+            >
+              <SelectTrigger className="h-8 w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={MAIN_PIPELINE}>{MAIN_PIPELINE_LABEL}</SelectItem>
+                {pipelines.map((pipeline) => (
+                  <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-6 md:grid-cols-[160px_1fr]">
+          <div className="space-y-4">
+            <div>
+              <div className="text-3xl font-bold">{scoped.length}</div>
+              <div className="text-sm text-muted-foreground">contacts</div>
+            </div>
+            <div>
+              <div className="text-3xl font-bold">{pastCallDone}</div>
+              <div className="text-sm text-muted-foreground">had a call or further</div>
+            </div>
+          </div>
+          <div
+            className="space-y-1.5 cursor-pointer"
+            onClick={() => navigate(pipelineId ? `/pipeline?pipeline=${pipelineId}` : '/pipeline')}
+          >
+            {stages.map((stage) => {
+              const count = counts.get(stage.key) ?? 0;
+              return (
+                <div key={stage.key} className="flex items-center gap-3">
+                  <div className="w-40 shrink-0">
+                    <StageBadge stage={stage.key} />
+                  </div>
+                  <div className="h-2 flex-1 rounded-full bg-muted">
+                    <div
+                      className="h-2 rounded-full bg-primary/70 transition-all"
+                      style={{ width: `${(count / maxCount) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-8 text-right text-sm tabular-nums">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Hourglass } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RelationshipStrength } from '@/components/contacts/RelationshipStrength';
+import { useUserInteractions } from '@/hooks/useInteractions';
+import { useStages } from '@/hooks/useStages';
+import { isGoingStale, scoreRelationship } from '@/lib/relationship-score';
+import type { Contact, Interaction } from '@/lib/types';
+
+const MAX_SHOWN = 5;
+
+interface StaleRelationshipsCardProps {
+  userId: string | undefined;
+  contacts: Contact[];
+}
+
+export function StaleRelationshipsCard({ userId, contacts }: StaleRelationshipsCardProps) {
+  const navigate = useNavigate();
+  const { data: interactions = [] } = useUserInteractions(userId);
+  const { stages } = useStages(userId);
+
+  const stale = useMemo(() => {
+    const byContact = new Map<string, Interaction[]>();
+    for (const interaction of interactions) {
+      byContact.set(interaction.contact_id, [...(byContact.get(interaction.contact_id) ?? []), interaction]);
+    }
+
+    return contacts
+      .map((contact) => ({ contact, score: scoreRelationship(contact, byContact.get(contact.id) ?? [], stages) }))
+      .filter(({ contact, score }) => isGoingStale(contact, score))
+      // Strongest relationships first: they have the most to lose
+      .sort((a, b) =>
+        b.contact.relationship_strength - a.contact.relationship_strength ||
+        (b.score.daysSinceContact ?? Infinity) - (a.score.daysSinceContact ?? Infinity)
+      );
+  }, [contacts, interactions, stages]);
+
+  return (
+    <Card className="border-l-4 border-l-sky-500/60">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-medium flex items-center gap-2">
+          <Hourglass className="h-4 w-4 text-sky-600" />
+          Relationships Going Stale
+          {stale.length > 0 && (
+            <span className="ml-1 bg-sky-100 text-sky-700 text-xs px-2 py-0.5 rounded-full font-semibold">
+              {stale.length}
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {stale.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            All your strong relationships are warm
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {stale.slice(0, MAX_SHOWN).map(({ contact, score }) => (
+              <button
+                key={contact.id}
+                type="button"
+                className="flex w-full items-center justify-between gap-3 p-2 rounded-md text-left hover:bg-sky-50/50 transition-colors"
+                onClick={() => navigate(`/contact/${contact.id}`)}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{contact.name}</p>
+                  <span className="text-xs text-muted-foreground">
+                    {contact.firm ? `${contact.firm} · ` : ''}
+                    {score.daysSinceContact === null ? 'Never contacted' : `${score.daysSinceContact} days since last contact`}
+                  </span>
+                </div>
+                <div className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                  <RelationshipStrength strength={contact.relationship_strength} />
+                  <span>→</span>
+                  <RelationshipStrength strength={score.suggested} />
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
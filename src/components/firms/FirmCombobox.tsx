@@ -0,0 +1,104 @@
+import { forwardRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { searchByNameOrAlias } from '@/lib/firms';
+import { cn } from '@/lib/utils';
+
+interface FirmComboboxOption {
+  id: string;
+  name: string;
+  aliases: string[];
+}
+
+interface FirmComboboxProps {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  options: FirmComboboxOption[];
+  placeholder?: string;
+}
+
+// Free-text input that suggests known firms (or groups) by name and alias.
+// Picking a suggestion fills in the canonical name.
+export const FirmCombobox = forwardRef<HTMLInputElement, FirmComboboxProps>(
+  function FirmCombobox({ value, onChange, onBlur, options, placeholder }, ref) {
+    const [open, setOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+
+    const matches = searchByNameOrAlias(options, value);
+    const exactMatch = matches.length === 1 && matches[0].name === value;
+    const showList = open && matches.length > 0 && !exactMatch;
+
+    const select = (option: FirmComboboxOption) => {
+      onChange(option.name);
+      setOpen(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (!showList) return;
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted((i) => Math.min(i + 1, matches.length - 1));
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted((i) => Math.max(i - 1, 0));
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        select(matches[highlighted] ?? matches[0]);
+      } else if (e.key === 'Escape') {
+        setOpen(false);
+      }
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={ref}
+          value={value}
+          placeholder={placeholder}
+          autoComplete="off"
+          onChange={(e) => {
+            onChange(e.target.value);
+            setHighlighted(0);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => {
+            setOpen(false);
+            onBlur?.();
+          }}
+          onKeyDown={handleKeyDown}
+        />
+        {showList && (
+          <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+            {matches.map((option, index) => {
+              const alias = option.aliases.find((a) =>
+                a.toLowerCase().includes(value.trim().toLowerCase())
+              );
+              return (
+                <button
+                  key={option.id}
+                  type="button"
+                  className={cn(
+                    'flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm text-left',
+                    index === highlighted ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+                  )}
+                  // mousedown fires before the input's blur closes the list
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    select(option);
+                  }}
+                  onMouseEnter={() => setHighlighted(index)}
+                >
+                  <span className="truncate">{option.name}</span>
+                  {value.trim() && alias && !option.name.toLowerCase().includes(value.trim().toLowerCase()) && (
+                    <span className="ml-2 shrink-0 text-xs text-muted-foreground">aka {alias}</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { StageBadge } from '@/components/contacts/StageBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { useFollowUpRules } from '@/hooks/useFollowUpRules';
+import { useStages } from '@/hooks/useStages';
+import {
+  CONNECTION_TYPES,
+  type ConnectionType,
+  type ContactStage,
+  type FollowUpRule,
+} from '@/lib/types';
+import { toast } from 'sonner';
+
+const ANY_TYPE = '__any__';
+
+function connectionTypeLabel(value: ConnectionType | null) {
+  return value ? CONNECTION_TYPES.find((t) => t.value === value)?.label ?? value : 'Any connection';
+}
+
+function parseCount(value: string, min: number): number | null {
+  const n = Number.parseInt(value, 10);
+  return Number.isFinite(n) && n >= min ? n : null;
+}
+
+function RuleRow({ rule }: { rule: FollowUpRule }) {
+  const { user } = useAuth();
+  const { updateRule, deleteRule } = useFollowUpRules(user?.id);
+  const [delayDays, setDelayDays] = useState(String(rule.delay_days));
+  const [maxFollowups, setMaxFollowups] = useState(String(rule.max_followups));
+
+  const save = async (updates: Parameters<typeof updateRule.mutateAsync>[0]) => {
+    try {
+      await updateRule.mutateAsync(updates);
+    } catch {
+      toast.error('Failed to update rule');
+    }
+  };
+
+  const handleNumberBlur = (field: 'delay_days' | 'max_followups', raw: string, min: number) => {
+    const value = parseCount(raw, min);
+    if (value === null) {
+      // Revert invalid input to the saved value
+      setDelayDays(String(rule.delay_days));
+      setMaxFollowups(String(rule.max_followups));
+      return;
+    }
+    if (value !== rule[field]) save({ id: rule.id, [field]: value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border p-3 text-sm">
+      <Switch checked={rule.enabled} onCheckedChange={(enabled) => save({ id: rule.id, enabled })} />
+      <StageBadge stage={rule.stage} />
+      <span className="text-muted-foreground">{connectionTypeLabel(rule.connection_type)}, no reply after</span>
+      <Input
+        type="number"
+        min={1}
+        className="h-8 w-16"
+        value={delayDays}
+        onChange={(e) => setDelayDays(e.target.value)}
+        onBlur={() => handleNumberBlur('delay_days', delayDays, 1)}
+      />
+      <span className="text-muted-foreground">days, up to</span>
+      <Input
+        type="number"
+        min={0}
+        className="h-8 w-16"
+        value={maxFollowups}
+        onChange={(e) => setMaxFollowups(e.target.value)}
+        onBlur={() => handleNumberBlur('max_followups', maxFollowups, 0)}
+      />
+      <span className="text-muted-foreground">follow-ups</span>
+      <label className="flex items-center gap-1.5 text-muted-foreground">
+        <Checkbox
+          checked={rule.mark_cold}
+          onCheckedChange={(checked) => save({ id: rule.id, mark_cold: checked === true })}
+        />
+        then mark cold
+      </label>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="ml-auto h-8 w-8 text-muted-foreground hover:text-destructive"
+        onClick={() => deleteRule.mutate(rule.id, { onError: () => toast.error('Failed to delete rule') })}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function FollowUpRulesCard() {
+  const { user } = useAuth();
+  const { rules, createRule } = useFollowUpRules(user?.id);
+  const { stages } = useStages(user?.id);
+  const [stage, setStage] = useState<ContactStage>('messaged');
+  const [connectionType, setConnectionType] = useState<ConnectionType | typeof ANY_TYPE>(ANY_TYPE);
+  const [delayDays, setDelayDays] = useState('5');
+  const [maxFollowups, setMaxFollowups] = useState('2');
+
+  const handleAdd = async () => {
+    const delay = parseCount(delayDays, 1);
+    const max = parseCount(maxFollowups, 0);
+    if (delay === null || max === null) {
+      toast.error('Enter a valid number of days and follow-ups');
+      return;
+    }
+    try {
+      await createRule.mutateAsync({
+        stage,
+        connection_type: connectionType === ANY_TYPE ? null : connectionType,
+        delay_days: delay,
+        max_followups: max,
+        mark_cold: true,
+      });
+      toast.success('Follow-up rule added');
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        toast.error('A rule for that stage and connection type already exists');
+      } else {
+        toast.error('Failed to add rule');
+      }
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Follow-up Rules</CardTitle>
+        <CardDescription>
+          Create follow-up tasks automatically when a contact hasn't replied. Logging an
+          interaction stops the follow-ups until the contact changes stage.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rules.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No rules yet. For example: Messaged, no reply after 5 days, up to 2 follow-ups, then mark cold.
+          </p>
+        )}
+        {rules.map((rule) => (
+          <RuleRow key={rule.id} rule={rule} />
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Select value={stage} onValueChange={(v) => setStage(v as ContactStage)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.map((s) => (
+                <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={connectionType} onValueChange={(v) => setConnectionType(v as ConnectionType | typeof ANY_TYPE)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_TYPE}>Any connection</SelectItem>
+              {CONNECTION_TYPES.map((t) => (
+                <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={1}
+            className="w-20"
+            value={delayDays}
+            onChange={(e) => setDelayDays(e.target.value)}
+            title="Days without a reply"
+          />
+          <span className="text-sm text-muted-foreground">days, up to</span>
+          <Input
+            type="number"
+            min={0}
+            className="w-20"
+            value={maxFollowups}
+            onChange={(e) => setMaxFollowups(e.target.value)}
+            title="Follow-ups before marking cold"
+          />
+          <span className="text-sm text-muted-foreground">follow-ups</span>
+          <Button variant="outline" onClick={handleAdd} disabled={createRule.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
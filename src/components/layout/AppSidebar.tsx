@@ -1,4 +1,4 @@
-import { LayoutDashboard, Users, Settings, LogOut, Calendar, GraduationCap, Mic, CheckSquare, FileText } from 'lucide-react';
+import { LayoutDashboard, Users, BarChart3, Settings, LogOut, Calendar, GraduationCap, Mic, CheckSquare, FileText } from 'lucide-react';
 import { NavLink } from '@/components/NavLink';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate } from 'react-router-dom';
@@ -18,6 +18,7 @@ import {
 const navItems = [
   { title: 'Dashboard', url: '/dashboard', icon: LayoutDashboard },
   { title: 'Pipeline', url: '/pipeline', icon: Users },
+  { title: 'Analytics', url: '/analytics', icon: BarChart3 },
   { title: 'Calendar', url: '/calendar', icon: Calendar },
   { title: 'Tasks', url: '/tasks', icon: CheckSquare },
   { title: 'Learning', url: '/learning', icon: GraduationCap },
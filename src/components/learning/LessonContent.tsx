@@ -1,4 +1,5 @@
 import { useMemo } from 'react';
+import { parseMarkdown } from '@/lib/markdown';
 
 interface LessonContentProps {
   content: string;
@@ -27,63 +28,3 @@ export function LessonContent({ content }: LessonContentProps) {
     />
   );
 }
-
-// Simple markdown parser
-function parseMarkdown(markdown: string): string {
-  let html = markdown;
-
-  // Headers
-  html = html.replace(/^### (.*$)/gim, '<h3>$1</h3>');
-  html = html.replace(/^## (.*$)/gim, '<h2>$1</h2>');
-  html = html.replace(/^# (.*$)/gim, '<h1>$1</h1>');
-
-  // Bold
-  html = html.replace(/\*\*(.*?)\*\*/gim, '<strong>$1</strong>');
-  html = html.replace(/__(.*?)__/gim, '<strong>$1</strong>');
-
-  // Italic
-  html = html.replace(/\*(.*?)\*/gim, '<em>$1</em>');
-  html = html.replace(/_(.*?)_/gim, '<em>$1</em>');
-
-  // Code blocks
-  html = html.replace(/```([\s\S]*?)```/gim, '<pre><code>$1</code></pre>');
-  html = html.replace(/`(.*?)`/gim, '<code>$1</code>');
-
-  // Blockquotes
-  html = html.replace(/^\> (.*$)/gim, '<blockquote><p>$1</p></blockquote>');
-
-  // Unordered lists
-  html = html.replace(/^\- (.*$)/gim, '<li>$1</li>');
-  html = html.replace(/(<li>.*<\/li>)/s, '<ul>$1</ul>');
-
-  // Ordered lists (numbered)
-  html = html.replace(/^\d+\. (.*$)/gim, '<li>$1</li>');
-
-  // Fix consecutive list items
-  html = html.replace(/<\/li>\n<li>/g, '</li><li>');
-  html = html.replace(/(<li>[\s\S]*?<\/li>)(?!\s*<li>)/g, (match) => {
-    if (!match.includes('<ul>') && !match.includes('<ol>')) {
-      return `<ul>${match}</ul>`;
-    }
-    return match;
-  });
-
-  // Paragraphs (double newlines)
-  html = html.replace(/\n\n(?!<)/gim, '</p><p>');
-  
-  // Wrap in paragraph if not already wrapped
-  if (!html.startsWith('<')) {
-    html = `<p>${html}</p>`;
-  }
-
-  // Clean up empty paragraphs
-  html = html.replace(/<p><\/p>/g, '');
-  html = html.replace(/<p>\s*<(h[1-6]|ul|ol|blockquote|pre)/g, '<$1');
-  html = html.replace(/<\/(h[1-6]|ul|ol|blockquote|pre)>\s*<\/p>/g, '</$1>');
-
-  // Line breaks
-  html = html.replace(/\n/gim, '<br />');
-  html = html.replace(/<br \/><br \/>/g, '</p><p>');
-
-  return html;
-}
@@ -0,0 +1,98 @@
+import { format, parseISO } from 'date-fns';
+import { CheckCircle2, Circle, MinusCircle, Send } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/useAuth';
+import { useStages } from '@/hooks/useStages';
+import { useContactOutreachSequences, useOutreachSequences } from '@/hooks/useOutreachSequences';
+import { sequenceStepLabel } from '@/lib/email-templates';
+import { isStagePast } from '@/lib/stages';
+import { OUTREACH_STOP_REASONS, type Contact, type OutreachSequence, type OutreachSequenceStep } from '@/lib/types';
+import { StartSequenceModal } from './StartSequenceModal';
+import { toast } from 'sonner';
+
+interface OutreachSequenceCardProps {
+  contact: Contact;
+}
+
+function StepRow({ step, sequence }: { step: OutreachSequenceStep; sequence: OutreachSequence }) {
+  const skipped = !step.sent_at && sequence.status !== 'active';
+  const Icon = step.sent_at ? CheckCircle2 : skipped ? MinusCircle : Circle;
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <Icon className={step.sent_at ? 'h-4 w-4 text-green-600' : 'h-4 w-4 text-muted-foreground'} />
+      <span className="font-medium">{sequenceStepLabel(step.position)}</span>
+      <span className="text-muted-foreground truncate flex-1">{step.subject}</span>
+      <span className="text-xs text-muted-foreground whitespace-nowrap">
+        {step.sent_at
+          ? `Sent ${format(new Date(step.sent_at), 'MMM d')}`
+          : skipped
+            ? 'Not sent'
+            : `Due ${format(parseISO(step.due_date), 'MMM d')}`}
+      </span>
+    </div>
+  );
+}
+
+// The contact's latest outreach sequence, or a way to start one while they haven't replied yet
+export function OutreachSequenceCard({ contact }: OutreachSequenceCardProps) {
+  const { user } = useAuth();
+  const { stageKeys } = useStages(user?.id);
+  const { data: sequences = [] } = useContactOutreachSequences(contact.id);
+  const { stopSequence } = useOutreachSequences(user?.id);
+
+  const latest = sequences[0];
+  const canStart = !isStagePast(stageKeys, contact.stage, 'messaged');
+  if (!latest && !canStart) return null;
+
+  const handleStop = async () => {
+    try {
+      await stopSequence.mutateAsync(latest);
+      toast.success('Sequence stopped');
+    } catch {
+      toast.error('Failed to stop sequence');
+    }
+  };
+
+  const stopReason = OUTREACH_STOP_REASONS.find((r) => r.value === latest?.stop_reason)?.label;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base font-medium flex items-center gap-2">
+          <Send className="h-4 w-4" />
+          Outreach Sequence
+          {latest && (
+            <Badge variant={latest.status === 'active' ? 'default' : 'secondary'} className="capitalize">
+              {latest.status}
+            </Badge>
+          )}
+        </CardTitle>
+        {latest?.status === 'active' ? (
+          <Button size="sm" variant="outline" onClick={handleStop} disabled={stopSequence.isPending}>
+            Stop
+          </Button>
+        ) : (
+          canStart && <StartSequenceModal contact={contact} />
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {!latest && (
+          <p className="text-sm text-muted-foreground">
+            Send an initial email and up to two follow-ups from your templates, each as a task on its due date.
+          </p>
+        )}
+        {latest?.steps?.map((step) => (
+          <StepRow key={step.id} step={step} sequence={latest} />
+        ))}
+        {latest?.status === 'stopped' && stopReason && latest.ended_at && (
+          <p className="text-xs text-muted-foreground pt-1">
+            {stopReason} on {format(new Date(latest.ended_at), 'MMM d')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
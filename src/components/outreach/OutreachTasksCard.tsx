@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { format, isPast, isToday, parseISO } from 'date-fns';
+import { Check, ChevronDown, ChevronRight, Copy, ExternalLink, Loader2, Mail, Send } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/useAuth';
+import { renderEmailTemplate, type RenderedEmail } from '@/hooks/useEmailTemplates';
+import { useOutreachSequences } from '@/hooks/useOutreachSequences';
+import type { Task } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface OutreachTasksCardProps {
+  /** Tasks with task_type 'outreach' */
+  tasks: Task[];
+}
+
+function OutreachTaskRow({ task }: { task: Task }) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { markStepSent } = useOutreachSequences(user?.id);
+  const [expanded, setExpanded] = useState(false);
+  const [email, setEmail] = useState<RenderedEmail | null>(null);
+  const [rendering, setRendering] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const step = task.outreach_step;
+  const dueDate = task.due_date ? parseISO(task.due_date) : null;
+  const isOverdue = dueDate && isPast(dueDate) && !isToday(dueDate);
+
+  // Rendered on first expand so availability is current when the email goes out
+  const handleToggle = async () => {
+    const next = !expanded;
+    setExpanded(next);
+    if (!next || email || !step || !task.contact_id) return;
+    setRendering(true);
+    try {
+      setEmail(await renderEmailTemplate(task.contact_id, step));
+    } catch (error) {
+      console.error('Failed to render email', error);
+      toast.error('Failed to fill in the template');
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  const handleCopy = async (text: string, field: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(field);
+      toast.success('Copied to clipboard');
+      setTimeout(() => setCopied(null), 2000);
+    } catch {
+      toast.error('Failed to copy');
+    }
+  };
+
+  const handleMarkSent = async () => {
+    if (!task.contact_id) return;
+    try {
+      await markStepSent.mutateAsync({ taskId: task.id, contactId: task.contact_id });
+      toast.success('Email logged');
+    } catch {
+      toast.error('Failed to update task');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex items-center gap-3 p-3">
+        <button
+          type="button"
+          className="flex items-center gap-2 flex-1 min-w-0 text-left"
+          onClick={handleToggle}
+        >
+          {expanded ? (
+            <ChevronDown className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          ) : (
+            <ChevronRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{task.title}</p>
+            <p className={cn('text-xs text-muted-foreground', isOverdue && 'text-destructive')}>
+              {task.contact?.firm ?? ''}
+              {dueDate && `${task.contact?.firm ? ' • ' : ''}${isOverdue ? 'Overdue' : 'Due'} ${format(dueDate, 'MMM d')}`}
+            </p>
+          </div>
+        </button>
+        <Button size="sm" variant="outline" className="gap-1.5" onClick={handleMarkSent} disabled={markStepSent.isPending}>
+          <Check className="h-3.5 w-3.5" />
+          Mark Sent
+        </Button>
+      </div>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-3 border-t pt-3">
+          {rendering && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Filling in template...
+            </div>
+          )}
+          {email && (
+            <div className="space-y-3 rounded-lg border bg-muted/30 p-3">
+              {email.missing.length > 0 && (
+                <p className="text-xs text-amber-600">
+                  No value for {email.missing.map((key) => `{{${key}}}`).join(', ')}. Fill these in before sending.
+                </p>
+              )}
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Subject</p>
+                <p className="text-sm font-medium">{email.subject}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Body</p>
+                <p className="text-sm whitespace-pre-line leading-relaxed">{email.body}</p>
+              </div>
+              <div className="flex gap-2 pt-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1.5 text-xs"
+                  onClick={() => handleCopy(`Subject: ${email.subject}\n\n${email.body}`, 'full')}
+                >
+                  {copied === 'full' ? (
+                    <><Check className="h-3 w-3" /> Copied!</>
+                  ) : (
+                    <><Copy className="h-3 w-3" /> Copy Full Email</>
+                  )}
+                </Button>
+                <Button variant="outline" size="sm" className="gap-1.5 text-xs" asChild>
+                  <a
+                    href={`mailto:${task.contact?.email ?? ''}?subject=${encodeURIComponent(email.subject)}&body=${encodeURIComponent(email.body)}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <Mail className="h-3 w-3" />
+                    Open in Email Client
+                  </a>
+                </Button>
+              </div>
+            </div>
+          )}
+          {task.contact_id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs gap-1 text-muted-foreground"
+              onClick={() => navigate(`/contact/${task.contact_id}`)}
+            >
+              <ExternalLink className="h-3 w-3" />
+              View Contact
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Emails due from outreach sequences. Marking one sent logs it on the contact.
+export function OutreachTasksCard({ tasks }: OutreachTasksCardProps) {
+  const pending = tasks.filter((t) => !t.completed);
+  const sent = tasks.filter((t) => t.completed);
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Send className="h-5 w-5 text-primary" />
+          Outreach Emails
+          {pending.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {pending.length} pending
+            </Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Emails from your outreach sequences, filled in from your templates
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {pending.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">All caught up.</p>
+          )}
+          {pending.map((task) => (
+            <OutreachTaskRow key={task.id} task={task} />
+          ))}
+          {sent.length > 0 && (
+            <div className="pt-4 border-t space-y-1">
+              <p className="text-xs text-muted-foreground mb-2">Sent ({sent.length})</p>
+              {sent.slice(0, 5).map((task) => (
+                <p key={task.id} className="text-sm text-muted-foreground line-through truncate">
+                  {task.title}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Link } from 'react-router-dom';
+import { Send } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useEmailTemplates } from '@/hooks/useEmailTemplates';
+import { useOutreachSequences } from '@/hooks/useOutreachSequences';
+import {
+  DEFAULT_FOLLOW_UP_DELAYS,
+  MAX_SEQUENCE_FOLLOW_UPS,
+  sequenceDueDates,
+  sequenceStepLabel,
+} from '@/lib/email-templates';
+import type { Contact, EmailTemplate } from '@/lib/types';
+import { toast } from 'sonner';
+
+const NO_FOLLOW_UP = '__none__';
+
+const sequenceSchema = z.object({
+  initialTemplateId: z.string().min(1, 'Pick a template for the first email'),
+  startDate: z.string().min(1, 'Pick a date'),
+  followUps: z.array(
+    z.object({
+      templateId: z.string(),
+      delayDays: z.coerce.number().int().min(1, 'At least 1 day'),
+    })
+  ),
+});
+
+type SequenceFormData = z.infer<typeof sequenceSchema>;
+
+interface StartSequenceModalProps {
+  contact: Pick<Contact, 'id' | 'name'>;
+}
+
+// Follow-ups default to the first template of their category, in order
+function defaultValues(templates: EmailTemplate[]): SequenceFormData {
+  const outreach = templates.filter((t) => t.category === 'outreach');
+  const followUps = templates.filter((t) => t.category === 'follow_up');
+  return {
+    initialTemplateId: outreach[0]?.id ?? templates[0]?.id ?? '',
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    followUps: DEFAULT_FOLLOW_UP_DELAYS.slice(0, MAX_SEQUENCE_FOLLOW_UPS).map((delayDays, i) => ({
+      templateId: followUps[i]?.id ?? NO_FOLLOW_UP,
+      delayDays,
+    })),
+  };
+}
+
+export function StartSequenceModal({ contact }: StartSequenceModalProps) {
+  const [open, setOpen] = useState(false);
+  const { user } = useAuth();
+  const { templates: allTemplates } = useEmailTemplates(user?.id);
+  // Thank-you notes come after a call, never as part of outreach
+  const templates = useMemo(() => allTemplates.filter((t) => t.category !== 'thank_you'), [allTemplates]);
+  const { startSequence } = useOutreachSequences(user?.id);
+
+  const form = useForm<SequenceFormData>({
+    resolver: zodResolver(sequenceSchema),
+    defaultValues: defaultValues(templates),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(defaultValues(templates));
+  }, [open, templates, form]);
+
+  const onSubmit = async (data: SequenceFormData) => {
+    const byId = new Map(templates.map((t) => [t.id, t]));
+    const initial = byId.get(data.initialTemplateId);
+    if (!initial) return;
+
+    // A skipped follow-up ends the sequence there
+    const firstSkipped = data.followUps.findIndex((f) => f.templateId === NO_FOLLOW_UP);
+    const followUps = firstSkipped === -1 ? data.followUps : data.followUps.slice(0, firstSkipped);
+
+    const dueDates = sequenceDueDates(parseISO(data.startDate), followUps.map((f) => f.delayDays));
+    const stepTemplates = [initial, ...followUps.map((f) => byId.get(f.templateId)!)];
+
+    try {
+      await startSequence.mutateAsync({
+        contact,
+        steps: stepTemplates.map((template, i) => ({ template, due_date: dueDates[i] })),
+      });
+      toast.success(`Outreach sequence started with ${stepTemplates.length} ${stepTemplates.length === 1 ? 'email' : 'emails'}`);
+      setOpen(false);
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        toast.error(`${contact.name} already has an outreach sequence running`);
+      } else {
+        toast.error('Failed to start sequence');
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Send className="h-4 w-4 mr-2" />
+          Start Sequence
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Start Outreach Sequence</DialogTitle>
+          <DialogDescription>
+            Each email becomes a task on its due date. The sequence stops on its own when{' '}
+            {contact.name} replies or moves past Messaged.
+          </DialogDescription>
+        </DialogHeader>
+        {templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You don't have any email templates yet.{' '}
+            <Link to="/settings" className="text-primary underline">Add some in Settings</Link>{' '}
+            to start a sequence.
+          </p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-[1fr_140px] gap-4">
+                <FormField
+                  control={form.control}
+                  name="initialTemplateId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{sequenceStepLabel(0)}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Pick a template" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {templates.map((t) => (
+                            <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Send on</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {Array.from({ length: MAX_SEQUENCE_FOLLOW_UPS }, (_, i) => (
+                <div key={i} className="grid grid-cols-[1fr_140px] gap-4">
+                  <FormField
+                    control={form.control}
+                    name={`followUps.${i}.templateId`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{sequenceStepLabel(i + 1)}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_FOLLOW_UP}>No follow-up</SelectItem>
+                            {templates.map((t) => (
+                              <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`followUps.${i}.delayDays`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Days later</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+
+              <div className="flex justify-end gap-3 pt-4">
+                <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={startSequence.isPending}>
+                  {startSequence.isPending ? 'Starting...' : 'Start Sequence'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
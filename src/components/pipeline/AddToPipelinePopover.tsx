@@ -0,0 +1,78 @@
+import { useMemo, useState } from 'react';
+import { UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { useAuth } from '@/hooks/useAuth';
+import { useContacts } from '@/hooks/useContacts';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useStages } from '@/hooks/useStages';
+import type { Pipeline } from '@/lib/types';
+import { toast } from 'sonner';
+
+interface AddToPipelinePopoverProps {
+  pipeline: Pipeline;
+}
+
+// Pick existing contacts to bring into a pipeline; they start in the first stage
+export function AddToPipelinePopover({ pipeline }: AddToPipelinePopoverProps) {
+  const { user } = useAuth();
+  const { contacts } = useContacts(user?.id);
+  const { memberships, addToPipeline } = usePipelines(user?.id);
+  const { stageKeys } = useStages(user?.id);
+  const [open, setOpen] = useState(false);
+
+  const candidates = useMemo(() => {
+    const members = new Set(memberships.filter((m) => m.pipeline_id === pipeline.id).map((m) => m.contact_id));
+    return contacts.filter((c) => !members.has(c.id));
+  }, [contacts, memberships, pipeline.id]);
+
+  const handleSelect = async (contactId: string) => {
+    try {
+      await addToPipeline.mutateAsync({ pipelineId: pipeline.id, contactIds: [contactId], stage: stageKeys[0] });
+      toast.success(`Added to ${pipeline.name}`);
+    } catch {
+      toast.error('Failed to add contact');
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <UserPlus className="h-4 w-4 mr-2" />
+          Add Existing
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Search contacts..." />
+          <CommandList>
+            <CommandEmpty>No contacts to add.</CommandEmpty>
+            <CommandGroup>
+              {candidates.map((contact) => (
+                <CommandItem
+                  key={contact.id}
+                  value={`${contact.name} ${contact.firm ?? ''} ${contact.id}`}
+                  onSelect={() => handleSelect(contact.id)}
+                >
+                  <div className="flex flex-col">
+                    <span>{contact.name}</span>
+                    {contact.firm && <span className="text-xs text-muted-foreground">{contact.firm}</span>}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,238 @@
+import { useMemo, useState } from 'react';
+import { Check, ChevronsUpDown, SlidersHorizontal } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { countActiveFilters, EMPTY_FILTERS } from '@/lib/contact-filters';
+import { collectTags } from '@/lib/custom-fields';
+import { CONNECTION_TYPES, type ConnectionType, type Contact, type ContactFilters } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const STRENGTHS = [1, 2, 3, 4, 5];
+
+interface ValueMultiSelectProps {
+  values: string[];
+  options: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+}
+
+function ValueMultiSelect({ values, options, onChange, placeholder }: ValueMultiSelectProps) {
+  const toggle = (option: string) =>
+    onChange(values.includes(option) ? values.filter((v) => v !== option) : [...values, option]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" className="w-full justify-between font-normal">
+          <span className={cn('truncate', values.length === 0 && 'text-muted-foreground')}>
+            {values.length === 0 ? placeholder : values.join(', ')}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search..." />
+          <CommandList>
+            <CommandEmpty>Nothing found.</CommandEmpty>
+            <CommandGroup>
+              {options.map((option) => (
+                <CommandItem key={option} value={option} onSelect={() => toggle(option)}>
+                  <Check className={cn('h-4 w-4 mr-2', values.includes(option) ? 'opacity-100' : 'opacity-0')} />
+                  {option}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function distinct(values: (string | null)[]): string[] {
+  return [...new Set(values.filter((v): v is string => !!v))].sort((a, b) => a.localeCompare(b));
+}
+
+interface ContactFiltersPopoverProps {
+  filters: ContactFilters;
+  onChange: (filters: ContactFilters) => void;
+  /** Source of the firm, group and tag options */
+  contacts: Contact[];
+}
+
+export function ContactFiltersPopover({ filters, onChange, contacts }: ContactFiltersPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  const firmOptions = useMemo(() => distinct(contacts.map((c) => c.firm)), [contacts]);
+  // Narrow groups to the chosen firms, if any
+  const groupOptions = useMemo(() => {
+    const firms = new Set(filters.firms);
+    return distinct(contacts.filter((c) => firms.size === 0 || firms.has(c.firm ?? '')).map((c) => c.group_name));
+  }, [contacts, filters.firms]);
+
+  const tagOptions = useMemo(() => collectTags(contacts), [contacts]);
+
+  const update = (changes: Partial<ContactFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Filters
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="ml-2 h-5 px-1.5">{activeCount}</Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 space-y-4" align="end">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label>Firm</Label>
+            <ValueMultiSelect
+              values={filters.firms}
+              options={firmOptions}
+              onChange={(firms) => update({ firms })}
+              placeholder="Any firm"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Group</Label>
+            <ValueMultiSelect
+              values={filters.groups}
+              options={groupOptions}
+              onChange={(groups) => update({ groups })}
+              placeholder="Any group"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>Tags</Label>
+          <ValueMultiSelect
+            values={filters.tags}
+            options={tagOptions}
+            onChange={(tags) => update({ tags })}
+            placeholder="Any tag"
+          />
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>Connection type</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            size="sm"
+            className="justify-start"
+            value={filters.connectionTypes}
+            onValueChange={(values) => update({ connectionTypes: values as ConnectionType[] })}
+          >
+            {CONNECTION_TYPES.map((type) => (
+              <ToggleGroupItem key={type.value} value={type.value}>{type.label}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>Relationship strength</Label>
+          <div className="flex items-center gap-2">
+            <Select value={String(filters.strengthMin)} onValueChange={(v) => update({ strengthMin: Number(v) })}>
+              <SelectTrigger className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STRENGTHS.filter((s) => s <= filters.strengthMax).map((s) => (
+                  <SelectItem key={s} value={String(s)}>{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground">to</span>
+            <Select value={String(filters.strengthMax)} onValueChange={(v) => update({ strengthMax: Number(v) })}>
+              <SelectTrigger className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STRENGTHS.filter((s) => s >= filters.strengthMin).map((s) => (
+                  <SelectItem key={s} value={String(s)}>{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="filter-contacted-after">Last contacted after</Label>
+            <Input
+              id="filter-contacted-after"
+              type="date"
+              value={filters.lastContactedAfter ?? ''}
+              onChange={(e) => update({ lastContactedAfter: e.target.value || null })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="filter-contacted-before">Last contacted before</Label>
+            <Input
+              id="filter-contacted-before"
+              type="date"
+              value={filters.lastContactedBefore ?? ''}
+              onChange={(e) => update({ lastContactedBefore: e.target.value || null })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="filter-overdue">Follow-up overdue</Label>
+            <Switch
+              id="filter-overdue"
+              checked={filters.overdueFollowup}
+              onCheckedChange={(overdueFollowup) => update({ overdueFollowup })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="filter-upcoming-call">Has an upcoming call</Label>
+            <Switch
+              id="filter-upcoming-call"
+              checked={filters.upcomingCall}
+              onCheckedChange={(upcomingCall) => update({ upcomingCall })}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={activeCount === 0}
+            onClick={() => onChange({ ...EMPTY_FILTERS, search: filters.search })}
+          >
+            Clear filters
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
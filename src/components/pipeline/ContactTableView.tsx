@@ -0,0 +1,473 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { addDays, format, formatDistanceToNow, parseISO, startOfDay } from 'date-fns';
+import { ArrowDown, ArrowUp, CalendarClock, CalendarPlus, Tag, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RelationshipStrength } from '@/components/contacts/RelationshipStrength';
+import { LogEventModal } from '@/components/contacts/LogEventModal';
+import { TagInput } from '@/components/contacts/TagInput';
+import { useAuth } from '@/hooks/useAuth';
+import { useContacts } from '@/hooks/useContacts';
+import { useStages } from '@/hooks/useStages';
+import { collectTags } from '@/lib/custom-fields';
+import type { CallEvent, Contact, ContactStage } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+type SortKey = 'name' | 'firm' | 'position' | 'stage' | 'relationship_strength' | 'last_contacted_at' | 'next_followup_at';
+
+const COLUMNS: { key: SortKey; label: string; className?: string }[] = [
+  { key: 'name', label: 'Name', className: 'w-[16%]' },
+  { key: 'firm', label: 'Firm', className: 'w-[14%]' },
+  { key: 'position', label: 'Position', className: 'w-[14%]' },
+  { key: 'stage', label: 'Stage', className: 'w-[13%]' },
+  { key: 'relationship_strength', label: 'Strength', className: 'w-[8%]' },
+  { key: 'last_contacted_at', label: 'Last Contact', className: 'w-[10%]' },
+  { key: 'next_followup_at', label: 'Next Follow-up', className: 'w-[11%]' },
+];
+
+// Rows are a fixed height so only the ones in view need rendering
+const ROW_HEIGHT = 48;
+const OVERSCAN = 10;
+
+const STRENGTHS = [1, 2, 3, 4, 5];
+
+function toDateInput(iso: string | null): string {
+  return iso ? format(new Date(iso), 'yyyy-MM-dd') : '';
+}
+
+function fromDateInput(value: string): string | null {
+  return value ? startOfDay(parseISO(value)).toISOString() : null;
+}
+
+interface EditableTextCellProps {
+  value: string | null;
+  onSave: (value: string | null) => void;
+  type?: 'text' | 'date';
+  display?: React.ReactNode;
+}
+
+// Click to edit; Enter or blur saves, Escape cancels
+function EditableTextCell({ value, onSave, type = 'text', display }: EditableTextCellProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft === null) {
+    return (
+      <button
+        type="button"
+        className="w-full truncate rounded px-2 py-1 text-left hover:bg-muted"
+        onClick={() => setDraft(value ?? '')}
+      >
+        {display ?? (value || <span className="text-muted-foreground">—</span>)}
+      </button>
+    );
+  }
+
+  const commit = () => {
+    const next = draft.trim() || null;
+    setDraft(null);
+    if (next !== (value || null)) onSave(next);
+  };
+
+  return (
+    <Input
+      autoFocus
+      type={type}
+      className="h-8"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+    />
+  );
+}
+
+interface ContactTableViewProps {
+  contacts: Contact[];
+  scheduledCallsByContact: Record<string, CallEvent>;
+  /** Stage changes go through the page, which knows which pipeline the table shows */
+  onChangeStage: (ids: string[], stage: ContactStage) => void;
+}
+
+// Spreadsheet-style table for bulk cleanup: sortable, inline-editable, multi-select
+export function ContactTableView({ contacts, scheduledCallsByContact, onChangeStage }: ContactTableViewProps) {
+  const { user } = useAuth();
+  const { contacts: allContacts, updateContact, updateContacts, addTagToContacts, deleteContacts } = useContacts(user?.id);
+  const { stages, stageKeys } = useStages(user?.id);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'name', desc: false });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkTags, setBulkTags] = useState<string[]>([]);
+  const [bulkFollowup, setBulkFollowup] = useState('');
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const sorted = useMemo(() => {
+    const value = (contact: Contact): string | number | null => {
+      switch (sort.key) {
+        case 'stage':
+          return stageKeys.indexOf(contact.stage);
+        case 'relationship_strength':
+          return contact.relationship_strength;
+        default:
+          return contact[sort.key]?.toLowerCase() ?? null;
+      }
+    };
+    return [...contacts].sort((a, b) => {
+      const av = value(a);
+      const bv = value(b);
+      // Empty values sink to the bottom either way
+      if (av === null) return bv === null ? 0 : 1;
+      if (bv === null) return -1;
+      const order = av < bv ? -1 : av > bv ? 1 : 0;
+      return sort.desc ? -order : order;
+    });
+  }, [contacts, sort, stageKeys]);
+
+  // Only act on selected contacts that are still in view (filters may have changed since)
+  const selectedIds = sorted.filter((c) => selected.has(c.id)).map((c) => c.id);
+  const allSelected = sorted.length > 0 && selectedIds.length === sorted.length;
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(sorted.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visible = sorted.slice(start, end);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => ({ key, desc: prev.key === key ? !prev.desc : false }));
+
+  const toggleSelected = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const saveField = (id: string, updates: Partial<Contact>) => {
+    updateContact.mutate({ id, ...updates }, { onError: () => toast.error('Failed to update contact') });
+  };
+
+  const handleBulkStage = (stage: ContactStage) => {
+    onChangeStage(selectedIds, stage);
+    toast.success(`Moved ${selectedIds.length} contacts`);
+  };
+
+  const handleBulkTag = () => {
+    if (bulkTags.length === 0) return;
+    for (const tag of bulkTags) {
+      addTagToContacts.mutate({ ids: selectedIds, tag }, { onError: () => toast.error(`Failed to add ${tag}`) });
+    }
+    setBulkTags([]);
+    toast.success(`Tagged ${selectedIds.length} contacts`);
+  };
+
+  const handleBulkFollowup = (date: string | null) => {
+    updateContacts.mutate(
+      { ids: selectedIds, updates: { next_followup_at: date, went_cold_at: null } },
+      {
+        onSuccess: () => toast.success(`Follow-up set for ${selectedIds.length} contacts`),
+        onError: () => toast.error('Failed to schedule follow-ups'),
+      }
+    );
+    setBulkFollowup('');
+  };
+
+  const handleBulkDelete = () => {
+    const count = selectedIds.length;
+    deleteContacts.mutate(selectedIds, {
+      onSuccess: () => toast.success(`Deleted ${count} contacts`),
+      onError: () => toast.error('Failed to delete contacts'),
+    });
+    setSelected(new Set());
+  };
+
+  if (contacts.length === 0) {
+    return <div className="py-12 text-center text-muted-foreground">No contacts match these filters.</div>;
+  }
+
+  return (
+    <div className="flex flex-1 min-h-0 flex-col gap-2">
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/40 px-3 py-2 text-sm">
+          <span className="font-medium">{selectedIds.length} selected</span>
+          <Select value="" onValueChange={handleBulkStage}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue placeholder="Change stage" />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.map((stage) => (
+                <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Tag className="h-4 w-4 mr-2" />
+                Add tag
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-2" align="start">
+              <TagInput value={bulkTags} onChange={setBulkTags} suggestions={collectTags(allContacts)} />
+              <Button size="sm" className="w-full" disabled={bulkTags.length === 0} onClick={handleBulkTag}>
+                Add to {selectedIds.length} contacts
+              </Button>
+            </PopoverContent>
+          </Popover>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm">
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Schedule follow-up
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 space-y-2" align="start">
+              <div className="flex gap-1">
+                {[1, 3, 7, 14].map((days) => (
+                  <Button
+                    key={days}
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handleBulkFollowup(startOfDay(addDays(new Date(), days)).toISOString())}
+                  >
+                    {days}d
+                  </Button>
+                ))}
+              </div>
+              <Input type="date" value={bulkFollowup} onChange={(e) => setBulkFollowup(e.target.value)} />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  disabled={!bulkFollowup}
+                  onClick={() => handleBulkFollowup(fromDateInput(bulkFollowup))}
+                >
+                  Set date
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleBulkFollowup(null)}>
+                  Clear
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+
+          <LogEventModal defaultContactIds={selectedIds} />
+
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" className="text-destructive hover:text-destructive">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {selectedIds.length} contacts</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Their interactions, calls and notes are deleted too. This action cannot be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={handleBulkDelete}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSelected(new Set())}>
+            <X className="h-4 w-4 mr-1" />
+            Clear selection
+          </Button>
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        className="flex-1 min-h-0 overflow-auto rounded-lg border"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="w-full table-fixed caption-bottom text-sm">
+          <TableHeader className="sticky top-0 z-10 bg-background">
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected ? true : selectedIds.length > 0 ? 'indeterminate' : false}
+                  onCheckedChange={(checked) => setSelected(checked ? new Set(sorted.map((c) => c.id)) : new Set())}
+                  aria-label="Select all"
+                />
+              </TableHead>
+              {COLUMNS.map((column) => (
+                <TableHead key={column.key} className={column.className}>
+                  <button
+                    type="button"
+                    className="inline-flex items-center gap-1 hover:text-foreground"
+                    onClick={() => toggleSort(column.key)}
+                  >
+                    {column.label}
+                    {sort.key === column.key &&
+                      (sort.desc ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+                  </button>
+                </TableHead>
+              ))}
+              <TableHead>Tags</TableHead>
+              <TableHead className="w-[10%]">Upcoming Call</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+            {visible.map((contact) => {
+              const call = scheduledCallsByContact[contact.id];
+              const overdue = contact.next_followup_at && new Date(contact.next_followup_at) < new Date();
+              return (
+                <TableRow
+                  key={contact.id}
+                  style={{ height: ROW_HEIGHT }}
+                  data-state={selected.has(contact.id) ? 'selected' : undefined}
+                >
+                  <TableCell className="py-0">
+                    <Checkbox
+                      checked={selected.has(contact.id)}
+                      onCheckedChange={() => toggleSelected(contact.id)}
+                      aria-label={`Select ${contact.name}`}
+                    />
+                  </TableCell>
+                  <TableCell className="py-0 truncate">
+                    <Link to={`/contact/${contact.id}`} className="font-medium hover:underline">
+                      {contact.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="p-1">
+                    <EditableTextCell value={contact.firm} onSave={(firm) => saveField(contact.id, { firm })} />
+                  </TableCell>
+                  <TableCell className="p-1">
+                    <EditableTextCell
+                      value={contact.position}
+                      onSave={(position) => saveField(contact.id, { position })}
+                    />
+                  </TableCell>
+                  <TableCell className="p-1">
+                    <Select value={contact.stage} onValueChange={(stage) => onChangeStage([contact.id], stage)}>
+                      <SelectTrigger className="h-8 border-0 shadow-none hover:bg-muted">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {stages.map((stage) => (
+                          <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="p-1">
+                    <Select
+                      value={String(contact.relationship_strength)}
+                      onValueChange={(v) =>
+                        saveField(contact.id, { relationship_strength: Number(v) })
+                      }
+                    >
+                      <SelectTrigger className="h-8 border-0 shadow-none hover:bg-muted">
+                        <RelationshipStrength strength={contact.relationship_strength} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STRENGTHS.map((s) => (
+                          <SelectItem key={s} value={String(s)}>{s}/5</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="py-0 text-muted-foreground whitespace-nowrap truncate">
+                    {contact.last_contacted_at
+                      ? formatDistanceToNow(new Date(contact.last_contacted_at), { addSuffix: true })
+                      : 'Never'}
+                  </TableCell>
+                  <TableCell className="p-1">
+                    <EditableTextCell
+                      type="date"
+                      value={toDateInput(contact.next_followup_at)}
+                      onSave={(date) => saveField(contact.id, { next_followup_at: fromDateInput(date ?? ''), went_cold_at: null })}
+                      display={
+                        contact.went_cold_at ? (
+                          <span className="text-muted-foreground">Went cold</span>
+                        ) : contact.next_followup_at ? (
+                          <span className={cn(overdue && 'text-destructive')}>
+                            {format(new Date(contact.next_followup_at), 'MMM d')}
+                          </span>
+                        ) : undefined
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="py-0">
+                    <div className="flex gap-1 overflow-hidden">
+                      {(contact.tags ?? []).map((tag) => (
+                        <Badge key={tag} variant="secondary" className="shrink-0 px-1.5 py-0 text-[10px] font-normal">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="py-0 whitespace-nowrap">
+                    {call && (
+                      <span className="inline-flex items-center gap-1 text-primary">
+                        <CalendarClock className="h-3.5 w-3.5" />
+                        {format(new Date(call.start_at), 'MMM d, h:mm a')}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {end < sorted.length && <tr style={{ height: (sorted.length - end) * ROW_HEIGHT }} />}
+          </TableBody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { Fragment, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, ChevronDown, ChevronRight, Plus, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { FirmCombobox } from '@/components/firms/FirmCombobox';
+import { StageBadge } from '@/components/contacts/StageBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { useFirms } from '@/hooks/useFirms';
+import { useStages } from '@/hooks/useStages';
+import { buildFirmCoverage, maxCellCount, type CoverageCell } from '@/lib/firm-coverage';
+import { findByNameOrAlias } from '@/lib/firms';
+import type { Contact } from '@/lib/types';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+interface FirmCoverageViewProps {
+  contacts: Contact[];
+}
+
+interface DrillDown {
+  title: string;
+  cell: CoverageCell;
+}
+
+export function FirmCoverageView({ contacts }: FirmCoverageViewProps) {
+  const { user } = useAuth();
+  const { firms, createFirm, updateFirm } = useFirms(user?.id);
+  const { stageKeys, getConfig } = useStages(user?.id);
+  const [targetsOnly, setTargetsOnly] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [newTarget, setNewTarget] = useState('');
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const rows = useMemo(() => {
+    const coverage = buildFirmCoverage(firms, contacts, stageKeys);
+    return targetsOnly ? coverage.filter((row) => row.firm.is_target) : coverage;
+  }, [firms, contacts, stageKeys, targetsOnly]);
+  const maxCount = maxCellCount(rows);
+  const underNetworkedCount = rows.filter((row) => row.underNetworked).length;
+
+  const toggleExpanded = (firmId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(firmId)) next.delete(firmId);
+      else next.add(firmId);
+      return next;
+    });
+  };
+
+  const handleToggleTarget = async (firmId: string, isTarget: boolean) => {
+    try {
+      await updateFirm.mutateAsync({ id: firmId, is_target: isTarget });
+    } catch {
+      toast.error('Failed to update target list');
+    }
+  };
+
+  const handleAddTarget = async () => {
+    const name = newTarget.trim();
+    if (!name) return;
+    try {
+      const existing = findByNameOrAlias(firms, name);
+      if (existing) {
+        await updateFirm.mutateAsync({ id: existing.id, is_target: true });
+      } else {
+        await createFirm.mutateAsync({ name, is_target: true });
+      }
+      toast.success(`${existing?.name ?? name} added to targets`);
+      setNewTarget('');
+    } catch {
+      toast.error('Failed to add target firm');
+    }
+  };
+
+  const renderCells = (cells: CoverageCell[], rowTitle: string) =>
+    cells.map((cell) => {
+      const count = cell.contacts.length;
+      // Shade each cell relative to the busiest cell on screen
+      const intensity = maxCount > 0 ? count / maxCount : 0;
+      return (
+        <TableCell key={cell.stage} className="p-1 text-center">
+          <button
+            type="button"
+            disabled={count === 0}
+            onClick={() => setDrillDown({ title: rowTitle, cell })}
+            className={cn(
+              'w-full rounded-md py-2 text-sm tabular-nums transition-colors',
+              count === 0 ? 'text-muted-foreground/40 cursor-default' : 'font-medium hover:ring-2 hover:ring-primary/30'
+            )}
+            style={count > 0 ? { backgroundColor: `hsl(var(--primary) / ${0.08 + intensity * 0.5})` } : undefined}
+          >
+            {count || '·'}
+          </button>
+        </TableCell>
+      );
+    });
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="targets-only" checked={targetsOnly} onCheckedChange={setTargetsOnly} />
+            <Label htmlFor="targets-only">Targets only</Label>
+          </div>
+          {underNetworkedCount > 0 && (
+            <span className="flex items-center gap-1.5 text-sm text-amber-600">
+              <AlertTriangle className="h-4 w-4" />
+              {underNetworkedCount} target {underNetworkedCount === 1 ? 'firm has' : 'firms have'} no contact past {getConfig('call_done').label}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-56">
+            <FirmCombobox
+              value={newTarget}
+              onChange={setNewTarget}
+              options={firms}
+              placeholder="Add target firm..."
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleAddTarget}
+            disabled={!newTarget.trim() || createFirm.isPending || updateFirm.isPending}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center rounded-xl border border-dashed text-sm text-muted-foreground">
+          {targetsOnly
+            ? 'No target firms yet. Add the banks you are recruiting for above.'
+            : 'Add contacts with a firm to see your coverage.'}
+        </div>
+      ) : (
+        <ScrollArea className="flex-1 rounded-xl border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[220px]">Firm</TableHead>
+                {stageKeys.map((stage) => (
+                  <TableHead key={stage} className="text-center">
+                    <span className={cn('stage-badge whitespace-nowrap', getConfig(stage).className)}>
+                      {getConfig(stage).label}
+                    </span>
+                  </TableHead>
+                ))}
+                <TableHead className="text-center">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const isExpanded = expanded.has(row.firm.id);
+                return (
+                  <Fragment key={row.firm.id}>
+                    <TableRow className={cn(row.underNetworked && 'bg-amber-50/60 dark:bg-amber-950/20')}>
+                      <TableCell className="py-1">
+                        <div className="flex items-center gap-1.5">
+                          <button
+                            type="button"
+                            className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                            disabled={row.groups.length === 0}
+                            onClick={() => toggleExpanded(row.firm.id)}
+                          >
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </button>
+                          <button
+                            type="button"
+                            title={row.firm.is_target ? 'Remove from targets' : 'Add to targets'}
+                            onClick={() => handleToggleTarget(row.firm.id, !row.firm.is_target)}
+                          >
+                            <Star
+                              className={cn(
+                                'h-4 w-4',
+                                row.firm.is_target ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/50 hover:text-amber-400'
+                              )}
+                            />
+                          </button>
+                          <Link to={`/firm/${row.firm.id}`} className="font-medium truncate hover:underline">
+                            {row.firm.name}
+                          </Link>
+                          {row.underNetworked && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+                              </TooltipTrigger>
+                              <TooltipContent>No contact past {getConfig('call_done').label} yet</TooltipContent>
+                            </Tooltip>
+                          )}
+                        </div>
+                      </TableCell>
+                      {renderCells(row.cells, row.firm.name)}
+                      <TableCell className="text-center font-medium tabular-nums">{row.total}</TableCell>
+                    </TableRow>
+                    {isExpanded &&
+                      row.groups.map((group) => (
+                        <TableRow key={`${row.firm.id}:${group.name}`} className="bg-muted/20">
+                          <TableCell className="py-1 pl-14 text-sm text-muted-foreground">{group.name}</TableCell>
+                          {renderCells(group.cells, `${row.firm.name} · ${group.name}`)}
+                          <TableCell className="text-center text-muted-foreground tabular-nums">{group.total}</TableCell>
+                        </TableRow>
+                      ))}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      )}
+
+      <Dialog open={!!drillDown} onOpenChange={(open) => !open && setDrillDown(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          {drillDown && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{drillDown.title}</DialogTitle>
+                <DialogDescription>
+                  {drillDown.cell.contacts.length} {drillDown.cell.contacts.length === 1 ? 'contact' : 'contacts'} in{' '}
+                  {getConfig(drillDown.cell.stage).label}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-1">
+                {drillDown.cell.contacts.map((contact) => (
+                  <Link
+                    key={contact.id}
+                    to={`/contact/${contact.id}`}
+                    className="flex items-center justify-between gap-4 rounded-lg p-2 hover:bg-muted/50"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">{contact.name}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {[contact.position, contact.group_name].filter(Boolean).join(' · ') || contact.firm}
+                      </div>
+                    </div>
+                    <StageBadge stage={contact.stage} />
+                  </Link>
+                ))}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
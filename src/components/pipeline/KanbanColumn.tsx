@@ -3,7 +3,9 @@ import {
   SortableContext,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
-import { STAGE_CONFIG, type Contact, type ContactStage, type CallEvent } from '@/lib/types';
+import type { Contact, ContactStage, CallEvent } from '@/lib/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useStages } from '@/hooks/useStages';
 import { SortableContactCard } from './SortableContactCard';
 import { cn } from '@/lib/utils';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -22,7 +24,9 @@ export function KanbanColumn({ stage, contacts, scheduledCalls, onEditCall, onCo
     id: stage,
   });
 
-  const config = STAGE_CONFIG[stage];
+  const { user } = useAuth();
+  const { getConfig } = useStages(user?.id);
+  const config = getConfig(stage);
 
   const handleColumnClick = (e: React.MouseEvent) => {
     // Don't fire when clicking on a contact card or the stage badge header
@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useContacts } from '@/hooks/useContacts';
+import { useStages } from '@/hooks/useStages';
+import { isCoreStage } from '@/lib/stages';
+import { STAGE_COLORS, type ContactStage, type StageColor, type UserStage } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const COLOR_OPTIONS = Object.entries(STAGE_COLORS) as [StageColor, { label: string; className: string }][];
+
+function ColorSelect({ value, onChange }: { value: StageColor; onChange: (color: StageColor) => void }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as StageColor)}>
+      <SelectTrigger className="h-8 w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {COLOR_OPTIONS.map(([color, { label, className }]) => (
+          <SelectItem key={color} value={color}>
+            <span className={cn('stage-badge', className)}>{label}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface StageRowProps {
+  stage: UserStage;
+  index: number;
+  onMove: (index: number, direction: -1 | 1) => void;
+}
+
+function StageRow({ stage, index, onMove }: StageRowProps) {
+  const { user } = useAuth();
+  const { contacts } = useContacts(user?.id);
+  const { userStages, updateStage, deleteStage } = useStages(user?.id);
+  const [label, setLabel] = useState(stage.label);
+  const otherStages = userStages.filter((s) => s.id !== stage.id);
+  const [moveTo, setMoveTo] = useState<ContactStage>(otherStages[0]?.key ?? 'researching');
+  const contactCount = contacts.filter((c) => c.stage === stage.key).length;
+  const core = isCoreStage(stage.key);
+
+  const save = async (updates: Parameters<typeof updateStage.mutateAsync>[0]) => {
+    try {
+      await updateStage.mutateAsync(updates);
+    } catch {
+      toast.error('Failed to update stage');
+    }
+  };
+
+  const handleLabelBlur = () => {
+    const trimmed = label.trim();
+    if (!trimmed) {
+      setLabel(stage.label);
+      return;
+    }
+    if (trimmed !== stage.label) save({ id: stage.id, label: trimmed });
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteStage.mutateAsync({ stage, moveTo });
+      toast.success(`Deleted ${stage.label}`);
+    } catch {
+      toast.error('Failed to delete stage');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border p-3 text-sm">
+      <div className="flex flex-col">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-4 w-6"
+          disabled={index === 0}
+          onClick={() => onMove(index, -1)}
+          title="Move up"
+        >
+          <ArrowUp className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-4 w-6"
+          disabled={index === userStages.length - 1}
+          onClick={() => onMove(index, 1)}
+          title="Move down"
+        >
+          <ArrowDown className="h-3 w-3" />
+        </Button>
+      </div>
+      <Input
+        className="h-8 w-48"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={handleLabelBlur}
+      />
+      <ColorSelect value={stage.color} onChange={(color) => save({ id: stage.id, color })} />
+      <label className="flex items-center gap-1.5 text-muted-foreground">
+        <Switch
+          checked={stage.show_on_board}
+          onCheckedChange={(show_on_board) => save({ id: stage.id, show_on_board })}
+        />
+        On board
+      </label>
+      <span className="text-xs text-muted-foreground">
+        {contactCount} {contactCount === 1 ? 'contact' : 'contacts'}
+      </span>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="ml-auto h-8 w-8 text-muted-foreground hover:text-destructive"
+            disabled={core}
+            title={core ? 'Calendar and email automations use this stage, so it can be renamed but not deleted' : 'Delete stage'}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {stage.label}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {contactCount > 0
+                ? `Move its ${contactCount} ${contactCount === 1 ? 'contact' : 'contacts'} to another stage. Follow-up rules for this stage are deleted.`
+                : 'Follow-up rules for this stage are deleted too.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {contactCount > 0 && (
+            <Select value={moveTo} onValueChange={setMoveTo}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {otherStages.map((s) => (
+                  <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export function PipelineStagesCard() {
+  const { user } = useAuth();
+  const { userStages, createStage, reorderStages } = useStages(user?.id);
+  const [label, setLabel] = useState('');
+  const [color, setColor] = useState<StageColor>('stone');
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ordered = [...userStages];
+    [ordered[index], ordered[index + direction]] = [ordered[index + direction], ordered[index]];
+    reorderStages.mutate(ordered, { onError: () => toast.error('Failed to reorder stages') });
+  };
+
+  const handleAdd = async () => {
+    if (!label.trim()) return;
+    try {
+      await createStage.mutateAsync({ label: label.trim(), color });
+      setLabel('');
+      toast.success('Stage added');
+    } catch {
+      toast.error('Failed to add stage');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pipeline Stages</CardTitle>
+        <CardDescription>
+          Rename, recolor and reorder your stages, or add your own. Stages switched off
+          the board still show up everywhere else.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {userStages.map((stage, index) => (
+          <StageRow key={stage.id} stage={stage} index={index} onMove={handleMove} />
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Input
+            className="w-48"
+            placeholder="New stage name"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+          <ColorSelect value={color} onChange={setColor} />
+          <Button variant="outline" onClick={handleAdd} disabled={createStage.isPending || !label.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Stage
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
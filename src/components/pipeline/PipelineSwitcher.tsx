@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { usePipelines } from '@/hooks/usePipelines';
+import { MAIN_PIPELINE_LABEL } from '@/lib/pipelines';
+import { toast } from 'sonner';
+
+const MAIN_PIPELINE = '__main__';
+
+interface PipelineSwitcherProps {
+  /** Selected pipeline, null for the main pipeline */
+  value: string | null;
+  onChange: (pipelineId: string | null) => void;
+}
+
+export function PipelineSwitcher({ value, onChange }: PipelineSwitcherProps) {
+  const { user } = useAuth();
+  const { pipelines, createPipeline, updatePipeline, deletePipeline } = usePipelines(user?.id);
+  const [dialog, setDialog] = useState<{ mode: 'create' | 'rename'; name: string } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const active = pipelines.find((p) => p.id === value) ?? null;
+
+  const handleSave = async () => {
+    if (!dialog || !dialog.name.trim()) return;
+    try {
+      if (dialog.mode === 'create') {
+        const pipeline = await createPipeline.mutateAsync(dialog.name.trim());
+        onChange(pipeline.id);
+        toast.success('Pipeline created');
+      } else if (active) {
+        await updatePipeline.mutateAsync({ id: active.id, name: dialog.name.trim() });
+        toast.success('Pipeline renamed');
+      }
+      setDialog(null);
+    } catch {
+      toast.error('Failed to save pipeline');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!active) return;
+    try {
+      await deletePipeline.mutateAsync(active.id);
+      onChange(null);
+      toast.success('Pipeline deleted');
+    } catch {
+      toast.error('Failed to delete pipeline');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={value ?? MAIN_PIPELINE} onValueChange={(v) => onChange(v === MAIN_PIPELINE ? null : v)}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={MAIN_PIPELINE}>{MAIN_PIPELINE_LABEL}</SelectItem>
+          {pipelines.map((pipeline) => (
+            <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Pipeline options">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setDialog({ mode: 'create', name: '' })}>
+            <Plus className="h-4 w-4 mr-2" />
+            New pipeline
+          </DropdownMenuItem>
+          {active && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setDialog({ mode: 'rename', name: active.name })}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-destructive" onClick={() => setConfirmDelete(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {active?.name}</AlertDialogTitle>
+            <AlertDialogDescription>
+              The pipeline and the stages tracked in it are deleted. Its contacts stay in your main pipeline.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>{dialog?.mode === 'rename' ? 'Rename Pipeline' : 'New Pipeline'}</DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            placeholder="e.g. Summer Analyst 2027"
+            value={dialog?.name ?? ''}
+            onChange={(e) => setDialog((prev) => prev && { ...prev, name: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button
+              onClick={handleSave}
+              disabled={!dialog?.name.trim() || createPipeline.isPending || updatePipeline.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Bookmark, Check, Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/hooks/useAuth';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { filtersEqual, normalizeFilters } from '@/lib/contact-filters';
+import type { ContactFilters } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface SavedViewsMenuProps {
+  filters: ContactFilters;
+  /** Selected view, null when the filters aren't from a saved view */
+  activeViewId: string | null;
+  onApply: (viewId: string | null, filters: ContactFilters) => void;
+}
+
+export function SavedViewsMenu({ filters, activeViewId, onApply }: SavedViewsMenuProps) {
+  const { user } = useAuth();
+  const { savedViews, createView, updateView, deleteView } = useSavedViews(user?.id);
+  const [naming, setNaming] = useState<string | null>(null);
+  const activeView = savedViews.find((v) => v.id === activeViewId) ?? null;
+  const modified = activeView ? !filtersEqual(normalizeFilters(activeView.filters), filters) : false;
+
+  const handleCreate = async () => {
+    if (!naming?.trim()) return;
+    try {
+      const view = await createView.mutateAsync({ name: naming.trim(), filters });
+      onApply(view.id, filters);
+      setNaming(null);
+      toast.success('View saved');
+    } catch {
+      toast.error('Failed to save view');
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!activeView) return;
+    try {
+      await updateView.mutateAsync({ id: activeView.id, filters });
+      toast.success(`Updated ${activeView.name}`);
+    } catch {
+      toast.error('Failed to update view');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteView.mutateAsync(id);
+      if (id === activeViewId) onApply(null, filters);
+    } catch {
+      toast.error('Failed to delete view');
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="h-4 w-4 mr-2" />
+            {activeView ? `${activeView.name}${modified ? '*' : ''}` : 'Views'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          {savedViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+              {savedViews.map((view) => (
+                <DropdownMenuItem
+                  key={view.id}
+                  className="group"
+                  onClick={() => onApply(view.id, normalizeFilters(view.filters))}
+                >
+                  <Check className={cn('h-4 w-4 mr-2', view.id === activeViewId ? 'opacity-100' : 'opacity-0')} />
+                  <span className="flex-1 truncate">{view.name}</span>
+                  <button
+                    type="button"
+                    className="ml-2 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                    title="Delete view"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(view.id);
+                    }}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          {activeView && modified && (
+            <DropdownMenuItem onClick={handleUpdate}>
+              <Save className="h-4 w-4 mr-2" />
+              Update "{activeView.name}"
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setNaming('')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Save as new view
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={naming !== null} onOpenChange={(open) => !open && setNaming(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            placeholder="e.g. Overdue alumni"
+            value={naming ?? ''}
+            onChange={(e) => setNaming(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNaming(null)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={!naming?.trim() || createView.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
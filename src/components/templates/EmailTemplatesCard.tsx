@@ -0,0 +1,302 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Eye, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ContactPicker } from '@/components/contacts/ContactPicker';
+import { useAuth } from '@/hooks/useAuth';
+import { useContacts } from '@/hooks/useContacts';
+import {
+  renderEmailTemplate,
+  useEmailTemplates,
+  useEmailTemplateUsage,
+  type RenderedEmail,
+} from '@/hooks/useEmailTemplates';
+import { STARTER_EMAIL_TEMPLATES, TEMPLATE_VARIABLES, type TemplateUsageStats } from '@/lib/email-templates';
+import {
+  EMAIL_TEMPLATE_CATEGORIES,
+  type EmailTemplate,
+  type EmailTemplateCategory,
+} from '@/lib/types';
+import { toast } from 'sonner';
+
+function categoryLabel(value: EmailTemplateCategory) {
+  return EMAIL_TEMPLATE_CATEGORIES.find((c) => c.value === value)?.label ?? value;
+}
+
+function usageSummary(stats: TemplateUsageStats | undefined) {
+  if (!stats) return 'Not used yet';
+  const modes = [
+    stats.asIs > 0 && `${stats.asIs} as-is`,
+    stats.styleSeed > 0 && `${stats.styleSeed} as AI style`,
+    stats.sequence > 0 && `${stats.sequence} in sequences`,
+  ].filter(Boolean).join(', ');
+  const contacts = `${stats.contacts} ${stats.contacts === 1 ? 'contact' : 'contacts'}`;
+  const lastUsed = stats.lastUsedAt ? `, last ${format(new Date(stats.lastUsedAt), 'MMM d')}` : '';
+  return `Used ${stats.total} ${stats.total === 1 ? 'time' : 'times'} (${modes}) with ${contacts}${lastUsed}`;
+}
+
+interface TemplateDialogProps {
+  /** The template being edited, or null to create one */
+  template: EmailTemplate | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function TemplateDialog({ template, open, onOpenChange }: TemplateDialogProps) {
+  const { user } = useAuth();
+  const { createTemplates, updateTemplate } = useEmailTemplates(user?.id);
+  const { contacts } = useContacts(user?.id);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [previewContactId, setPreviewContactId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [name, setName] = useState(template?.name ?? '');
+  const [category, setCategory] = useState<EmailTemplateCategory>(template?.category ?? 'outreach');
+  const [subject, setSubject] = useState(template?.subject ?? '');
+  const [body, setBody] = useState(template?.body ?? '');
+
+  // Inserts at the cursor so variables land where the user is typing
+  const insertVariable = (key: string) => {
+    const token = `{{${key}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + token + body.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  // Renders the unsaved text, so edits can be checked before saving
+  const handlePreview = async () => {
+    if (!previewContactId) return;
+    setPreviewing(true);
+    try {
+      setPreview(await renderEmailTemplate(previewContactId, { subject, body }));
+    } catch (error) {
+      console.error('Failed to preview template', error);
+      toast.error('Failed to preview template');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !body.trim()) {
+      toast.error('Give the template a name and a body');
+      return;
+    }
+    const fields = { name: name.trim(), category, subject: subject.trim(), body };
+    try {
+      if (template) {
+        await updateTemplate.mutateAsync({ id: template.id, ...fields });
+      } else {
+        await createTemplates.mutateAsync([fields]);
+      }
+      toast.success('Template saved');
+      onOpenChange(false);
+    } catch {
+      toast.error('Failed to save template');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit Template' : 'New Template'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="w-40 space-y-2">
+              <Label>Used for</Label>
+              <Select value={category} onValueChange={(v) => setCategory(v as EmailTemplateCategory)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMAIL_TEMPLATE_CATEGORIES.map((c) => (
+                    <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-subject">Subject</Label>
+            <Input id="template-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-body">Body</Label>
+            <Textarea
+              id="template-body"
+              ref={bodyRef}
+              rows={12}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-1">
+              {TEMPLATE_VARIABLES.map((variable) => (
+                <Button
+                  key={variable.key}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 font-mono text-xs"
+                  title={variable.description}
+                  onClick={() => insertVariable(variable.key)}
+                >
+                  {`{{${variable.key}}}`}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2 rounded-lg border p-3">
+            <Label>Preview with a contact</Label>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <ContactPicker
+                  value={previewContactId}
+                  onChange={(id) => {
+                    setPreviewContactId(id);
+                    setPreview(null);
+                  }}
+                  contacts={contacts}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handlePreview}
+                disabled={!previewContactId || !body.trim() || previewing}
+              >
+                {previewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                Preview
+              </Button>
+            </div>
+            {preview && (
+              <div className="space-y-2 rounded-md bg-muted/30 p-3 text-sm">
+                {preview.missing.length > 0 && (
+                  <p className="text-xs text-amber-600">
+                    No value for {preview.missing.map((key) => `{{${key}}}`).join(', ')} with this contact.
+                  </p>
+                )}
+                <p className="font-medium">{preview.subject}</p>
+                <p className="whitespace-pre-line leading-relaxed">{preview.body}</p>
+              </div>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={createTemplates.isPending || updateTemplate.isPending}>
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function EmailTemplatesCard() {
+  const { user } = useAuth();
+  const { templates, createTemplates, deleteTemplate } = useEmailTemplates(user?.id);
+  const { usage } = useEmailTemplateUsage(user?.id);
+  const [editing, setEditing] = useState<EmailTemplate | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const openDialog = (template: EmailTemplate | null) => {
+    setEditing(template);
+    setDialogOpen(true);
+  };
+
+  const handleAddStarters = async () => {
+    try {
+      await createTemplates.mutateAsync(STARTER_EMAIL_TEMPLATES);
+      toast.success('Starter templates added');
+    } catch {
+      toast.error('Failed to add templates');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Templates</CardTitle>
+        <CardDescription>
+          Reusable emails for outreach, follow-ups, thank-yous and referral asks. Variables like{' '}
+          {'{{firm}}'} are filled in for each contact. Use a template as-is, or have the AI write a new
+          email in its style.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {templates.length === 0 && (
+          <div className="flex flex-wrap items-center gap-3">
+            <p className="text-sm text-muted-foreground">No templates yet.</p>
+            <Button variant="outline" size="sm" onClick={handleAddStarters} disabled={createTemplates.isPending}>
+              Add starter templates
+            </Button>
+          </div>
+        )}
+        {templates.map((template) => (
+          <div key={template.id} className="flex items-center gap-3 rounded-lg border p-3 text-sm">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium truncate">{template.name}</span>
+                <Badge variant="secondary">{categoryLabel(template.category)}</Badge>
+              </div>
+              {template.subject && (
+                <p className="text-xs text-muted-foreground truncate">{template.subject}</p>
+              )}
+              <p className="text-xs text-muted-foreground">{usageSummary(usage.get(template.id))}</p>
+            </div>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(template)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+              onClick={() => deleteTemplate.mutate(template.id, { onError: () => toast.error('Failed to delete template') })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <Button variant="outline" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Template
+        </Button>
+      </CardContent>
+
+      {dialogOpen && (
+        <TemplateDialog template={editing} open={dialogOpen} onOpenChange={setDialogOpen} />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+import { ChevronDown, FileText } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/hooks/useAuth';
+import { useEmailTemplates, type TemplateSelection } from '@/hooks/useEmailTemplates';
+import { EMAIL_TEMPLATE_CATEGORIES, type EmailTemplateCategory } from '@/lib/types';
+
+interface TemplateMenuProps {
+  /** Categories to offer, in order */
+  categories: EmailTemplateCategory[];
+  onSelect: (selection: TemplateSelection) => void;
+  disabled?: boolean;
+  size?: 'sm' | 'default';
+}
+
+// Pick one of the user's templates to send as-is or to have the AI write in its style
+export function TemplateMenu({ categories, onSelect, disabled, size = 'sm' }: TemplateMenuProps) {
+  const { user } = useAuth();
+  const { templates } = useEmailTemplates(user?.id);
+
+  const groups = categories
+    .map((category) => ({
+      label: EMAIL_TEMPLATE_CATEGORIES.find((c) => c.value === category)?.label ?? category,
+      templates: templates.filter((t) => t.category === category),
+    }))
+    .filter((group) => group.templates.length > 0);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={disabled}>
+          <FileText className="h-4 w-4 mr-2" />
+          Templates
+          <ChevronDown className="h-3.5 w-3.5 ml-1 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        {groups.length === 0 && (
+          <DropdownMenuItem asChild>
+            <Link to="/settings">No templates yet. Add some in Settings</Link>
+          </DropdownMenuItem>
+        )}
+        {groups.map((group, i) => (
+          <div key={group.label}>
+            {i > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel className="text-xs text-muted-foreground">{group.label}</DropdownMenuLabel>
+            {group.templates.map((template) => (
+              <DropdownMenuSub key={template.id}>
+                <DropdownMenuSubTrigger>
+                  <span className="truncate">{template.name}</span>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuItem onSelect={() => onSelect({ templateId: template.id, mode: 'as_is' })}>
+                    Use as-is
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => onSelect({ templateId: template.id, mode: 'style_seed' })}>
+                    Write with AI in this style
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            ))}
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,98 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+export interface CalendarFeed {
+  id: string;
+  user_id: string;
+  token: string;
+  last_fetched_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function calendarFeedUrl(feed: CalendarFeed): string {
+  return `${SUPABASE_URL}/functions/v1/calendar-feed?token=${feed.token}`;
+}
+
+export function useCalendarFeed(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: feed = null, isLoading } = useQuery({
+    queryKey: ['calendarFeed', userId],
+    queryFn: async () => {
+      if (!userId) return null;
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      return data as CalendarFeed | null;
+    },
+    enabled: !!userId,
+  });
+
+  // The token is generated by the database
+  const createFeed = useMutation({
+    mutationFn: async () => {
+      if (!userId) throw new Error('No user ID');
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .insert({ user_id: userId })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as CalendarFeed;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendarFeed', userId] });
+    },
+  });
+
+  // Replace the feed with one on a new token, so the old URL stops working
+  const resetFeed = useMutation({
+    mutationFn: async () => {
+      if (!userId) throw new Error('No user ID');
+      const { error: deleteError } = await supabase
+        .from('calendar_feeds')
+        .delete()
+        .eq('user_id', userId);
+      if (deleteError) throw deleteError;
+
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .insert({ user_id: userId })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as CalendarFeed;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendarFeed', userId] });
+    },
+  });
+
+  const deleteFeed = useMutation({
+    mutationFn: async () => {
+      if (!userId) throw new Error('No user ID');
+      const { error } = await supabase
+        .from('calendar_feeds')
+        .delete()
+        .eq('user_id', userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendarFeed', userId] });
+    },
+  });
+
+  return {
+    feed,
+    isLoading,
+    createFeed,
+    resetFeed,
+    deleteFeed,
+  };
+}
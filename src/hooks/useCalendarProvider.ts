@@ -0,0 +1,232 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  CALENDAR_PROVIDERS,
+  type CalendarProvider,
+  type CalendarProviderId,
+} from '@/lib/calendar-providers';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+/** An event on the connected calendar, shown read-only next to the user's calls */
+export interface ExternalCalendarEvent {
+  id: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start: string | null;
+  end: string | null;
+  htmlLink: string | null;
+  status: string;
+}
+
+export interface PendingContact {
+  email: string;
+  displayName: string;
+  /** The event's id with the connected provider */
+  gcalEventId: string;
+  eventTitle: string;
+  startAt: string;
+  endAt: string;
+  location: string | null;
+  notes: string | null;
+}
+
+export interface CalendarSyncResult {
+  /** New calls created for matched contacts */
+  synced: number;
+  /** Calls rescheduled or renamed in the calendar (two-way providers only) */
+  updated?: number;
+  /** Calls canceled or deleted in the calendar (two-way providers only) */
+  canceled?: number;
+  /** App edits and cancellations sent to the calendar (two-way providers only) */
+  pushed?: number;
+  /** Calendar events deleted because their calls were deleted in the app */
+  deleted: number;
+  /** Calls changed on both sides since the last sync (two-way providers only) */
+  conflicts?: number;
+  skipped: number;
+  pending_contacts: PendingContact[];
+}
+
+export interface ConfirmedContact {
+  name: string;
+  email: string;
+  firm?: string;
+  position?: string;
+  connection_type: 'cold' | 'alumni' | 'friend' | 'referral';
+  gcalEventId: string;
+  eventTitle: string;
+  startAt: string;
+  endAt: string;
+  location?: string | null;
+  notes?: string | null;
+}
+
+async function callFunction(name: string, body: unknown): Promise<Response> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData.session?.access_token;
+  if (!accessToken) throw new Error('Not logged in');
+
+  return fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      apikey: SUPABASE_ANON_KEY,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * The user's connected calendar (Google or Outlook) and the operations on it.
+ * One calendar is connected at a time.
+ */
+export function useCalendarProvider() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Which calendar, if any, the user has connected
+  const { data: providerId = null, isLoading: isCheckingConnection } = useQuery({
+    queryKey: ['calendar-connection', user?.id],
+    queryFn: async (): Promise<CalendarProviderId | null> => {
+      if (!user) return null;
+      for (const candidate of Object.values(CALENDAR_PROVIDERS)) {
+        const { data, error } = await supabase
+          .from(candidate.tokenTable)
+          .select('id')
+          .eq('user_id', user.id)
+          .maybeSingle();
+        if (error) {
+          console.error(`Error checking ${candidate.label} connection:`, error);
+          continue;
+        }
+        if (data) return candidate.id;
+      }
+      return null;
+    },
+    enabled: !!user,
+  });
+
+  const provider: CalendarProvider | null = providerId ? CALENDAR_PROVIDERS[providerId] : null;
+
+  // Start the OAuth flow
+  const connectCalendar = async (id: CalendarProviderId) => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData.session?.access_token;
+    if (!accessToken) throw new Error('Not logged in');
+
+    window.location.href = CALENDAR_PROVIDERS[id].authorizeUrl(accessToken);
+  };
+
+  // Disconnect the calendar
+  const disconnectCalendar = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error('Not logged in');
+      if (!provider) return;
+      const { error } = await supabase
+        .from(provider.tokenTable)
+        .delete()
+        .eq('user_id', user.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-connection', user?.id] });
+    },
+  });
+
+  // Push a call event to the calendar
+  const pushToCalendar = useMutation({
+    mutationFn: async ({
+      callEventId,
+      action,
+      attendeeEmail,
+    }: {
+      callEventId: string;
+      action: 'create' | 'update' | 'delete';
+      attendeeEmail?: string;
+    }) => {
+      if (!provider) throw new Error('No calendar connected');
+      const resp = await callFunction(provider.functions.push, { callEventId, action, attendeeEmail });
+
+      if (!resp.ok) {
+        const errBody = await resp.text();
+        console.error(`${provider.label} push failed:`, resp.status, errBody);
+        throw new Error(`${provider.label} sync failed (${resp.status})`);
+      }
+
+      return resp.json();
+    },
+  });
+
+  // Fetch calendar events for a date range (read-only overlay)
+  const fetchCalendarEvents = useCallback(async (timeMin: string, timeMax: string): Promise<ExternalCalendarEvent[]> => {
+    if (!provider) return [];
+    const resp = await callFunction(provider.functions.list, { timeMin, timeMax }).catch(() => null);
+
+    if (!resp?.ok) {
+      console.error(`Failed to fetch ${provider.label} events:`, resp?.status);
+      return [];
+    }
+
+    const data = await resp.json();
+    return data.events ?? [];
+  }, [provider]);
+
+  // Sync calendar calls to the pipeline
+  const syncCalendarCalls = useMutation({
+    mutationFn: async ({ timeMin, timeMax }: { timeMin: string; timeMax: string }) => {
+      if (!provider) throw new Error('No calendar connected');
+      const resp = await callFunction(provider.functions.sync, { timeMin, timeMax });
+
+      if (!resp.ok) {
+        const errBody = await resp.text();
+        console.error(`${provider.label} sync failed:`, resp.status, errBody);
+        throw new Error(`${provider.label} sync failed (${resp.status})`);
+      }
+
+      return resp.json() as Promise<CalendarSyncResult>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['callEvents', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['upcomingCalls', user?.id] });
+    },
+  });
+
+  // Confirm and create contacts after user review
+  const confirmContacts = useMutation({
+    mutationFn: async (contacts: ConfirmedContact[]) => {
+      const resp = await callFunction('gcal-confirm-contacts', { contacts, provider: providerId ?? 'google' });
+
+      if (!resp.ok) {
+        const errBody = await resp.text();
+        console.error('Confirm contacts failed:', resp.status, errBody);
+        throw new Error(`Failed to create contacts (${resp.status})`);
+      }
+
+      return resp.json() as Promise<{ created: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['callEvents', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['upcomingCalls', user?.id] });
+    },
+  });
+
+  return {
+    provider,
+    isConnected: !!provider,
+    isCheckingConnection,
+    connectCalendar,
+    disconnectCalendar,
+    pushToCalendar,
+    fetchCalendarEvents,
+    syncCalendarCalls,
+    confirmContacts,
+  };
+}
@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { differenceInMinutes } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { refreshSummariesInBackground } from '@/hooks/useContactSummary';
+import type { Json } from '@/integrations/supabase/types';
+import { debriefToMarkdown, type DebriefContent } from '@/lib/call-debrief';
+import type { CallDebrief } from '@/lib/types';
+
+export function useCallDebriefs(contactId: string | undefined, userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: debriefs = [], isLoading } = useQuery({
+    queryKey: ['callDebriefs', contactId],
+    queryFn: async () => {
+      if (!contactId) return [];
+      const { data, error } = await supabase
+        .from('call_debriefs')
+        .select('*')
+        .eq('contact_id', contactId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as unknown as CallDebrief[];
+    },
+    enabled: !!contactId,
+  });
+
+  // Logs the call as an interaction, attaches the debrief to it and the call
+  // event, and turns every promised follow-up into a task
+  const saveDebrief = useMutation({
+    mutationFn: async ({ contactId, callEventId, debrief }: {
+      contactId: string;
+      callEventId: string | null;
+      debrief: DebriefContent;
+    }) => {
+      if (!userId) throw new Error('No user ID');
+
+      let date = new Date().toISOString();
+      let durationMinutes: number | null = null;
+      if (callEventId) {
+        const { data: callEvent } = await supabase
+          .from('call_events')
+          .select('start_at, end_at')
+          .eq('id', callEventId)
+          .single();
+        if (callEvent) {
+          date = callEvent.start_at;
+          durationMinutes = differenceInMinutes(new Date(callEvent.end_at), new Date(callEvent.start_at)) || null;
+        }
+      }
+
+      const { data: interaction, error: interactionError } = await supabase
+        .from('interactions')
+        .insert({
+          user_id: userId,
+          contact_id: contactId,
+          type: 'call',
+          date,
+          notes: debriefToMarkdown(debrief),
+          duration_minutes: durationMinutes,
+          outcome: debrief.asked_for_referral ? 'asked_for_referral' : null,
+        })
+        .select()
+        .single();
+      if (interactionError) throw interactionError;
+
+      const { data, error } = await supabase
+        .from('call_debriefs')
+        .insert({
+          ...debrief,
+          follow_ups: debrief.follow_ups as unknown as Json,
+          user_id: userId,
+          contact_id: contactId,
+          call_event_id: callEventId,
+          interaction_id: interaction.id,
+        })
+        .select()
+        .single();
+      if (error) {
+        await supabase.from('interactions').delete().eq('id', interaction.id);
+        throw error;
+      }
+
+      if (debrief.follow_ups.length > 0) {
+        const { error: tasksError } = await supabase
+          .from('tasks')
+          .insert(debrief.follow_ups.map((followUp) => ({
+            user_id: userId,
+            contact_id: contactId,
+            call_event_id: callEventId,
+            title: followUp.title,
+            due_date: followUp.due_date,
+            task_type: 'follow_up',
+          })));
+        if (tasksError) throw tasksError;
+      }
+
+      // Next follow-up is the earliest promised one, else a week out as for any call
+      const dueDates = debrief.follow_ups.map((f) => f.due_date).filter((d): d is string => !!d).sort();
+      const nextFollowup = dueDates.length > 0 ? new Date(dueDates[0]) : new Date(date);
+      if (dueDates.length === 0) nextFollowup.setDate(nextFollowup.getDate() + 7);
+
+      await supabase
+        .from('contacts')
+        .update({ last_contacted_at: date, next_followup_at: nextFollowup.toISOString() })
+        .eq('id', contactId);
+
+      return data as unknown as CallDebrief;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['callDebriefs', variables.contactId] });
+      queryClient.invalidateQueries({ queryKey: ['interactions', variables.contactId] });
+      queryClient.invalidateQueries({ queryKey: ['contact', variables.contactId] });
+      queryClient.invalidateQueries({ queryKey: ['contacts'] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', userId] });
+      queryClient.invalidateQueries({ queryKey: ['userInteractions', userId] });
+      queryClient.invalidateQueries({ queryKey: ['weeklyInteractions', userId] });
+      refreshSummariesInBackground(queryClient, [variables.contactId]);
+    },
+  });
+
+  return {
+    debriefs,
+    isLoading,
+    saveDebrief,
+  };
+}
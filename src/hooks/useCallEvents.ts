@@ -13,18 +13,18 @@ export function useCallEvents(userId: string | undefined) {
         .from('call_events')
         .select(`
           *,
-          contact:contacts(id, name, firm, position, stage)
+          contact:contacts(id, name, firm, email, position, stage)
         `)
         .eq('user_id', userId)
         .order('start_at', { ascending: true });
       if (error) throw error;
-      return data as (CallEvent & { contact: { id: string; name: string; firm: string | null; position: string | null; stage: string } })[];
+      return data as (CallEvent & { contact: { id: string; name: string; firm: string | null; email: string | null; position: string | null; stage: string } })[];
     },
     enabled: !!userId,
   });
 
   const createCallEvent = useMutation({
-    mutationFn: async (event: Omit<CallEvent, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'contact'> & { updateContactStage?: boolean }) => {
+    mutationFn: async (event: Omit<CallEvent, 'id' | 'user_id' | 'external_updated_at' | 'synced_at' | 'created_at' | 'updated_at' | 'contact'> & { updateContactStage?: boolean }) => {
       if (!userId) throw new Error('No user ID');
       
       const { updateContactStage, ...eventData } = event;
@@ -0,0 +1,190 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { CallEvent, Contact, Interaction } from '@/lib/types';
+import type { ContactExportRecord, ContactWithRelations } from '@/lib/contact-export';
+import { createDuplicateChecker } from '@/lib/contact-import';
+
+const RESTORE_BATCH_SIZE = 50;
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// Reads every row of a query, a page at a time, until a page comes back short
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export function useContactExport(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  // Load every contact together with its interactions and call events
+  const fetchContactsForExport = async (): Promise<ContactWithRelations[]> => {
+    if (!userId) throw new Error('No user ID');
+
+    // Ordered by id as well, so pages don't overlap or skip rows with equal sort keys
+    const [contactRows, interactionRows, callEventRows] = await Promise.all([
+      fetchAllPages((from, to) =>
+        supabase.from('contacts').select('*').eq('user_id', userId)
+          .order('name', { ascending: true }).order('id').range(from, to)
+      ),
+      fetchAllPages((from, to) =>
+        supabase.from('interactions').select('*').eq('user_id', userId)
+          .order('date', { ascending: true }).order('id').range(from, to)
+      ),
+      fetchAllPages((from, to) =>
+        supabase.from('call_events').select('*').eq('user_id', userId)
+          .order('start_at', { ascending: true }).order('id').range(from, to)
+      ),
+    ]);
+
+    const interactions = interactionRows as unknown as Interaction[];
+    const callEvents = callEventRows as CallEvent[];
+
+    return (contactRows as unknown as Contact[]).map((contact) => ({
+      ...contact,
+      prep_questions_json: contact.prep_questions_json ?? [],
+      interactions: interactions.filter((i) => i.contact_id === contact.id),
+      call_events: callEvents.filter((e) => e.contact_id === contact.id),
+    }));
+  };
+
+  // Recreate contacts from a JSON export, with new IDs, skipping any that already exist
+  const restoreContacts = useMutation({
+    mutationFn: async (records: ContactExportRecord[]) => {
+      if (!userId) throw new Error('No user ID');
+
+      const existing = await fetchAllPages((from, to) =>
+        supabase.from('contacts').select('name, firm, email').eq('user_id', userId).order('id').range(from, to)
+      );
+
+      // Custom field values only carry over into an account that has the same fields (its own backup)
+      const { data: fields, error: fieldsError } = await supabase
+        .from('custom_field_definitions')
+        .select('id')
+        .eq('user_id', userId);
+      if (fieldsError) throw fieldsError;
+      const fieldIds = new Set(fields.map((f) => f.id));
+
+      const isDuplicate = createDuplicateChecker(existing);
+      const toRestore = records.filter((r) => !isDuplicate(r));
+      // Exported id -> id of the restored contact, to re-link referrals afterwards
+      const restoredIds = new Map<string, string>();
+      let restored = 0;
+
+      for (let i = 0; i < toRestore.length; i += RESTORE_BATCH_SIZE) {
+        const batch = toRestore.slice(i, i + RESTORE_BATCH_SIZE);
+        const { data: inserted, error } = await supabase
+          .from('contacts')
+          .insert(
+            batch.map((r) => ({
+              user_id: userId,
+              name: r.name,
+              firm: r.firm ?? null,
+              group_name: r.group_name ?? null,
+              position: r.position ?? null,
+              email: r.email ?? null,
+              phone: r.phone ?? null,
+              connection_type: r.connection_type ?? 'cold',
+              relationship_strength: r.relationship_strength ?? 1,
+              relationship_strength_pinned: r.relationship_strength_pinned ?? false,
+              stage: r.stage ?? 'researching',
+              stage_source: 'import' as const,
+              last_contacted_at: r.last_contacted_at ?? null,
+              next_followup_at: r.next_followup_at ?? null,
+              followup_count: r.followup_count ?? 0,
+              went_cold_at: r.went_cold_at ?? null,
+              notes_summary: r.notes_summary ?? null,
+              prep_questions_json: r.prep_questions_json ?? [],
+              tags: r.tags ?? [],
+              timezone: r.timezone ?? null,
+              custom_fields: Object.fromEntries(
+                Object.entries(r.custom_fields ?? {}).filter(([id]) => fieldIds.has(id))
+              ),
+            }))
+          )
+          .select('id');
+        if (error) throw error;
+
+        // PostgREST returns inserted rows in insert order
+        const idMap = new Map(batch.map((r, idx) => [r, inserted[idx].id as string]));
+        batch.forEach((r, idx) => {
+          if (r.id) restoredIds.set(r.id, inserted[idx].id);
+        });
+
+        // Attachment files live in the exporting account's storage, so they are not carried over
+        const interactions = batch.flatMap((r) =>
+          (r.interactions ?? []).map((i) => ({
+            user_id: userId,
+            contact_id: idMap.get(r)!,
+            type: i.type,
+            date: i.date,
+            notes: i.notes,
+            duration_minutes: i.duration_minutes ?? null,
+            outcome: i.outcome ?? null,
+          }))
+        );
+        if (interactions.length) {
+          const { error: interactionsError } = await supabase.from('interactions').insert(interactions);
+          if (interactionsError) throw interactionsError;
+        }
+
+        // Calendar links belong to the exporting account, so they are not carried over
+        const callEvents = batch.flatMap((r) =>
+          (r.call_events ?? []).map((e) => ({
+            user_id: userId,
+            contact_id: idMap.get(r)!,
+            title: e.title,
+            start_at: e.start_at,
+            end_at: e.end_at,
+            location: e.location,
+            notes: e.notes,
+            status: e.status,
+          }))
+        );
+        if (callEvents.length) {
+          const { error: callEventsError } = await supabase.from('call_events').insert(callEvents);
+          if (callEventsError) throw callEventsError;
+        }
+
+        restored += batch.length;
+      }
+
+      // Referrals between restored contacts point at the new ids; referrers
+      // that weren't in the backup or already existed are left unlinked
+      const referralsByReferrer = new Map<string, string[]>();
+      for (const r of toRestore) {
+        const contactId = r.id ? restoredIds.get(r.id) : undefined;
+        const referrerId = r.referred_by_id ? restoredIds.get(r.referred_by_id) : undefined;
+        if (!contactId || !referrerId) continue;
+        referralsByReferrer.set(referrerId, [...(referralsByReferrer.get(referrerId) ?? []), contactId]);
+      }
+      for (const [referrerId, contactIds] of referralsByReferrer) {
+        const { error } = await supabase
+          .from('contacts')
+          .update({ referred_by_id: referrerId })
+          .in('id', contactIds);
+        if (error) throw error;
+      }
+
+      return { restored, skipped: records.length - toRestore.length };
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+      queryClient.invalidateQueries({ queryKey: ['callEvents', userId] });
+      queryClient.invalidateQueries({ queryKey: ['interactions'] });
+    },
+  });
+
+  return {
+    fetchContactsForExport,
+    restoreContacts,
+  };
+}
@@ -0,0 +1,117 @@
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+// summarize-contact's per-request limit
+const SUMMARY_BATCH_SIZE = 10;
+
+async function callSummarizeContact(body: { contactId: string } | { contactIds: string[] }) {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData.session?.access_token;
+  if (!accessToken) throw new Error('Not logged in');
+
+  const resp = await fetch(`${SUPABASE_URL}/functions/v1/summarize-contact`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      apikey: SUPABASE_ANON_KEY,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!resp.ok) {
+    const errBody = await resp.text();
+    throw new Error(`Summary generation failed (${resp.status}): ${errBody}`);
+  }
+
+  return resp.json();
+}
+
+// Asks summarize-contact to regenerate the contact's summary. The result is
+// stored as notes_summary_suggestion; null when nothing changed.
+async function requestSummary(contactId: string): Promise<string | null> {
+  const data = await callSummarizeContact({ contactId });
+  return data.suggestion ?? null;
+}
+
+/**
+ * Regenerates the summaries of contacts that just had a new interaction.
+ * Each summary is an OpenAI call, so contacts go to the server in batches, one
+ * batch at a time. Runs in the background: failures are logged, never surfaced.
+ */
+export async function refreshSummariesInBackground(queryClient: QueryClient, contactIds: string[]) {
+  const ids = [...new Set(contactIds)];
+  const failed: string[] = [];
+
+  for (let i = 0; i < ids.length; i += SUMMARY_BATCH_SIZE) {
+    const batch = ids.slice(i, i + SUMMARY_BATCH_SIZE);
+    try {
+      const { results } = await callSummarizeContact({ contactIds: batch }) as {
+        results: { contactId: string; suggestion?: string | null; error?: string }[];
+      };
+      for (const result of results) {
+        if (result.error) failed.push(result.contactId);
+        else if (result.suggestion) queryClient.invalidateQueries({ queryKey: ['contact', result.contactId] });
+      }
+      if (results.some((r) => r.suggestion)) queryClient.invalidateQueries({ queryKey: ['contacts'] });
+    } catch (e) {
+      console.error('Summary refresh failed (non-blocking):', e);
+      failed.push(...batch);
+    }
+  }
+
+  if (failed.length > 0) {
+    console.error(`Summary refresh failed for ${failed.length} of ${ids.length} contacts (non-blocking):`, failed);
+  }
+}
+
+export function useContactSummary(contactId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['contact', contactId] });
+    queryClient.invalidateQueries({ queryKey: ['contacts'] });
+  };
+
+  const regenerateSummary = useMutation({
+    mutationFn: async () => {
+      if (!contactId) throw new Error('No contact ID');
+      return requestSummary(contactId);
+    },
+    onSuccess: invalidate,
+  });
+
+  // Makes the reviewed suggestion the contact's summary
+  const acceptSuggestion = useMutation({
+    mutationFn: async (summary: string) => {
+      if (!contactId) throw new Error('No contact ID');
+      const { error } = await supabase
+        .from('contacts')
+        .update({ notes_summary: summary || null, notes_summary_suggestion: null, notes_summary_suggested_at: null })
+        .eq('id', contactId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const dismissSuggestion = useMutation({
+    mutationFn: async () => {
+      if (!contactId) throw new Error('No contact ID');
+      const { error } = await supabase
+        .from('contacts')
+        .update({ notes_summary_suggestion: null, notes_summary_suggested_at: null })
+        .eq('id', contactId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    regenerateSummary,
+    acceptSuggestion,
+    dismissSuggestion,
+  };
+}
@@ -1,6 +1,23 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import type { Contact, ContactStage } from '@/lib/types';
+import type { ImportContact } from '@/lib/contact-import';
+import { normalizeTags } from '@/lib/custom-fields';
+
+const IMPORT_BATCH_SIZE = 50;
+
+// Columns the database fills in (firm resolution, follow-up cadence, defaults, summary suggestions)
+type DatabaseManagedField =
+  | 'firm_id'
+  | 'firm_group_id'
+  | 'followup_count'
+  | 'went_cold_at'
+  | 'relationship_strength_pinned'
+  | 'notes_summary_suggestion'
+  | 'notes_summary_suggested_at'
+  | 'timezone';
+type NewContact = Omit<Contact, 'id' | 'user_id' | 'created_at' | 'updated_at' | DatabaseManagedField> &
+  Partial<Pick<Contact, DatabaseManagedField>>;
 
 export function useContacts(userId: string | undefined) {
   const queryClient = useQueryClient();
@@ -20,8 +37,25 @@ export function useContacts(userId: string | undefined) {
     enabled: !!userId,
   });
 
+  // Optimistic updates: patch the cached list right away and hand back the previous list for rollback
+  const patchCachedContacts = async (patch: (cached: Contact[]) => Contact[]) => {
+    await queryClient.cancelQueries({ queryKey: ['contacts', userId] });
+    const previous = queryClient.getQueryData<Contact[]>(['contacts', userId]);
+    if (previous) queryClient.setQueryData(['contacts', userId], patch(previous));
+    return { previous };
+  };
+
+  const rollbackCachedContacts = <TVariables>(_error: unknown, _variables: TVariables, context?: { previous?: Contact[] }) => {
+    if (context?.previous) queryClient.setQueryData(['contacts', userId], context.previous);
+  };
+
+  const patchContacts = (ids: string[], updates: Partial<Contact>) => {
+    const selected = new Set(ids);
+    return patchCachedContacts((cached) => cached.map((c) => (selected.has(c.id) ? { ...c, ...updates } : c)));
+  };
+
   const createContact = useMutation({
-    mutationFn: async (contact: Omit<Contact, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => {
+    mutationFn: async (contact: NewContact) => {
       if (!userId) throw new Error('No user ID');
       
       // Set next_followup_at to 7 days from now if not specified
@@ -45,6 +79,33 @@ export function useContacts(userId: string | undefined) {
     },
   });
 
+  const importContacts = useMutation({
+    mutationFn: async (rows: ImportContact[]) => {
+      if (!userId) throw new Error('No user ID');
+
+      const nextFollowup = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+      let imported = 0;
+
+      // Insert in batches so a large LinkedIn export doesn't exceed request limits
+      for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+        const batch = rows.slice(i, i + IMPORT_BATCH_SIZE).map((row) => ({
+          ...row,
+          user_id: userId,
+          next_followup_at: nextFollowup,
+          stage_source: 'import' as const,
+        }));
+        const { error } = await supabase.from('contacts').insert(batch);
+        if (error) throw error;
+        imported += batch.length;
+      }
+
+      return { imported };
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+    },
+  });
+
   const updateContact = useMutation({
     mutationFn: async ({ id, ...updates }: Partial<Contact> & { id: string }) => {
       const { data, error } = await supabase
@@ -56,13 +117,57 @@ export function useContacts(userId: string | undefined) {
       if (error) throw error;
       return data;
     },
-    onSuccess: (data) => {
+    onMutate: ({ id, ...updates }) => patchContacts([id], updates),
+    onError: rollbackCachedContacts,
+    onSettled: (_data, _error, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+      queryClient.invalidateQueries({ queryKey: ['contact', id] });
+      queryClient.invalidateQueries({ queryKey: ['upcomingCalls', userId] });
+    },
+  });
+
+  // Same fields on many contacts at once, e.g. a follow-up date from the table's bulk actions
+  const updateContacts = useMutation({
+    mutationFn: async ({ ids, updates }: { ids: string[]; updates: Partial<Contact> }) => {
+      const { error } = await supabase
+        .from('contacts')
+        .update(updates)
+        .in('id', ids);
+      if (error) throw error;
+    },
+    onMutate: ({ ids, updates }) => patchContacts(ids, updates),
+    onError: rollbackCachedContacts,
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
-      queryClient.invalidateQueries({ queryKey: ['contact', data.id] });
       queryClient.invalidateQueries({ queryKey: ['upcomingCalls', userId] });
     },
   });
 
+  const addTagToContacts = useMutation({
+    mutationFn: async ({ ids, tag }: { ids: string[]; tag: string }) => {
+      const selected = new Set(ids);
+      const results = await Promise.all(
+        contacts
+          .filter((c) => selected.has(c.id) && !(c.tags ?? []).some((t) => t.toLowerCase() === tag.toLowerCase()))
+          .map((c) =>
+            supabase.from('contacts').update({ tags: normalizeTags([...(c.tags ?? []), tag]) }).eq('id', c.id)
+          )
+      );
+      const failed = results.find((r) => r.error);
+      if (failed) throw failed.error;
+    },
+    onMutate: ({ ids, tag }) => {
+      const selected = new Set(ids);
+      return patchCachedContacts((cached) =>
+        cached.map((c) => (selected.has(c.id) ? { ...c, tags: normalizeTags([...(c.tags ?? []), tag]) } : c))
+      );
+    },
+    onError: rollbackCachedContacts,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+    },
+  });
+
   const updateContactStage = useMutation({
     mutationFn: async ({ id, stage, deleteScheduledCall = false }: { id: string; stage: ContactStage; deleteScheduledCall?: boolean }) => {
       // If moving to call_done, mark any scheduled calls as completed
@@ -92,10 +197,133 @@ export function useContacts(userId: string | undefined) {
       if (error) throw error;
       return data;
     },
-    onSuccess: () => {
+    onMutate: ({ id, stage }) => patchContacts([id], { stage }),
+    onError: rollbackCachedContacts,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+      queryClient.invalidateQueries({ queryKey: ['callEvents', userId] });
+      queryClient.invalidateQueries({ queryKey: ['upcomingCalls', userId] });
+      queryClient.invalidateQueries({ queryKey: ['stageEvents', userId] });
+    },
+  });
+
+  // Bulk version of updateContactStage, without the scheduled-call prompts
+  const updateContactsStage = useMutation({
+    mutationFn: async ({ ids, stage }: { ids: string[]; stage: ContactStage }) => {
+      if (stage === 'call_done') {
+        await supabase
+          .from('call_events')
+          .update({ status: 'completed' })
+          .in('contact_id', ids)
+          .eq('status', 'scheduled');
+      }
+
+      const { error } = await supabase
+        .from('contacts')
+        .update({ stage })
+        .in('id', ids);
+      if (error) throw error;
+    },
+    onMutate: ({ ids, stage }) => patchContacts(ids, { stage }),
+    onError: rollbackCachedContacts,
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
       queryClient.invalidateQueries({ queryKey: ['callEvents', userId] });
       queryClient.invalidateQueries({ queryKey: ['upcomingCalls', userId] });
+      queryClient.invalidateQueries({ queryKey: ['stageEvents', userId] });
+    },
+  });
+
+  const mergeContacts = useMutation({
+    mutationFn: async ({ survivorId, duplicateId, merged }: { survivorId: string; duplicateId: string; merged: Partial<Contact> }) => {
+      // A contact can only have one active sequence: the survivor's keeps running
+      const { data: survivorSequences, error: sequencesError } = await supabase
+        .from('outreach_sequences')
+        .select('id')
+        .eq('contact_id', survivorId)
+        .eq('status', 'active');
+      if (sequencesError) throw sequencesError;
+
+      if (survivorSequences.length > 0) {
+        const { error: stopError } = await supabase
+          .from('outreach_sequences')
+          .update({ status: 'stopped', stop_reason: 'manual' })
+          .eq('contact_id', duplicateId)
+          .eq('status', 'active');
+        if (stopError) throw stopError;
+      }
+
+      // Re-point everything linked to the duplicate before it is deleted (deletes cascade)
+      const linkedTables = [
+        'interactions',
+        'call_events',
+        'call_debriefs',
+        'tasks',
+        'inbound_emails',
+        'contact_stage_events',
+        'outreach_sequences',
+        'email_template_uses',
+      ] as const;
+      for (const table of linkedTables) {
+        const { error } = await supabase
+          .from(table)
+          .update({ contact_id: survivorId })
+          .eq('contact_id', duplicateId);
+        if (error) throw error;
+      }
+
+      // Pipelines only the duplicate is in carry over; the survivor keeps its own stage elsewhere
+      const { data: survivorPipelines, error: pipelinesError } = await supabase
+        .from('pipeline_contacts')
+        .select('pipeline_id')
+        .eq('contact_id', survivorId);
+      if (pipelinesError) throw pipelinesError;
+
+      let carryOver = supabase
+        .from('pipeline_contacts')
+        .update({ contact_id: survivorId })
+        .eq('contact_id', duplicateId);
+      if (survivorPipelines.length > 0) {
+        carryOver = carryOver.not('pipeline_id', 'in', `(${survivorPipelines.map((p) => p.pipeline_id).join(',')})`);
+      }
+      const { error: carryOverError } = await carryOver;
+      if (carryOverError) throw carryOverError;
+
+      // Contacts the duplicate introduced now count as introduced by the survivor
+      const { error: referralsError } = await supabase
+        .from('contacts')
+        .update({ referred_by_id: survivorId })
+        .eq('referred_by_id', duplicateId)
+        .neq('id', survivorId);
+      if (referralsError) throw referralsError;
+
+      const { data, error } = await supabase
+        .from('contacts')
+        .update(merged)
+        .eq('id', survivorId)
+        .select()
+        .single();
+      if (error) throw error;
+
+      const { error: deleteError } = await supabase
+        .from('contacts')
+        .delete()
+        .eq('id', duplicateId);
+      if (deleteError) throw deleteError;
+
+      return data;
+    },
+    onSuccess: (_, { survivorId, duplicateId }) => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+      queryClient.invalidateQueries({ queryKey: ['contact', survivorId] });
+      queryClient.removeQueries({ queryKey: ['contact', duplicateId] });
+      queryClient.invalidateQueries({ queryKey: ['interactions', survivorId] });
+      queryClient.invalidateQueries({ queryKey: ['callDebriefs', survivorId] });
+      queryClient.invalidateQueries({ queryKey: ['callEvents', userId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', userId] });
+      queryClient.invalidateQueries({ queryKey: ['inbound_emails', userId] });
+      queryClient.invalidateQueries({ queryKey: ['emailTemplateUses', userId] });
+      queryClient.invalidateQueries({ queryKey: ['pipelineContacts', userId] });
     },
   });
 
@@ -107,8 +335,29 @@ export function useContacts(userId: string | undefined) {
         .eq('id', id);
       if (error) throw error;
     },
-    onSuccess: () => {
+    onMutate: (id) => patchCachedContacts((cached) => cached.filter((c) => c.id !== id)),
+    onError: rollbackCachedContacts,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+    },
+  });
+
+  const deleteContacts = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase
+        .from('contacts')
+        .delete()
+        .in('id', ids);
+      if (error) throw error;
+    },
+    onMutate: (ids) => {
+      const selected = new Set(ids);
+      return patchCachedContacts((cached) => cached.filter((c) => !selected.has(c.id)));
+    },
+    onError: rollbackCachedContacts,
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+      queryClient.invalidateQueries({ queryKey: ['pipelineContacts', userId] });
     },
   });
 
@@ -116,9 +365,15 @@ export function useContacts(userId: string | undefined) {
     contacts,
     isLoading,
     createContact,
+    importContacts,
     updateContact,
+    updateContacts,
+    addTagToContacts,
     updateContactStage,
+    updateContactsStage,
+    mergeContacts,
     deleteContact,
+    deleteContacts,
   };
 }
 
@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { CustomFieldDefinition } from '@/lib/types';
+
+type CustomFieldFields = Pick<CustomFieldDefinition, 'name' | 'field_type' | 'options'>;
+
+export function useCustomFields(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: customFields = [], isLoading } = useQuery({
+    queryKey: ['customFields', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as CustomFieldDefinition[];
+    },
+    enabled: !!userId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['customFields', userId] });
+  };
+
+  const createField = useMutation({
+    mutationFn: async (field: CustomFieldFields) => {
+      if (!userId) throw new Error('No user ID');
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .insert({
+          ...field,
+          position: customFields.length > 0 ? Math.max(...customFields.map((f) => f.position)) + 1 : 0,
+          user_id: userId,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateField = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<CustomFieldFields> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  // Values already entered stay in contacts.custom_fields but are no longer shown
+  const deleteField = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('custom_field_definitions')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    customFields,
+    isLoading,
+    createField,
+    updateField,
+    deleteField,
+  };
+}
@@ -0,0 +1,150 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { summarizeTemplateUses } from '@/lib/email-templates';
+import type { EmailTemplate, EmailTemplateUse } from '@/lib/types';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+type TemplateFields = Pick<EmailTemplate, 'name' | 'category' | 'subject' | 'body'>;
+
+/** A template picked for one of the generate-*-email functions, and how to use it */
+export interface TemplateSelection {
+  templateId: string;
+  mode: 'as_is' | 'style_seed';
+}
+
+export interface RenderedEmail {
+  subject: string;
+  body: string;
+  /** Variables the template uses that have no value for this contact */
+  missing: string[];
+}
+
+/** Fills in a template's {{variables}} for one contact */
+export async function renderEmailTemplate(
+  contactId: string,
+  template: Pick<EmailTemplate, 'subject' | 'body'>
+): Promise<RenderedEmail> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData.session?.access_token;
+  if (!accessToken) throw new Error('Not logged in');
+
+  const now = new Date();
+  const resp = await fetch(`${SUPABASE_URL}/functions/v1/render-email-template`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      apikey: SUPABASE_ANON_KEY,
+    },
+    body: JSON.stringify({
+      contactId,
+      subject: template.subject,
+      body: template.body,
+      clientYear: now.getFullYear(),
+      clientMonth: now.getMonth() + 1,
+      clientDay: now.getDate(),
+    }),
+  });
+
+  if (!resp.ok) {
+    const errBody = await resp.text();
+    throw new Error(`Rendering failed (${resp.status}): ${errBody}`);
+  }
+
+  return resp.json();
+}
+
+export function useEmailTemplates(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['emailTemplates', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as EmailTemplate[];
+    },
+    enabled: !!userId,
+  });
+
+  const createTemplates = useMutation({
+    mutationFn: async (newTemplates: TemplateFields[]) => {
+      if (!userId) throw new Error('No user ID');
+      const { data, error } = await supabase
+        .from('email_templates')
+        .insert(newTemplates.map((template) => ({ ...template, user_id: userId })))
+        .select();
+      if (error) throw error;
+      return data as EmailTemplate[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emailTemplates', userId] });
+    },
+  });
+
+  const updateTemplate = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<TemplateFields> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as EmailTemplate;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emailTemplates', userId] });
+    },
+  });
+
+  const deleteTemplate = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('email_templates')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emailTemplates', userId] });
+    },
+  });
+
+  return {
+    templates,
+    isLoading,
+    createTemplates,
+    updateTemplate,
+    deleteTemplate,
+  };
+}
+
+// How often each template has been used, keyed by template id
+export function useEmailTemplateUsage(userId: string | undefined) {
+  const { data: uses = [], isLoading } = useQuery({
+    queryKey: ['emailTemplateUses', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('email_template_uses')
+        .select('*')
+        .eq('user_id', userId);
+      if (error) throw error;
+      return data as EmailTemplateUse[];
+    },
+    enabled: !!userId,
+  });
+
+  const usage = useMemo(() => summarizeTemplateUses(uses), [uses]);
+
+  return { usage, isLoading };
+}
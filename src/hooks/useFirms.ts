@@ -0,0 +1,201 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { CallEvent, Contact, FirmWithGroups, Interaction } from '@/lib/types';
+
+export function useFirms(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: firms = [], isLoading } = useQuery({
+    queryKey: ['firms', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('firms')
+        .select('*, groups:firm_groups(*)')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+      if (error) throw error;
+      return data as FirmWithGroups[];
+    },
+    enabled: !!userId,
+  });
+
+  const invalidateFirms = (firmId?: string) => {
+    queryClient.invalidateQueries({ queryKey: ['firms', userId] });
+    queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+    if (firmId) {
+      queryClient.invalidateQueries({ queryKey: ['firm', firmId] });
+      queryClient.invalidateQueries({ queryKey: ['firmActivity', firmId] });
+    }
+  };
+
+  const createFirm = useMutation({
+    mutationFn: async ({ name, is_target = false }: { name: string; is_target?: boolean }) => {
+      if (!userId) throw new Error('Not authenticated');
+      const { data, error } = await supabase
+        .from('firms')
+        .insert({ user_id: userId, name: name.trim(), is_target })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['firms', userId] });
+    },
+  });
+
+  const updateFirm = useMutation({
+    mutationFn: async ({ id, name, aliases, is_target }: { id: string; name?: string; aliases?: string[]; is_target?: boolean }) => {
+      const { data, error } = await supabase
+        .from('firms')
+        .update({ name, aliases, is_target })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+
+      // Keep the denormalized firm name on contacts in step with a rename
+      if (name) {
+        const { error: contactsError } = await supabase
+          .from('contacts')
+          .update({ firm: name })
+          .eq('firm_id', id);
+        if (contactsError) throw contactsError;
+      }
+
+      return data;
+    },
+    onSuccess: (data) => invalidateFirms(data.id),
+  });
+
+  const updateFirmGroup = useMutation({
+    mutationFn: async ({ id, firmId, name, aliases }: { id: string; firmId: string; name?: string; aliases?: string[] }) => {
+      const { data, error } = await supabase
+        .from('firm_groups')
+        .update({ name, aliases })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+
+      if (name) {
+        const { error: contactsError } = await supabase
+          .from('contacts')
+          .update({ group_name: name })
+          .eq('firm_group_id', id);
+        if (contactsError) throw contactsError;
+      }
+
+      return { ...data, firmId };
+    },
+    onSuccess: (data) => invalidateFirms(data.firmId),
+  });
+
+  // Fold `sourceId` into `targetId`: its name and aliases become aliases of the
+  // target, its contacts move over (groups are re-resolved by name), then it is deleted.
+  const mergeFirms = useMutation({
+    mutationFn: async ({ targetId, sourceId }: { targetId: string; sourceId: string }) => {
+      const target = firms.find((f) => f.id === targetId);
+      const source = firms.find((f) => f.id === sourceId);
+      if (!target || !source) throw new Error('Firm not found');
+
+      const aliases = Array.from(
+        new Set([...target.aliases, source.name, ...source.aliases].filter(
+          (alias) => alias.toLowerCase() !== target.name.toLowerCase()
+        ))
+      );
+      const { error: aliasError } = await supabase
+        .from('firms')
+        .update({ aliases, is_target: target.is_target || source.is_target })
+        .eq('id', targetId);
+      if (aliasError) throw aliasError;
+
+      const { error: contactsError } = await supabase
+        .from('contacts')
+        .update({ firm_id: targetId })
+        .eq('firm_id', sourceId);
+      if (contactsError) throw contactsError;
+
+      const { error: deleteError } = await supabase
+        .from('firms')
+        .delete()
+        .eq('id', sourceId);
+      if (deleteError) throw deleteError;
+    },
+    onSuccess: (_, { targetId, sourceId }) => {
+      invalidateFirms(targetId);
+      queryClient.removeQueries({ queryKey: ['firm', sourceId] });
+    },
+  });
+
+  return {
+    firms,
+    isLoading,
+    createFirm,
+    updateFirm,
+    updateFirmGroup,
+    mergeFirms,
+  };
+}
+
+export function useFirm(firmId: string | undefined) {
+  return useQuery({
+    queryKey: ['firm', firmId],
+    queryFn: async () => {
+      if (!firmId) return null;
+      const { data, error } = await supabase
+        .from('firms')
+        .select('*, groups:firm_groups(*)')
+        .eq('id', firmId)
+        .single();
+      if (error) throw error;
+      return data as FirmWithGroups;
+    },
+    enabled: !!firmId,
+  });
+}
+
+// Every contact, call and interaction we have at a firm
+export function useFirmActivity(firmId: string | undefined) {
+  return useQuery({
+    queryKey: ['firmActivity', firmId],
+    queryFn: async () => {
+      if (!firmId) return { contacts: [], callEvents: [], interactions: [] };
+
+      const { data: contacts, error: contactsError } = await supabase
+        .from('contacts')
+        .select('*')
+        .eq('firm_id', firmId)
+        .order('name', { ascending: true });
+      if (contactsError) throw contactsError;
+
+      const contactIds = (contacts ?? []).map((c) => c.id);
+      if (contactIds.length === 0) {
+        return { contacts: [] as Contact[], callEvents: [] as CallEvent[], interactions: [] as Interaction[] };
+      }
+
+      const [callEventsRes, interactionsRes] = await Promise.all([
+        supabase
+          .from('call_events')
+          .select('*')
+          .in('contact_id', contactIds)
+          .order('start_at', { ascending: false }),
+        supabase
+          .from('interactions')
+          .select('*')
+          .in('contact_id', contactIds)
+          .order('date', { ascending: false }),
+      ]);
+      if (callEventsRes.error) throw callEventsRes.error;
+      if (interactionsRes.error) throw interactionsRes.error;
+
+      return {
+        contacts: contacts as Contact[],
+        callEvents: callEventsRes.data as CallEvent[],
+        interactions: interactionsRes.data as unknown as Interaction[],
+      };
+    },
+    enabled: !!firmId,
+  });
+}
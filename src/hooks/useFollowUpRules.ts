@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { FollowUpRule } from '@/lib/types';
+
+type FollowUpRuleFields = Pick<FollowUpRule, 'stage' | 'connection_type' | 'delay_days' | 'max_followups' | 'mark_cold'>;
+
+export function useFollowUpRules(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['followupRules', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('followup_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as FollowUpRule[];
+    },
+    enabled: !!userId,
+  });
+
+  const createRule = useMutation({
+    mutationFn: async (rule: FollowUpRuleFields) => {
+      if (!userId) throw new Error('No user ID');
+      const { data, error } = await supabase
+        .from('followup_rules')
+        .insert({
+          ...rule,
+          user_id: userId,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['followupRules', userId] });
+    },
+  });
+
+  const updateRule = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<FollowUpRuleFields & Pick<FollowUpRule, 'enabled'>> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('followup_rules')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['followupRules', userId] });
+    },
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('followup_rules')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['followupRules', userId] });
+    },
+  });
+
+  return {
+    rules,
+    isLoading,
+    createRule,
+    updateRule,
+    deleteRule,
+  };
+}
@@ -34,3 +34,23 @@ export function useInboundEmails(userId: string | undefined) {
 
   return { inboundEmails, isLoading };
 }
+
+// All forwarded emails matched to one contact, for its timeline
+export function useContactInboundEmails(contactId: string | undefined) {
+  const { data: inboundEmails = [], isLoading } = useQuery({
+    queryKey: ['inbound_emails', 'contact', contactId],
+    queryFn: async () => {
+      if (!contactId) return [];
+      const { data, error } = await supabase
+        .from('inbound_emails')
+        .select('id, user_id, from_address, to_address, subject, status, contact_id, call_event_id, error_message, parsed_result, created_at')
+        .eq('contact_id', contactId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as InboundEmail[];
+    },
+    enabled: !!contactId,
+  });
+
+  return { inboundEmails, isLoading };
+}
@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { refreshSummariesInBackground } from '@/hooks/useContactSummary';
+import type { InteractionEvent, InteractionType } from '@/lib/types';
+
+export function useInteractionEvents(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: ['interactionEvents', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('interaction_events')
+        .select('*')
+        .eq('user_id', userId)
+        .order('date', { ascending: false });
+      if (error) throw error;
+      return data as InteractionEvent[];
+    },
+    enabled: !!userId,
+  });
+
+  // One event row, then an interaction for each attendee pointing back at it
+  const logEvent = useMutation({
+    mutationFn: async ({ contactIds, ...event }: {
+      name: string;
+      type: InteractionType;
+      date: string;
+      location: string | null;
+      notes: string | null;
+      contactIds: string[];
+    }) => {
+      if (!userId) throw new Error('No user ID');
+      if (contactIds.length === 0) throw new Error('No contacts');
+
+      const { data, error } = await supabase
+        .from('interaction_events')
+        .insert({ ...event, user_id: userId })
+        .select()
+        .single();
+      if (error) throw error;
+
+      const { error: interactionsError } = await supabase
+        .from('interactions')
+        .insert(contactIds.map((contactId) => ({
+          user_id: userId,
+          contact_id: contactId,
+          event_id: data.id,
+          type: event.type,
+          date: event.date,
+          notes: null,
+        })));
+      if (interactionsError) {
+        await supabase.from('interaction_events').delete().eq('id', data.id);
+        throw interactionsError;
+      }
+
+      await supabase
+        .from('contacts')
+        .update({ last_contacted_at: event.date })
+        .in('id', contactIds);
+
+      return data as InteractionEvent;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['interactionEvents', userId] });
+      for (const contactId of variables.contactIds) {
+        queryClient.invalidateQueries({ queryKey: ['interactions', contactId] });
+        queryClient.invalidateQueries({ queryKey: ['contact', contactId] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['contacts'] });
+      queryClient.invalidateQueries({ queryKey: ['userInteractions', userId] });
+      queryClient.invalidateQueries({ queryKey: ['weeklyInteractions', userId] });
+      refreshSummariesInBackground(queryClient, variables.contactIds);
+    },
+  });
+
+  return {
+    events,
+    isLoading,
+    logEvent,
+  };
+}
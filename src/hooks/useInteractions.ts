@@ -1,6 +1,19 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import type { Interaction, InteractionType } from '@/lib/types';
+import { refreshSummariesInBackground } from '@/hooks/useContactSummary';
+import type { Json } from '@/integrations/supabase/types';
+import type { Interaction, InteractionAttachment, InteractionOutcome, InteractionType } from '@/lib/types';
+
+export const ATTACHMENTS_BUCKET = 'interaction-attachments';
+
+/** Short-lived link for opening an attachment from the private bucket */
+export async function getAttachmentUrl(attachment: InteractionAttachment): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(attachment.path, 60);
+  if (error) throw error;
+  return data.signedUrl;
+}
 
 export function useInteractions(contactId: string | undefined, userId: string | undefined) {
   const queryClient = useQueryClient();
@@ -15,28 +28,58 @@ export function useInteractions(contactId: string | undefined, userId: string |
         .eq('contact_id', contactId)
         .order('date', { ascending: false });
       if (error) throw error;
-      return data as Interaction[];
+      return data as unknown as Interaction[];
     },
     enabled: !!contactId,
   });
 
   const createInteraction = useMutation({
-    mutationFn: async (interaction: { 
-      contact_id: string; 
-      type: InteractionType; 
-      date: string; 
-      notes: string | null 
+    mutationFn: async ({ files = [], ...interaction }: {
+      contact_id: string;
+      type: InteractionType;
+      date: string;
+      notes: string | null;
+      duration_minutes?: number | null;
+      outcome?: InteractionOutcome | null;
+      files?: File[];
     }) => {
       if (!userId) throw new Error('No user ID');
+
+      // Upload attachments first so the row only ever lists files that exist
+      const attachments: InteractionAttachment[] = [];
+      for (const file of files) {
+        const path = `${userId}/${interaction.contact_id}/${Date.now()}_${file.name}`;
+        const { error: uploadError } = await supabase.storage
+          .from(ATTACHMENTS_BUCKET)
+          .upload(path, file, {
+            contentType: file.type || undefined,
+            upsert: false,
+          });
+        if (uploadError) {
+          await removeAttachments(attachments);
+          throw uploadError;
+        }
+        attachments.push({
+          name: file.name,
+          path,
+          size: file.size,
+          content_type: file.type || 'application/octet-stream',
+        });
+      }
+
       const { data, error } = await supabase
         .from('interactions')
         .insert({
           ...interaction,
+          attachments: attachments as unknown as Json,
           user_id: userId,
         })
         .select()
         .single();
-      if (error) throw error;
+      if (error) {
+        await removeAttachments(attachments);
+        throw error;
+      }
       
       // Update last_contacted_at on the contact
       const updateData: { last_contacted_at: string; next_followup_at?: string } = {
@@ -61,6 +104,25 @@ export function useInteractions(contactId: string | undefined, userId: string |
       queryClient.invalidateQueries({ queryKey: ['interactions', variables.contact_id] });
       queryClient.invalidateQueries({ queryKey: ['contacts'] });
       queryClient.invalidateQueries({ queryKey: ['contact', variables.contact_id] });
+      queryClient.invalidateQueries({ queryKey: ['userInteractions', userId] });
+      queryClient.invalidateQueries({ queryKey: ['weeklyInteractions', userId] });
+      refreshSummariesInBackground(queryClient, [variables.contact_id]);
+    },
+  });
+
+  const deleteInteraction = useMutation({
+    mutationFn: async (interaction: Interaction) => {
+      const { error } = await supabase
+        .from('interactions')
+        .delete()
+        .eq('id', interaction.id);
+      if (error) throw error;
+      await removeAttachments(interaction.attachments ?? []);
+    },
+    onSuccess: (_, interaction) => {
+      queryClient.invalidateQueries({ queryKey: ['interactions', interaction.contact_id] });
+      queryClient.invalidateQueries({ queryKey: ['userInteractions', userId] });
+      queryClient.invalidateQueries({ queryKey: ['weeklyInteractions', userId] });
     },
   });
 
@@ -68,5 +130,33 @@ export function useInteractions(contactId: string | undefined, userId: string |
     interactions,
     isLoading,
     createInteraction,
+    deleteInteraction,
   };
 }
+
+// Best-effort cleanup; a leftover file is harmless, a failed save isn't worth hiding
+async function removeAttachments(attachments: InteractionAttachment[]) {
+  if (attachments.length === 0) return;
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove(attachments.map((a) => a.path));
+  if (error) console.error('Failed to remove interaction attachments:', error);
+}
+
+// Every interaction the user has logged, for cross-contact views like the dashboard
+export function useUserInteractions(userId: string | undefined) {
+  return useQuery({
+    queryKey: ['userInteractions', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('interactions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('date', { ascending: false });
+      if (error) throw error;
+      return data as unknown as Interaction[];
+    },
+    enabled: !!userId,
+  });
+}
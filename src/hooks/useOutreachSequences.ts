@@ -0,0 +1,131 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { sequenceStepLabel } from '@/lib/email-templates';
+import type { Contact, EmailTemplate, OutreachSequence } from '@/lib/types';
+
+export interface SequenceStepInput {
+  template: Pick<EmailTemplate, 'id' | 'subject' | 'body'>;
+  /** yyyy-MM-dd */
+  due_date: string;
+}
+
+// Sequences for one contact, newest first, each with its steps in order
+export function useContactOutreachSequences(contactId: string | undefined) {
+  return useQuery({
+    queryKey: ['contact', contactId, 'outreachSequences'],
+    queryFn: async () => {
+      if (!contactId) return [];
+      const { data, error } = await supabase
+        .from('outreach_sequences')
+        .select('*, steps:outreach_sequence_steps(*)')
+        .eq('contact_id', contactId)
+        .order('started_at', { ascending: false });
+      if (error) throw error;
+      return (data as OutreachSequence[]).map((sequence) => ({
+        ...sequence,
+        steps: [...(sequence.steps ?? [])].sort((a, b) => a.position - b.position),
+      }));
+    },
+    enabled: !!contactId,
+  });
+}
+
+export function useOutreachSequences(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const invalidateContact = (contactId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['contact', contactId] });
+    queryClient.invalidateQueries({ queryKey: ['tasks', userId] });
+  };
+
+  // Steps copy their template's text so later template edits don't affect them
+  const startSequence = useMutation({
+    mutationFn: async ({ contact, steps }: { contact: Pick<Contact, 'id' | 'name'>; steps: SequenceStepInput[] }) => {
+      if (!userId) throw new Error('No user ID');
+
+      const { data: sequence, error } = await supabase
+        .from('outreach_sequences')
+        .insert({ user_id: userId, contact_id: contact.id })
+        .select()
+        .single();
+      if (error) throw error;
+
+      try {
+        const { data: createdSteps, error: stepsError } = await supabase
+          .from('outreach_sequence_steps')
+          .insert(
+            steps.map((step, position) => ({
+              user_id: userId,
+              sequence_id: sequence.id,
+              position,
+              template_id: step.template.id,
+              subject: step.template.subject,
+              body: step.template.body,
+              due_date: step.due_date,
+            }))
+          )
+          .select();
+        if (stepsError) throw stepsError;
+
+        const { error: tasksError } = await supabase
+          .from('tasks')
+          .insert(
+            createdSteps.map((step) => ({
+              user_id: userId,
+              contact_id: contact.id,
+              title: step.position === 0
+                ? `Send outreach email to ${contact.name}`
+                : `Send ${sequenceStepLabel(step.position).toLowerCase()} to ${contact.name}`,
+              due_date: step.due_date,
+              task_type: 'outreach',
+              outreach_sequence_step_id: step.id,
+            }))
+          );
+        if (tasksError) throw tasksError;
+      } catch (stepError) {
+        // Steps and tasks cascade with the sequence
+        await supabase.from('outreach_sequences').delete().eq('id', sequence.id);
+        throw stepError;
+      }
+
+      return sequence as OutreachSequence;
+    },
+    onSuccess: (_data, { contact }) => invalidateContact(contact.id),
+  });
+
+  // Unsent steps' tasks are removed by the database when the sequence ends
+  const stopSequence = useMutation({
+    mutationFn: async (sequence: Pick<OutreachSequence, 'id' | 'contact_id'>) => {
+      const { error } = await supabase
+        .from('outreach_sequences')
+        .update({ status: 'stopped', stop_reason: 'manual' })
+        .eq('id', sequence.id);
+      if (error) throw error;
+    },
+    onSuccess: (_data, sequence) => invalidateContact(sequence.contact_id),
+  });
+
+  // Completing a step's task logs the email and moves the contact to Messaged
+  const markStepSent = useMutation({
+    mutationFn: async ({ taskId }: { taskId: string; contactId: string }) => {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ completed: true })
+        .eq('id', taskId);
+      if (error) throw error;
+    },
+    onSuccess: (_data, { contactId }) => {
+      invalidateContact(contactId);
+      queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+      queryClient.invalidateQueries({ queryKey: ['interactions', contactId] });
+      queryClient.invalidateQueries({ queryKey: ['userInteractions', userId] });
+      queryClient.invalidateQueries({ queryKey: ['weeklyInteractions', userId] });
+    },
+  });
+
+  return {
+    startSequence,
+    stopSequence,
+    markStepSent,
+  };
+}
@@ -0,0 +1,148 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { ContactStage, Pipeline, PipelineContact } from '@/lib/types';
+
+export function usePipelines(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: pipelines = [], isLoading } = useQuery({
+    queryKey: ['pipelines', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('pipelines')
+        .select('*')
+        .eq('user_id', userId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as Pipeline[];
+    },
+    enabled: !!userId,
+  });
+
+  const { data: memberships = [], isLoading: membershipsLoading } = useQuery({
+    queryKey: ['pipelineContacts', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('pipeline_contacts')
+        .select('*')
+        .eq('user_id', userId);
+      if (error) throw error;
+      return data as PipelineContact[];
+    },
+    enabled: !!userId,
+  });
+
+  const invalidateMemberships = () => {
+    queryClient.invalidateQueries({ queryKey: ['pipelineContacts', userId] });
+  };
+
+  const createPipeline = useMutation({
+    mutationFn: async (name: string) => {
+      if (!userId) throw new Error('No user ID');
+      const { data, error } = await supabase
+        .from('pipelines')
+        .insert({
+          name,
+          position: pipelines.length > 0 ? Math.max(...pipelines.map((p) => p.position)) + 1 : 0,
+          user_id: userId,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as Pipeline;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pipelines', userId] });
+    },
+  });
+
+  const updatePipeline = useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      const { data, error } = await supabase
+        .from('pipelines')
+        .update({ name })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pipelines', userId] });
+    },
+  });
+
+  const deletePipeline = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('pipelines')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pipelines', userId] });
+      invalidateMemberships();
+    },
+  });
+
+  // Contacts already in the pipeline keep their stage there
+  const addToPipeline = useMutation({
+    mutationFn: async ({ pipelineId, contactIds, stage }: { pipelineId: string; contactIds: string[]; stage: ContactStage }) => {
+      if (!userId) throw new Error('No user ID');
+      const { error } = await supabase
+        .from('pipeline_contacts')
+        .upsert(
+          contactIds.map((contactId) => ({
+            pipeline_id: pipelineId,
+            contact_id: contactId,
+            stage,
+            user_id: userId,
+          })),
+          { onConflict: 'pipeline_id,contact_id', ignoreDuplicates: true }
+        );
+      if (error) throw error;
+    },
+    onSuccess: invalidateMemberships,
+  });
+
+  const updatePipelineStage = useMutation({
+    mutationFn: async ({ id, stage }: { id: string; stage: ContactStage }) => {
+      const { data, error } = await supabase
+        .from('pipeline_contacts')
+        .update({ stage })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidateMemberships,
+  });
+
+  const removeFromPipeline = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('pipeline_contacts')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidateMemberships,
+  });
+
+  return {
+    pipelines,
+    memberships,
+    isLoading: isLoading || membershipsLoading,
+    createPipeline,
+    updatePipeline,
+    deletePipeline,
+    addToPipeline,
+    updatePipelineStage,
+    removeFromPipeline,
+  };
+}
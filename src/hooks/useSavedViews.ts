@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { ContactFilters, SavedView } from '@/lib/types';
+
+export function useSavedViews(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: savedViews = [], isLoading } = useQuery({
+    queryKey: ['savedViews', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('saved_views')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+      if (error) throw error;
+      return data as unknown as SavedView[];
+    },
+    enabled: !!userId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['savedViews', userId] });
+  };
+
+  const createView = useMutation({
+    mutationFn: async ({ name, filters }: { name: string; filters: ContactFilters }) => {
+      if (!userId) throw new Error('No user ID');
+      const { data, error } = await supabase
+        .from('saved_views')
+        .insert({ name, filters: filters as unknown as Json, user_id: userId })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as unknown as SavedView;
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateView = useMutation({
+    mutationFn: async ({ id, filters }: { id: string; filters: ContactFilters }) => {
+      const { data, error } = await supabase
+        .from('saved_views')
+        .update({ filters: filters as unknown as Json })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as unknown as SavedView;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteView = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('saved_views')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    savedViews,
+    isLoading,
+    createView,
+    updateView,
+    deleteView,
+  };
+}
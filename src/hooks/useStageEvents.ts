@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { ContactStageEvent } from '@/lib/types';
+
+export function useStageEvents(userId: string | undefined) {
+  const { data: stageEvents = [], isLoading } = useQuery({
+    queryKey: ['stageEvents', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('contact_stage_events')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as ContactStageEvent[];
+    },
+    enabled: !!userId,
+  });
+
+  return { stageEvents, isLoading };
+}
@@ -0,0 +1,156 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { getStageConfig, makeStageKey } from '@/lib/stages';
+import { DEFAULT_STAGES, type ContactStage, type StageDefinition, type UserStage } from '@/lib/types';
+
+type StageFields = Pick<UserStage, 'label' | 'color' | 'show_on_board'>;
+
+export function useStages(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: userStages = [], isLoading } = useQuery({
+    queryKey: ['stages', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const fetchStages = () =>
+        supabase
+          .from('user_stages')
+          .select('*')
+          .eq('user_id', userId)
+          .order('position', { ascending: true });
+
+      const { data, error } = await fetchStages();
+      if (error) throw error;
+      if (data.length > 0) return data as UserStage[];
+
+      // First visit: give the user their own copy of the default stages
+      const { error: seedError } = await supabase
+        .from('user_stages')
+        .upsert(
+          DEFAULT_STAGES.map((stage, position) => ({ ...stage, position, user_id: userId })),
+          { onConflict: 'user_id,key', ignoreDuplicates: true }
+        );
+      if (seedError) throw seedError;
+
+      const { data: seeded, error: refetchError } = await fetchStages();
+      if (refetchError) throw refetchError;
+      return seeded as UserStage[];
+    },
+    enabled: !!userId,
+  });
+
+  // Until the user's stages load, render with the defaults
+  const stages: StageDefinition[] = userStages.length > 0 ? userStages : DEFAULT_STAGES;
+  const stageKeys = useMemo(() => stages.map((s) => s.key), [stages]);
+  const boardStages = useMemo(() => stages.filter((s) => s.show_on_board), [stages]);
+
+  const getConfig = useCallback((key: ContactStage) => getStageConfig(stages, key), [stages]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['stages', userId] });
+  };
+
+  const createStage = useMutation({
+    mutationFn: async (stage: Pick<UserStage, 'label' | 'color'>) => {
+      if (!userId) throw new Error('No user ID');
+      const { data, error } = await supabase
+        .from('user_stages')
+        .insert({
+          ...stage,
+          key: makeStageKey(stage.label, userStages.map((s) => s.key)),
+          position: userStages.length > 0 ? Math.max(...userStages.map((s) => s.position)) + 1 : 0,
+          user_id: userId,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateStage = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<StageFields> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('user_stages')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  const reorderStages = useMutation({
+    mutationFn: async (ordered: UserStage[]) => {
+      const results = await Promise.all(
+        ordered
+          .map((stage, position) => ({ stage, position }))
+          .filter(({ stage, position }) => stage.position !== position)
+          .map(({ stage, position }) =>
+            supabase.from('user_stages').update({ position }).eq('id', stage.id)
+          )
+      );
+      const failed = results.find((r) => r.error);
+      if (failed) throw failed.error;
+    },
+    onSuccess: invalidate,
+  });
+
+  // Contacts in a deleted stage (in any pipeline) move to `moveTo`; its follow-up rules go with it
+  const deleteStage = useMutation({
+    mutationFn: async ({ stage, moveTo }: { stage: UserStage; moveTo: ContactStage }) => {
+      if (!userId) throw new Error('No user ID');
+
+      const { error: moveError } = await supabase
+        .from('contacts')
+        .update({ stage: moveTo })
+        .eq('user_id', userId)
+        .eq('stage', stage.key);
+      if (moveError) throw moveError;
+
+      const { error: pipelineMoveError } = await supabase
+        .from('pipeline_contacts')
+        .update({ stage: moveTo })
+        .eq('user_id', userId)
+        .eq('stage', stage.key);
+      if (pipelineMoveError) throw pipelineMoveError;
+
+      const { error: rulesError } = await supabase
+        .from('followup_rules')
+        .delete()
+        .eq('user_id', userId)
+        .eq('stage', stage.key);
+      if (rulesError) throw rulesError;
+
+      const { error } = await supabase
+        .from('user_stages')
+        .delete()
+        .eq('id', stage.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['contacts', userId] });
+      queryClient.invalidateQueries({ queryKey: ['pipelineContacts', userId] });
+      queryClient.invalidateQueries({ queryKey: ['followupRules', userId] });
+      queryClient.invalidateQueries({ queryKey: ['stageEvents', userId] });
+    },
+  });
+
+  return {
+    stages,
+    userStages,
+    stageKeys,
+    boardStages,
+    getConfig,
+    isLoading,
+    createStage,
+    updateStage,
+    reorderStages,
+    deleteStage,
+  };
+}
@@ -69,9 +69,10 @@ export function useSubscription() {
     enabled: !!user,
   });
 
-  // Check usage for a specific feature (calls the edge function)
+  // Check usage for a specific feature (calls the edge function).
+  // `quantity` is how many items the action creates, e.g. rows in a bulk import.
   // NOTE: Paywall temporarily disabled — always allow
-  const checkUsage = async (_feature: GatedFeature): Promise<CheckUsageResult> => {
+  const checkUsage = async (_feature: GatedFeature, _quantity: number = 1): Promise<CheckUsageResult> => {
     return { allowed: true, plan: 'pro', usage: null, limits: null };
 
     // const { data: sessionData } = await supabase.auth.getSession();
@@ -85,7 +86,7 @@ export function useSubscription() {
     //     Authorization: `Bearer ${accessToken}`,
     //     apikey: SUPABASE_ANON_KEY,
     //   },
-    //   body: JSON.stringify({ feature: _feature }),
+    //   body: JSON.stringify({ feature: _feature, quantity: _quantity }),
     // });
 
     // if (!resp.ok) {
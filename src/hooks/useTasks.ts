@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { refreshSummariesInBackground } from '@/hooks/useContactSummary';
 import type { Task } from '@/lib/types';
 
 export function useTasks(userId: string | undefined) {
@@ -13,7 +14,8 @@ export function useTasks(userId: string | undefined) {
         .from('tasks')
         .select(`
           *,
-          contact:contacts(id, name, firm, notes_summary, prep_questions_json)
+          contact:contacts(id, name, firm, email, notes_summary, prep_questions_json),
+          outreach_step:outreach_sequence_steps(id, position, subject, body)
         `)
         .eq('user_id', userId)
         .order('due_date', { ascending: true });
@@ -67,10 +69,14 @@ export function useTasks(userId: string | undefined) {
         .select()
         .single();
       if (error) throw error;
-      return data;
+      return data as Task;
     },
-    onSuccess: () => {
+    onSuccess: (task) => {
       queryClient.invalidateQueries({ queryKey: ['tasks', userId] });
+      // Completing an outreach step's task logs the sent email on the server
+      if (task.completed && task.outreach_sequence_step_id && task.contact_id) {
+        refreshSummariesInBackground(queryClient, [task.contact_id]);
+      }
     },
   });
 
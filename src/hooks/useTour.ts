@@ -3,7 +3,7 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useProfile } from '@/hooks/useProfile';
 import { useAuth } from '@/hooks/useAuth';
 import { useContacts } from '@/hooks/useContacts';
-import { useGoogleCalendar } from '@/hooks/useGoogleCalendar';
+import { useCalendarProvider } from '@/hooks/useCalendarProvider';
 
 // Context so any component can call restartTour
 interface TourContextValue {
@@ -92,7 +92,7 @@ export function useTour() {
   const { user } = useAuth();
   const { profile, updateProfile } = useProfile(user?.id);
   const { contacts, updateContact } = useContacts(user?.id);
-  const { isConnected: gcalConnected, connectGoogleCalendar } = useGoogleCalendar();
+  const { isConnected: gcalConnected, connectCalendar } = useCalendarProvider();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -384,8 +384,8 @@ export function useTour() {
   // Save tour state and trigger Google Calendar OAuth
   const connectGcalAndResume = useCallback(() => {
     localStorage.setItem('tour_resume_phase', 'create-contact');
-    connectGoogleCalendar();
-  }, [connectGoogleCalendar]);
+    connectCalendar('google');
+  }, [connectCalendar]);
 
   return {
     phase,
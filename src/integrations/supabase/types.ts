@@ -80,6 +80,127 @@ export type Database = {
           },
         ]
       }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          last_fetched_at: string | null
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_fetched_at?: string | null
+          token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_fetched_at?: string | null
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      call_debriefs: {
+        Row: {
+          advice: string | null
+          asked_for_referral: boolean
+          call_event_id: string | null
+          contact_id: string
+          created_at: string
+          follow_ups: Json
+          id: string
+          interaction_id: string
+          intro_offers: string[]
+          rating: number | null
+          topics: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          advice?: string | null
+          asked_for_referral?: boolean
+          call_event_id?: string | null
+          contact_id: string
+          created_at?: string
+          follow_ups?: Json
+          id?: string
+          interaction_id: string
+          intro_offers?: string[]
+          rating?: number | null
+          topics?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          advice?: string | null
+          asked_for_referral?: boolean
+          call_event_id?: string | null
+          contact_id?: string
+          created_at?: string
+          follow_ups?: Json
+          id?: string
+          interaction_id?: string
+          intro_offers?: string[]
+          rating?: number | null
+          topics?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_debriefs_call_event_id_fkey"
+            columns: ["call_event_id"]
+            isOneToOne: false
+            referencedRelation: "call_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_debriefs_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_debriefs_interaction_id_fkey"
+            columns: ["interaction_id"]
+            isOneToOne: true
+            referencedRelation: "interactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      call_event_deletions: {
+        Row: {
+          created_at: string
+          external_event_id: string
+          external_provider: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          external_event_id: string
+          external_provider: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          external_event_id?: string
+          external_provider?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       call_events: {
         Row: {
           contact_id: string
@@ -87,11 +208,13 @@ export type Database = {
           end_at: string
           external_event_id: string | null
           external_provider: string | null
+          external_updated_at: string | null
           id: string
           location: string | null
           notes: string | null
           start_at: string
           status: Database["public"]["Enums"]["call_event_status"]
+          synced_at: string | null
           title: string
           updated_at: string
           user_id: string
@@ -102,11 +225,13 @@ export type Database = {
           end_at: string
           external_event_id?: string | null
           external_provider?: string | null
+          external_updated_at?: string | null
           id?: string
           location?: string | null
           notes?: string | null
           start_at: string
           status?: Database["public"]["Enums"]["call_event_status"]
+          synced_at?: string | null
           title: string
           updated_at?: string
           user_id: string
@@ -117,11 +242,13 @@ export type Database = {
           end_at?: string
           external_event_id?: string | null
           external_provider?: string | null
+          external_updated_at?: string | null
           id?: string
           location?: string | null
           notes?: string | null
           start_at?: string
           status?: Database["public"]["Enums"]["call_event_status"]
+          synced_at?: string | null
           title?: string
           updated_at?: string
           user_id?: string
@@ -136,65 +263,337 @@ export type Database = {
           },
         ]
       }
+      contact_stage_events: {
+        Row: {
+          contact_id: string
+          created_at: string
+          from_stage: string | null
+          id: string
+          source: Database["public"]["Enums"]["stage_event_source"]
+          to_stage: string
+          user_id: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          from_stage?: string | null
+          id?: string
+          source?: Database["public"]["Enums"]["stage_event_source"]
+          to_stage: string
+          user_id: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          from_stage?: string | null
+          id?: string
+          source?: Database["public"]["Enums"]["stage_event_source"]
+          to_stage?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_stage_events_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contacts: {
         Row: {
           connection_type: Database["public"]["Enums"]["connection_type"] | null
           created_at: string
+          custom_fields: Json
           email: string | null
           firm: string | null
+          firm_group_id: string | null
+          firm_id: string | null
+          followup_count: number
           group_name: string | null
           id: string
           last_contacted_at: string | null
           name: string
           next_followup_at: string | null
           notes_summary: string | null
+          notes_summary_suggested_at: string | null
+          notes_summary_suggestion: string | null
           phone: string | null
           position: string | null
           prep_questions_json: unknown[] | null
+          referred_by_id: string | null
           relationship_strength: number | null
-          stage: Database["public"]["Enums"]["contact_stage"] | null
+          relationship_strength_pinned: boolean
+          stage: string | null
+          stage_source: Database["public"]["Enums"]["stage_event_source"] | null
+          tags: string[]
+          timezone: string | null
           updated_at: string
           user_id: string
+          went_cold_at: string | null
         }
         Insert: {
           connection_type?:
             | Database["public"]["Enums"]["connection_type"]
             | null
           created_at?: string
+          custom_fields?: Json
           email?: string | null
           firm?: string | null
+          firm_group_id?: string | null
+          firm_id?: string | null
+          followup_count?: number
           group_name?: string | null
           id?: string
           last_contacted_at?: string | null
           name: string
           next_followup_at?: string | null
           notes_summary?: string | null
+          notes_summary_suggested_at?: string | null
+          notes_summary_suggestion?: string | null
           phone?: string | null
           position?: string | null
           prep_questions_json?: unknown[] | null
+          referred_by_id?: string | null
           relationship_strength?: number | null
-          stage?: Database["public"]["Enums"]["contact_stage"] | null
+          relationship_strength_pinned?: boolean
+          stage?: string | null
+          stage_source?: Database["public"]["Enums"]["stage_event_source"] | null
+          tags?: string[]
+          timezone?: string | null
           updated_at?: string
           user_id: string
+          went_cold_at?: string | null
         }
         Update: {
           connection_type?:
             | Database["public"]["Enums"]["connection_type"]
             | null
           created_at?: string
+          custom_fields?: Json
           email?: string | null
           firm?: string | null
+          firm_group_id?: string | null
+          firm_id?: string | null
+          followup_count?: number
           group_name?: string | null
           id?: string
           last_contacted_at?: string | null
           name?: string
           next_followup_at?: string | null
           notes_summary?: string | null
+          notes_summary_suggested_at?: string | null
+          notes_summary_suggestion?: string | null
           phone?: string | null
           position?: string | null
           prep_questions_json?: unknown[] | null
+          referred_by_id?: string | null
           relationship_strength?: number | null
-          stage?: Database["public"]["Enums"]["contact_stage"] | null
+          relationship_strength_pinned?: boolean
+          stage?: string | null
+          stage_source?: Database["public"]["Enums"]["stage_event_source"] | null
+          tags?: string[]
+          timezone?: string | null
+          updated_at?: string
+          user_id?: string
+          went_cold_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contacts_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contacts_firm_group_id_fkey"
+            columns: ["firm_group_id"]
+            isOneToOne: false
+            referencedRelation: "firm_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contacts_referred_by_id_fkey"
+            columns: ["referred_by_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_field_definitions: {
+        Row: {
+          created_at: string
+          field_type: string
+          id: string
+          name: string
+          options: string[]
+          position: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          field_type?: string
+          id?: string
+          name: string
+          options?: string[]
+          position?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          field_type?: string
+          id?: string
+          name?: string
+          options?: string[]
+          position?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      email_template_uses: {
+        Row: {
+          contact_id: string | null
+          created_at: string
+          id: string
+          mode: string
+          template_id: string
+          user_id: string
+        }
+        Insert: {
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          mode: string
+          template_id: string
+          user_id: string
+        }
+        Update: {
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          mode?: string
+          template_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_template_uses_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_template_uses_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          body: string
+          category: string
+          created_at: string
+          id: string
+          name: string
+          subject: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          category?: string
+          created_at?: string
+          id?: string
+          name: string
+          subject?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          category?: string
+          created_at?: string
+          id?: string
+          name?: string
+          subject?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      firm_groups: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          firm_id: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          firm_id: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          firm_id?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_groups_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firms: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          id: string
+          is_target: boolean
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          is_target?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          is_target?: boolean
+          name?: string
           updated_at?: string
           user_id?: string
         }
@@ -246,59 +645,149 @@ export type Database = {
           deck_id?: string | null
           difficulty?: string
           id?: string
-          question: string
-          source?: string | null
-          topic?: string | null
-          track?: string | null
+          question: string
+          source?: string | null
+          topic?: string | null
+          track?: string | null
+        }
+        Update: {
+          answer?: string
+          category?: string | null
+          common_mistakes?: string | null
+          created_at?: string
+          deck_id?: string | null
+          difficulty?: string
+          id?: string
+          question?: string
+          source?: string | null
+          topic?: string | null
+          track?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcards_deck_id_fkey"
+            columns: ["deck_id"]
+            isOneToOne: false
+            referencedRelation: "flashcard_decks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      followup_rules: {
+        Row: {
+          connection_type: Database["public"]["Enums"]["connection_type"] | null
+          created_at: string
+          delay_days: number
+          enabled: boolean
+          id: string
+          mark_cold: boolean
+          max_followups: number
+          stage: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          connection_type?: Database["public"]["Enums"]["connection_type"] | null
+          created_at?: string
+          delay_days?: number
+          enabled?: boolean
+          id?: string
+          mark_cold?: boolean
+          max_followups?: number
+          stage: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          connection_type?: Database["public"]["Enums"]["connection_type"] | null
+          created_at?: string
+          delay_days?: number
+          enabled?: boolean
+          id?: string
+          mark_cold?: boolean
+          max_followups?: number
+          stage?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      interaction_events: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          location: string | null
+          name: string
+          notes: string | null
+          type: Database["public"]["Enums"]["interaction_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date?: string
+          id?: string
+          location?: string | null
+          name: string
+          notes?: string | null
+          type: Database["public"]["Enums"]["interaction_type"]
+          updated_at?: string
+          user_id: string
         }
         Update: {
-          answer?: string
-          category?: string | null
-          common_mistakes?: string | null
           created_at?: string
-          deck_id?: string | null
-          difficulty?: string
+          date?: string
           id?: string
-          question?: string
-          source?: string | null
-          topic?: string | null
-          track?: string | null
+          location?: string | null
+          name?: string
+          notes?: string | null
+          type?: Database["public"]["Enums"]["interaction_type"]
+          updated_at?: string
+          user_id?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "flashcards_deck_id_fkey"
-            columns: ["deck_id"]
-            isOneToOne: false
-            referencedRelation: "flashcard_decks"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       interactions: {
         Row: {
+          attachments: Json
           contact_id: string
           created_at: string
           date: string
+          duration_minutes: number | null
+          event_id: string | null
           id: string
           notes: string | null
+          outcome: string | null
+          outreach_sequence_id: string | null
           type: Database["public"]["Enums"]["interaction_type"]
           user_id: string
         }
         Insert: {
+          attachments?: Json
           contact_id: string
           created_at?: string
           date?: string
+          duration_minutes?: number | null
+          event_id?: string | null
           id?: string
           notes?: string | null
+          outcome?: string | null
+          outreach_sequence_id?: string | null
           type: Database["public"]["Enums"]["interaction_type"]
           user_id: string
         }
         Update: {
+          attachments?: Json
           contact_id?: string
           created_at?: string
           date?: string
+          duration_minutes?: number | null
+          event_id?: string | null
           id?: string
           notes?: string | null
+          outcome?: string | null
+          outreach_sequence_id?: string | null
           type?: Database["public"]["Enums"]["interaction_type"]
           user_id?: string
         }
@@ -310,6 +799,20 @@ export type Database = {
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "interactions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "interaction_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interactions_outreach_sequence_id_fkey"
+            columns: ["outreach_sequence_id"]
+            isOneToOne: false
+            referencedRelation: "outreach_sequences"
+            referencedColumns: ["id"]
+          },
         ]
       }
       learning_lessons: {
@@ -611,6 +1114,179 @@ export type Database = {
           },
         ]
       }
+      outreach_sequence_steps: {
+        Row: {
+          body: string
+          created_at: string
+          due_date: string
+          id: string
+          position: number
+          sent_at: string | null
+          sequence_id: string
+          subject: string
+          template_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          due_date: string
+          id?: string
+          position: number
+          sent_at?: string | null
+          sequence_id: string
+          subject?: string
+          template_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          due_date?: string
+          id?: string
+          position?: number
+          sent_at?: string | null
+          sequence_id?: string
+          subject?: string
+          template_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outreach_sequence_steps_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "outreach_sequences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outreach_sequence_steps_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      outreach_sequences: {
+        Row: {
+          contact_id: string
+          created_at: string
+          ended_at: string | null
+          id: string
+          started_at: string
+          status: string
+          stop_reason: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          started_at?: string
+          status?: string
+          stop_reason?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          started_at?: string
+          status?: string
+          stop_reason?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outreach_sequences_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipeline_contacts: {
+        Row: {
+          contact_id: string
+          created_at: string
+          id: string
+          pipeline_id: string
+          stage: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          id?: string
+          pipeline_id: string
+          stage?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          id?: string
+          pipeline_id?: string
+          stage?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_contacts_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_contacts_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "pipelines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipelines: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -621,12 +1297,15 @@ export type Database = {
           onboarding_completed: boolean | null
           recruiting_goal: string | null
           school: string | null
+          timezone: string | null
           tour_completed: boolean | null
           updated_at: string
           user_id: string
           weekly_flashcards_goal: number | null
           weekly_interactions_goal: number | null
           weekly_mock_interviews_goal: number | null
+          working_hours_end: number
+          working_hours_start: number
         }
         Insert: {
           created_at?: string
@@ -637,12 +1316,15 @@ export type Database = {
           onboarding_completed?: boolean | null
           recruiting_goal?: string | null
           school?: string | null
+          timezone?: string | null
           tour_completed?: boolean | null
           updated_at?: string
           user_id: string
           weekly_flashcards_goal?: number | null
           weekly_interactions_goal?: number | null
           weekly_mock_interviews_goal?: number | null
+          working_hours_end?: number
+          working_hours_start?: number
         }
         Update: {
           created_at?: string
@@ -653,12 +1335,42 @@ export type Database = {
           onboarding_completed?: boolean | null
           recruiting_goal?: string | null
           school?: string | null
+          timezone?: string | null
           tour_completed?: boolean | null
           updated_at?: string
           user_id?: string
           weekly_flashcards_goal?: number | null
           weekly_interactions_goal?: number | null
           weekly_mock_interviews_goal?: number | null
+          working_hours_end?: number
+          working_hours_start?: number
+        }
+        Relationships: []
+      }
+      saved_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -670,6 +1382,7 @@ export type Database = {
           created_at: string
           due_date: string | null
           id: string
+          outreach_sequence_step_id: string | null
           task_type: string | null
           title: string
           updated_at: string
@@ -682,6 +1395,7 @@ export type Database = {
           created_at?: string
           due_date?: string | null
           id?: string
+          outreach_sequence_step_id?: string | null
           task_type?: string | null
           title: string
           updated_at?: string
@@ -694,6 +1408,7 @@ export type Database = {
           created_at?: string
           due_date?: string | null
           id?: string
+          outreach_sequence_step_id?: string | null
           task_type?: string | null
           title?: string
           updated_at?: string
@@ -714,6 +1429,13 @@ export type Database = {
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_outreach_sequence_step_id_fkey"
+            columns: ["outreach_sequence_step_id"]
+            isOneToOne: false
+            referencedRelation: "outreach_sequence_steps"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_flashcard_progress: {
@@ -763,6 +1485,51 @@ export type Database = {
           },
         ]
       }
+      user_google_tokens: {
+        Row: {
+          access_token: string
+          calendar_id: string
+          created_at: string
+          id: string
+          last_synced_at: string | null
+          pending_contacts: Json
+          refresh_token: string
+          sync_locked_until: string | null
+          sync_token: string | null
+          token_expires_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          access_token: string
+          calendar_id?: string
+          created_at?: string
+          id?: string
+          last_synced_at?: string | null
+          pending_contacts?: Json
+          refresh_token: string
+          sync_locked_until?: string | null
+          sync_token?: string | null
+          token_expires_at: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          access_token?: string
+          calendar_id?: string
+          created_at?: string
+          id?: string
+          last_synced_at?: string | null
+          pending_contacts?: Json
+          refresh_token?: string
+          sync_locked_until?: string | null
+          sync_token?: string | null
+          token_expires_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_lesson_progress: {
         Row: {
           confidence: number | null
@@ -804,6 +1571,42 @@ export type Database = {
           },
         ]
       }
+      user_microsoft_tokens: {
+        Row: {
+          access_token: string
+          account_email: string | null
+          calendar_id: string | null
+          created_at: string
+          id: string
+          refresh_token: string
+          token_expires_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          access_token: string
+          account_email?: string | null
+          calendar_id?: string | null
+          created_at?: string
+          id?: string
+          refresh_token: string
+          token_expires_at: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          access_token?: string
+          account_email?: string | null
+          calendar_id?: string | null
+          created_at?: string
+          id?: string
+          refresh_token?: string
+          token_expires_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_modelling_progress: {
         Row: {
           completed: boolean
@@ -881,6 +1684,42 @@ export type Database = {
         }
         Relationships: []
       }
+      user_stages: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          key: string
+          label: string
+          position: number
+          show_on_board: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          key: string
+          label: string
+          position?: number
+          show_on_board?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          key?: string
+          label?: string
+          position?: number
+          show_on_board?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -902,10 +1741,25 @@ export type Database = {
         | "offer"
       inbound_email_status: "processed" | "needs_confirmation" | "failed" | "ignored"
       flashcard_track: "technicals" | "behaviorals"
-      interaction_type: "email" | "call" | "coffee_chat"
+      interaction_type:
+        | "email"
+        | "call"
+        | "coffee_chat"
+        | "linkedin_message"
+        | "text_message"
+        | "info_session"
+        | "superday"
+        | "career_fair"
+        | "networking_event"
       lesson_status: "not_started" | "in_progress" | "complete"
       mock_interview_difficulty: "core" | "common" | "advanced"
       mock_interview_track: "technicals" | "behaviorals"
+      stage_event_source:
+        | "manual"
+        | "import"
+        | "gcal_sync"
+        | "inbound_email"
+        | "outlook_sync"
       topic_difficulty: "core" | "common" | "advanced"
     }
     CompositeTypes: {
@@ -1047,10 +1901,27 @@ export const Constants = {
         "offer",
       ],
       flashcard_track: ["technicals", "behaviorals"],
-      interaction_type: ["email", "call", "coffee_chat"],
+      interaction_type: [
+        "email",
+        "call",
+        "coffee_chat",
+        "linkedin_message",
+        "text_message",
+        "info_session",
+        "superday",
+        "career_fair",
+        "networking_event",
+      ],
       lesson_status: ["not_started", "in_progress", "complete"],
       mock_interview_difficulty: ["core", "common", "advanced"],
       mock_interview_track: ["technicals", "behaviorals"],
+      stage_event_source: [
+        "manual",
+        "import",
+        "gcal_sync",
+        "inbound_email",
+        "outlook_sync",
+      ],
       topic_difficulty: ["core", "common", "advanced"],
     },
   },
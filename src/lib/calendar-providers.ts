@@ -0,0 +1,71 @@
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const GOOGLE_CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID;
+const MICROSOFT_CLIENT_ID = import.meta.env.VITE_MICROSOFT_CLIENT_ID;
+
+export type CalendarProviderId = 'google' | 'microsoft';
+
+/**
+ * An external calendar the user can connect. Each provider has its own OAuth
+ * flow, token table and edge functions, all with the same request and
+ * response shapes.
+ */
+export interface CalendarProvider {
+  id: CalendarProviderId;
+  label: string;
+  /** Holds the user's OAuth tokens; a row means the calendar is connected */
+  tokenTable: 'user_google_tokens' | 'user_microsoft_tokens';
+  functions: {
+    list: string;
+    push: string;
+    sync: string;
+  };
+  /** Query params the OAuth callback redirects back to /calendar with */
+  callbackParams: { connected: string; error: string };
+  /** The provider's consent screen; state carries the user's session token to the callback */
+  authorizeUrl: (state: string) => string;
+  /** Whether syncs also bring reschedules and cancellations back from the calendar */
+  twoWaySync: boolean;
+}
+
+export const CALENDAR_PROVIDERS: Record<CalendarProviderId, CalendarProvider> = {
+  google: {
+    id: 'google',
+    label: 'Google Calendar',
+    tokenTable: 'user_google_tokens',
+    functions: { list: 'gcal-list-events', push: 'gcal-push-event', sync: 'gcal-sync-calls' },
+    callbackParams: { connected: 'gcal_connected', error: 'gcal_error' },
+    authorizeUrl: (state) => {
+      const params = new URLSearchParams({
+        client_id: GOOGLE_CLIENT_ID,
+        redirect_uri: `${SUPABASE_URL}/functions/v1/gcal-oauth-callback`,
+        response_type: 'code',
+        scope: 'https://www.googleapis.com/auth/calendar.events',
+        access_type: 'offline',
+        prompt: 'consent',
+        state,
+      });
+      return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
+    },
+    twoWaySync: true,
+  },
+  microsoft: {
+    id: 'microsoft',
+    label: 'Outlook Calendar',
+    tokenTable: 'user_microsoft_tokens',
+    functions: { list: 'outlook-list-events', push: 'outlook-push-event', sync: 'outlook-sync-calls' },
+    callbackParams: { connected: 'outlook_connected', error: 'outlook_error' },
+    authorizeUrl: (state) => {
+      const params = new URLSearchParams({
+        client_id: MICROSOFT_CLIENT_ID,
+        redirect_uri: `${SUPABASE_URL}/functions/v1/outlook-oauth-callback`,
+        response_type: 'code',
+        response_mode: 'query',
+        scope: 'offline_access User.Read Calendars.ReadWrite',
+        prompt: 'select_account',
+        state,
+      });
+      return `https://login.microsoftonline.com/common/oauth2/v2.0/authorize?${params.toString()}`;
+    },
+    twoWaySync: false,
+  },
+};
@@ -0,0 +1,49 @@
+// Post-call debriefs: the notes they produce and the stage they point to
+import { isStagePast } from './stages';
+import type { CallDebrief, ContactStage } from './types';
+
+export type DebriefContent = Pick<
+  CallDebrief,
+  'topics' | 'advice' | 'follow_ups' | 'intro_offers' | 'rating' | 'asked_for_referral'
+>;
+
+/** Rating at or above which a call counts as having built a real relationship */
+export const STRONG_CALL_RATING = 4;
+
+/** Markdown notes for the call interaction, so the timeline and exports read naturally */
+export function debriefToMarkdown(debrief: DebriefContent): string {
+  const sections: string[] = [];
+  if (debrief.topics?.trim()) sections.push(`### Topics\n${debrief.topics.trim()}`);
+  if (debrief.advice?.trim()) sections.push(`### Advice\n${debrief.advice.trim()}`);
+  if (debrief.follow_ups.length > 0) {
+    const items = debrief.follow_ups.map((f) => (f.due_date ? `- ${f.title} (by ${f.due_date})` : `- ${f.title}`));
+    sections.push(`### Follow-ups\n${items.join('\n')}`);
+  }
+  if (debrief.intro_offers.length > 0) {
+    sections.push(`### Offered to introduce\n${debrief.intro_offers.map((name) => `- ${name}`).join('\n')}`);
+  }
+  const facts = [
+    debrief.rating ? `Rating: ${debrief.rating}/5` : null,
+    `Asked for referral: ${debrief.asked_for_referral ? 'yes' : 'no'}`,
+  ].filter(Boolean);
+  sections.push(facts.join(' · '));
+  return sections.join('\n\n');
+}
+
+/**
+ * Where the debrief suggests the contact belongs: Referral Requested once a
+ * referral was asked for, Strong Connection after a call that went well.
+ * Only ever a move forward from `currentStage`, and only to stages the user
+ * still has.
+ */
+export function suggestStageAfterDebrief(
+  debrief: DebriefContent,
+  currentStage: ContactStage,
+  stageKeys: ContactStage[]
+): ContactStage | null {
+  const candidates: ContactStage[] = [];
+  if (debrief.asked_for_referral) candidates.push('referral_requested');
+  if ((debrief.rating ?? 0) >= STRONG_CALL_RATING) candidates.push('strong_connection');
+
+  return candidates.find((stage) => stageKeys.includes(stage) && isStagePast(stageKeys, stage, currentStage)) ?? null;
+}
@@ -0,0 +1,252 @@
+// Duplicate contact detection and merge helpers
+
+import { normalizeTags } from '@/lib/custom-fields';
+import type { Contact, PrepQuestion } from '@/lib/types';
+
+// Common nicknames mapped to a canonical first name
+const NICKNAMES: Record<string, string> = {
+  jon: 'jonathan', john: 'jonathan', johnny: 'jonathan', jonny: 'jonathan',
+  mike: 'michael', mikey: 'michael', mick: 'michael',
+  matt: 'matthew', chris: 'christopher', nick: 'nicholas', nicky: 'nicholas',
+  alex: 'alexander', andy: 'andrew', drew: 'andrew', tony: 'anthony',
+  ben: 'benjamin', benji: 'benjamin', will: 'william', bill: 'william', billy: 'william', liam: 'william',
+  bob: 'robert', rob: 'robert', robbie: 'robert', bobby: 'robert',
+  jim: 'james', jimmy: 'james', jamie: 'james', joe: 'joseph', joey: 'joseph',
+  dan: 'daniel', danny: 'daniel', dave: 'david', davy: 'david',
+  tom: 'thomas', tommy: 'thomas', steve: 'steven', stephen: 'steven',
+  sam: 'samuel', ed: 'edward', eddie: 'edward', ted: 'edward',
+  rick: 'richard', rich: 'richard', dick: 'richard', greg: 'gregory',
+  jeff: 'jeffrey', geoff: 'jeffrey', josh: 'joshua', zach: 'zachary', zack: 'zachary',
+  pat: 'patrick', pete: 'peter', phil: 'philip', ken: 'kenneth', tim: 'timothy',
+  kate: 'katherine', katie: 'katherine', kathy: 'katherine', cathy: 'katherine', catherine: 'katherine',
+  liz: 'elizabeth', beth: 'elizabeth', lizzie: 'elizabeth', betty: 'elizabeth',
+  jen: 'jennifer', jenny: 'jennifer', sue: 'susan', suzy: 'susan',
+  meg: 'margaret', maggie: 'margaret', peggy: 'margaret', abby: 'abigail',
+  vicky: 'victoria', tori: 'victoria', becky: 'rebecca', steph: 'stephanie',
+};
+
+// Suffixes that don't distinguish one firm from another
+const FIRM_NOISE = new Set([
+  'inc', 'llc', 'llp', 'lp', 'ltd', 'plc', 'co', 'corp', 'corporation', 'company',
+  'group', 'the', 'and', 'partners', 'holdings', 'securities', 'bank', 'capital',
+]);
+
+export interface DuplicateCandidate {
+  a: Contact;
+  b: Contact;
+  score: number;
+  reasons: string[];
+}
+
+function tokens(value: string): string[] {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Split a contact name into canonical name tokens and any firm hint
+ * written in parentheses, e.g. "Jon Smith (Goldman)" → ["jonathan", "smith"], "goldman".
+ */
+export function normalizeName(name: string): { tokens: string[]; firmHint: string | null } {
+  const hintMatch = name.match(/\(([^)]+)\)/);
+  const firmHint = hintMatch ? normalizeFirm(hintMatch[1]) : null;
+  const nameTokens = tokens(name.replace(/\([^)]*\)/g, ' '))
+    .filter((t) => t.length > 1 || /\d/.test(t))
+    .map((t, i) => (i === 0 ? NICKNAMES[t] ?? t : t));
+  return { tokens: nameTokens, firmHint: firmHint || null };
+}
+
+export function normalizeFirm(firm: string | null): string {
+  if (!firm) return '';
+  return tokens(firm.replace(/&/g, ' and '))
+    .filter((t) => !FIRM_NOISE.has(t))
+    .join(' ');
+}
+
+function normalizeEmail(email: string | null): string | null {
+  return email ? email.trim().toLowerCase() : null;
+}
+
+// Levenshtein-based similarity in [0, 1]
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = temp;
+    }
+  }
+  return 1 - prev[b.length] / Math.max(a.length, b.length);
+}
+
+function nameScore(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const firstA = a[0];
+  const firstB = b[0];
+  const lastA = a[a.length - 1];
+  const lastB = b[b.length - 1];
+
+  // Single-token names only match on that token
+  if (a.length === 1 || b.length === 1) {
+    return a.join(' ') === b.join(' ') ? 0.7 : 0;
+  }
+
+  const last = similarity(lastA, lastB);
+  const first =
+    firstA === firstB || firstA.startsWith(firstB) || firstB.startsWith(firstA)
+      ? 1
+      : similarity(firstA, firstB);
+  return last * 0.6 + first * 0.4;
+}
+
+function firmsMatch(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  return a === b || a.startsWith(b) || b.startsWith(a) || similarity(a, b) >= 0.85;
+}
+
+/**
+ * Score how likely two contacts are the same person, in [0, 1], with
+ * human-readable reasons for the score.
+ */
+export function scoreDuplicatePair(a: Contact, b: Contact): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+
+  const emailA = normalizeEmail(a.email);
+  const emailB = normalizeEmail(b.email);
+  if (emailA && emailB && emailA === emailB) {
+    return { score: 1, reasons: ['Same email address'] };
+  }
+
+  const nameA = normalizeName(a.name);
+  const nameB = normalizeName(b.name);
+  const names = nameScore(nameA.tokens, nameB.tokens);
+  if (names < 0.6) return { score: 0, reasons };
+
+  let score = names * 0.75;
+  if (names === 1) reasons.push('Same name');
+  else reasons.push('Similar name');
+
+  const firmA = normalizeFirm(a.firm) || nameA.firmHint || '';
+  const firmB = normalizeFirm(b.firm) || nameB.firmHint || '';
+  if (firmsMatch(firmA, firmB)) {
+    score += 0.25;
+    reasons.push('Same firm');
+  } else if (firmA && firmB) {
+    score -= 0.3;
+  } else {
+    // One side has no firm, so it can neither confirm nor rule out a match
+    score += 0.1;
+  }
+
+  // Different emails on both sides is a strong sign of two people
+  if (emailA && emailB) score -= 0.2;
+
+  return { score: Math.max(0, Math.min(1, score)), reasons };
+}
+
+/**
+ * Find likely duplicate pairs among a user's contacts, best matches first.
+ */
+export function findDuplicateCandidates(contacts: Contact[], threshold = 0.65): DuplicateCandidate[] {
+  const candidates: DuplicateCandidate[] = [];
+  for (let i = 0; i < contacts.length; i++) {
+    for (let j = i + 1; j < contacts.length; j++) {
+      const { score, reasons } = scoreDuplicatePair(contacts[i], contacts[j]);
+      if (score >= threshold) {
+        candidates.push({ a: contacts[i], b: contacts[j], score, reasons });
+      }
+    }
+  }
+  return candidates.sort((x, y) => y.score - x.score);
+}
+
+export type MergeField =
+  | 'name'
+  | 'firm'
+  | 'group_name'
+  | 'position'
+  | 'email'
+  | 'phone'
+  | 'connection_type'
+  | 'relationship_strength'
+  | 'stage'
+  | 'last_contacted_at'
+  | 'next_followup_at'
+  | 'notes_summary';
+
+export const MERGE_FIELDS: { value: MergeField; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'firm', label: 'Firm' },
+  { value: 'group_name', label: 'Group' },
+  { value: 'position', label: 'Position' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'connection_type', label: 'Connection Type' },
+  { value: 'relationship_strength', label: 'Relationship Strength' },
+  { value: 'stage', label: 'Stage' },
+  { value: 'last_contacted_at', label: 'Last Contacted' },
+  { value: 'next_followup_at', label: 'Next Follow-up' },
+  { value: 'notes_summary', label: 'Notes' },
+];
+
+export type MergeSelection = Record<MergeField, 'a' | 'b'>;
+
+/**
+ * Default per-column choice: keep the survivor's value unless it is empty
+ * and the other contact has one.
+ */
+export function defaultMergeSelection(survivor: 'a' | 'b', a: Contact, b: Contact): MergeSelection {
+  const other = survivor === 'a' ? 'b' : 'a';
+  const source = { a, b };
+  const selection = {} as MergeSelection;
+  MERGE_FIELDS.forEach(({ value }) => {
+    const kept = source[survivor][value];
+    selection[value] = kept === null || kept === '' ? other : survivor;
+  });
+  return selection;
+}
+
+/** Combine prep questions from both contacts, dropping repeated question text. */
+export function combinePrepQuestions(a: PrepQuestion[] | null, b: PrepQuestion[] | null): PrepQuestion[] {
+  const seen = new Set<string>();
+  return [...(a ?? []), ...(b ?? [])].filter((q) => {
+    const key = q.text.trim().toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function buildMergedContact(a: Contact, b: Contact, selection: MergeSelection): Partial<Contact> {
+  const source = { a, b };
+  const merged: Partial<Contact> = {};
+  MERGE_FIELDS.forEach(({ value }) => {
+    (merged as Record<string, unknown>)[value] = source[selection[value]][value];
+  });
+  merged.prep_questions_json = combinePrepQuestions(a.prep_questions_json, b.prep_questions_json);
+  merged.tags = normalizeTags([...(a.tags ?? []), ...(b.tags ?? [])]);
+  // Where both have a custom field filled in, the side whose name was kept wins
+  const named = source[selection.name];
+  merged.custom_fields = { ...(named === a ? b : a).custom_fields, ...named.custom_fields };
+  // The referral link follows the chosen connection type, and can't point at either half of the pair
+  const chosen = source[selection.connection_type];
+  merged.referred_by_id =
+    [chosen.referred_by_id, (chosen === a ? b : a).referred_by_id].find(
+      (id) => id && id !== a.id && id !== b.id
+    ) ?? null;
+  return merged;
+}
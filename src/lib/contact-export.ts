@@ -0,0 +1,281 @@
+// Contact export: CSV, vCard 3.0 and full JSON dumps
+
+import { format } from 'date-fns';
+import { getStageLabel } from '@/lib/stages';
+import { foldLine } from '../../supabase/functions/_shared/ics';
+import { contactCustomFields, formatCustomFieldValue } from '@/lib/custom-fields';
+import {
+  CONNECTION_TYPES,
+  INTERACTION_OUTCOMES,
+  INTERACTION_TYPES,
+  type CallEvent,
+  type Contact,
+  type CustomFieldDefinition,
+  type Interaction,
+  type PrepQuestion,
+  type StageDefinition,
+} from '@/lib/types';
+
+export type ExportFormat = 'csv' | 'vcard' | 'json';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'For Excel and Google Sheets' },
+  { value: 'vcard', label: 'vCard', description: 'For phone and email address books' },
+  { value: 'json', label: 'JSON', description: 'Full backup that can be imported back into OfferReady' },
+];
+
+export const CONTACT_EXPORT_VERSION = 1;
+
+export interface ExportOptions {
+  includeInteractions: boolean;
+  includeCallEvents: boolean;
+  includePrepQuestions: boolean;
+}
+
+export type ExportedInteraction = Omit<Interaction, 'user_id' | 'contact_id'>;
+export type ExportedCallEvent = Omit<CallEvent, 'user_id' | 'contact_id' | 'contact'>;
+
+export interface ContactExportRecord extends Omit<Contact, 'user_id'> {
+  interactions?: ExportedInteraction[];
+  call_events?: ExportedCallEvent[];
+}
+
+export interface ContactExportFile {
+  version: number;
+  exported_at: string;
+  contacts: ContactExportRecord[];
+}
+
+export interface ContactWithRelations extends Contact {
+  interactions: Interaction[];
+  call_events: CallEvent[];
+}
+
+function toExportRecord(contact: ContactWithRelations, options: ExportOptions): ContactExportRecord {
+  const { user_id, interactions, call_events, ...rest } = contact;
+  const record: ContactExportRecord = {
+    ...rest,
+    prep_questions_json: options.includePrepQuestions ? (rest.prep_questions_json ?? []) : [],
+  };
+  if (options.includeInteractions) {
+    record.interactions = interactions.map(({ user_id: _u, contact_id: _c, ...i }) => i);
+  }
+  if (options.includeCallEvents) {
+    record.call_events = call_events.map(({ user_id: _u, contact_id: _c, contact: _contact, ...e }) => e);
+  }
+  return record;
+}
+
+// ── CSV ────────────────────────────────────────────────────────────────
+
+function escapeCsvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatInteraction(i: Pick<Interaction, 'type' | 'date' | 'notes' | 'duration_minutes' | 'outcome'>): string {
+  const label = INTERACTION_TYPES.find((t) => t.value === i.type)?.label ?? i.type;
+  const date = format(new Date(i.date), 'yyyy-MM-dd');
+  const details = [
+    i.duration_minutes ? `${i.duration_minutes} min` : null,
+    i.outcome ? INTERACTION_OUTCOMES.find((o) => o.value === i.outcome)?.label ?? i.outcome : null,
+  ].filter(Boolean);
+  const heading = details.length ? `${date} ${label} (${details.join(', ')})` : `${date} ${label}`;
+  return i.notes ? `${heading}: ${i.notes}` : heading;
+}
+
+function formatCallEvent(e: Pick<CallEvent, 'title' | 'start_at' | 'status'>): string {
+  return `${format(new Date(e.start_at), 'yyyy-MM-dd HH:mm')} ${e.title} (${e.status})`;
+}
+
+export function contactsToCsv(
+  contacts: ContactWithRelations[],
+  options: ExportOptions,
+  stages: StageDefinition[],
+  customFields: CustomFieldDefinition[],
+): string {
+  const headers = [
+    'Name',
+    'Firm',
+    'Group',
+    'Position',
+    'Email',
+    'Phone',
+    'Connection Type',
+    'Stage',
+    'Relationship Strength',
+    'Last Contacted',
+    'Next Follow-up',
+    'Notes',
+    'Tags',
+    ...customFields.map((field) => field.name),
+  ];
+  if (options.includePrepQuestions) headers.push('Prep Questions');
+  if (options.includeInteractions) headers.push('Interactions');
+  if (options.includeCallEvents) headers.push('Calls');
+
+  const rows = contacts.map((c) => {
+    const cells: (string | number | null)[] = [
+      c.name,
+      c.firm,
+      c.group_name,
+      c.position,
+      c.email,
+      c.phone,
+      CONNECTION_TYPES.find((t) => t.value === c.connection_type)?.label ?? c.connection_type,
+      getStageLabel(stages, c.stage),
+      c.relationship_strength,
+      c.last_contacted_at ? format(new Date(c.last_contacted_at), 'yyyy-MM-dd') : null,
+      c.next_followup_at ? format(new Date(c.next_followup_at), 'yyyy-MM-dd') : null,
+      c.notes_summary,
+      (c.tags ?? []).join('; '),
+      ...customFields.map((field) => formatCustomFieldValue(field, c.custom_fields?.[field.id])),
+    ];
+    if (options.includePrepQuestions) {
+      cells.push((c.prep_questions_json ?? []).map((q: PrepQuestion) => q.text).join('\n'));
+    }
+    if (options.includeInteractions) {
+      cells.push(c.interactions.map(formatInteraction).join('\n'));
+    }
+    if (options.includeCallEvents) {
+      cells.push(c.call_events.map(formatCallEvent).join('\n'));
+    }
+    return cells.map(escapeCsvCell).join(',');
+  });
+
+  return [headers.join(','), ...rows].join('\r\n');
+}
+
+// ── vCard 3.0 (RFC 2426) ────────────────────────────────────────────────
+
+function escapeVCardText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+function splitName(name: string): { given: string; family: string } {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) return { given: parts[0], family: '' };
+  return { given: parts.slice(0, -1).join(' '), family: parts[parts.length - 1] };
+}
+
+export function contactsToVCard(
+  contacts: ContactWithRelations[],
+  options: ExportOptions,
+  stages: StageDefinition[],
+  customFields: CustomFieldDefinition[],
+): string {
+  const cards = contacts.map((c) => {
+    const { given, family } = splitName(c.name);
+    const lines = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `N:${escapeVCardText(family)};${escapeVCardText(given)};;;`,
+      `FN:${escapeVCardText(c.name)}`,
+    ];
+    if (c.firm) {
+      const org = [c.firm, c.group_name].filter(Boolean).map((v) => escapeVCardText(v as string));
+      lines.push(`ORG:${org.join(';')}`);
+    }
+    if (c.position) lines.push(`TITLE:${escapeVCardText(c.position)}`);
+    if (c.email) lines.push(`EMAIL;TYPE=INTERNET,WORK:${escapeVCardText(c.email)}`);
+    if (c.phone) lines.push(`TEL;TYPE=WORK,VOICE:${escapeVCardText(c.phone)}`);
+
+    const noteSections: string[] = [];
+    if (c.notes_summary) noteSections.push(c.notes_summary);
+    const fieldValues = contactCustomFields(c, customFields);
+    if (fieldValues.length) {
+      noteSections.push(fieldValues.map(({ field, value }) => `${field.name}: ${value}`).join('\n'));
+    }
+    if (options.includePrepQuestions && c.prep_questions_json?.length) {
+      noteSections.push(`Prep questions:\n${c.prep_questions_json.map((q) => `- ${q.text}`).join('\n')}`);
+    }
+    if (options.includeInteractions && c.interactions.length) {
+      noteSections.push(`Interactions:\n${c.interactions.map((i) => `- ${formatInteraction(i)}`).join('\n')}`);
+    }
+    if (options.includeCallEvents && c.call_events.length) {
+      noteSections.push(`Calls:\n${c.call_events.map((e) => `- ${formatCallEvent(e)}`).join('\n')}`);
+    }
+    if (noteSections.length) lines.push(`NOTE:${escapeVCardText(noteSections.join('\n\n'))}`);
+
+    // Stage first, then the contact's tags
+    const categories = [getStageLabel(stages, c.stage), ...(c.tags ?? [])];
+    lines.push(`CATEGORIES:${categories.map(escapeVCardText).join(',')}`);
+    lines.push(`REV:${new Date(c.updated_at).toISOString().replace(/\.\d{3}/, '')}`);
+    lines.push('END:VCARD');
+    return lines.map(foldLine).join('\r\n');
+  });
+
+  return cards.join('\r\n') + '\r\n';
+}
+
+// ── JSON ───────────────────────────────────────────────────────────────
+
+export function contactsToJson(contacts: ContactWithRelations[], options: ExportOptions): string {
+  const file: ContactExportFile = {
+    version: CONTACT_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    contacts: contacts.map((c) => toExportRecord(c, options)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse and sanity-check a JSON export produced by `contactsToJson`.
+ * Throws if the file is not a recognised OfferReady export.
+ */
+export function parseContactExport(text: string): ContactExportFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const file = data as Partial<ContactExportFile>;
+  if (!file || typeof file !== 'object' || !Array.isArray(file.contacts)) {
+    throw new Error('File is not an OfferReady contact export');
+  }
+  if (typeof file.version !== 'number' || file.version > CONTACT_EXPORT_VERSION) {
+    throw new Error('Unsupported export version');
+  }
+  const invalid = file.contacts.findIndex((c) => !c || typeof c.name !== 'string' || !c.name.trim());
+  if (invalid !== -1) {
+    throw new Error(`Contact ${invalid + 1} is missing a name`);
+  }
+
+  return file as ContactExportFile;
+}
+
+export function serializeContacts(
+  contacts: ContactWithRelations[],
+  exportFormat: ExportFormat,
+  options: ExportOptions,
+  stages: StageDefinition[],
+  customFields: CustomFieldDefinition[],
+): { content: string; mimeType: string; extension: string } {
+  switch (exportFormat) {
+    case 'csv':
+      return { content: contactsToCsv(contacts, options, stages, customFields), mimeType: 'text/csv;charset=utf-8', extension: 'csv' };
+    case 'vcard':
+      return { content: contactsToVCard(contacts, options, stages, customFields), mimeType: 'text/vcard;charset=utf-8', extension: 'vcf' };
+    case 'json':
+      return { content: contactsToJson(contacts, options), mimeType: 'application/json', extension: 'json' };
+  }
+}
+
+export function downloadFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,97 @@
+// Structured pipeline filters and the named views they're saved as
+import { endOfDay, parseISO, startOfDay } from 'date-fns';
+import type { Contact, ContactFilters } from './types';
+
+export const EMPTY_FILTERS: ContactFilters = {
+  search: '',
+  firms: [],
+  groups: [],
+  connectionTypes: [],
+  tags: [],
+  strengthMin: 1,
+  strengthMax: 5,
+  lastContactedAfter: null,
+  lastContactedBefore: null,
+  overdueFollowup: false,
+  upcomingCall: false,
+};
+
+/** Fill in anything a saved view predates, so older views keep loading as filters are added */
+export function normalizeFilters(filters: Partial<ContactFilters> | null | undefined): ContactFilters {
+  return { ...EMPTY_FILTERS, ...filters };
+}
+
+/** Number of structured filters in use, for the filter button badge. Search isn't counted. */
+export function countActiveFilters(filters: ContactFilters): number {
+  return [
+    filters.firms.length > 0,
+    filters.groups.length > 0,
+    filters.connectionTypes.length > 0,
+    filters.tags.length > 0,
+    filters.strengthMin > EMPTY_FILTERS.strengthMin || filters.strengthMax < EMPTY_FILTERS.strengthMax,
+    !!filters.lastContactedAfter,
+    !!filters.lastContactedBefore,
+    filters.overdueFollowup,
+    filters.upcomingCall,
+  ].filter(Boolean).length;
+}
+
+export function filtersEqual(a: ContactFilters, b: ContactFilters): boolean {
+  return JSON.stringify(normalizeFilters(a)) === JSON.stringify(normalizeFilters(b));
+}
+
+interface FilterContext {
+  /** Contacts with a scheduled call that hasn't happened yet */
+  upcomingCallContactIds: Set<string>;
+  now?: Date;
+}
+
+// Free-text search also looks at tags and custom field values
+function matchesSearch(contact: Contact, search: string): boolean {
+  const query = search.trim().toLowerCase();
+  if (!query) return true;
+  return [
+    contact.name,
+    contact.firm,
+    contact.group_name,
+    contact.position,
+    contact.email,
+    ...(contact.tags ?? []),
+    ...Object.values(contact.custom_fields ?? {}).map(String),
+  ].some((value) => value?.toLowerCase().includes(query));
+}
+
+export function applyContactFilters(
+  contacts: Contact[],
+  filters: ContactFilters,
+  { upcomingCallContactIds, now = new Date() }: FilterContext
+): Contact[] {
+  const firms = new Set(filters.firms.map((f) => f.toLowerCase()));
+  const groups = new Set(filters.groups.map((g) => g.toLowerCase()));
+  const tags = new Set(filters.tags.map((t) => t.toLowerCase()));
+  const after = filters.lastContactedAfter ? startOfDay(parseISO(filters.lastContactedAfter)) : null;
+  const before = filters.lastContactedBefore ? endOfDay(parseISO(filters.lastContactedBefore)) : null;
+
+  return contacts.filter((contact) => {
+    if (!matchesSearch(contact, filters.search)) return false;
+    if (firms.size > 0 && !firms.has(contact.firm?.toLowerCase() ?? '')) return false;
+    if (groups.size > 0 && !groups.has(contact.group_name?.toLowerCase() ?? '')) return false;
+    if (filters.connectionTypes.length > 0 && !filters.connectionTypes.includes(contact.connection_type)) return false;
+    if (tags.size > 0 && !(contact.tags ?? []).some((tag) => tags.has(tag.toLowerCase()))) return false;
+    if (contact.relationship_strength < filters.strengthMin || contact.relationship_strength > filters.strengthMax) {
+      return false;
+    }
+
+    const lastContacted = contact.last_contacted_at ? new Date(contact.last_contacted_at) : null;
+    if (after && (!lastContacted || lastContacted < after)) return false;
+    if (before && lastContacted && lastContacted > before) return false;
+
+    if (filters.overdueFollowup) {
+      if (!contact.next_followup_at || contact.went_cold_at) return false;
+      if (new Date(contact.next_followup_at) > now) return false;
+    }
+    if (filters.upcomingCall && !upcomingCallContactIds.has(contact.id)) return false;
+
+    return true;
+  });
+}
@@ -0,0 +1,266 @@
+// Bulk contact import: CSV parsing, column mapping and validation
+
+import {
+  CONNECTION_TYPES,
+  type ConnectionType,
+  type Contact,
+  type ContactStage,
+  type StageDefinition,
+} from '@/lib/types';
+
+export type ImportField =
+  | 'name'
+  | 'first_name'
+  | 'last_name'
+  | 'firm'
+  | 'group_name'
+  | 'position'
+  | 'email'
+  | 'connection_type'
+  | 'stage';
+
+export const IMPORT_FIELDS: { value: ImportField; label: string }[] = [
+  { value: 'name', label: 'Full Name' },
+  { value: 'first_name', label: 'First Name' },
+  { value: 'last_name', label: 'Last Name' },
+  { value: 'firm', label: 'Firm' },
+  { value: 'group_name', label: 'Group' },
+  { value: 'position', label: 'Position' },
+  { value: 'email', label: 'Email' },
+  { value: 'connection_type', label: 'Connection Type' },
+  { value: 'stage', label: 'Stage' },
+];
+
+// Header spellings we recognise, including LinkedIn's Connections.csv export
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'full name', 'contact', 'contact name'],
+  first_name: ['first name', 'firstname', 'given name'],
+  last_name: ['last name', 'lastname', 'surname', 'family name'],
+  firm: ['firm', 'company', 'organization', 'bank', 'employer'],
+  group_name: ['group', 'group name', 'team', 'division', 'department'],
+  position: ['position', 'title', 'job title', 'role'],
+  email: ['email', 'email address', 'e-mail', 'e-mail address'],
+  connection_type: ['connection type', 'connection', 'relationship', 'source'],
+  stage: ['stage', 'status', 'pipeline stage'],
+};
+
+export type ColumnMapping = Record<number, ImportField | null>;
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportContact = Pick<
+  Contact,
+  'name' | 'firm' | 'group_name' | 'position' | 'email' | 'connection_type' | 'stage'
+>;
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportRow {
+  rowNumber: number;
+  contact: ImportContact;
+  status: ImportRowStatus;
+  errors: string[];
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting, CRLF or LF line endings) into rows of cells.
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+}
+
+export function detectField(header: string): ImportField | null {
+  const normalized = normalizeHeader(header);
+  for (const field of Object.keys(HEADER_ALIASES) as ImportField[]) {
+    if (HEADER_ALIASES[field].includes(normalized)) return field;
+  }
+  return null;
+}
+
+/**
+ * Parse a CSV file into headers and data rows. LinkedIn exports prepend a
+ * "Notes:" preamble, so the header row is the first one with a recognised column.
+ */
+export function parseContactsCsv(text: string): ParsedCsv {
+  const allRows = parseCsvRows(text);
+  const headerIndex = allRows.findIndex(
+    (r) => r.filter((cell) => detectField(cell) !== null).length >= 2
+  );
+  const start = headerIndex === -1 ? 0 : headerIndex;
+  const [headers = [], ...rows] = allRows.slice(start);
+  return { headers: headers.map((h) => h.trim()), rows };
+}
+
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<ImportField>();
+  headers.forEach((header, index) => {
+    const field = detectField(header);
+    if (field && !used.has(field)) {
+      mapping[index] = field;
+      used.add(field);
+    } else {
+      mapping[index] = null;
+    }
+  });
+  return mapping;
+}
+
+function toKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+export function parseConnectionType(value: string): ConnectionType | null {
+  const key = toKey(value);
+  const match = CONNECTION_TYPES.find(
+    (t) => t.value === key || toKey(t.label) === key
+  );
+  return match?.value ?? null;
+}
+
+export function parseStage(value: string, stages: StageDefinition[]): ContactStage | null {
+  const key = toKey(value);
+  const match = stages.find(
+    (stage) => stage.key === key || toKey(stage.label) === key
+  );
+  return match?.key ?? null;
+}
+
+function duplicateKeys(contact: Pick<Contact, 'name' | 'firm' | 'email'>): string[] {
+  const keys: string[] = [];
+  if (contact.email) keys.push(`email:${contact.email.trim().toLowerCase()}`);
+  if (contact.name && contact.firm) {
+    keys.push(`name:${contact.name.trim().toLowerCase()}|${contact.firm.trim().toLowerCase()}`);
+  }
+  return keys;
+}
+
+/**
+ * Returns a predicate that reports whether a contact matches one already seen, by
+ * email or by name plus firm. Contacts that are not duplicates are remembered, so
+ * repeated rows within the same file are caught too.
+ */
+export function createDuplicateChecker(existing: Pick<Contact, 'name' | 'firm' | 'email'>[]) {
+  const seen = new Set(existing.flatMap(duplicateKeys));
+  return (contact: Pick<Contact, 'name' | 'firm' | 'email'>): boolean => {
+    const keys = duplicateKeys(contact);
+    if (keys.some((key) => seen.has(key))) return true;
+    keys.forEach((key) => seen.add(key));
+    return false;
+  };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Apply a column mapping to parsed rows and validate each one. Rows that match an
+ * existing contact (or an earlier row in the file) by email, or by name plus firm,
+ * are flagged as duplicates and will be skipped. Stage values are matched against
+ * the user's `stages` by key or label.
+ */
+export function buildImportRows(
+  parsed: ParsedCsv,
+  mapping: ColumnMapping,
+  existing: Pick<Contact, 'name' | 'firm' | 'email'>[],
+  defaults: { connection_type: ConnectionType; stage: ContactStage },
+  stages: StageDefinition[],
+): ImportRow[] {
+  const isDuplicate = createDuplicateChecker(existing);
+
+  return parsed.rows.map((cells, index) => {
+    const values: Partial<Record<ImportField, string>> = {};
+    Object.entries(mapping).forEach(([col, field]) => {
+      const value = cells[Number(col)]?.trim();
+      if (field && value) values[field] = value;
+    });
+
+    const errors: string[] = [];
+    const name =
+      values.name ||
+      [values.first_name, values.last_name].filter(Boolean).join(' ');
+    if (!name) errors.push('Missing name');
+
+    const email = values.email || null;
+    if (email && !EMAIL_PATTERN.test(email)) errors.push(`Invalid email "${email}"`);
+
+    let connectionType = defaults.connection_type;
+    if (values.connection_type) {
+      const parsedType = parseConnectionType(values.connection_type);
+      if (parsedType) connectionType = parsedType;
+      else errors.push(`Unknown connection type "${values.connection_type}"`);
+    }
+
+    let stage = defaults.stage;
+    if (values.stage) {
+      const parsedStage = parseStage(values.stage, stages);
+      if (parsedStage) stage = parsedStage;
+      else errors.push(`Unknown stage "${values.stage}"`);
+    }
+
+    const contact: ImportContact = {
+      name,
+      firm: values.firm || null,
+      group_name: values.group_name || null,
+      position: values.position || null,
+      email,
+      connection_type: connectionType,
+      stage,
+    };
+
+    let status: ImportRowStatus = errors.length > 0 ? 'invalid' : 'valid';
+    if (status === 'valid' && isDuplicate(contact)) status = 'duplicate';
+
+    return { rowNumber: index + 1, contact, status, errors };
+  });
+}
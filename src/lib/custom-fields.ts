@@ -0,0 +1,54 @@
+// Tags and user-defined custom fields on contacts
+import { format, parseISO } from 'date-fns';
+import type { Contact, CustomFieldDefinition, CustomFieldValue } from './types';
+
+/** Trim, drop empties and de-duplicate case-insensitively, keeping the first spelling */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/** Every tag in use across `contacts`, sorted */
+export function collectTags(contacts: Pick<Contact, 'tags'>[]): string[] {
+  return normalizeTags(contacts.flatMap((c) => c.tags ?? [])).sort((a, b) => a.localeCompare(b));
+}
+
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === undefined || value === null || value === '') return '';
+  if (field.field_type === 'date') {
+    const date = parseISO(String(value));
+    return isNaN(date.getTime()) ? String(value) : format(date, 'MMM d, yyyy');
+  }
+  return String(value);
+}
+
+/**
+ * Turn form input into a stored value: numbers become numbers, blanks and
+ * unparseable numbers are dropped (returns undefined).
+ */
+export function parseCustomFieldInput(field: CustomFieldDefinition, input: string): CustomFieldValue | undefined {
+  const trimmed = input.trim();
+  if (!trimmed) return undefined;
+  if (field.field_type === 'number') {
+    const number = Number(trimmed);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return trimmed;
+}
+
+/** Filled-in custom fields of a contact, in the user's field order */
+export function contactCustomFields(
+  contact: Pick<Contact, 'custom_fields'>,
+  fields: CustomFieldDefinition[]
+): { field: CustomFieldDefinition; value: string }[] {
+  return fields
+    .map((field) => ({ field, value: formatCustomFieldValue(field, contact.custom_fields?.[field.id]) }))
+    .filter(({ value }) => value !== '');
+}
@@ -0,0 +1,148 @@
+// Email templates, the outreach sequences built from them, and their usage
+// stats. Variables are filled in server-side, by render-email-template or by
+// the generate-*-email functions when a template is used as-is.
+import { addDays, format } from 'date-fns';
+import type { EmailTemplate, EmailTemplateUse } from './types';
+
+export const TEMPLATE_VARIABLES: { key: string; description: string }[] = [
+  { key: 'first_name', description: "Contact's first name" },
+  { key: 'name', description: "Contact's full name" },
+  { key: 'firm', description: "Contact's firm" },
+  { key: 'group', description: "Contact's group" },
+  { key: 'position', description: "Contact's position" },
+  { key: 'my_name', description: 'Your name' },
+  { key: 'school', description: 'Your school' },
+  { key: 'major', description: 'Your major, from your resume' },
+  { key: 'graduation_year', description: 'Your class year' },
+  { key: 'availability', description: 'Your free times over the next week' },
+];
+
+/** Follow-ups after the initial email */
+export const MAX_SEQUENCE_FOLLOW_UPS = 2;
+
+/** Days to wait before each follow-up, counted from the previous step */
+export const DEFAULT_FOLLOW_UP_DELAYS = [5, 7];
+
+export interface TemplateUsageStats {
+  total: number;
+  asIs: number;
+  styleSeed: number;
+  sequence: number;
+  /** Distinct contacts the template was used for */
+  contacts: number;
+  lastUsedAt: string | null;
+}
+
+/** Usage stats per template id */
+export function summarizeTemplateUses(uses: EmailTemplateUse[]): Map<string, TemplateUsageStats> {
+  const contactsByTemplate = new Map<string, Set<string>>();
+  const stats = new Map<string, TemplateUsageStats>();
+
+  for (const use of uses) {
+    const entry = stats.get(use.template_id) ?? {
+      total: 0,
+      asIs: 0,
+      styleSeed: 0,
+      sequence: 0,
+      contacts: 0,
+      lastUsedAt: null,
+    };
+    entry.total++;
+    if (use.mode === 'as_is') entry.asIs++;
+    else if (use.mode === 'style_seed') entry.styleSeed++;
+    else entry.sequence++;
+    if (!entry.lastUsedAt || use.created_at > entry.lastUsedAt) entry.lastUsedAt = use.created_at;
+
+    if (use.contact_id) {
+      const contacts = contactsByTemplate.get(use.template_id) ?? new Set<string>();
+      contacts.add(use.contact_id);
+      contactsByTemplate.set(use.template_id, contacts);
+      entry.contacts = contacts.size;
+    }
+    stats.set(use.template_id, entry);
+  }
+
+  return stats;
+}
+
+export function sequenceStepLabel(position: number): string {
+  return position === 0 ? 'Initial email' : `Follow-up ${position}`;
+}
+
+/** yyyy-MM-dd due date of each step: the first on `start`, then each delay after the previous */
+export function sequenceDueDates(start: Date, delays: number[]): string[] {
+  const dates = [start];
+  for (const delay of delays) dates.push(addDays(dates[dates.length - 1], delay));
+  return dates.map((date) => format(date, 'yyyy-MM-dd'));
+}
+
+// Offered to users who haven't written any templates yet
+export const STARTER_EMAIL_TEMPLATES: Pick<EmailTemplate, 'name' | 'category' | 'subject' | 'body'>[] = [
+  {
+    name: 'Cold outreach',
+    category: 'outreach',
+    subject: '{{school}} student interested in {{firm}}',
+    body: `Hi {{first_name}},
+
+My name is {{my_name}} and I'm a student at {{school}} studying {{major}}. I'm very interested in investment banking and would love to learn more about your experience in {{group}} at {{firm}}.
+
+Would you have 20 minutes for a quick call in the coming weeks? I'm free at these times:
+{{availability}}
+
+Happy to work around your schedule as well.
+
+Best,
+{{my_name}}`,
+  },
+  {
+    name: 'First follow-up',
+    category: 'follow_up',
+    subject: 'Re: {{school}} student interested in {{firm}}',
+    body: `Hi {{first_name}},
+
+I wanted to follow up on my note from last week. I know things get busy, but I'd really value 20 minutes of your time to hear about your path to {{firm}}.
+
+Here's when I'm free:
+{{availability}}
+
+Best,
+{{my_name}}`,
+  },
+  {
+    name: 'Final follow-up',
+    category: 'follow_up',
+    subject: 'Re: {{school}} student interested in {{firm}}',
+    body: `Hi {{first_name}},
+
+Just bumping this one last time in case it got buried. If now isn't a good time, I completely understand, and I'd be grateful for any advice you could share over email instead.
+
+Best,
+{{my_name}}`,
+  },
+  {
+    name: 'Thank you after a call',
+    category: 'thank_you',
+    subject: 'Thank you for your time',
+    body: `Hi {{first_name}},
+
+Thank you so much for taking the time to speak with me. I really enjoyed hearing about your experience in {{group}} at {{firm}}, and it gave me a much clearer picture of the work.
+
+I'd love to stay in touch as I go through recruiting.
+
+Best,
+{{my_name}}`,
+  },
+  {
+    name: 'Referral ask',
+    category: 'referral_ask',
+    subject: 'Applying to {{firm}}',
+    body: `Hi {{first_name}},
+
+I hope you've been well. Since we spoke, I've only become more excited about {{firm}}, and I'm planning to apply for the summer analyst role in {{group}}.
+
+Would you be comfortable referring me or passing my resume along to the recruiting team? I completely understand if not, and I'm grateful for all your help either way.
+
+Best,
+{{my_name}}`,
+  },
+];
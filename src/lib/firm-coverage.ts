@@ -0,0 +1,88 @@
+// Firm x stage coverage matrix for the pipeline heatmap
+import { isStagePast } from './stages';
+import type { Contact, ContactStage, Firm } from './types';
+
+export interface CoverageCell {
+  stage: ContactStage;
+  contacts: Contact[];
+}
+
+export interface GroupCoverage {
+  name: string;
+  cells: CoverageCell[];
+  total: number;
+}
+
+export interface FirmCoverage {
+  firm: Firm;
+  cells: CoverageCell[];
+  groups: GroupCoverage[];
+  total: number;
+  /** Target firm where nobody has progressed past `call_done` */
+  underNetworked: boolean;
+}
+
+export const NO_GROUP_LABEL = 'No group';
+
+export function isPastCallDone(stageKeys: ContactStage[], stage: ContactStage): boolean {
+  return isStagePast(stageKeys, stage, 'call_done');
+}
+
+function buildCells(stageKeys: ContactStage[], contacts: Contact[]): CoverageCell[] {
+  return stageKeys.map((stage) => ({
+    stage,
+    contacts: contacts.filter((c) => c.stage === stage),
+  }));
+}
+
+/**
+ * Group contacts into one row per firm (with per-group sub-rows), one cell per
+ * of the user's stages. Target firms are always listed, even with no contacts yet.
+ */
+export function buildFirmCoverage(firms: Firm[], contacts: Contact[], stageKeys: ContactStage[]): FirmCoverage[] {
+  const byFirm = new Map<string, Contact[]>();
+  for (const contact of contacts) {
+    if (!contact.firm_id) continue;
+    const list = byFirm.get(contact.firm_id) ?? [];
+    list.push(contact);
+    byFirm.set(contact.firm_id, list);
+  }
+
+  return firms
+    .filter((firm) => firm.is_target || byFirm.has(firm.id))
+    .map((firm) => {
+      const firmContacts = byFirm.get(firm.id) ?? [];
+
+      const byGroup = new Map<string, Contact[]>();
+      for (const contact of firmContacts) {
+        const group = contact.group_name || NO_GROUP_LABEL;
+        byGroup.set(group, [...(byGroup.get(group) ?? []), contact]);
+      }
+      const groups = Array.from(byGroup.entries())
+        .map(([name, groupContacts]) => ({
+          name,
+          cells: buildCells(stageKeys, groupContacts),
+          total: groupContacts.length,
+        }))
+        .sort((a, b) =>
+          a.name === NO_GROUP_LABEL ? 1 : b.name === NO_GROUP_LABEL ? -1 : a.name.localeCompare(b.name)
+        );
+
+      return {
+        firm,
+        cells: buildCells(stageKeys, firmContacts),
+        groups,
+        total: firmContacts.length,
+        underNetworked: firm.is_target && !firmContacts.some((c) => isPastCallDone(stageKeys, c.stage)),
+      };
+    })
+    .sort((a, b) => b.total - a.total || a.firm.name.localeCompare(b.firm.name));
+}
+
+/** Largest single-cell count, used to scale heatmap shading */
+export function maxCellCount(rows: FirmCoverage[]): number {
+  return rows.reduce(
+    (max, row) => Math.max(max, ...row.cells.map((cell) => cell.contacts.length)),
+    0
+  );
+}
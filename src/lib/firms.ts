@@ -0,0 +1,42 @@
+// Firm name matching for autocomplete and alias lookup
+
+interface NamedWithAliases {
+  name: string;
+  aliases: string[];
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/** Find the entry whose canonical name or alias equals `text` (case-insensitive). */
+export function findByNameOrAlias<T extends NamedWithAliases>(items: T[], text: string | null | undefined): T | undefined {
+  if (!text?.trim()) return undefined;
+  const query = normalize(text);
+  return items.find(
+    (item) => normalize(item.name) === query || item.aliases.some((alias) => normalize(alias) === query)
+  );
+}
+
+/**
+ * Rank entries for an autocomplete query: exact name/alias matches first, then
+ * prefix matches, then substring matches. An empty query returns everything.
+ */
+export function searchByNameOrAlias<T extends NamedWithAliases>(items: T[], text: string, limit = 8): T[] {
+  const query = normalize(text);
+  if (!query) return items.slice(0, limit);
+
+  const ranked = items
+    .map((item) => {
+      const candidates = [item.name, ...item.aliases].map(normalize);
+      let rank = Infinity;
+      if (candidates.includes(query)) rank = 0;
+      else if (candidates.some((c) => c.startsWith(query))) rank = 1;
+      else if (candidates.some((c) => c.includes(query))) rank = 2;
+      return { item, rank };
+    })
+    .filter((r) => r.rank !== Infinity)
+    .sort((a, b) => a.rank - b.rank || a.item.name.localeCompare(b.item.name));
+
+  return ranked.slice(0, limit).map((r) => r.item);
+}
@@ -0,0 +1,59 @@
+// iCalendar (RFC 5545) export of calls, for calendar clients other than the connected one
+
+import { escapeIcsText, foldLine, formatIcsDate } from '../../supabase/functions/_shared/ics';
+import type { CallEvent } from '@/lib/types';
+
+export interface IcsPerson {
+  name: string;
+  email: string;
+}
+
+type IcsCallEvent = Pick<CallEvent, 'id' | 'title' | 'start_at' | 'end_at' | 'location' | 'notes' | 'status' | 'updated_at'>;
+
+// Parameter values can't contain double quotes or control characters (an
+// imported name can hold a line break); quoting allows commas and semicolons
+function personAddress(person: IcsPerson): string {
+  const name = person.name.replace(/\p{Cc}+/gu, ' ').replace(/"/g, '').trim();
+  return `CN="${name}":mailto:${person.email}`;
+}
+
+/**
+ * A single call as an .ics file. With an organizer and attendee the file is an
+ * invitation (METHOD:REQUEST) the user's calendar client can send to the contact.
+ */
+export function callEventToIcs(
+  event: IcsCallEvent,
+  { organizer, attendee }: { organizer?: IcsPerson; attendee?: IcsPerson } = {},
+): string {
+  const isInvite = !!organizer && !!attendee;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//OfferReady//Calls//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${isInvite ? 'REQUEST' : 'PUBLISH'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.id}@offerready.net`,
+    `DTSTAMP:${formatIcsDate(new Date().toISOString())}`,
+    `LAST-MODIFIED:${formatIcsDate(event.updated_at)}`,
+    `DTSTART:${formatIcsDate(event.start_at)}`,
+    `DTEND:${formatIcsDate(event.end_at)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    `STATUS:${event.status === 'canceled' ? 'CANCELLED' : 'CONFIRMED'}`,
+  ];
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.notes) lines.push(`DESCRIPTION:${escapeIcsText(event.notes)}`);
+  if (organizer) lines.push(`ORGANIZER;${personAddress(organizer)}`);
+  if (attendee) {
+    lines.push(`ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;${personAddress(attendee)}`);
+  }
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// e.g. "Coffee chat with Jane" -> "coffee-chat-with-jane.ics"
+export function icsFileName(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'call'}.ics`;
+}
@@ -0,0 +1,29 @@
+// Scoping contacts to one of the user's pipelines
+import type { Contact, Pipeline, PipelineContact } from './types';
+
+/** The built-in pipeline every contact is in; its stage lives on `contacts.stage` */
+export const MAIN_PIPELINE_LABEL = 'Main pipeline';
+
+export function pipelineName(pipelines: Pipeline[], pipelineId: string | null): string {
+  return pipelines.find((p) => p.id === pipelineId)?.name ?? MAIN_PIPELINE_LABEL;
+}
+
+/**
+ * Contacts as they stand in a pipeline: every contact for the main pipeline
+ * (`pipelineId` null), otherwise only members, with `stage` swapped for their
+ * stage in that pipeline.
+ */
+export function contactsInPipeline(
+  contacts: Contact[],
+  memberships: PipelineContact[],
+  pipelineId: string | null
+): Contact[] {
+  if (!pipelineId) return contacts;
+
+  const stageByContact = new Map(
+    memberships.filter((m) => m.pipeline_id === pipelineId).map((m) => [m.contact_id, m.stage])
+  );
+  return contacts
+    .filter((c) => stageByContact.has(c.id))
+    .map((c) => ({ ...c, stage: stageByContact.get(c.id)! }));
+}
@@ -0,0 +1,101 @@
+// Referral chains: who introduced whom, and which relationships paid off
+import { isStagePast } from './stages';
+import type { Contact, ContactStage, ContactStageEvent } from './types';
+
+export interface ReferralNode {
+  contact: Contact;
+  children: ReferralNode[];
+}
+
+export interface ReferrerStats {
+  contact: Contact;
+  /** Everyone introduced through this contact, directly or further down the chain */
+  downstream: number;
+  direct: number;
+  interviews: number;
+  offers: number;
+}
+
+function childrenByReferrer(contacts: Contact[]): Map<string, Contact[]> {
+  const byReferrer = new Map<string, Contact[]>();
+  for (const contact of contacts) {
+    if (!contact.referred_by_id) continue;
+    byReferrer.set(contact.referred_by_id, [...(byReferrer.get(contact.referred_by_id) ?? []), contact]);
+  }
+  return byReferrer;
+}
+
+/** Referrers of `contactId`, from the original introducer down to its direct referrer */
+export function referralAncestors(contacts: Contact[], contactId: string): Contact[] {
+  const byId = new Map(contacts.map((c) => [c.id, c]));
+  const chain: Contact[] = [];
+  const seen = new Set([contactId]);
+  let current = byId.get(contactId)?.referred_by_id;
+  // Stop on a loop (A referred B referred A) rather than walking forever
+  while (current && !seen.has(current)) {
+    const referrer = byId.get(current);
+    if (!referrer) break;
+    chain.unshift(referrer);
+    seen.add(current);
+    current = referrer.referred_by_id;
+  }
+  return chain;
+}
+
+/** Everyone introduced through `contactId`, as a tree */
+export function referralTree(contacts: Contact[], contactId: string): ReferralNode[] {
+  const byReferrer = childrenByReferrer(contacts);
+  const seen = new Set([contactId]);
+
+  const build = (id: string): ReferralNode[] =>
+    (byReferrer.get(id) ?? [])
+      .filter((child) => !seen.has(child.id))
+      .map((child) => {
+        seen.add(child.id);
+        return { contact: child, children: build(child.id) };
+      });
+
+  return build(contactId);
+}
+
+function flatten(nodes: ReferralNode[]): Contact[] {
+  return nodes.flatMap((node) => [node.contact, ...flatten(node.children)]);
+}
+
+/** Everyone introduced through `contactId`, flattened */
+export function referralDescendants(contacts: Contact[], contactId: string): Contact[] {
+  return flatten(referralTree(contacts, contactId));
+}
+
+/**
+ * Contacts that introduced at least one other contact, ranked by how many
+ * connections came through them and how far those got. Like the stage funnel,
+ * a contact counts for the furthest stage it has ever been in, so an interview
+ * still counts after the contact moves on.
+ */
+export function buildReferrerReport(
+  contacts: Contact[],
+  events: ContactStageEvent[],
+  stageKeys: ContactStage[]
+): ReferrerStats[] {
+  const byReferrer = childrenByReferrer(contacts);
+
+  const history = new Map<string, ContactStage[]>(contacts.map((c) => [c.id, [c.stage]]));
+  for (const event of events) history.get(event.contact_id)?.push(event.to_stage);
+  const reached = (contact: Contact, target: ContactStage) =>
+    (history.get(contact.id) ?? []).some((stage) => stage === target || isStagePast(stageKeys, stage, target));
+
+  return contacts
+    .filter((contact) => byReferrer.has(contact.id))
+    .map((contact) => {
+      const downstream = referralDescendants(contacts, contact.id);
+      return {
+        contact,
+        downstream: downstream.length,
+        direct: byReferrer.get(contact.id)?.length ?? 0,
+        interviews: downstream.filter((c) => reached(c, 'interview')).length,
+        offers: downstream.filter((c) => reached(c, 'offer')).length,
+      };
+    })
+    .sort((a, b) => b.offers - a.offers || b.interviews - a.interviews || b.downstream - a.downstream);
+}
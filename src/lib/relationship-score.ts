@@ -0,0 +1,152 @@
+// Suggested relationship strength from interaction history and pipeline stage
+import { getStageLabel, isStagePast } from './stages';
+import { INTERACTION_TYPES, type Contact, type ContactStage, type Interaction, type StageDefinition } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** An interaction counts half as much after this many days without follow-up */
+export const DECAY_HALF_LIFE_DAYS = 45;
+
+/** Days without contact before a relationship counts as going stale */
+export const STALE_AFTER_DAYS = 30;
+
+// Deeper conversations build more of a relationship
+const INTERACTION_WEIGHTS: Record<string, number> = {
+  coffee_chat: 3,
+  call: 2,
+  superday: 2,
+  email: 1,
+  linkedin_message: 1,
+  text_message: 1,
+  info_session: 1,
+  career_fair: 1,
+  networking_event: 1,
+};
+const DEFAULT_INTERACTION_WEIGHT = 1;
+
+// Any stage the user placed after Call Done counts as a real relationship
+const SCHEDULED_POINTS = 0.5;
+const CALL_DONE_POINTS = 1;
+const PAST_CALL_DONE_POINTS = 2;
+
+// Upper bound of raw points for strengths 1-4; anything above is a 5
+const STRENGTH_THRESHOLDS = [1, 2.5, 4.5, 7];
+
+export interface ScoreFactor {
+  label: string;
+  detail: string;
+  points: number;
+}
+
+export interface RelationshipScore {
+  suggested: number;
+  points: number;
+  factors: ScoreFactor[];
+  daysSinceContact: number | null;
+}
+
+function decay(ageDays: number): number {
+  return Math.pow(0.5, Math.max(ageDays, 0) / DECAY_HALF_LIFE_DAYS);
+}
+
+function stagePoints(stageKeys: ContactStage[], stage: ContactStage): number {
+  if (stage === 'scheduled') return SCHEDULED_POINTS;
+  if (stage === 'call_done') return CALL_DONE_POINTS;
+  return isStagePast(stageKeys, stage, 'call_done') ? PAST_CALL_DONE_POINTS : 0;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function pointsToStrength(points: number): number {
+  const index = STRENGTH_THRESHOLDS.findIndex((max) => points < max);
+  return index === -1 ? 5 : index + 1;
+}
+
+/**
+ * Score a contact from its interactions: each one is worth its type's weight,
+ * halved every DECAY_HALF_LIFE_DAYS, so frequent and recent contact scores
+ * highest and the score drifts down while nobody reaches out. The stage adds a
+ * fixed bonus based on where it sits in the user's `stages`. Falls back to
+ * `last_contacted_at` when nothing has been logged.
+ */
+export function scoreRelationship(
+  contact: Pick<Contact, 'stage' | 'last_contacted_at'>,
+  interactions: Pick<Interaction, 'type' | 'date'>[],
+  stages: StageDefinition[],
+  now: Date = new Date()
+): RelationshipScore {
+  const factors: ScoreFactor[] = [];
+  const ageDays = (date: string) => (now.getTime() - new Date(date).getTime()) / DAY_MS;
+
+  const byType = new Map<string, { count: number; points: number }>();
+  for (const interaction of interactions) {
+    const weight = INTERACTION_WEIGHTS[interaction.type] ?? DEFAULT_INTERACTION_WEIGHT;
+    const entry = byType.get(interaction.type) ?? { count: 0, points: 0 };
+    entry.count++;
+    entry.points += weight * decay(ageDays(interaction.date));
+    byType.set(interaction.type, entry);
+  }
+
+  for (const [type, { count, points }] of byType) {
+    const label = INTERACTION_TYPES.find((t) => t.value === type)?.label ?? type;
+    factors.push({
+      label,
+      detail: `${count} logged, worth ${INTERACTION_WEIGHTS[type] ?? DEFAULT_INTERACTION_WEIGHT} each when fresh`,
+      points: round1(points),
+    });
+  }
+
+  if (interactions.length === 0 && contact.last_contacted_at) {
+    factors.push({
+      label: 'Last contact',
+      detail: 'No interactions logged, using the last contact date',
+      points: round1(DEFAULT_INTERACTION_WEIGHT * decay(ageDays(contact.last_contacted_at))),
+    });
+  }
+
+  const bonus = stagePoints(stages.map((s) => s.key), contact.stage);
+  if (bonus > 0) {
+    factors.push({
+      label: 'Stage',
+      detail: getStageLabel(stages, contact.stage),
+      points: bonus,
+    });
+  }
+
+  const lastDates = [...interactions.map((i) => i.date), contact.last_contacted_at].filter(Boolean) as string[];
+  const daysSinceContact = lastDates.length > 0
+    ? Math.floor(Math.min(...lastDates.map(ageDays)))
+    : null;
+
+  if (daysSinceContact !== null && daysSinceContact >= 7) {
+    factors.push({
+      label: 'Time without contact',
+      detail: `${daysSinceContact} days since you last spoke; your latest touch now counts ${Math.round(decay(daysSinceContact) * 100)}% of full weight`,
+      points: 0,
+    });
+  }
+
+  const points = factors.reduce((sum, f) => sum + f.points, 0);
+  return {
+    suggested: pointsToStrength(points),
+    points: round1(points),
+    factors,
+    daysSinceContact,
+  };
+}
+
+/**
+ * A relationship is going stale when it used to be decent (manual strength 3+),
+ * nobody has been in touch for STALE_AFTER_DAYS, and the suggested score has
+ * dropped below what the user has on record. Pinned strengths are left alone.
+ */
+export function isGoingStale(contact: Pick<Contact, 'relationship_strength' | 'relationship_strength_pinned'>, score: RelationshipScore): boolean {
+  return (
+    !contact.relationship_strength_pinned &&
+    contact.relationship_strength >= 3 &&
+    (score.daysSinceContact === null || score.daysSinceContact >= STALE_AFTER_DAYS) &&
+    score.suggested < contact.relationship_strength
+  );
+}
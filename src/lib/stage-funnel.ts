@@ -0,0 +1,138 @@
+// Funnel analytics over contact_stage_events
+import {
+  CONNECTION_TYPES,
+  type ConnectionType,
+  type Contact,
+  type ContactStage,
+  type ContactStageEvent,
+  type StageEventSource,
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FunnelStage {
+  stage: ContactStage;
+  /** Contacts that reached this stage or any later one */
+  reached: number;
+  /** Share of this stage's contacts that went on to the next stage (null for the last stage or when empty) */
+  conversionToNext: number | null;
+  /** Share of all contacts in the funnel that reached this stage */
+  conversionFromStart: number | null;
+  /** Median days spent in this stage, over completed stints only */
+  medianDays: number | null;
+}
+
+export interface FunnelReport {
+  total: number;
+  stages: FunnelStage[];
+  changesBySource: Record<StageEventSource, number>;
+}
+
+export interface ConnectionTypeFunnel {
+  connectionType: ConnectionType;
+  label: string;
+  report: FunnelReport;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function groupEventsByContact(events: ContactStageEvent[]): Map<string, ContactStageEvent[]> {
+  const byContact = new Map<string, ContactStageEvent[]>();
+  for (const event of events) {
+    const list = byContact.get(event.contact_id) ?? [];
+    list.push(event);
+    byContact.set(event.contact_id, list);
+  }
+  for (const list of byContact.values()) {
+    list.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  }
+  return byContact;
+}
+
+/**
+ * Build a stage funnel for `contacts`. A contact counts as having reached every
+ * stage up to the furthest one it has ever been in, so skipped stages (e.g. a
+ * calendar sync jumping straight to `scheduled`) don't break conversion rates,
+ * and a contact moved back a stage still counts for where it got to. Stages
+ * follow the user's order in `stageKeys`.
+ */
+export function buildFunnelReport(
+  contacts: Contact[],
+  events: ContactStageEvent[],
+  stageKeys: ContactStage[]
+): FunnelReport {
+  const contactIds = new Set(contacts.map((c) => c.id));
+  const relevantEvents = events.filter((e) => contactIds.has(e.contact_id));
+  const eventsByContact = groupEventsByContact(relevantEvents);
+
+  const reached = stageKeys.map(() => 0);
+  const durations = new Map<ContactStage, number[]>(stageKeys.map((s) => [s, []]));
+
+  for (const contact of contacts) {
+    const history = eventsByContact.get(contact.id) ?? [];
+
+    const furthest = Math.max(
+      stageKeys.indexOf(contact.stage),
+      ...history.map((e) => stageKeys.indexOf(e.to_stage))
+    );
+    for (let i = 0; i <= furthest; i++) reached[i]++;
+
+    // Each event opens a stint in `to_stage` that the next event closes
+    for (let i = 0; i < history.length - 1; i++) {
+      const days =
+        (new Date(history[i + 1].created_at).getTime() - new Date(history[i].created_at).getTime()) / DAY_MS;
+      durations.get(history[i].to_stage)?.push(days);
+    }
+  }
+
+  const changesBySource: Record<StageEventSource, number> = {
+    manual: 0,
+    import: 0,
+    gcal_sync: 0,
+    inbound_email: 0,
+    outlook_sync: 0,
+  };
+  for (const event of relevantEvents) {
+    // The first event of a contact is its creation, not a stage change
+    if (event.from_stage) changesBySource[event.source]++;
+  }
+
+  const total = contacts.length;
+  return {
+    total,
+    stages: stageKeys.map((stage, i) => ({
+      stage,
+      reached: reached[i],
+      conversionToNext: i < stageKeys.length - 1 ? ratio(reached[i + 1], reached[i]) : null,
+      conversionFromStart: ratio(reached[i], total),
+      medianDays: median(durations.get(stage) ?? []),
+    })),
+    changesBySource,
+  };
+}
+
+/** One funnel per connection type, e.g. to compare cold outreach against alumni */
+export function buildFunnelByConnectionType(
+  contacts: Contact[],
+  events: ContactStageEvent[],
+  stageKeys: ContactStage[]
+): ConnectionTypeFunnel[] {
+  return CONNECTION_TYPES.map(({ value, label }) => ({
+    connectionType: value,
+    label,
+    report: buildFunnelReport(
+      contacts.filter((c) => c.connection_type === value),
+      events,
+      stageKeys
+    ),
+  }));
+}
@@ -0,0 +1,53 @@
+// Lookups over a user's stage list (see useStages)
+import {
+  CORE_STAGES,
+  STAGE_COLORS,
+  type ContactStage,
+  type StageDefinition,
+} from './types';
+
+export interface StageConfig {
+  label: string;
+  className: string;
+}
+
+// Stage keys that no longer exist (deleted stages in old history) read as plain text
+function humanizeKey(key: string): string {
+  const text = key.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function getStageConfig(stages: StageDefinition[], key: ContactStage): StageConfig {
+  const stage = stages.find((s) => s.key === key);
+  if (!stage) return { label: humanizeKey(key), className: STAGE_COLORS.stone.className };
+  return { label: stage.label, className: STAGE_COLORS[stage.color]?.className ?? STAGE_COLORS.stone.className };
+}
+
+export function getStageLabel(stages: StageDefinition[], key: ContactStage): string {
+  return getStageConfig(stages, key).label;
+}
+
+/** Core stages drive the calendar and email automations, so they can't be deleted */
+export function isCoreStage(key: ContactStage): boolean {
+  return (CORE_STAGES as string[]).includes(key);
+}
+
+/**
+ * Whether `stage` comes after `reference` in the user's order. Unknown stages
+ * are never past anything.
+ */
+export function isStagePast(stageKeys: ContactStage[], stage: ContactStage, reference: ContactStage): boolean {
+  const index = stageKeys.indexOf(stage);
+  const referenceIndex = stageKeys.indexOf(reference);
+  return index !== -1 && referenceIndex !== -1 && index > referenceIndex;
+}
+
+/** Derive a stable key for a new stage from its label, avoiding existing keys */
+export function makeStageKey(label: string, existingKeys: ContactStage[]): ContactStage {
+  const base = label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'stage';
+  let key = base;
+  for (let n = 2; existingKeys.includes(key); n++) {
+    key = `${base}_${n}`;
+  }
+  return key;
+}
@@ -0,0 +1,61 @@
+// One chronological history per contact, merged from everything that touches it
+import type { InboundEmail } from '@/hooks/useInboundEmails';
+import type { CallEvent, ContactStageEvent, Interaction, Task } from './types';
+
+export type TimelineKind = 'interaction' | 'call' | 'email' | 'task' | 'stage';
+
+export type TimelineItem =
+  | { kind: 'interaction'; id: string; date: string; interaction: Interaction }
+  | { kind: 'call'; id: string; date: string; callEvent: CallEvent }
+  | { kind: 'email'; id: string; date: string; email: InboundEmail }
+  | { kind: 'task'; id: string; date: string; task: Task }
+  | { kind: 'stage'; id: string; date: string; stageEvent: ContactStageEvent };
+
+export const TIMELINE_KINDS: { value: TimelineKind; label: string }[] = [
+  { value: 'interaction', label: 'Interactions' },
+  { value: 'call', label: 'Calls' },
+  { value: 'email', label: 'Emails' },
+  { value: 'task', label: 'Tasks' },
+  { value: 'stage', label: 'Stage changes' },
+];
+
+interface TimelineSources {
+  interactions: Interaction[];
+  callEvents: CallEvent[];
+  inboundEmails: InboundEmail[];
+  tasks: Task[];
+  stageEvents: ContactStageEvent[];
+}
+
+/**
+ * Everything for `contactId`, newest first. Sources may hold other contacts'
+ * records too (the user-wide call, task and stage queries), so each is filtered
+ * here. Calls sit at their start time and tasks at the time they were created.
+ */
+export function buildContactTimeline(contactId: string, sources: TimelineSources): TimelineItem[] {
+  const items: TimelineItem[] = [
+    ...sources.interactions
+      .filter((i) => i.contact_id === contactId)
+      .map((interaction): TimelineItem => ({ kind: 'interaction', id: interaction.id, date: interaction.date, interaction })),
+    ...sources.callEvents
+      .filter((e) => e.contact_id === contactId)
+      .map((callEvent): TimelineItem => ({ kind: 'call', id: callEvent.id, date: callEvent.start_at, callEvent })),
+    ...sources.inboundEmails
+      .filter((e) => e.contact_id === contactId)
+      .map((email): TimelineItem => ({ kind: 'email', id: email.id, date: email.created_at, email })),
+    ...sources.tasks
+      .filter((t) => t.contact_id === contactId)
+      .map((task): TimelineItem => ({ kind: 'task', id: task.id, date: task.created_at, task })),
+    ...sources.stageEvents
+      .filter((e) => e.contact_id === contactId)
+      .map((stageEvent): TimelineItem => ({ kind: 'stage', id: stageEvent.id, date: stageEvent.created_at, stageEvent })),
+  ];
+
+  return items.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
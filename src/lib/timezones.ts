@@ -0,0 +1,51 @@
+// IANA timezones offered for the user's and contacts' availability
+
+// Used by the server when the user hasn't picked a timezone yet
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+export const COMMON_TIMEZONES: { value: string; label: string }[] = [
+  { value: 'America/New_York', label: 'Eastern Time (New York)' },
+  { value: 'America/Chicago', label: 'Central Time (Chicago)' },
+  { value: 'America/Denver', label: 'Mountain Time (Denver)' },
+  { value: 'America/Phoenix', label: 'Mountain Time, no DST (Phoenix)' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time (Los Angeles)' },
+  { value: 'America/Anchorage', label: 'Alaska Time (Anchorage)' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii Time (Honolulu)' },
+  { value: 'America/Toronto', label: 'Eastern Time (Toronto)' },
+  { value: 'America/Sao_Paulo', label: 'Brasília Time (São Paulo)' },
+  { value: 'Europe/London', label: 'UK Time (London)' },
+  { value: 'Europe/Paris', label: 'Central European Time (Paris)' },
+  { value: 'Europe/Zurich', label: 'Central European Time (Zurich)' },
+  { value: 'Asia/Dubai', label: 'Gulf Time (Dubai)' },
+  { value: 'Asia/Kolkata', label: 'India Time (Mumbai)' },
+  { value: 'Asia/Singapore', label: 'Singapore Time' },
+  { value: 'Asia/Hong_Kong', label: 'Hong Kong Time' },
+  { value: 'Asia/Shanghai', label: 'China Time (Shanghai)' },
+  { value: 'Asia/Tokyo', label: 'Japan Time (Tokyo)' },
+  { value: 'Australia/Sydney', label: 'Australian Eastern Time (Sydney)' },
+];
+
+/** The browser's timezone, when it's a valid IANA name */
+export function browserTimeZone(): string | null {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Common timezones plus the given ones (e.g. the browser's or a saved value), without duplicates */
+export function timezoneOptions(...extra: (string | null | undefined)[]): { value: string; label: string }[] {
+  const known = new Set(COMMON_TIMEZONES.map((tz) => tz.value));
+  const added = [...new Set(extra)]
+    .filter((tz): tz is string => !!tz && !known.has(tz))
+    .map((tz) => ({ value: tz, label: tz.replace(/_/g, ' ') }));
+  return [...added, ...COMMON_TIMEZONES];
+}
+
+// e.g. 9 -> "9am", 12 -> "12pm", 24 -> "12am"
+export function formatHourLabel(hour: number): string {
+  if (hour === 0 || hour === 24) return '12am';
+  if (hour === 12) return '12pm';
+  return hour < 12 ? `${hour}am` : `${hour - 12}pm`;
+}
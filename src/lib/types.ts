@@ -2,20 +2,45 @@
 
 export type ConnectionType = 'cold' | 'alumni' | 'friend' | 'referral';
 
-export type ContactStage = 
-  | 'researching' 
-  | 'messaged' 
-  | 'scheduled' 
-  | 'call_done' 
-  | 'strong_connection' 
-  | 'referral_requested' 
-  | 'interview' 
+export type BuiltInStage =
+  | 'researching'
+  | 'messaged'
+  | 'scheduled'
+  | 'call_done'
+  | 'strong_connection'
+  | 'referral_requested'
+  | 'interview'
   | 'offer';
 
-export type InteractionType = 'email' | 'call' | 'coffee_chat';
+// Key of one of the user's stages (see UserStage). Built-in keys keep their
+// meaning for automations even when the user renames the stage.
+export type ContactStage = string;
+
+export type StageColor = 'stone' | 'sky' | 'blue' | 'green' | 'purple' | 'amber' | 'pink' | 'emerald';
+
+export type InteractionType =
+  | 'email'
+  | 'call'
+  | 'coffee_chat'
+  | 'linkedin_message'
+  | 'text_message'
+  | 'info_session'
+  | 'superday'
+  | 'career_fair'
+  | 'networking_event';
+
+export type InteractionOutcome =
+  | 'asked_for_referral'
+  | 'got_referral'
+  | 'got_intro'
+  | 'got_advice'
+  | 'next_call_scheduled'
+  | 'no_response';
 
 export type CallEventStatus = 'scheduled' | 'completed' | 'canceled';
 
+export type StageEventSource = 'manual' | 'import' | 'gcal_sync' | 'inbound_email' | 'outlook_sync';
+
 export interface Profile {
   id: string;
   user_id: string;
@@ -27,6 +52,11 @@ export interface Profile {
   weekly_interactions_goal: number | null;
   weekly_flashcards_goal: number | null;
   weekly_mock_interviews_goal: number | null;
+  /** IANA timezone for availability, e.g. 'America/New_York'; null until the user picks one */
+  timezone: string | null;
+  /** Hours of the day (0-24, in timezone) offered as availability in emails */
+  working_hours_start: number;
+  working_hours_end: number;
   onboarding_completed: boolean;
   tour_completed: boolean;
   created_at: string;
@@ -45,31 +75,268 @@ export interface Contact {
   name: string;
   firm: string | null;
   group_name: string | null;
+  firm_id: string | null;
+  firm_group_id: string | null;
   position: string | null;
   email: string | null;
   phone: string | null;
   connection_type: ConnectionType;
+  referred_by_id: string | null;
   relationship_strength: number;
+  relationship_strength_pinned: boolean;
   stage: ContactStage;
   last_contacted_at: string | null;
   next_followup_at: string | null;
+  followup_count: number;
+  went_cold_at: string | null;
   notes_summary: string | null;
+  /** Regenerated summary awaiting the user's review; replaces notes_summary once accepted */
+  notes_summary_suggestion: string | null;
+  notes_summary_suggested_at: string | null;
   prep_questions_json: PrepQuestion[];
+  tags: string[];
+  /** IANA timezone, so emails can show availability in the contact's local time */
+  timezone: string | null;
+  /** Values keyed by CustomFieldDefinition id */
+  custom_fields: Record<string, CustomFieldValue>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select';
+
+// Dates are stored as yyyy-MM-dd strings
+export type CustomFieldValue = string | number;
+
+export interface CustomFieldDefinition {
+  id: string;
+  user_id: string;
+  name: string;
+  field_type: CustomFieldType;
+  options: string[];
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Firm {
+  id: string;
+  user_id: string;
+  name: string;
+  aliases: string[];
+  is_target: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FirmGroup {
+  id: string;
+  user_id: string;
+  firm_id: string;
+  name: string;
+  aliases: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FirmWithGroups extends Firm {
+  groups: FirmGroup[];
+}
+
+export interface FollowUpRule {
+  id: string;
+  user_id: string;
+  stage: ContactStage;
+  connection_type: ConnectionType | null;
+  delay_days: number;
+  max_followups: number;
+  mark_cold: boolean;
+  enabled: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export interface Pipeline {
+  id: string;
+  user_id: string;
+  name: string;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A contact's membership and stage in one of the user's extra pipelines
+export interface PipelineContact {
+  id: string;
+  user_id: string;
+  pipeline_id: string;
+  contact_id: string;
+  stage: ContactStage;
+  created_at: string;
+  updated_at: string;
+}
+
+// Structured pipeline filters. Empty lists and nulls mean "any".
+export interface ContactFilters {
+  search: string;
+  firms: string[];
+  groups: string[];
+  connectionTypes: ConnectionType[];
+  /** Contacts with any of these tags */
+  tags: string[];
+  strengthMin: number;
+  strengthMax: number;
+  /** yyyy-MM-dd, inclusive */
+  lastContactedAfter: string | null;
+  /** yyyy-MM-dd, inclusive; contacts never reached out to also match */
+  lastContactedBefore: string | null;
+  overdueFollowup: boolean;
+  upcomingCall: boolean;
+}
+
+export interface SavedView {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: Partial<ContactFilters>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContactStageEvent {
+  id: string;
+  user_id: string;
+  contact_id: string;
+  from_stage: ContactStage | null;
+  to_stage: ContactStage;
+  source: StageEventSource;
+  created_at: string;
+}
+
 export interface Interaction {
   id: string;
   contact_id: string;
   user_id: string;
   type: InteractionType;
   date: string;
+  /** Markdown */
+  notes: string | null;
+  duration_minutes: number | null;
+  outcome: InteractionOutcome | null;
+  attachments: InteractionAttachment[];
+  /** Set when this was logged as part of a group event */
+  event_id: string | null;
+  /** Set on emails sent by an outreach sequence */
+  outreach_sequence_id: string | null;
+  created_at: string;
+}
+
+// An info session, superday or similar, logged once for everyone met there
+export interface InteractionEvent {
+  id: string;
+  user_id: string;
+  name: string;
+  type: InteractionType;
+  date: string;
+  location: string | null;
   notes: string | null;
   created_at: string;
+  updated_at: string;
+}
+
+// A file in the interaction-attachments storage bucket
+export interface InteractionAttachment {
+  name: string;
+  /** Object path within the bucket */
+  path: string;
+  size: number;
+  content_type: string;
+}
+
+// Something promised on a call, tracked as a follow_up task
+export interface DebriefFollowUp {
+  title: string;
+  /** yyyy-MM-dd */
+  due_date: string | null;
+}
+
+export interface CallDebrief {
+  id: string;
+  user_id: string;
+  contact_id: string;
+  call_event_id: string | null;
+  interaction_id: string;
+  topics: string | null;
+  advice: string | null;
+  follow_ups: DebriefFollowUp[];
+  intro_offers: string[];
+  /** How the call went, 1-5 */
+  rating: number | null;
+  asked_for_referral: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type EmailTemplateCategory = 'outreach' | 'follow_up' | 'thank_you' | 'referral_ask';
+
+export interface EmailTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  category: EmailTemplateCategory;
+  subject: string;
+  /** Text with {{variable}} placeholders */
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** as_is: used verbatim; style_seed: an example for the AI to write like; sequence: sent by an outreach sequence */
+export type EmailTemplateUseMode = 'as_is' | 'style_seed' | 'sequence';
+
+export interface EmailTemplateUse {
+  id: string;
+  user_id: string;
+  template_id: string;
+  contact_id: string | null;
+  mode: EmailTemplateUseMode;
+  created_at: string;
 }
 
-export type TaskType = 'manual' | 'thank_you';
+export type OutreachSequenceStatus = 'active' | 'completed' | 'stopped';
+
+export type OutreachStopReason = 'stage_advanced' | 'reply_logged' | 'manual';
+
+export interface OutreachSequenceStep {
+  id: string;
+  user_id: string;
+  sequence_id: string;
+  /** 0 is the initial email, then the follow-ups */
+  position: number;
+  template_id: string | null;
+  subject: string;
+  body: string;
+  /** yyyy-MM-dd */
+  due_date: string;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OutreachSequence {
+  id: string;
+  user_id: string;
+  contact_id: string;
+  status: OutreachSequenceStatus;
+  stop_reason: OutreachStopReason | null;
+  started_at: string;
+  ended_at: string | null;
+  created_at: string;
+  updated_at: string;
+  steps?: OutreachSequenceStep[];
+}
+
+export type TaskType = 'manual' | 'thank_you' | 'follow_up' | 'outreach';
 
 export interface Task {
   id: string;
@@ -80,9 +347,12 @@ export interface Task {
   contact_id: string | null;
   task_type: TaskType;
   call_event_id: string | null;
+  /** The outreach sequence email this task is for */
+  outreach_sequence_step_id: string | null;
   created_at: string;
   updated_at: string;
-  contact?: { id: string; name: string; firm: string | null; notes_summary: string | null; prep_questions_json: PrepQuestion[] | null };
+  contact?: { id: string; name: string; firm: string | null; email: string | null; notes_summary: string | null; prep_questions_json: PrepQuestion[] | null };
+  outreach_step?: Pick<OutreachSequenceStep, 'id' | 'position' | 'subject' | 'body'> | null;
 }
 
 export interface CallEvent {
@@ -97,34 +367,57 @@ export interface CallEvent {
   status: CallEventStatus;
   external_provider: string | null;
   external_event_id: string | null;
+  /** The external event's last-modified time as of the last calendar sync */
+  external_updated_at: string | null;
+  /** When the row last matched the external calendar */
+  synced_at: string | null;
   created_at: string;
   updated_at: string;
   contact?: Contact;
 }
 
-// Stage configuration for UI
-export const STAGE_CONFIG: Record<ContactStage, { label: string; className: string }> = {
-  researching: { label: 'Researching', className: 'stage-researching' },
-  messaged: { label: 'Messaged', className: 'stage-messaged' },
-  scheduled: { label: 'Scheduled', className: 'stage-scheduled' },
-  call_done: { label: 'Call Done', className: 'stage-call-done' },
-  strong_connection: { label: 'Strong Connection', className: 'stage-strong-connection' },
-  referral_requested: { label: 'Referral Requested', className: 'stage-referral-requested' },
-  interview: { label: 'Interview', className: 'stage-interview' },
-  offer: { label: 'Offer', className: 'stage-offer' },
+export interface StageDefinition {
+  key: ContactStage;
+  label: string;
+  color: StageColor;
+  show_on_board: boolean;
+}
+
+export interface UserStage extends StageDefinition {
+  id: string;
+  user_id: string;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Stage colors map onto the stage-* classes in index.css
+export const STAGE_COLORS: Record<StageColor, { label: string; className: string }> = {
+  stone: { label: 'Stone', className: 'stage-researching' },
+  sky: { label: 'Sky', className: 'stage-messaged' },
+  blue: { label: 'Blue', className: 'stage-scheduled' },
+  green: { label: 'Green', className: 'stage-call-done' },
+  purple: { label: 'Purple', className: 'stage-strong-connection' },
+  amber: { label: 'Amber', className: 'stage-referral-requested' },
+  pink: { label: 'Pink', className: 'stage-interview' },
+  emerald: { label: 'Emerald', className: 'stage-offer' },
 };
 
-export const PIPELINE_STAGES: ContactStage[] = [
-  'researching',
-  'messaged',
-  'scheduled',
-  'call_done',
-  'strong_connection',
-  'referral_requested',
-  'interview',
-  'offer',
+// Starting stages for every user, in order
+export const DEFAULT_STAGES: (StageDefinition & { key: BuiltInStage })[] = [
+  { key: 'researching', label: 'Researching', color: 'stone', show_on_board: true },
+  { key: 'messaged', label: 'Messaged', color: 'sky', show_on_board: true },
+  { key: 'scheduled', label: 'Scheduled', color: 'blue', show_on_board: true },
+  { key: 'call_done', label: 'Call Done', color: 'green', show_on_board: true },
+  { key: 'strong_connection', label: 'Strong Connection', color: 'purple', show_on_board: false },
+  { key: 'referral_requested', label: 'Referral Requested', color: 'amber', show_on_board: false },
+  { key: 'interview', label: 'Interview', color: 'pink', show_on_board: false },
+  { key: 'offer', label: 'Offer', color: 'emerald', show_on_board: false },
 ];
 
+// Stages the calendar and inbound email automations move contacts between
+export const CORE_STAGES: BuiltInStage[] = ['researching', 'messaged', 'scheduled', 'call_done'];
+
 export const CONNECTION_TYPES: { value: ConnectionType; label: string }[] = [
   { value: 'cold', label: 'Cold Outreach' },
   { value: 'alumni', label: 'Alumni' },
@@ -132,10 +425,56 @@ export const CONNECTION_TYPES: { value: ConnectionType; label: string }[] = [
   { value: 'referral', label: 'Referral' },
 ];
 
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Select' },
+];
+
 export const INTERACTION_TYPES: { value: InteractionType; label: string }[] = [
   { value: 'email', label: 'Email' },
   { value: 'call', label: 'Phone Call' },
   { value: 'coffee_chat', label: 'Coffee Chat' },
+  { value: 'linkedin_message', label: 'LinkedIn Message' },
+  { value: 'text_message', label: 'Text' },
+  { value: 'info_session', label: 'Info Session' },
+  { value: 'superday', label: 'Superday' },
+  { value: 'career_fair', label: 'Career Fair' },
+  { value: 'networking_event', label: 'Networking Event' },
+];
+
+// Types that usually involve several people and can be logged as one event
+export const EVENT_INTERACTION_TYPES: InteractionType[] = ['info_session', 'superday', 'career_fair', 'networking_event'];
+
+export const INTERACTION_OUTCOMES: { value: InteractionOutcome; label: string }[] = [
+  { value: 'asked_for_referral', label: 'Asked for referral' },
+  { value: 'got_referral', label: 'Got a referral' },
+  { value: 'got_intro', label: 'Got an intro' },
+  { value: 'got_advice', label: 'Got advice' },
+  { value: 'next_call_scheduled', label: 'Next call scheduled' },
+  { value: 'no_response', label: 'No response' },
+];
+
+export const STAGE_EVENT_SOURCES: { value: StageEventSource; label: string }[] = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'import', label: 'Import' },
+  { value: 'gcal_sync', label: 'Google Calendar' },
+  { value: 'inbound_email', label: 'Inbound Email' },
+  { value: 'outlook_sync', label: 'Outlook Calendar' },
+];
+
+export const EMAIL_TEMPLATE_CATEGORIES: { value: EmailTemplateCategory; label: string }[] = [
+  { value: 'outreach', label: 'Outreach' },
+  { value: 'follow_up', label: 'Follow-up' },
+  { value: 'thank_you', label: 'Thank-you' },
+  { value: 'referral_ask', label: 'Referral ask' },
+];
+
+export const OUTREACH_STOP_REASONS: { value: OutreachStopReason; label: string }[] = [
+  { value: 'stage_advanced', label: 'Contact moved past Messaged' },
+  { value: 'reply_logged', label: 'Reply logged' },
+  { value: 'manual', label: 'Stopped manually' },
 ];
 
 export const CALL_EVENT_STATUSES: { value: CallEventStatus; label: string }[] = [
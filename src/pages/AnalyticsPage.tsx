@@ -0,0 +1,244 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useContacts } from '@/hooks/useContacts';
+import { useStageEvents } from '@/hooks/useStageEvents';
+import { useStages } from '@/hooks/useStages';
+import { buildReferrerReport } from '@/lib/referrals';
+import { buildFunnelByConnectionType, buildFunnelReport } from '@/lib/stage-funnel';
+import {
+  CONNECTION_TYPES,
+  STAGE_EVENT_SOURCES,
+  type ConnectionType,
+} from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const ALL_TYPES = '__all__';
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatDays(value: number | null): string {
+  if (value === null) return '—';
+  return value < 1 ? '<1 day' : `${value.toFixed(1)} days`;
+}
+
+export function AnalyticsPage() {
+  const { user } = useAuth();
+  const { contacts, isLoading: contactsLoading } = useContacts(user?.id);
+  const { stageEvents, isLoading: eventsLoading } = useStageEvents(user?.id);
+  const { stageKeys, getConfig } = useStages(user?.id);
+  const [connectionType, setConnectionType] = useState<ConnectionType | typeof ALL_TYPES>(ALL_TYPES);
+
+  const report = useMemo(() => {
+    const scoped = connectionType === ALL_TYPES
+      ? contacts
+      : contacts.filter((c) => c.connection_type === connectionType);
+    return buildFunnelReport(scoped, stageEvents, stageKeys);
+  }, [contacts, stageEvents, stageKeys, connectionType]);
+
+  const byConnectionType = useMemo(
+    () => buildFunnelByConnectionType(contacts, stageEvents, stageKeys),
+    [contacts, stageEvents, stageKeys]
+  );
+
+  const referrers = useMemo(
+    () => buildReferrerReport(contacts, stageEvents, stageKeys).slice(0, 10),
+    [contacts, stageEvents, stageKeys]
+  );
+
+  if (contactsLoading || eventsLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-pulse text-muted-foreground">Loading analytics...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Analytics</h1>
+          <p className="text-muted-foreground">How your contacts move through the pipeline</p>
+        </div>
+        <Select value={connectionType} onValueChange={(v) => setConnectionType(v as ConnectionType | typeof ALL_TYPES)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TYPES}>All connection types</SelectItem>
+            {CONNECTION_TYPES.map((type) => (
+              <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Funnel */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-medium">Stage Funnel</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            A contact counts toward every stage up to the furthest one it has reached.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stage</TableHead>
+                <TableHead className="w-[35%]">Reached</TableHead>
+                <TableHead className="text-right">To next stage</TableHead>
+                <TableHead className="text-right">Of all contacts</TableHead>
+                <TableHead className="text-right">Median time in stage</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.stages.map((row) => (
+                <TableRow key={row.stage}>
+                  <TableCell>
+                    <span className={cn('stage-badge', getConfig(row.stage).className)}>
+                      {getConfig(row.stage).label}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 flex-1 rounded-full bg-muted">
+                        <div
+                          className="h-2 rounded-full bg-primary transition-all"
+                          style={{ width: `${(row.conversionFromStart ?? 0) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-8 text-right text-sm tabular-nums">{row.reached}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatPercent(row.conversionToNext)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatPercent(row.conversionFromStart)}</TableCell>
+                  <TableCell className="text-right tabular-nums text-muted-foreground">
+                    {formatDays(row.medianDays)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Breakdown by connection type */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-medium">By Connection Type</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Share of each type's contacts that reached each stage.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Contacts</TableHead>
+                {stageKeys.slice(1).map((stage) => (
+                  <TableHead key={stage} className="text-right whitespace-nowrap">
+                    {getConfig(stage).label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {byConnectionType.map(({ connectionType: type, label, report: typeReport }) => (
+                <TableRow key={type}>
+                  <TableCell className="font-medium">{label}</TableCell>
+                  <TableCell className="text-right tabular-nums">{typeReport.total}</TableCell>
+                  {typeReport.stages.slice(1).map((row) => (
+                    <TableCell key={row.stage} className="text-right tabular-nums">
+                      {formatPercent(row.conversionFromStart)}
+                      <span className="ml-1 text-xs text-muted-foreground">({row.reached})</span>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Referrers whose introductions led furthest */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-medium">Top Referrers</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Contacts whose introductions, directly or further down the chain, led to the most.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {referrers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Set "Referred by" on referral contacts to see who your best connectors are.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contact</TableHead>
+                  <TableHead className="text-right">Direct</TableHead>
+                  <TableHead className="text-right">Downstream</TableHead>
+                  <TableHead className="text-right">{getConfig('interview').label}</TableHead>
+                  <TableHead className="text-right">{getConfig('offer').label}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {referrers.map((row) => (
+                  <TableRow key={row.contact.id}>
+                    <TableCell>
+                      <Link to={`/contact/${row.contact.id}`} className="font-medium hover:underline">
+                        {row.contact.name}
+                      </Link>
+                      {row.contact.firm && (
+                        <span className="ml-2 text-sm text-muted-foreground">{row.contact.firm}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{row.direct}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.downstream}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.interviews}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.offers}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Stage changes by source */}
+      <div className="grid gap-4 md:grid-cols-4">
+        {STAGE_EVENT_SOURCES.map((source) => (
+          <Card key={source.value}>
+            <CardContent className="pt-4">
+              <div className="text-sm text-muted-foreground mb-1">{source.label} stage changes</div>
+              <div className="text-2xl font-bold">{report.changesBySource[source.value]}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -10,80 +10,95 @@ import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { useContacts } from '@/hooks/useContacts';
 import { useCallEvents } from '@/hooks/useCallEvents';
-import { useInteractions } from '@/hooks/useInteractions';
-import { useGoogleCalendar, type GCalEvent, type PendingContact } from '@/hooks/useGoogleCalendar';
+import { useCalendarProvider, type CalendarSyncResult, type ExternalCalendarEvent, type PendingContact } from '@/hooks/useCalendarProvider';
 import { ReviewNewContactsModal } from '@/components/calendar/ReviewNewContactsModal';
 import { ScheduleCallModal } from '@/components/calendar/ScheduleCallModal';
 import { EditCallModal } from '@/components/calendar/EditCallModal';
+import { CallDebriefModal } from '@/components/contacts/CallDebriefModal';
 import { Button } from '@/components/ui/button';
+import { CALENDAR_PROVIDERS, type CalendarProvider } from '@/lib/calendar-providers';
 import type { CallEvent, CallEventStatus } from '@/lib/types';
 
+// e.g. "Google Calendar: 2 rescheduled, 1 canceled, 1 conflict resolved"
+function syncChangesSummary(provider: CalendarProvider, result: CalendarSyncResult) {
+  const { updated = 0, canceled = 0, pushed = 0, deleted = 0, conflicts = 0 } = result;
+  const parts = [
+    updated > 0 && `${updated} rescheduled`,
+    canceled > 0 && `${canceled} canceled`,
+    pushed + deleted > 0 && `${pushed + deleted} sent to ${provider.label}`,
+    conflicts > 0 && `${conflicts} conflict${conflicts > 1 ? 's' : ''} resolved`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `${provider.label}: ${parts.join(', ')}` : null;
+}
+
 export function CalendarPage() {
   const { user } = useAuth();
   const { profile } = useProfile(user?.id);
   const { contacts } = useContacts(user?.id);
   const { callEvents, isLoading, createCallEvent, updateCallEvent, updateCallEventStatus, deleteCallEvent } = useCallEvents(user?.id);
-  const { createInteraction } = useInteractions(user?.id, undefined);
-  const { isConnected: gcalConnected, isCheckingConnection, connectGoogleCalendar, disconnectGoogleCalendar, pushToGoogleCalendar, fetchGoogleEvents, syncGcalCalls, confirmContacts } = useGoogleCalendar();
+  const { provider, isConnected: calendarConnected, isCheckingConnection, connectCalendar, disconnectCalendar, pushToCalendar, fetchCalendarEvents, syncCalendarCalls, confirmContacts } = useCalendarProvider();
   const [searchParams, setSearchParams] = useSearchParams();
 
   // Handle OAuth redirect query params
   useEffect(() => {
-    if (searchParams.get('gcal_connected') === 'true') {
-      toast.success('Google Calendar connected!');
-      searchParams.delete('gcal_connected');
-      setSearchParams(searchParams, { replace: true });
-    }
-    const gcalError = searchParams.get('gcal_error');
-    if (gcalError) {
-      toast.error(`Google Calendar error: ${gcalError}`);
-      searchParams.delete('gcal_error');
-      setSearchParams(searchParams, { replace: true });
+    for (const { label, callbackParams } of Object.values(CALENDAR_PROVIDERS)) {
+      if (searchParams.get(callbackParams.connected) === 'true') {
+        toast.success(`${label} connected!`);
+        searchParams.delete(callbackParams.connected);
+        setSearchParams(searchParams, { replace: true });
+      }
+      const callbackError = searchParams.get(callbackParams.error);
+      if (callbackError) {
+        toast.error(`${label} error: ${callbackError}`);
+        searchParams.delete(callbackParams.error);
+        setSearchParams(searchParams, { replace: true });
+      }
     }
   }, [searchParams, setSearchParams]);
 
   const [scheduleModalOpen, setScheduleModalOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
-  const [selectedEvent, setSelectedEvent] = useState<(CallEvent & { contact?: { id: string; name: string; firm: string | null } }) | null>(null);
-  const [gcalEvents, setGcalEvents] = useState<GCalEvent[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState<(CallEvent & { contact?: { id: string; name: string; firm: string | null; email: string | null } }) | null>(null);
+  const [externalEvents, setExternalEvents] = useState<ExternalCalendarEvent[]>([]);
   const [pendingContacts, setPendingContacts] = useState<PendingContact[]>([]);
   const [reviewModalOpen, setReviewModalOpen] = useState(false);
+  const [debriefCall, setDebriefCall] = useState<{ id: string; contactId: string; contactName: string } | null>(null);
 
-  // Fetch Google Calendar events for the visible date range
-  const loadGcalEvents = useCallback(async (start: Date, end: Date) => {
-    if (!gcalConnected) {
-      setGcalEvents([]);
+  // Fetch calendar events for the visible date range
+  const loadExternalEvents = useCallback(async (start: Date, end: Date) => {
+    if (!calendarConnected) {
+      setExternalEvents([]);
       return;
     }
     try {
-      const events = await fetchGoogleEvents(start.toISOString(), end.toISOString());
-      setGcalEvents(events);
+      const events = await fetchCalendarEvents(start.toISOString(), end.toISOString());
+      setExternalEvents(events);
     } catch {
-      console.warn('Failed to load Google Calendar events');
+      console.warn('Failed to load calendar events');
     }
-  }, [gcalConnected, fetchGoogleEvents]);
+  }, [calendarConnected, fetchCalendarEvents]);
 
-  // Load GCal events on initial render and when connection status changes
+  // Load calendar events on initial render and when connection status changes
   useEffect(() => {
-    if (gcalConnected) {
+    if (calendarConnected) {
       const now = new Date();
       const start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
       const end = new Date(now.getFullYear(), now.getMonth() + 2, 0);
-      loadGcalEvents(start, end);
+      loadExternalEvents(start, end);
     } else {
-      setGcalEvents([]);
+      setExternalEvents([]);
     }
-  }, [gcalConnected, loadGcalEvents]);
+  }, [calendarConnected, loadExternalEvents]);
 
-  // Get the set of GCal event IDs that were pushed from OfferReady
-  const pushedGcalIds = useMemo(() => {
+  // Get the set of calendar event IDs that are already calls
+  const pushedExternalIds = useMemo(() => {
     return new Set(
       callEvents
-        .filter((e) => e.external_provider === 'google' && e.external_event_id)
+        .filter((e) => e.external_provider === provider?.id && e.external_event_id)
         .map((e) => e.external_event_id!),
     );
-  }, [callEvents]);
+  }, [callEvents, provider]);
 
   const events: EventInput[] = useMemo(() => {
     // OfferReady call events
@@ -113,11 +128,11 @@ export function CalendarPage() {
       };
     });
 
-    // Google Calendar overlay events (read-only, skip duplicates already pushed from SR)
-    const overlayEvents: EventInput[] = gcalEvents
-      .filter((ge) => ge.status !== 'cancelled' && !pushedGcalIds.has(ge.id))
+    // Calendar overlay events (read-only, skip duplicates already pushed from SR)
+    const overlayEvents: EventInput[] = externalEvents
+      .filter((ge) => ge.status !== 'cancelled' && !pushedExternalIds.has(ge.id))
       .map((ge) => ({
-        id: `gcal-${ge.id}`,
+        id: `external-${ge.id}`,
         title: `📅 ${ge.summary}`,
         start: ge.start ?? undefined,
         end: ge.end ?? undefined,
@@ -125,7 +140,7 @@ export function CalendarPage() {
         borderColor: '#3367D6',
         editable: false,
         extendedProps: {
-          source: 'google',
+          source: 'external',
           htmlLink: ge.htmlLink,
           description: ge.description,
           location: ge.location,
@@ -133,7 +148,7 @@ export function CalendarPage() {
       }));
 
     return [...srEvents, ...overlayEvents];
-  }, [callEvents, gcalEvents, pushedGcalIds]);
+  }, [callEvents, externalEvents, pushedExternalIds]);
 
   const handleDateSelect = (selectInfo: DateSelectArg) => {
     setSelectedDate(selectInfo.start);
@@ -143,8 +158,8 @@ export function CalendarPage() {
   const handleEventClick = (clickInfo: EventClickArg) => {
     const source = clickInfo.event.extendedProps?.source;
 
-    // Google Calendar events open in a new tab
-    if (source === 'google') {
+    // Calendar events open in a new tab
+    if (source === 'external') {
       const htmlLink = clickInfo.event.extendedProps?.htmlLink;
       if (htmlLink) {
         window.open(htmlLink, '_blank', 'noopener');
@@ -152,7 +167,7 @@ export function CalendarPage() {
       return;
     }
 
-    const eventData = clickInfo.event.extendedProps as CallEvent & { contact?: { id: string; name: string; firm: string | null } };
+    const eventData = clickInfo.event.extendedProps as CallEvent & { contact?: { id: string; name: string; firm: string | null; email: string | null } };
     setSelectedEvent({
       ...eventData,
       id: clickInfo.event.id,
@@ -185,17 +200,17 @@ export function CalendarPage() {
       toast.success('Call scheduled - contact moved to Scheduled stage');
       setScheduleModalOpen(false);
 
-      // Push to Google Calendar if connected
-      if (gcalConnected && result) {
+      // Push to the calendar if connected
+      if (provider && result) {
         const contact = contacts.find((c) => c.id === data.contact_id);
         const attendeeEmail = data.sendInvite && contact?.email ? contact.email : undefined;
-        pushToGoogleCalendar.mutate(
+        pushToCalendar.mutate(
           { callEventId: result.id, action: 'create', attendeeEmail },
           {
             onSuccess: () => {
-              toast.success(attendeeEmail ? 'Added to Google Calendar — invite sent!' : 'Added to Google Calendar');
+              toast.success(attendeeEmail ? `Added to ${provider.label} — invite sent!` : `Added to ${provider.label}`);
             },
-            onError: () => toast.error('Failed to sync with Google Calendar'),
+            onError: () => toast.error(`Failed to sync with ${provider.label}`),
           },
         );
       }
@@ -222,13 +237,13 @@ export function CalendarPage() {
       });
       toast.success('Call updated');
 
-      // Push update to Google Calendar if connected
-      if (gcalConnected) {
-        pushToGoogleCalendar.mutate(
+      // Push update to the calendar if connected
+      if (provider) {
+        pushToCalendar.mutate(
           { callEventId: id, action: 'update' },
           {
-            onSuccess: () => toast.success('Google Calendar updated'),
-            onError: () => toast.error('Failed to sync update with Google Calendar'),
+            onSuccess: () => toast.success(`${provider.label} updated`),
+            onError: () => toast.error(`Failed to sync update with ${provider.label}`),
           },
         );
       }
@@ -252,13 +267,13 @@ export function CalendarPage() {
 
   const handleDeleteCall = async (id: string) => {
     try {
-      // Delete from Google Calendar first if connected
-      if (gcalConnected) {
+      // Delete from the calendar first if connected
+      if (provider) {
         try {
-          await pushToGoogleCalendar.mutateAsync({ callEventId: id, action: 'delete' });
+          await pushToCalendar.mutateAsync({ callEventId: id, action: 'delete' });
         } catch {
           // Non-blocking — still delete locally
-          console.warn('Failed to delete from Google Calendar');
+          console.warn(`Failed to delete from ${provider.label}`);
         }
       }
       await deleteCallEvent.mutateAsync(id);
@@ -268,18 +283,8 @@ export function CalendarPage() {
     }
   };
 
-  const handleLogInteraction = async (event: { contact_id: string; start_at: string; notes: string | null }) => {
-    try {
-      await createInteraction.mutateAsync({
-        contact_id: event.contact_id,
-        type: 'call',
-        date: event.start_at,
-        notes: event.notes,
-      });
-      toast.success('Interaction logged');
-    } catch (error) {
-      toast.error('Failed to log interaction');
-    }
+  const handleDebrief = (event: { id: string; contact_id: string; contact?: { name: string } }) => {
+    setDebriefCall({ id: event.id, contactId: event.contact_id, contactName: event.contact?.name ?? 'this contact' });
   };
 
   if (isLoading) {
@@ -299,11 +304,11 @@ export function CalendarPage() {
         </div>
         <div>
           {!isCheckingConnection && (
-            gcalConnected ? (
+            provider ? (
               <div className="flex items-center gap-3">
                 <span className="text-sm text-green-600 font-medium flex items-center gap-1">
                   <span className="h-2 w-2 rounded-full bg-green-500 inline-block" />
-                  Google Calendar connected
+                  {provider.label} connected
                 </span>
                 <Button
                   variant="default"
@@ -312,7 +317,7 @@ export function CalendarPage() {
                     const now = new Date();
                     const timeMin = new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
                     const timeMax = new Date(now.getFullYear(), now.getMonth() + 3, now.getDate()).toISOString();
-                    syncGcalCalls.mutate(
+                    syncCalendarCalls.mutate(
                       { timeMin, timeMax },
                       {
                         onSuccess: (data) => {
@@ -321,49 +326,67 @@ export function CalendarPage() {
                               `Synced ${data.synced} call${data.synced > 1 ? 's' : ''} to pipeline`,
                             );
                           }
+                          const changes = syncChangesSummary(provider, data);
+                          if (changes) toast.success(changes);
                           if (data.pending_contacts && data.pending_contacts.length > 0) {
                             setPendingContacts(data.pending_contacts);
                             setReviewModalOpen(true);
-                          } else if (data.synced === 0) {
+                          } else if (data.synced === 0 && !changes) {
                             toast.info('No new calls to sync');
                           }
                         },
-                        onError: () => toast.error('Failed to sync calls from Google Calendar'),
+                        onError: () => toast.error(`Failed to sync calls from ${provider.label}`),
                       },
                     );
                   }}
-                  disabled={syncGcalCalls.isPending}
+                  disabled={syncCalendarCalls.isPending}
                 >
-                  {syncGcalCalls.isPending ? 'Syncing...' : 'Sync Calls to Pipeline'}
+                  {syncCalendarCalls.isPending ? 'Syncing...' : 'Sync Calls to Pipeline'}
                 </Button>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => disconnectGoogleCalendar.mutate(undefined, {
-                    onSuccess: () => toast.success('Google Calendar disconnected'),
+                  onClick={() => disconnectCalendar.mutate(undefined, {
+                    onSuccess: () => toast.success(`${provider.label} disconnected`),
                     onError: () => toast.error('Failed to disconnect'),
                   })}
-                  disabled={disconnectGoogleCalendar.isPending}
+                  disabled={disconnectCalendar.isPending}
                 >
                   Disconnect
                 </Button>
               </div>
             ) : (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={connectGoogleCalendar}
-                className="gap-2"
-              >
-                <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none">
-                  <path d="M6 2h12v4H6V2z" fill="#4285F4"/>
-                  <path d="M18 6v12H6V6h12z" fill="#FBBC04"/>
-                  <path d="M6 18h12v4H6v-4z" fill="#34A853"/>
-                  <path d="M2 6h4v12H2V6z" fill="#EA4335"/>
-                  <path d="M18 6h4v12h-4V6z" fill="#4285F4"/>
-                </svg>
-                Connect Google Calendar
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => connectCalendar('google')}
+                  className="gap-2"
+                >
+                  <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none">
+                    <path d="M6 2h12v4H6V2z" fill="#4285F4"/>
+                    <path d="M18 6v12H6V6h12z" fill="#FBBC04"/>
+                    <path d="M6 18h12v4H6v-4z" fill="#34A853"/>
+                    <path d="M2 6h4v12H2V6z" fill="#EA4335"/>
+                    <path d="M18 6h4v12h-4V6z" fill="#4285F4"/>
+                  </svg>
+                  Connect Google Calendar
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => connectCalendar('microsoft')}
+                  className="gap-2"
+                >
+                  <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none">
+                    <path d="M2 2h9.5v9.5H2V2z" fill="#F25022"/>
+                    <path d="M12.5 2H22v9.5h-9.5V2z" fill="#7FBA00"/>
+                    <path d="M2 12.5h9.5V22H2v-9.5z" fill="#00A4EF"/>
+                    <path d="M12.5 12.5H22V22h-9.5v-9.5z" fill="#FFB900"/>
+                  </svg>
+                  Connect Outlook
+                </Button>
+              </div>
             )
           )}
         </div>
@@ -386,7 +409,7 @@ export function CalendarPage() {
           select={handleDateSelect}
           eventClick={handleEventClick}
           datesSet={(dateInfo) => {
-            loadGcalEvents(dateInfo.start, dateInfo.end);
+            loadExternalEvents(dateInfo.start, dateInfo.end);
           }}
           height="auto"
           eventDisplay="block"
@@ -405,7 +428,7 @@ export function CalendarPage() {
         onSubmit={handleScheduleCall}
         defaultDate={selectedDate}
         isSubmitting={createCallEvent.isPending}
-        gcalConnected={gcalConnected}
+        calendarConnected={calendarConnected}
         userName={profile?.name || undefined}
       />
 
@@ -416,10 +439,20 @@ export function CalendarPage() {
         onSubmit={handleUpdateCall}
         onStatusChange={handleStatusChange}
         onDelete={handleDeleteCall}
-        onLogInteraction={handleLogInteraction}
+        onDebrief={handleDebrief}
+        organizer={user?.email ? { name: profile?.name || user.email, email: user.email } : undefined}
         isSubmitting={updateCallEvent.isPending}
       />
 
+      <CallDebriefModal
+        open={!!debriefCall}
+        onOpenChange={(open) => !open && setDebriefCall(null)}
+        contactId={debriefCall?.contactId ?? ''}
+        contactName={debriefCall?.contactName ?? ''}
+        callEventId={debriefCall?.id ?? null}
+        onComplete={() => {}}
+      />
+
       <ReviewNewContactsModal
         open={reviewModalOpen}
         onOpenChange={setReviewModalOpen}
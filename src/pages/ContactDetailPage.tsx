@@ -1,7 +1,7 @@
 import { useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { format, formatDistanceToNow } from 'date-fns';
-import { ArrowLeft, Building2, Mail, Phone, Sparkles, Trash2, Plus, X, Loader2, Copy, ExternalLink } from 'lucide-react';
+import { ArrowLeft, Building2, Mail, Phone, Sparkles, Trash2, Plus, X, Loader2, Copy, ExternalLink, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -14,12 +14,25 @@ import {
 } from '@/components/ui/dialog';
 import { useContact, useContacts } from '@/hooks/useContacts';
 import { useInteractions } from '@/hooks/useInteractions';
+import { useContactSummary } from '@/hooks/useContactSummary';
 import { useAuth } from '@/hooks/useAuth';
 import { RelationshipStrength } from '@/components/contacts/RelationshipStrength';
+import { RelationshipSuggestion } from '@/components/contacts/RelationshipSuggestion';
+import { ContactPipelines } from '@/components/contacts/ContactPipelines';
+import { ReferralChain } from '@/components/contacts/ReferralChain';
+import { Badge } from '@/components/ui/badge';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { contactCustomFields } from '@/lib/custom-fields';
 import { StageBadge } from '@/components/contacts/StageBadge';
 import { AddInteractionModal } from '@/components/contacts/AddInteractionModal';
+import { LogEventModal } from '@/components/contacts/LogEventModal';
 import { EditContactModal } from '@/components/contacts/EditContactModal';
-import { INTERACTION_TYPES, type PrepQuestion } from '@/lib/types';
+import { ContactTimeline } from '@/components/contacts/ContactTimeline';
+import { SummarySuggestion } from '@/components/contacts/SummarySuggestion';
+import { OutreachSequenceCard } from '@/components/outreach/OutreachSequenceCard';
+import { TemplateMenu } from '@/components/templates/TemplateMenu';
+import type { TemplateSelection } from '@/hooks/useEmailTemplates';
+import type { PrepQuestion } from '@/lib/types';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -40,7 +53,9 @@ export function ContactDetailPage() {
   const { user } = useAuth();
   const { data: contact, isLoading: contactLoading } = useContact(id);
   const { deleteContact, updateContact } = useContacts(user?.id);
-  const { interactions, isLoading: interactionsLoading } = useInteractions(id, user?.id);
+  const { interactions } = useInteractions(id, user?.id);
+  const { regenerateSummary } = useContactSummary(id);
+  const { customFields } = useCustomFields(user?.id);
   const [newQuestionText, setNewQuestionText] = useState('');
   const [generatingQuestions, setGeneratingQuestions] = useState(false);
   const [notesValue, setNotesValue] = useState<string | null>(null);
@@ -127,6 +142,16 @@ export function ContactDetailPage() {
     }
   };
 
+  const handleRegenerateSummary = async () => {
+    try {
+      const suggestion = await regenerateSummary.mutateAsync();
+      if (!suggestion) toast.info('Summary is already up to date');
+    } catch (error) {
+      console.error('Regenerate summary error:', error);
+      toast.error('Failed to regenerate summary');
+    }
+  };
+
   const handleSaveNotes = async () => {
     if (!contact || notesValue === null) return;
     setSavingNotes(true);
@@ -140,7 +165,7 @@ export function ContactDetailPage() {
     }
   };
 
-  const handleGenerateEmail = async () => {
+  const handleGenerateEmail = async (template?: TemplateSelection) => {
     if (!contact) return;
     setGeneratingEmail(true);
     try {
@@ -163,6 +188,8 @@ export function ContactDetailPage() {
           clientYear: new Date().getFullYear(),
           clientMonth: new Date().getMonth() + 1,
           clientDay: new Date().getDate(),
+          templateId: template?.templateId,
+          templateMode: template?.mode,
         }),
       });
 
@@ -171,7 +198,10 @@ export function ContactDetailPage() {
         throw new Error(`Failed (${resp.status}): ${errBody}`);
       }
 
-      const { subject, body } = await resp.json();
+      const { subject, body, missing } = await resp.json();
+      if (missing?.length) {
+        toast.warning(`No value for ${missing.map((key: string) => `{{${key}}}`).join(', ')}. Fill these in before sending.`);
+      }
       setEmailSubject(subject || 'Networking Introduction');
       setEmailBody(body || '');
       setEmailDialogOpen(true);
@@ -213,6 +243,8 @@ export function ContactDetailPage() {
     );
   }
 
+  const fieldValues = contactCustomFields(contact, customFields);
+
   return (
     <div className="space-y-6 animate-fade-in">
       <Button
@@ -237,7 +269,13 @@ export function ContactDetailPage() {
                 <Building2 className="h-4 w-4" />
                 <span>
                   {contact.position && `${contact.position} @ `}
-                  {contact.firm}
+                  {contact.firm_id ? (
+                    <Link to={`/firm/${contact.firm_id}`} className="hover:text-foreground hover:underline">
+                      {contact.firm}
+                    </Link>
+                  ) : (
+                    contact.firm
+                  )}
                   {contact.group_name && ` (${contact.group_name})`}
                 </span>
               </div>
@@ -251,7 +289,7 @@ export function ContactDetailPage() {
             variant="outline"
             size="sm"
             disabled={generatingEmail}
-            onClick={handleGenerateEmail}
+            onClick={() => handleGenerateEmail()}
           >
             {generatingEmail ? (
               <>
@@ -265,6 +303,12 @@ export function ContactDetailPage() {
               </>
             )}
           </Button>
+          <TemplateMenu
+            categories={['outreach', 'follow_up', 'referral_ask']}
+            onSelect={handleGenerateEmail}
+            disabled={generatingEmail}
+          />
+          <LogEventModal defaultContactIds={[contact.id]} />
           <AddInteractionModal contactId={contact.id} />
           <AlertDialog>
             <AlertDialogTrigger asChild>
@@ -296,6 +340,9 @@ export function ContactDetailPage() {
           <CardContent className="pt-4">
             <div className="text-sm text-muted-foreground mb-1">Relationship</div>
             <RelationshipStrength strength={contact.relationship_strength} size="md" />
+            <div className="mt-2">
+              <RelationshipSuggestion contact={contact} interactions={interactions} />
+            </div>
           </CardContent>
         </Card>
         <Card>
@@ -318,14 +365,25 @@ export function ContactDetailPage() {
           <CardContent className="pt-4">
             <div className="text-sm text-muted-foreground mb-1">Next Follow-up</div>
             <div className="font-medium">
-              {contact.next_followup_at
-                ? format(new Date(contact.next_followup_at), 'MMM d, yyyy')
-                : 'Not scheduled'}
+              {contact.went_cold_at
+                ? `Went cold ${format(new Date(contact.went_cold_at), 'MMM d')}`
+                : contact.next_followup_at
+                  ? format(new Date(contact.next_followup_at), 'MMM d, yyyy')
+                  : 'Not scheduled'}
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Stage in each pipeline */}
+      <ContactPipelines contact={contact} />
+
+      {/* Referral chain */}
+      <ReferralChain contact={contact} />
+
+      {/* Outreach sequence */}
+      <OutreachSequenceCard contact={contact} />
+
       {/* Contact Info */}
       {(contact.email || contact.phone) && (
         <Card>
@@ -352,6 +410,31 @@ export function ContactDetailPage() {
         </Card>
       )}
 
+      {/* Tags and custom fields */}
+      {(contact.tags?.length > 0 || fieldValues.length > 0) && (
+        <Card>
+          <CardContent className="pt-4 space-y-3">
+            {contact.tags?.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {contact.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary">{tag}</Badge>
+                ))}
+              </div>
+            )}
+            {fieldValues.length > 0 && (
+              <dl className="grid gap-x-6 gap-y-2 text-sm sm:grid-cols-3">
+                {fieldValues.map(({ field, value }) => (
+                  <div key={field.id}>
+                    <dt className="text-muted-foreground">{field.name}</dt>
+                    <dd className="font-medium">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Tabs */}
       <Tabs defaultValue="prep" className="space-y-4">
         <TabsList>
@@ -360,43 +443,7 @@ export function ContactDetailPage() {
         </TabsList>
 
         <TabsContent value="timeline" className="space-y-4">
-          {interactionsLoading ? (
-            <div className="animate-pulse text-muted-foreground">Loading interactions...</div>
-          ) : interactions.length === 0 ? (
-            <Card>
-              <CardContent className="py-8 text-center">
-                <p className="text-muted-foreground mb-4">No interactions yet</p>
-                <AddInteractionModal contactId={contact.id} />
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="space-y-4">
-              {interactions.map((interaction) => {
-                const typeConfig = INTERACTION_TYPES.find((t) => t.value === interaction.type);
-                return (
-                  <Card key={interaction.id}>
-                    <CardHeader className="pb-2">
-                      <div className="flex items-center justify-between">
-                        <CardTitle className="text-sm font-medium">
-                          {typeConfig?.label || interaction.type}
-                        </CardTitle>
-                        <span className="text-xs text-muted-foreground">
-                          {format(new Date(interaction.date), 'MMM d, yyyy')}
-                        </span>
-                      </div>
-                    </CardHeader>
-                    {interaction.notes && (
-                      <CardContent>
-                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                          {interaction.notes}
-                        </p>
-                      </CardContent>
-                    )}
-                  </Card>
-                );
-              })}
-            </div>
-          )}
+          <ContactTimeline contactId={contact.id} />
         </TabsContent>
 
         <TabsContent value="prep" className="space-y-4">
@@ -471,9 +518,31 @@ export function ContactDetailPage() {
           {/* Call Notes Section */}
           <Card data-tour="call-notes-section">
             <CardHeader className="pb-3">
-              <CardTitle className="text-base font-medium">Call Notes</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base font-medium">Call Notes</CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1.5"
+                  disabled={regenerateSummary.isPending}
+                  onClick={handleRegenerateSummary}
+                >
+                  {regenerateSummary.isPending ? (
+                    <>
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      Summarizing...
+                    </>
+                  ) : (
+                    <>
+                      <RefreshCw className="h-3.5 w-3.5" />
+                      Update Summary
+                    </>
+                  )}
+                </Button>
+              </div>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-3">
+              <SummarySuggestion contact={contact} onAccepted={() => setNotesValue(null)} />
               <textarea
                 className="w-full min-h-[200px] p-3 rounded-lg border bg-background text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring"
                 placeholder="Type your notes here during the call..."
@@ -481,7 +550,7 @@ export function ContactDetailPage() {
                 onChange={(e) => setNotesValue(e.target.value)}
                 onBlur={handleSaveNotes}
               />
-              <div className="flex items-center justify-between mt-2">
+              <div className="flex items-center justify-between">
                 <p className="text-xs text-muted-foreground">
                   Notes auto-save when you click away
                 </p>
@@ -14,6 +14,8 @@ import { OnboardingModal } from '@/components/onboarding/OnboardingModal';
 
 import { MasteryCircle } from '@/components/dashboard/MasteryCircle';
 import { ResumeUploader } from '@/components/dashboard/ResumeUploader';
+import { StaleRelationshipsCard } from '@/components/dashboard/StaleRelationshipsCard';
+import { PipelineStatsCard } from '@/components/dashboard/PipelineStatsCard';
 import { useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
@@ -138,7 +140,8 @@ export function DashboardPage() {
     const interactionsGoal = profile?.weekly_interactions_goal || 10;
     const flashcardsGoal = profile?.weekly_flashcards_goal || 20;
     const mockInterviewsGoal = profile?.weekly_mock_interviews_goal || 3;
-    const interactionsThisWeek = weeklyInteractions.length;
+    // A group event counts once, however many people were there
+    const interactionsThisWeek = new Set(weeklyInteractions.map((i) => i.event_id ?? i.id)).size;
     const flashcardsThisWeek = masteryData?.studiedThisWeek || 0;
     const mockInterviewsThisWeek = weeklyMockInterviews.length;
     
@@ -312,6 +315,9 @@ export function DashboardPage() {
           </Card>
         </div>
 
+        {/* Stage counts, per pipeline */}
+        <PipelineStatsCard userId={user?.id} contacts={contacts} />
+
         {/* Tasks To Do */}
         <Card className="border-l-4 border-l-amber-500/60">
           <CardHeader className="pb-2">
@@ -365,6 +371,16 @@ export function DashboardPage() {
                         Thank You
                       </span>
                     )}
+                    {task.task_type === 'follow_up' && (
+                      <span className="text-xs bg-sky-100 text-sky-600 px-2 py-0.5 rounded font-medium">
+                        Follow-up
+                      </span>
+                    )}
+                    {task.task_type === 'outreach' && (
+                      <span className="text-xs bg-violet-100 text-violet-600 px-2 py-0.5 rounded font-medium">
+                        Outreach
+                      </span>
+                    )}
                   </div>
                 ))}
               </div>
@@ -372,6 +388,9 @@ export function DashboardPage() {
           </CardContent>
         </Card>
 
+        {/* Relationships Going Stale */}
+        <StaleRelationshipsCard userId={user?.id} contacts={contacts} />
+
         {/* Resume Upload */}
         <ResumeUploader />
       </div>
@@ -0,0 +1,310 @@
+import { useState } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Building2, Calendar, MessageSquare, Plus, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useFirm, useFirmActivity, useFirms } from '@/hooks/useFirms';
+import { useAuth } from '@/hooks/useAuth';
+import { StageBadge } from '@/components/contacts/StageBadge';
+import { CALL_EVENT_STATUSES, INTERACTION_TYPES, type Contact } from '@/lib/types';
+import { toast } from 'sonner';
+
+const NO_GROUP = 'No group';
+
+export function FirmDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { data: firm, isLoading: firmLoading } = useFirm(id);
+  const { data: activity, isLoading: activityLoading } = useFirmActivity(id);
+  const { firms, updateFirm, mergeFirms } = useFirms(user?.id);
+  const [newAlias, setNewAlias] = useState('');
+  const [mergeSourceId, setMergeSourceId] = useState('');
+
+  const contacts = activity?.contacts ?? [];
+  const callEvents = activity?.callEvents ?? [];
+  const interactions = activity?.interactions ?? [];
+  const contactNames = new Map(contacts.map((c) => [c.id, c.name]));
+
+  const contactsByGroup = contacts.reduce<Record<string, Contact[]>>((acc, contact) => {
+    const group = contact.group_name || NO_GROUP;
+    (acc[group] ||= []).push(contact);
+    return acc;
+  }, {});
+  const groupNames = Object.keys(contactsByGroup).sort((a, b) =>
+    a === NO_GROUP ? 1 : b === NO_GROUP ? -1 : a.localeCompare(b)
+  );
+
+  const handleAddAlias = async () => {
+    const alias = newAlias.trim();
+    if (!firm || !alias) return;
+    if ([firm.name, ...firm.aliases].some((a) => a.toLowerCase() === alias.toLowerCase())) {
+      setNewAlias('');
+      return;
+    }
+    try {
+      await updateFirm.mutateAsync({ id: firm.id, aliases: [...firm.aliases, alias] });
+      setNewAlias('');
+    } catch {
+      toast.error('Failed to add alias');
+    }
+  };
+
+  const handleRemoveAlias = async (alias: string) => {
+    if (!firm) return;
+    try {
+      await updateFirm.mutateAsync({ id: firm.id, aliases: firm.aliases.filter((a) => a !== alias) });
+    } catch {
+      toast.error('Failed to remove alias');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!firm || !mergeSourceId) return;
+    try {
+      await mergeFirms.mutateAsync({ targetId: firm.id, sourceId: mergeSourceId });
+      toast.success('Firms merged');
+      setMergeSourceId('');
+    } catch (error) {
+      console.error('Merge firms error:', error);
+      toast.error('Failed to merge firms');
+    }
+  };
+
+  if (firmLoading || !firm) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <Button
+        variant="ghost"
+        className="gap-2"
+        onClick={() => navigate(-1)}
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back
+      </Button>
+
+      {/* Header */}
+      <div className="space-y-3">
+        <div className="flex items-center gap-3">
+          <Building2 className="h-6 w-6 text-muted-foreground" />
+          <h1 className="text-2xl font-bold text-foreground">{firm.name}</h1>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Also known as:</span>
+          {firm.aliases.map((alias) => (
+            <Badge key={alias} variant="secondary" className="gap-1">
+              {alias}
+              <button type="button" onClick={() => handleRemoveAlias(alias)}>
+                <X className="h-3 w-3 hover:text-destructive" />
+              </button>
+            </Badge>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              className="h-8 w-40"
+              placeholder="Add alias..."
+              value={newAlias}
+              onChange={(e) => setNewAlias(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAddAlias();
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={handleAddAlias} disabled={!newAlias.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={mergeSourceId} onValueChange={setMergeSourceId}>
+            <SelectTrigger className="w-64 h-8">
+              <SelectValue placeholder="Merge another firm into this one" />
+            </SelectTrigger>
+            <SelectContent>
+              {firms
+                .filter((f) => f.id !== firm.id)
+                .map((f) => (
+                  <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleMerge} disabled={!mergeSourceId || mergeFirms.isPending}>
+            {mergeFirms.isPending ? 'Merging...' : 'Merge'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Quick Info Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardContent className="pt-4">
+            <div className="text-sm text-muted-foreground mb-1 flex items-center gap-1.5">
+              <Users className="h-4 w-4" />
+              Contacts
+            </div>
+            <div className="text-2xl font-bold">{contacts.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-4">
+            <div className="text-sm text-muted-foreground mb-1 flex items-center gap-1.5">
+              <Calendar className="h-4 w-4" />
+              Calls
+            </div>
+            <div className="text-2xl font-bold">{callEvents.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-4">
+            <div className="text-sm text-muted-foreground mb-1 flex items-center gap-1.5">
+              <MessageSquare className="h-4 w-4" />
+              Interactions
+            </div>
+            <div className="text-2xl font-bold">{interactions.length}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {activityLoading ? (
+        <div className="animate-pulse text-muted-foreground">Loading activity...</div>
+      ) : (
+        <Tabs defaultValue="contacts" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="contacts">Contacts</TabsTrigger>
+            <TabsTrigger value="calls">Calls</TabsTrigger>
+            <TabsTrigger value="interactions">Interactions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="contacts" className="space-y-4">
+            {contacts.length === 0 ? (
+              <Card>
+                <CardContent className="py-8 text-center text-muted-foreground">
+                  No contacts at {firm.name} yet
+                </CardContent>
+              </Card>
+            ) : (
+              groupNames.map((group) => (
+                <Card key={group}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base font-medium">
+                      {group}
+                      <span className="ml-2 text-sm font-normal text-muted-foreground">
+                        {contactsByGroup[group].length}
+                      </span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1">
+                    {contactsByGroup[group].map((contact) => (
+                      <Link
+                        key={contact.id}
+                        to={`/contact/${contact.id}`}
+                        className="flex items-center justify-between gap-4 rounded-lg p-2 hover:bg-muted/50"
+                      >
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium truncate">{contact.name}</div>
+                          {contact.position && (
+                            <div className="text-xs text-muted-foreground truncate">{contact.position}</div>
+                          )}
+                        </div>
+                        <StageBadge stage={contact.stage} />
+                      </Link>
+                    ))}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="calls" className="space-y-2">
+            {callEvents.length === 0 ? (
+              <Card>
+                <CardContent className="py-8 text-center text-muted-foreground">No calls yet</CardContent>
+              </Card>
+            ) : (
+              callEvents.map((event) => (
+                <Card key={event.id}>
+                  <CardContent className="pt-4 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">{event.title}</div>
+                      <Link
+                        to={`/contact/${event.contact_id}`}
+                        className="text-xs text-muted-foreground hover:text-foreground"
+                      >
+                        {contactNames.get(event.contact_id)}
+                      </Link>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <Badge variant="outline">
+                        {CALL_EVENT_STATUSES.find((s) => s.value === event.status)?.label ?? event.status}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(event.start_at), 'MMM d, yyyy h:mm a')}
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="interactions" className="space-y-4">
+            {interactions.length === 0 ? (
+              <Card>
+                <CardContent className="py-8 text-center text-muted-foreground">No interactions yet</CardContent>
+              </Card>
+            ) : (
+              interactions.map((interaction) => {
+                const typeConfig = INTERACTION_TYPES.find((t) => t.value === interaction.type);
+                return (
+                  <Card key={interaction.id}>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-sm font-medium">
+                          {typeConfig?.label || interaction.type}
+                          {' · '}
+                          <Link
+                            to={`/contact/${interaction.contact_id}`}
+                            className="text-muted-foreground hover:text-foreground"
+                          >
+                            {contactNames.get(interaction.contact_id)}
+                          </Link>
+                        </CardTitle>
+                        <span className="text-xs text-muted-foreground">
+                          {format(new Date(interaction.date), 'MMM d, yyyy')}
+                        </span>
+                      </div>
+                    </CardHeader>
+                    {interaction.notes && (
+                      <CardContent>
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                          {interaction.notes}
+                        </p>
+                      </CardContent>
+                    )}
+                  </Card>
+                );
+              })
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
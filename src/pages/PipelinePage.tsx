@@ -1,4 +1,5 @@
 import { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   DndContext,
   DragOverlay,
@@ -14,43 +15,71 @@ import {
 } from '@dnd-kit/core';
 import { sortableKeyboardCoordinates } from '@dnd-kit/sortable';
 import { toast } from 'sonner';
-import { Search, Mail, Copy, Check } from 'lucide-react';
+import { Search, Mail, Copy, Check, Columns3, Grid3x3, Presentation, Table2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { useContacts } from '@/hooks/useContacts';
+import { useStages } from '@/hooks/useStages';
+import { usePipelines } from '@/hooks/usePipelines';
 import { useCallEvents, useScheduledCallsByContact } from '@/hooks/useCallEvents';
-import { useInteractions } from '@/hooks/useInteractions';
-import { useGoogleCalendar } from '@/hooks/useGoogleCalendar';
+import { useCalendarProvider } from '@/hooks/useCalendarProvider';
 import { AddContactModal } from '@/components/contacts/AddContactModal';
+import { ImportContactsModal } from '@/components/contacts/ImportContactsModal';
+import { ExportContactsModal } from '@/components/contacts/ExportContactsModal';
+import { DuplicateContactsModal } from '@/components/contacts/DuplicateContactsModal';
+import { LogEventModal } from '@/components/contacts/LogEventModal';
 import { MessagedPromptModal } from '@/components/contacts/MessagedPromptModal';
-import { CallNotesModal } from '@/components/contacts/CallNotesModal';
+import { CallDebriefModal } from '@/components/contacts/CallDebriefModal';
 import { ScheduleCallModal } from '@/components/calendar/ScheduleCallModal';
 import { EditCallModal } from '@/components/calendar/EditCallModal';
 import { KanbanColumn } from '@/components/pipeline/KanbanColumn';
+import { FirmCoverageView } from '@/components/pipeline/FirmCoverageView';
+import { PipelineSwitcher } from '@/components/pipeline/PipelineSwitcher';
+import { AddToPipelinePopover } from '@/components/pipeline/AddToPipelinePopover';
+import { ContactFiltersPopover } from '@/components/pipeline/ContactFiltersPopover';
+import { SavedViewsMenu } from '@/components/pipeline/SavedViewsMenu';
+import { ContactTableView } from '@/components/pipeline/ContactTableView';
 import { ContactCard } from '@/components/contacts/ContactCard';
-import { type Contact, type ContactStage, type CallEvent, type CallEventStatus } from '@/lib/types';
-
-// Simplified pipeline stages
-const PIPELINE_STAGES: ContactStage[] = ['researching', 'messaged', 'scheduled', 'call_done'];
+import { contactsInPipeline } from '@/lib/pipelines';
+import { applyContactFilters, countActiveFilters, EMPTY_FILTERS } from '@/lib/contact-filters';
+import { type Contact, type ContactFilters, type ContactStage, type CallEvent, type CallEventStatus } from '@/lib/types';
 
 export function PipelinePage() {
   const { user } = useAuth();
   const { profile } = useProfile(user?.id);
-  const { contacts, updateContactStage, isLoading } = useContacts(user?.id);
+  const { contacts, updateContactStage, updateContactsStage, isLoading } = useContacts(user?.id);
+  const { boardStages } = useStages(user?.id);
+  const { pipelines, memberships, addToPipeline, updatePipelineStage } = usePipelines(user?.id);
   const { createCallEvent, updateCallEvent, updateCallEventStatus, deleteCallEvent } = useCallEvents(user?.id);
   const scheduledCallsByContact = useScheduledCallsByContact(user?.id);
-  const { createInteraction } = useInteractions(user?.id, undefined);
-  const { isConnected: gcalConnected, pushToGoogleCalendar } = useGoogleCalendar();
+  const { provider: calendarProvider, isConnected: calendarConnected, pushToCalendar } = useCalendarProvider();
   const [activeContact, setActiveContact] = useState<Contact | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<ContactFilters>(EMPTY_FILTERS);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [view, setView] = useState<'board' | 'table' | 'coverage'>('board');
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Extra pipelines only track stages; the call and email automations run on the main one
+  const activePipeline = pipelines.find((p) => p.id === searchParams.get('pipeline')) ?? null;
+  const pipelineContacts = useMemo(
+    () => contactsInPipeline(contacts, memberships, activePipeline?.id ?? null),
+    [contacts, memberships, activePipeline]
+  );
+
+  const handlePipelineChange = (pipelineId: string | null) => {
+    setSearchParams(pipelineId ? { pipeline: pipelineId } : {});
+  };
   
-  // Call notes modal state
-  const [callNotesModal, setCallNotesModal] = useState<{
+  // Call debrief modal state
+  const [callDebriefModal, setCallDebriefModal] = useState<{
     open: boolean;
     contactId: string;
     contactName: string;
-  }>({ open: false, contactId: '', contactName: '' });
+    callEventId: string | null;
+  }>({ open: false, contactId: '', contactName: '', callEventId: null });
   
   // Schedule call modal state (for moving to 'scheduled' stage)
   const [scheduleModal, setScheduleModal] = useState<{
@@ -61,7 +90,7 @@ export function PipelinePage() {
   // Edit call modal state (for editing scheduled calls from pipeline)
   const [editCallModal, setEditCallModal] = useState<{
     open: boolean;
-    event: (Omit<CallEvent, 'contact'> & { contact?: { id: string; name: string; firm: string | null } }) | null;
+    event: (Omit<CallEvent, 'contact'> & { contact?: { id: string; name: string; firm: string | null; email: string | null } }) | null;
   }>({ open: false, event: null });
   
   const [pendingStageUpdate, setPendingStageUpdate] = useState<{
@@ -126,7 +155,20 @@ export function PipelinePage() {
     setAddContactModal({ open: true, stage });
   };
 
+  // New contacts created while viewing an extra pipeline join it too
+  const addCreatedContactToPipeline = (contactId: string, stage: ContactStage) => {
+    if (!activePipeline) return;
+    addToPipeline.mutate(
+      { pipelineId: activePipeline.id, contactIds: [contactId], stage },
+      { onError: () => toast.error(`Failed to add contact to ${activePipeline.name}`) }
+    );
+  };
+
   const handleContactCreated = (contact: { id: string; name: string; firm: string | null; email: string | null; stage: ContactStage }) => {
+    if (activePipeline) {
+      addCreatedContactToPipeline(contact.id, addContactModal.stage);
+      return;
+    }
     if (contact.stage === 'scheduled') {
       // Chain into ScheduleCallModal
       setScheduleModal({
@@ -160,7 +202,7 @@ export function PipelinePage() {
 
     if (pointerCollisions.length) {
       const stageCollision = pointerCollisions.find((c) =>
-        PIPELINE_STAGES.includes(c.id as ContactStage)
+        boardStages.some((stage) => stage.key === c.id)
       );
       return stageCollision ? [stageCollision] : pointerCollisions;
     }
@@ -168,41 +210,52 @@ export function PipelinePage() {
     return closestCorners(args);
   };
 
-  // Filter contacts by search query
   const filteredContacts = useMemo(() => {
-    if (!searchQuery.trim()) return contacts;
-    const query = searchQuery.toLowerCase();
-    return contacts.filter(
-      (contact) =>
-        contact.name.toLowerCase().includes(query) ||
-        contact.firm?.toLowerCase().includes(query) ||
-        contact.position?.toLowerCase().includes(query) ||
-        contact.email?.toLowerCase().includes(query)
+    const now = new Date();
+    const upcomingCallContactIds = new Set(
+      Object.values(scheduledCallsByContact)
+        .filter((call) => new Date(call.end_at) >= now)
+        .map((call) => call.contact_id)
     );
-  }, [contacts, searchQuery]);
+    return applyContactFilters(pipelineContacts, filters, { upcomingCallContactIds, now });
+  }, [pipelineContacts, filters, scheduledCallsByContact]);
+  const isFiltered = !!filters.search.trim() || countActiveFilters(filters) > 0;
+
+  const handleApplyView = (viewId: string | null, viewFilters: ContactFilters) => {
+    setActiveViewId(viewId);
+    setFilters(viewFilters);
+  };
 
   const contactsByStage = useMemo(() => {
-    const grouped: Record<ContactStage, Contact[]> = {
-      researching: [],
-      messaged: [],
-      scheduled: [],
-      call_done: [],
-      strong_connection: [],
-      referral_requested: [],
-      interview: [],
-      offer: [],
-    };
+    const grouped: Record<ContactStage, Contact[]> = {};
 
     filteredContacts.forEach((contact) => {
-      grouped[contact.stage].push(contact);
+      (grouped[contact.stage] ??= []).push(contact);
     });
 
     return grouped;
   }, [filteredContacts]);
 
+  // The table skips the board's scheduling and call-notes prompts
+  const handleTableStageChange = (ids: string[], stage: ContactStage) => {
+    if (!activePipeline) {
+      updateContactsStage.mutate({ ids, stage }, { onError: () => toast.error('Failed to update stage') });
+      return;
+    }
+    const selected = new Set(ids);
+    memberships
+      .filter((m) => m.pipeline_id === activePipeline.id && selected.has(m.contact_id))
+      .forEach((membership) =>
+        updatePipelineStage.mutate(
+          { id: membership.id, stage },
+          { onError: () => toast.error('Failed to update stage') }
+        )
+      );
+  };
+
   const handleDragStart = (event: DragStartEvent) => {
     const { active } = event;
-    const contact = contacts.find((c) => c.id === active.id);
+    const contact = pipelineContacts.find((c) => c.id === active.id);
     if (contact) {
       setActiveContact(contact);
     }
@@ -221,17 +274,29 @@ export function PipelinePage() {
     let newStage: ContactStage;
     
     // Check if overId is a stage (column)
-    if (PIPELINE_STAGES.includes(overId as ContactStage)) {
+    if (boardStages.some((stage) => stage.key === overId)) {
       newStage = overId as ContactStage;
     } else {
       // overId is a contact ID - find which stage that contact is in
-      const targetContact = contacts.find((c) => c.id === overId);
+      const targetContact = pipelineContacts.find((c) => c.id === overId);
       if (!targetContact) return;
       newStage = targetContact.stage;
     }
 
-    const contact = contacts.find((c) => c.id === contactId);
+    const contact = pipelineContacts.find((c) => c.id === contactId);
     if (contact && contact.stage !== newStage) {
+      if (activePipeline) {
+        const membership = memberships.find((m) => m.pipeline_id === activePipeline.id && m.contact_id === contactId);
+        if (membership) {
+          updatePipelineStage.mutate(
+            { id: membership.id, stage: newStage },
+            { onError: () => toast.error('Failed to move contact') }
+          );
+        }
+        return;
+      }
+
+
       // If moving to scheduled, prompt for call scheduling
       if (newStage === 'scheduled') {
         setScheduleModal({ open: true, contact });
@@ -247,12 +312,13 @@ export function PipelinePage() {
       // Check if moving FROM scheduled - need to delete the call event
       const isMovingFromScheduled = contact.stage === 'scheduled';
       
-      // If moving to call_done, prompt for notes first
+      // If moving to call_done, prompt for a debrief of the scheduled call first
       if (newStage === 'call_done') {
-        setCallNotesModal({
+        setCallDebriefModal({
           open: true,
           contactId: contact.id,
           contactName: contact.name,
+          callEventId: scheduledCallsByContact[contact.id]?.id ?? null,
         });
         setPendingStageUpdate({ id: contactId, stage: newStage, deleteScheduledCall: isMovingFromScheduled });
       } else {
@@ -266,7 +332,7 @@ export function PipelinePage() {
     }
   };
 
-  const handleCallNotesComplete = () => {
+  const handleCallDebriefComplete = () => {
     if (pendingStageUpdate) {
       updateContactStage.mutate(pendingStageUpdate);
       setPendingStageUpdate(null);
@@ -298,17 +364,17 @@ export function PipelinePage() {
       toast.success('Call scheduled');
       setScheduleModal({ open: false, contact: null });
 
-      // Push to Google Calendar if connected
-      if (gcalConnected && result) {
+      // Push to the calendar if connected
+      if (calendarProvider && result) {
         const contact = contacts.find((c) => c.id === data.contact_id);
         const attendeeEmail = data.sendInvite && contact?.email ? contact.email : undefined;
-        pushToGoogleCalendar.mutate(
+        pushToCalendar.mutate(
           { callEventId: result.id, action: 'create', attendeeEmail },
           {
             onSuccess: () => {
-              toast.success(attendeeEmail ? 'Added to Google Calendar — invite sent!' : 'Added to Google Calendar');
+              toast.success(attendeeEmail ? `Added to ${calendarProvider.label} — invite sent!` : `Added to ${calendarProvider.label}`);
             },
-            onError: () => toast.error('Failed to sync with Google Calendar'),
+            onError: () => toast.error(`Failed to sync with ${calendarProvider.label}`),
           },
         );
       }
@@ -319,8 +385,8 @@ export function PipelinePage() {
 
   const handleEditCall = (call: CallEvent) => {
     const contact = contacts.find((c) => c.id === call.contact_id);
-    const contactInfo: { id: string; name: string; firm: string | null } | undefined = contact 
-      ? { id: contact.id, name: contact.name, firm: contact.firm } 
+    const contactInfo: { id: string; name: string; firm: string | null; email: string | null } | undefined = contact 
+      ? { id: contact.id, name: contact.name, firm: contact.firm, email: contact.email } 
       : undefined;
     setEditCallModal({
       open: true,
@@ -377,20 +443,27 @@ export function PipelinePage() {
     }
   };
 
-  const handleLogInteraction = async (event: { contact_id: string; start_at: string; notes: string | null }) => {
-    try {
-      await createInteraction.mutateAsync({
-        contact_id: event.contact_id,
-        type: 'call',
-        date: event.start_at,
-        notes: event.notes,
-      });
-      toast.success('Interaction logged');
-    } catch (error) {
-      toast.error('Failed to log interaction');
-    }
+  const handleDebrief = (event: { id: string; contact_id: string; contact?: { name: string } }) => {
+    setCallDebriefModal({
+      open: true,
+      contactId: event.contact_id,
+      contactName: event.contact?.name ?? 'this contact',
+      callEventId: event.id,
+    });
   };
 
+  const renderColumn = (stage: ContactStage) => (
+    <KanbanColumn
+      key={stage}
+      stage={stage}
+      contacts={contactsByStage[stage] ?? []}
+      scheduledCalls={stage === 'scheduled' ? scheduledCallsByContact : undefined}
+      onEditCall={stage === 'scheduled' ? handleEditCall : undefined}
+      onColumnClick={handleColumnClick}
+      hint={stage === 'messaged' ? messagedHint : undefined}
+    />
+  );
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -405,77 +478,117 @@ export function PipelinePage() {
         <div>
           <h1 className="text-2xl font-bold text-foreground">Pipeline</h1>
           <p className="text-muted-foreground">
-            {filteredContacts.length} contacts{searchQuery && ` matching "${searchQuery}"`}
+            {isFiltered
+              ? `${filteredContacts.length} of ${pipelineContacts.length} contacts`
+              : `${filteredContacts.length} contacts`}
           </p>
         </div>
         <div className="flex items-center gap-3">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search contacts..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-9 w-64"
-            />
-          </div>
+          <PipelineSwitcher value={activePipeline?.id ?? null} onChange={handlePipelineChange} />
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={view}
+            onValueChange={(value) => value && setView(value as 'board' | 'table' | 'coverage')}
+          >
+            <ToggleGroupItem value="board" aria-label="Board view" title="Board">
+              <Columns3 className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="table" aria-label="Table view" title="Table">
+              <Table2 className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="coverage" aria-label="Firm coverage view" title="Firm coverage">
+              <Grid3x3 className="h-4 w-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <ImportContactsModal />
+          <ExportContactsModal />
+          <DuplicateContactsModal />
+          <LogEventModal
+            trigger={
+              <Button variant="outline">
+                <Presentation className="h-4 w-4 mr-2" />
+                Log Event
+              </Button>
+            }
+          />
+          {activePipeline && <AddToPipelinePopover pipeline={activePipeline} />}
           <div data-tour="add-contact-btn">
-            <AddContactModal />
+            <AddContactModal
+              onContactCreated={(contact) => addCreatedContactToPipeline(contact.id, boardStages[0]?.key ?? 'researching')}
+            />
           </div>
         </div>
       </div>
 
-      <DndContext
-        sensors={sensors}
-        collisionDetection={collisionDetection}
-        onDragStart={handleDragStart}
-        onDragEnd={handleDragEnd}
-      >
-        <div className="grid grid-cols-4 gap-4 flex-1 min-h-0">
-          <KanbanColumn
-            stage="researching"
-            contacts={contactsByStage.researching}
-            onColumnClick={handleColumnClick}
-          />
-          <div data-tour="messaged-scheduled-columns" className="col-span-2 grid grid-cols-2 gap-4">
-            <KanbanColumn
-              stage="messaged"
-              contacts={contactsByStage.messaged}
-              onColumnClick={handleColumnClick}
-              hint={messagedHint}
-            />
-            <KanbanColumn
-              stage="scheduled"
-              contacts={contactsByStage.scheduled}
-              scheduledCalls={scheduledCallsByContact}
-              onEditCall={handleEditCall}
-              onColumnClick={handleColumnClick}
-            />
-          </div>
-          <KanbanColumn
-            stage="call_done"
-            contacts={contactsByStage.call_done}
-            onColumnClick={handleColumnClick}
+      <div className="flex items-center gap-3 mb-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search contacts..."
+            value={filters.search}
+            onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+            className="pl-9 w-64"
           />
         </div>
+        <ContactFiltersPopover filters={filters} onChange={setFilters} contacts={pipelineContacts} />
+        <SavedViewsMenu filters={filters} activeViewId={activeViewId} onApply={handleApplyView} />
+      </div>
+
+      {view === 'coverage' ? (
+        <FirmCoverageView contacts={filteredContacts} />
+      ) : view === 'table' ? (
+        <ContactTableView
+          contacts={filteredContacts}
+          scheduledCallsByContact={scheduledCallsByContact}
+          onChangeStage={handleTableStageChange}
+        />
+      ) : (
+        <DndContext
+          sensors={sensors}
+          collisionDetection={collisionDetection}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
+        >
+          <div
+            className="grid gap-4 flex-1 min-h-0"
+            style={{ gridTemplateColumns: `repeat(${boardStages.length}, minmax(0, 1fr))` }}
+          >
+            {boardStages.map((stage, i) => {
+              if (stage.key === 'scheduled' && boardStages[i - 1]?.key === 'messaged') return null;
+              if (stage.key === 'messaged' && boardStages[i + 1]?.key === 'scheduled') {
+                // Kept together so the product tour can spotlight both columns
+                return (
+                  <div key={stage.key} data-tour="messaged-scheduled-columns" className="col-span-2 grid grid-cols-2 gap-4">
+                    {renderColumn('messaged')}
+                    {renderColumn('scheduled')}
+                  </div>
+                );
+              }
+              return renderColumn(stage.key);
+            })}
+          </div>
 
-        <DragOverlay>
-          {activeContact ? <ContactCard contact={activeContact} /> : null}
-        </DragOverlay>
-      </DndContext>
+          <DragOverlay>
+            {activeContact ? <ContactCard contact={activeContact} /> : null}
+          </DragOverlay>
+        </DndContext>
+      )}
 
-      <CallNotesModal
-        open={callNotesModal.open}
+      <CallDebriefModal
+        open={callDebriefModal.open}
         onOpenChange={(open) => {
-          setCallNotesModal((prev) => ({ ...prev, open }));
+          setCallDebriefModal((prev) => ({ ...prev, open }));
           if (!open && pendingStageUpdate) {
             // If modal closed without completing, still update stage
             updateContactStage.mutate(pendingStageUpdate);
             setPendingStageUpdate(null);
           }
         }}
-        contactId={callNotesModal.contactId}
-        contactName={callNotesModal.contactName}
-        onComplete={handleCallNotesComplete}
+        contactId={callDebriefModal.contactId}
+        contactName={callDebriefModal.contactName}
+        callEventId={callDebriefModal.callEventId}
+        onComplete={handleCallDebriefComplete}
       />
 
       {/* Messaged Prompt Modal (researching → messaged) */}
@@ -496,7 +609,7 @@ export function PipelinePage() {
       <AddContactModal
         open={addContactModal.open}
         onOpenChange={(open) => setAddContactModal((prev) => ({ ...prev, open }))}
-        defaultStage={addContactModal.stage}
+        defaultStage={activePipeline ? undefined : addContactModal.stage}
         onContactCreated={handleContactCreated}
         showTrigger={false}
       />
@@ -513,7 +626,7 @@ export function PipelinePage() {
         onSubmit={handleScheduleCall}
         isSubmitting={createCallEvent.isPending}
         preselectedContactId={scheduleModal.contact?.id}
-        gcalConnected={gcalConnected}
+        calendarConnected={calendarConnected}
         userName={profile?.name || undefined}
       />
 
@@ -529,7 +642,8 @@ export function PipelinePage() {
         onSubmit={handleUpdateCall}
         onStatusChange={handleStatusChange}
         onDelete={handleDeleteCall}
-        onLogInteraction={handleLogInteraction}
+        onDebrief={handleDebrief}
+        organizer={user?.email ? { name: profile?.name || user.email, email: user.email } : undefined}
         isSubmitting={updateCallEvent.isPending}
       />
     </div>
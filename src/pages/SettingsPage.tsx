@@ -16,15 +16,28 @@ import {
   FormDescription,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { useSubscription } from '@/hooks/useSubscription';
 import { useTourContext } from '@/hooks/useTour';
 import { PaywallModal } from '@/components/paywall/PaywallModal';
+import { FollowUpRulesCard } from '@/components/followups/FollowUpRulesCard';
+import { EmailTemplatesCard } from '@/components/templates/EmailTemplatesCard';
+import { PipelineStagesCard } from '@/components/pipeline/PipelineStagesCard';
+import { CustomFieldsCard } from '@/components/contacts/CustomFieldsCard';
+import { CalendarFeedCard } from '@/components/calendar/CalendarFeedCard';
 import { toast } from 'sonner';
 import { useInboundEmails } from '@/hooks/useInboundEmails';
 import { Mail, Copy, Check, Inbox } from 'lucide-react';
 import { format } from 'date-fns';
+import { browserTimeZone, formatHourLabel, timezoneOptions } from '@/lib/timezones';
 
 const profileSchema = z.object({
   name: z.string().optional(),
@@ -34,8 +47,16 @@ const profileSchema = z.object({
   weekly_interactions_goal: z.coerce.number().min(1).max(50).optional(),
   weekly_flashcards_goal: z.coerce.number().min(1).max(100).optional(),
   weekly_mock_interviews_goal: z.coerce.number().min(1).max(20).optional(),
+  timezone: z.string().optional(),
+  working_hours_start: z.coerce.number().min(0).max(23),
+  working_hours_end: z.coerce.number().min(1).max(24),
+}).refine((data) => data.working_hours_start < data.working_hours_end, {
+  message: 'Must end after the start',
+  path: ['working_hours_end'],
 });
 
+const HOURS = Array.from({ length: 25 }, (_, hour) => hour);
+
 type ProfileFormData = z.infer<typeof profileSchema>;
 
 export function SettingsPage() {
@@ -85,6 +106,9 @@ export function SettingsPage() {
       weekly_interactions_goal: profile?.weekly_interactions_goal || 10,
       weekly_flashcards_goal: profile?.weekly_flashcards_goal || 20,
       weekly_mock_interviews_goal: profile?.weekly_mock_interviews_goal || 3,
+      timezone: profile?.timezone || browserTimeZone() || undefined,
+      working_hours_start: profile?.working_hours_start ?? 9,
+      working_hours_end: profile?.working_hours_end ?? 22,
     },
   });
 
@@ -98,6 +122,9 @@ export function SettingsPage() {
         weekly_interactions_goal: data.weekly_interactions_goal || 10,
         weekly_flashcards_goal: data.weekly_flashcards_goal || 20,
         weekly_mock_interviews_goal: data.weekly_mock_interviews_goal || 3,
+        timezone: data.timezone || null,
+        working_hours_start: data.working_hours_start,
+        working_hours_end: data.working_hours_end,
       });
       toast.success('Settings saved');
     } catch (error) {
@@ -199,6 +226,106 @@ export function SettingsPage() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Availability</CardTitle>
+          <CardDescription>
+            The hours offered when outreach emails suggest times to talk
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Timezone</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select your timezone" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {timezoneOptions(field.value, browserTimeZone()).map((tz) => (
+                          <SelectItem key={tz.value} value={tz.value}>
+                            {tz.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Emails show your times in this timezone, and in the contact's when you've set one
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="working_hours_start"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Available From</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value)}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {HOURS.slice(0, 24).map((hour) => (
+                            <SelectItem key={hour} value={String(hour)}>
+                              {formatHourLabel(hour)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="working_hours_end"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Available Until</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value)}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {HOURS.slice(1).map((hour) => (
+                            <SelectItem key={hour} value={String(hour)}>
+                              {formatHourLabel(hour)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={updateProfile.isPending}>
+                  {updateProfile.isPending ? 'Saving...' : 'Save Changes'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Weekly Goals</CardTitle>
@@ -270,6 +397,14 @@ export function SettingsPage() {
         </CardContent>
       </Card>
 
+      <PipelineStagesCard />
+
+      <CustomFieldsCard />
+
+      <FollowUpRulesCard />
+
+      <EmailTemplatesCard />
+
       <Card>
         <CardHeader>
           <CardTitle>Account</CardTitle>
@@ -425,6 +560,8 @@ export function SettingsPage() {
         </CardContent>
       </Card>
 
+      <CalendarFeedCard />
+
       <Card>
         <CardHeader>
           <CardTitle>Integrations</CardTitle>
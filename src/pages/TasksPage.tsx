@@ -24,6 +24,9 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import type { PrepQuestion } from '@/lib/types';
 import { useTour } from '@/hooks/useTour';
+import { OutreachTasksCard } from '@/components/outreach/OutreachTasksCard';
+import { TemplateMenu } from '@/components/templates/TemplateMenu';
+import type { TemplateSelection } from '@/hooks/useEmailTemplates';
 
 export function TasksPage() {
   const { user } = useAuth();
@@ -159,7 +162,7 @@ export function TasksPage() {
     }
   };
 
-  const handleGenerateThankYouEmail = async (contactId: string) => {
+  const handleGenerateThankYouEmail = async (contactId: string, template?: TemplateSelection) => {
     setGeneratingEmailFor(contactId);
     try {
       const { data: sessionData } = await supabase.auth.getSession();
@@ -176,7 +179,14 @@ export function TasksPage() {
           Authorization: `Bearer ${accessToken}`,
           apikey: supabaseAnonKey,
         },
-        body: JSON.stringify({ contactId }),
+        body: JSON.stringify({
+          contactId,
+          clientYear: new Date().getFullYear(),
+          clientMonth: new Date().getMonth() + 1,
+          clientDay: new Date().getDate(),
+          templateId: template?.templateId,
+          templateMode: template?.mode,
+        }),
       });
 
       if (!resp.ok) {
@@ -184,9 +194,13 @@ export function TasksPage() {
         throw new Error(`Failed (${resp.status}): ${errBody}`);
       }
 
-      const { subject, body } = await resp.json();
+      const { subject, body, missing } = await resp.json();
       setGeneratedEmails((prev) => ({ ...prev, [contactId]: { subject, body } }));
-      toast.success('Thank you email generated!');
+      if (missing?.length) {
+        toast.warning(`No value for ${missing.map((key: string) => `{{${key}}}`).join(', ')}. Fill these in before sending.`);
+      } else {
+        toast.success('Thank you email generated!');
+      }
     } catch (error) {
       console.error('Generate thank-you email error:', error);
       toast.error('Failed to generate email');
@@ -211,15 +225,17 @@ export function TasksPage() {
   };
 
   // Separate tasks by type
-  const { thankYouTasks, manualTasks } = useMemo(() => {
+  const { thankYouTasks, outreachTasks, manualTasks } = useMemo(() => {
     const thankYou = tasks.filter((t) => t.task_type === 'thank_you');
-    const manual = tasks.filter((t) => t.task_type !== 'thank_you');
-    return { thankYouTasks: thankYou, manualTasks: manual };
+    const outreach = tasks.filter((t) => t.task_type === 'outreach');
+    const manual = tasks.filter((t) => t.task_type !== 'thank_you' && t.task_type !== 'outreach');
+    return { thankYouTasks: thankYou, outreachTasks: outreach, manualTasks: manual };
   }, [tasks]);
 
   // Further separate by completion status
   const pendingThankYou = thankYouTasks.filter((t) => !t.completed);
   const completedThankYou = thankYouTasks.filter((t) => t.completed);
+  const pendingOutreach = outreachTasks.filter((t) => !t.completed);
   const pendingManual = manualTasks.filter((t) => !t.completed);
   const completedManual = manualTasks.filter((t) => t.completed);
 
@@ -275,7 +291,7 @@ export function TasksPage() {
         <div>
           <h1 className="text-2xl font-bold text-foreground">Tasks</h1>
           <p className="text-muted-foreground">
-            {pendingThankYou.length + pendingManual.length} pending tasks
+            {pendingThankYou.length + pendingOutreach.length + pendingManual.length} pending tasks
           </p>
         </div>
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -568,25 +584,32 @@ export function TasksPage() {
 
                         {/* Generate email button */}
                         {!email && (
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="gap-2"
-                            disabled={generatingEmailFor === contactId}
-                            onClick={() => handleGenerateThankYouEmail(contactId)}
-                          >
-                            {generatingEmailFor === contactId ? (
-                              <>
-                                <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                                Generating...
-                              </>
-                            ) : (
-                              <>
-                                <Sparkles className="h-3.5 w-3.5" />
-                                Generate Thank You Email
-                              </>
-                            )}
-                          </Button>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              disabled={generatingEmailFor === contactId}
+                              onClick={() => handleGenerateThankYouEmail(contactId)}
+                            >
+                              {generatingEmailFor === contactId ? (
+                                <>
+                                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                  Generating...
+                                </>
+                              ) : (
+                                <>
+                                  <Sparkles className="h-3.5 w-3.5" />
+                                  Generate Thank You Email
+                                </>
+                              )}
+                            </Button>
+                            <TemplateMenu
+                              categories={['thank_you']}
+                              onSelect={(template) => handleGenerateThankYouEmail(contactId, template)}
+                              disabled={generatingEmailFor === contactId}
+                            />
+                          </div>
                         )}
 
                         {/* Generated email display */}
@@ -711,6 +734,9 @@ export function TasksPage() {
         </CardContent>
       </Card>
 
+      {/* Outreach Sequence Emails Section */}
+      <OutreachTasksCard tasks={outreachTasks} />
+
       {/* Manual Tasks Section */}
       <Card data-tour="my-tasks">
         <CardHeader className="pb-3">
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import {
+  findDailyAvailability,
+  isValidTimeZone,
+  timeZoneOffset,
+  zonedParts,
+  zonedTimeToUtc,
+  type AvailabilityPreferences,
+} from "../../supabase/functions/_shared/availability-slots";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NEW_YORK: AvailabilityPreferences = { timeZone: "America/New_York", startHour: 9, endHour: 22 };
+
+function utc(iso: string): number {
+  return new Date(iso).getTime();
+}
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names and rejects anything else", () => {
+    expect(isValidTimeZone("America/New_York")).toBe(true);
+    expect(isValidTimeZone("Asia/Kolkata")).toBe(true);
+    expect(isValidTimeZone("Eastern")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+    expect(isValidTimeZone(null)).toBe(false);
+  });
+});
+
+describe("zonedParts", () => {
+  it("gives the wall-clock time in the timezone, including the date", () => {
+    expect(zonedParts(utc("2026-03-03T02:30:00Z"), "America/New_York")).toEqual({
+      year: 2026,
+      month: 3,
+      day: 2,
+      hour: 21,
+      minute: 30,
+    });
+    expect(zonedParts(utc("2026-03-03T04:00:00Z"), "America/New_York").hour).toBe(23);
+    expect(zonedParts(utc("2026-03-03T05:00:00Z"), "America/New_York").hour).toBe(0);
+  });
+});
+
+describe("timeZoneOffset", () => {
+  it("follows DST", () => {
+    expect(timeZoneOffset(utc("2026-01-15T12:00:00Z"), "America/New_York")).toBe(-5 * HOUR_MS);
+    expect(timeZoneOffset(utc("2026-07-15T12:00:00Z"), "America/New_York")).toBe(-4 * HOUR_MS);
+    expect(timeZoneOffset(utc("2026-07-15T12:00:00Z"), "America/Phoenix")).toBe(-7 * HOUR_MS);
+  });
+
+  it("handles zones that aren't a whole number of hours from UTC", () => {
+    expect(timeZoneOffset(utc("2026-03-02T12:00:00Z"), "Asia/Kolkata")).toBe(5.5 * HOUR_MS);
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  it("finds the instant of a wall-clock hour on either side of a DST change", () => {
+    // US clocks sprang forward on Sunday 2026-03-08 and fall back on Sunday 2026-11-01
+    expect(zonedTimeToUtc(2026, 3, 6, 9, "America/New_York")).toBe(utc("2026-03-06T14:00:00Z"));
+    expect(zonedTimeToUtc(2026, 3, 9, 9, "America/New_York")).toBe(utc("2026-03-09T13:00:00Z"));
+    expect(zonedTimeToUtc(2026, 10, 30, 9, "America/New_York")).toBe(utc("2026-10-30T13:00:00Z"));
+    expect(zonedTimeToUtc(2026, 11, 2, 9, "America/New_York")).toBe(utc("2026-11-02T14:00:00Z"));
+  });
+
+  it("gets hours right on the day of the change", () => {
+    expect(zonedTimeToUtc(2026, 3, 8, 0, "America/New_York")).toBe(utc("2026-03-08T05:00:00Z"));
+    expect(zonedTimeToUtc(2026, 3, 8, 3, "America/New_York")).toBe(utc("2026-03-08T07:00:00Z"));
+    expect(zonedTimeToUtc(2026, 11, 1, 0, "America/New_York")).toBe(utc("2026-11-01T04:00:00Z"));
+    expect(zonedTimeToUtc(2026, 11, 1, 3, "America/New_York")).toBe(utc("2026-11-01T08:00:00Z"));
+  });
+
+  it("handles midnight at the end of the day", () => {
+    expect(zonedTimeToUtc(2026, 3, 2, 24, "America/New_York")).toBe(utc("2026-03-03T05:00:00Z"));
+  });
+});
+
+describe("findDailyAvailability", () => {
+  it("lists working hours for the next five weekdays, skipping the weekend", () => {
+    // Thursday 2026-03-05
+    expect(findDailyAvailability([], 2026, 3, 5, NEW_YORK, null)).toEqual([
+      "Friday (3/6): 9am - 10pm EST",
+      "Monday (3/9): 9am - 10pm EDT",
+      "Tuesday (3/10): 9am - 10pm EDT",
+      "Wednesday (3/11): 9am - 10pm EDT",
+      "Thursday (3/12): 9am - 10pm EDT",
+    ]);
+  });
+
+  it("rolls over month ends", () => {
+    const lines = findDailyAvailability([], 2026, 2, 27, NEW_YORK, null);
+    expect(lines[0]).toBe("Monday (3/2): 9am - 10pm EST");
+  });
+
+  it("splits the day around busy events, blocking every hour they touch", () => {
+    const lines = findDailyAvailability(
+      [
+        { start: "2026-03-02T15:30:00Z", end: "2026-03-02T16:00:00Z" }, // 10:30-11am EST
+        { start: "2026-03-02T18:00:00Z", end: "2026-03-02T19:15:00Z" }, // 1-2:15pm EST
+      ],
+      2026,
+      3,
+      1,
+      NEW_YORK,
+      null
+    );
+    expect(lines[0]).toBe("Monday (3/2): 9am - 10am; 11am - 1pm; 3pm - 10pm EST");
+    expect(lines[1]).toBe("Tuesday (3/3): 9am - 10pm EST");
+  });
+
+  it("places busy events by the offset in effect that day", () => {
+    // 9-10am EDT after spring forward; 9-10am EST after fall back
+    const spring = findDailyAvailability([{ start: "2026-03-09T13:00:00Z", end: "2026-03-09T14:00:00Z" }], 2026, 3, 8, NEW_YORK, null);
+    expect(spring[0]).toBe("Monday (3/9): 10am - 10pm EDT");
+
+    const fall = findDailyAvailability([{ start: "2026-11-02T14:00:00Z", end: "2026-11-02T15:00:00Z" }], 2026, 11, 1, NEW_YORK, null);
+    expect(fall[0]).toBe("Monday (11/2): 10am - 10pm EST");
+  });
+
+  it("leaves out fully booked days", () => {
+    const lines = findDailyAvailability([{ start: "2026-03-02T00:00:00Z", end: "2026-03-03T12:00:00Z" }], 2026, 3, 1, NEW_YORK, null);
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toBe("Tuesday (3/3): 9am - 10pm EST");
+  });
+
+  it("follows the user's working hours and timezone", () => {
+    const lines = findDailyAvailability([], 2026, 3, 1, { timeZone: "Europe/Paris", startHour: 8, endHour: 24 }, null);
+    expect(lines[0]).toBe("Monday (3/2): 8am - 12am GMT+1");
+  });
+
+  it("adds the contact's local times when their offset differs", () => {
+    const hours = { ...NEW_YORK, startHour: 9, endHour: 17 };
+
+    // Between the US and UK clock changes the gap is four hours, then five again
+    const mismatch = findDailyAvailability([], 2026, 3, 9, hours, "Europe/London");
+    expect(mismatch[0]).toBe("Tuesday (3/10): 9am - 5pm EDT (1pm - 9pm GMT)");
+    const aligned = findDailyAvailability([], 2026, 3, 29, hours, "Europe/London");
+    expect(aligned[0]).toBe("Monday (3/30): 9am - 5pm EDT (2pm - 10pm GMT+1)");
+
+    const kolkata = findDailyAvailability([], 2026, 3, 1, hours, "Asia/Kolkata");
+    expect(kolkata[0]).toBe("Monday (3/2): 9am - 5pm EST (7:30pm - 3:30am GMT+5:30)");
+  });
+
+  it("prefixes the contact's weekday when it falls on another day", () => {
+    const evenings = { ...NEW_YORK, startHour: 20, endHour: 22 };
+    const lines = findDailyAvailability([], 2026, 3, 1, evenings, "Asia/Tokyo");
+    expect(lines[0]).toBe("Monday (3/2): 8pm - 10pm EST (Tue 10am - 12pm GMT+9)");
+  });
+
+  it("leaves out the contact's times when the offsets match that day", () => {
+    const la: AvailabilityPreferences = { timeZone: "America/Los_Angeles", startHour: 9, endHour: 17 };
+    // Phoenix has no DST, so it matches Pacific time in summer only
+    expect(findDailyAvailability([], 2026, 7, 5, la, "America/Phoenix")[0]).toBe("Monday (7/6): 9am - 5pm PDT");
+    expect(findDailyAvailability([], 2026, 1, 4, la, "America/Phoenix")[0]).toBe("Monday (1/5): 9am - 5pm PST (10am - 6pm MST)");
+  });
+});
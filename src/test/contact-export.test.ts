@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  CONTACT_EXPORT_VERSION,
+  contactsToVCard,
+  parseContactExport,
+  type ContactWithRelations,
+  type ExportOptions,
+} from "@/lib/contact-export";
+import { DEFAULT_STAGES, type CustomFieldDefinition } from "@/lib/types";
+
+const NO_EXTRAS: ExportOptions = { includeInteractions: false, includeCallEvents: false, includePrepQuestions: false };
+
+function makeContact(overrides: Partial<ContactWithRelations> = {}): ContactWithRelations {
+  return {
+    id: "contact-1",
+    user_id: "user-1",
+    name: "Jane Doe",
+    firm: null,
+    group_name: null,
+    firm_id: null,
+    firm_group_id: null,
+    position: null,
+    email: null,
+    phone: null,
+    connection_type: "cold",
+    referred_by_id: null,
+    relationship_strength: 1,
+    relationship_strength_pinned: false,
+    stage: "researching",
+    last_contacted_at: null,
+    next_followup_at: null,
+    followup_count: 0,
+    went_cold_at: null,
+    notes_summary: null,
+    notes_summary_suggestion: null,
+    notes_summary_suggested_at: null,
+    prep_questions_json: [],
+    tags: [],
+    timezone: null,
+    custom_fields: {},
+    created_at: "2026-03-01T12:00:00.000Z",
+    updated_at: "2026-03-02T15:04:05.678Z",
+    interactions: [],
+    call_events: [],
+    ...overrides,
+  };
+}
+
+// Unfold continuation lines, then split into content lines
+function contentLines(vcard: string): string[] {
+  return vcard.replace(/\r\n /g, "").split("\r\n").filter(Boolean);
+}
+
+describe("contactsToVCard", () => {
+  it("writes a minimal card with name, stage and revision", () => {
+    const vcard = contactsToVCard([makeContact()], NO_EXTRAS, DEFAULT_STAGES, []);
+    expect(vcard).toBe(
+      [
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "N:Doe;Jane;;;",
+        "FN:Jane Doe",
+        "CATEGORIES:Researching",
+        "REV:2026-03-02T15:04:05Z",
+        "END:VCARD",
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("puts everything but the last word of the name in the given name", () => {
+    const [, , n] = contentLines(contactsToVCard([makeContact({ name: "Mary Ann van Buren" })], NO_EXTRAS, DEFAULT_STAGES, []));
+    expect(n).toBe("N:Buren;Mary Ann van;;;");
+    const [, , single] = contentLines(contactsToVCard([makeContact({ name: "Cher" })], NO_EXTRAS, DEFAULT_STAGES, []));
+    expect(single).toBe("N:;Cher;;;");
+  });
+
+  it("writes work details and escapes special characters", () => {
+    const contact = makeContact({
+      firm: "Smith, Barney & Co",
+      group_name: "M&A; Tech",
+      position: "VP",
+      email: "jane@example.com",
+      phone: "+1 212 555 0100",
+      tags: ["alumni, 2019", "target"],
+      stage: "call_done",
+    });
+    const lines = contentLines(contactsToVCard([contact], NO_EXTRAS, DEFAULT_STAGES, []));
+    expect(lines).toContain("ORG:Smith\\, Barney & Co;M&A\\; Tech");
+    expect(lines).toContain("TITLE:VP");
+    expect(lines).toContain("EMAIL;TYPE=INTERNET,WORK:jane@example.com");
+    expect(lines).toContain("TEL;TYPE=WORK,VOICE:+1 212 555 0100");
+    expect(lines).toContain("CATEGORIES:Call Done,alumni\\, 2019,target");
+  });
+
+  it("collects notes, custom fields and prep questions into one NOTE", () => {
+    const field: CustomFieldDefinition = {
+      id: "field-1",
+      user_id: "user-1",
+      name: "Class",
+      field_type: "text",
+      options: [],
+      position: 0,
+      created_at: "2026-01-01T00:00:00Z",
+      updated_at: "2026-01-01T00:00:00Z",
+    };
+    const contact = makeContact({
+      notes_summary: "Met at the\\ info session",
+      custom_fields: { "field-1": "2019" },
+      prep_questions_json: [{ id: "q1", text: "How did you pick your group?", added_at: "2026-03-01T00:00:00Z" }],
+    });
+
+    const withPrep = contentLines(
+      contactsToVCard([contact], { ...NO_EXTRAS, includePrepQuestions: true }, DEFAULT_STAGES, [field])
+    );
+    expect(withPrep).toContain(
+      "NOTE:Met at the\\\\ info session\\n\\nClass: 2019\\n\\nPrep questions:\\n- How did you pick your group?"
+    );
+
+    const withoutPrep = contentLines(contactsToVCard([contact], NO_EXTRAS, DEFAULT_STAGES, [field]));
+    expect(withoutPrep).toContain("NOTE:Met at the\\\\ info session\\n\\nClass: 2019");
+  });
+
+  it("folds long lines", () => {
+    const vcard = contactsToVCard([makeContact({ notes_summary: "a".repeat(120) })], NO_EXTRAS, DEFAULT_STAGES, []);
+    expect(vcard.split("\r\n").every((line) => line.length <= 75)).toBe(true);
+    expect(contentLines(vcard)).toContain(`NOTE:${"a".repeat(120)}`);
+  });
+
+  it("writes one card per contact", () => {
+    const vcard = contactsToVCard(
+      [makeContact(), makeContact({ id: "contact-2", name: "John Roe" })],
+      NO_EXTRAS,
+      DEFAULT_STAGES,
+      []
+    );
+    expect(vcard.match(/BEGIN:VCARD/g)).toHaveLength(2);
+    expect(contentLines(vcard)).toContain("FN:John Roe");
+  });
+});
+
+describe("parseContactExport", () => {
+  it("accepts a current export", () => {
+    const text = JSON.stringify({ version: CONTACT_EXPORT_VERSION, exported_at: "2026-03-02T00:00:00Z", contacts: [{ name: "Jane Doe" }] });
+    expect(parseContactExport(text).contacts).toHaveLength(1);
+  });
+
+  it("rejects files that aren't a supported export", () => {
+    expect(() => parseContactExport("not json")).toThrow("File is not valid JSON");
+    expect(() => parseContactExport("{}")).toThrow("File is not an OfferReady contact export");
+    expect(() => parseContactExport(JSON.stringify({ version: CONTACT_EXPORT_VERSION + 1, contacts: [] }))).toThrow(
+      "Unsupported export version"
+    );
+    expect(() =>
+      parseContactExport(JSON.stringify({ version: CONTACT_EXPORT_VERSION, contacts: [{ name: "Jane" }, { name: " " }] }))
+    ).toThrow("Contact 2 is missing a name");
+  });
+});
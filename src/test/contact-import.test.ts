@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import {
+  autoMapColumns,
+  buildImportRows,
+  createDuplicateChecker,
+  detectField,
+  parseConnectionType,
+  parseContactsCsv,
+  parseCsvRows,
+  parseStage,
+} from "@/lib/contact-import";
+import { DEFAULT_STAGES } from "@/lib/types";
+
+const DEFAULTS = { connection_type: "cold" as const, stage: "researching" };
+
+describe("parseCsvRows", () => {
+  it("splits cells and rows on LF and CRLF", () => {
+    expect(parseCsvRows("a,b\r\nc,d\ne,f")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+      ["e", "f"],
+    ]);
+  });
+
+  it("handles quoted commas, escaped quotes and line breaks", () => {
+    expect(parseCsvRows('"Smith, Jane","She said ""hi""","line one\nline two"\n')).toEqual([
+      ["Smith, Jane", 'She said "hi"', "line one\nline two"],
+    ]);
+  });
+
+  it("strips a byte order mark and drops blank rows", () => {
+    expect(parseCsvRows("\uFEFFname\n\n , \nJane\n")).toEqual([["name"], ["Jane"]]);
+  });
+
+  it("keeps empty trailing cells", () => {
+    expect(parseCsvRows("a,,\n")).toEqual([["a", "", ""]]);
+  });
+});
+
+describe("detectField", () => {
+  it("matches header aliases regardless of case, spacing and underscores", () => {
+    expect(detectField("First Name")).toBe("first_name");
+    expect(detectField("  EMAIL_ADDRESS ")).toBe("email");
+    expect(detectField("Company")).toBe("firm");
+    expect(detectField("Job Title")).toBe("position");
+  });
+
+  it("returns null for unknown headers", () => {
+    expect(detectField("Connected On")).toBeNull();
+  });
+});
+
+describe("parseContactsCsv", () => {
+  it("skips LinkedIn's notes preamble before the header row", () => {
+    const csv = [
+      "Notes:",
+      '"When exporting your connection data, you may notice that some of the email addresses are missing."',
+      "",
+      "First Name,Last Name,URL,Email Address,Company,Position,Connected On",
+      "Jane,Doe,https://www.linkedin.com/in/janedoe,jane@example.com,Goldman Sachs,Analyst,01 Mar 2026",
+    ].join("\n");
+
+    const parsed = parseContactsCsv(csv);
+    expect(parsed.headers).toEqual([
+      "First Name",
+      "Last Name",
+      "URL",
+      "Email Address",
+      "Company",
+      "Position",
+      "Connected On",
+    ]);
+    expect(parsed.rows).toHaveLength(1);
+    expect(parsed.rows[0][4]).toBe("Goldman Sachs");
+  });
+
+  it("uses the first row as headers when none are recognised", () => {
+    expect(parseContactsCsv("foo,bar\n1,2")).toEqual({ headers: ["foo", "bar"], rows: [["1", "2"]] });
+  });
+});
+
+describe("autoMapColumns", () => {
+  it("maps each field to its first matching column only", () => {
+    expect(autoMapColumns(["Name", "Company", "Notes", "Full Name"])).toEqual({
+      0: "name",
+      1: "firm",
+      2: null,
+      3: null,
+    });
+  });
+});
+
+describe("parseConnectionType", () => {
+  it("matches by value or label", () => {
+    expect(parseConnectionType("alumni")).toBe("alumni");
+    expect(parseConnectionType("Cold Outreach")).toBe("cold");
+    expect(parseConnectionType(" REFERRAL ")).toBe("referral");
+  });
+
+  it("returns null for unknown values", () => {
+    expect(parseConnectionType("coworker")).toBeNull();
+  });
+});
+
+describe("parseStage", () => {
+  const stages = [...DEFAULT_STAGES, { key: "coffee", label: "Grabbed Coffee", color: "amber" as const, show_on_board: true }];
+
+  it("matches built-in and custom stages by key or label", () => {
+    expect(parseStage("call_done", stages)).toBe("call_done");
+    expect(parseStage("Call Done", stages)).toBe("call_done");
+    expect(parseStage("grabbed coffee", stages)).toBe("coffee");
+  });
+
+  it("returns null for stages the user doesn't have", () => {
+    expect(parseStage("Ghosted", stages)).toBeNull();
+  });
+});
+
+describe("createDuplicateChecker", () => {
+  it("matches existing contacts by email or by name plus firm", () => {
+    const isDuplicate = createDuplicateChecker([
+      { name: "Jane Doe", firm: "Evercore", email: "JANE@example.com" },
+    ]);
+    expect(isDuplicate({ name: "Someone Else", firm: null, email: "jane@example.com " })).toBe(true);
+    expect(isDuplicate({ name: "jane doe", firm: "EVERCORE", email: null })).toBe(true);
+    expect(isDuplicate({ name: "Jane Doe", firm: "Lazard", email: null })).toBe(false);
+  });
+
+  it("remembers contacts it has seen, so repeated rows are caught", () => {
+    const isDuplicate = createDuplicateChecker([]);
+    expect(isDuplicate({ name: "John Roe", firm: "Centerview", email: null })).toBe(false);
+    expect(isDuplicate({ name: "John Roe", firm: "Centerview", email: null })).toBe(true);
+  });
+
+  it("never treats a contact with only a name as a duplicate", () => {
+    const isDuplicate = createDuplicateChecker([{ name: "John Roe", firm: null, email: null }]);
+    expect(isDuplicate({ name: "John Roe", firm: null, email: null })).toBe(false);
+  });
+});
+
+describe("buildImportRows", () => {
+  const build = (csv: string, existing: { name: string; firm: string | null; email: string | null }[] = []) => {
+    const parsed = parseContactsCsv(csv);
+    return buildImportRows(parsed, autoMapColumns(parsed.headers), existing, DEFAULTS, DEFAULT_STAGES);
+  };
+
+  it("joins first and last names and fills in defaults", () => {
+    const [row] = build("First Name,Last Name,Company\nJane,Doe,Moelis");
+    expect(row).toEqual({
+      rowNumber: 1,
+      contact: {
+        name: "Jane Doe",
+        firm: "Moelis",
+        group_name: null,
+        position: null,
+        email: null,
+        connection_type: "cold",
+        stage: "researching",
+      },
+      status: "valid",
+      errors: [],
+    });
+  });
+
+  it("parses connection type and stage columns", () => {
+    const [row] = build("Name,Connection Type,Stage\nJane Doe,Alumni,Messaged");
+    expect(row.contact.connection_type).toBe("alumni");
+    expect(row.contact.stage).toBe("messaged");
+  });
+
+  it("flags missing names, bad emails and unknown values", () => {
+    const [row] = build("Name,Email,Connection Type,Stage\n,not-an-email,coworker,Ghosted");
+    expect(row.status).toBe("invalid");
+    expect(row.errors).toEqual([
+      "Missing name",
+      'Invalid email "not-an-email"',
+      'Unknown connection type "coworker"',
+      'Unknown stage "Ghosted"',
+    ]);
+  });
+
+  it("marks duplicates of existing contacts and of earlier rows", () => {
+    const rows = build(
+      "Name,Company,Email\nJane Doe,Evercore,\nJohn Roe,PJT,john@example.com\nJ. Roe,,john@example.com",
+      [{ name: "Jane Doe", firm: "Evercore", email: null }]
+    );
+    expect(rows.map((r) => r.status)).toEqual(["duplicate", "valid", "duplicate"]);
+  });
+
+  it("leaves invalid rows out of duplicate tracking", () => {
+    const rows = build("Name,Email\nJane Doe,bad\nJane Doe,jane@example.com\n,jane@example.com");
+    expect(rows.map((r) => r.status)).toEqual(["invalid", "valid", "invalid"]);
+  });
+});
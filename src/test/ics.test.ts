@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { callEventToIcs, icsFileName } from "@/lib/ics";
+import { buildCalendarFeed, foldLine, type IcsCallEvent } from "../../supabase/functions/_shared/ics";
+
+const EVENT = {
+  id: "call-1",
+  title: "Coffee chat with Jane",
+  start_at: "2026-03-02T15:00:00.000Z",
+  end_at: "2026-03-02T15:30:00.000Z",
+  location: null,
+  notes: null,
+  status: "scheduled" as const,
+  updated_at: "2026-02-20T09:15:30.123Z",
+};
+
+// Unfold continuation lines, then split into content lines
+function contentLines(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n").filter(Boolean);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-02-25T12:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("foldLine", () => {
+  it("leaves lines of up to 75 octets alone", () => {
+    const line = "x".repeat(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it("folds long lines with CRLF and a space, 75 octets per line", () => {
+    const folded = foldLine("x".repeat(200));
+    const lines = folded.split("\r\n");
+    expect(lines[0]).toHaveLength(75);
+    expect(lines.slice(1).every((l) => l.startsWith(" ") && l.length <= 75)).toBe(true);
+    expect(folded.replace(/\r\n /g, "")).toBe("x".repeat(200));
+  });
+
+  it("counts octets and never splits a multi-byte character", () => {
+    const folded = foldLine("é".repeat(50));
+    const encoder = new TextEncoder();
+    for (const line of folded.split("\r\n")) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe("é".repeat(50));
+  });
+});
+
+describe("callEventToIcs", () => {
+  it("writes a published event in UTC", () => {
+    expect(callEventToIcs(EVENT)).toBe(
+      [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//OfferReady//Calls//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "BEGIN:VEVENT",
+        "UID:call-1@offerready.net",
+        "DTSTAMP:20260225T120000Z",
+        "LAST-MODIFIED:20260220T091530Z",
+        "DTSTART:20260302T150000Z",
+        "DTEND:20260302T153000Z",
+        "SUMMARY:Coffee chat with Jane",
+        "STATUS:CONFIRMED",
+        "END:VEVENT",
+        "END:VCALENDAR",
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("escapes text and marks canceled calls", () => {
+    const lines = contentLines(
+      callEventToIcs({
+        ...EVENT,
+        title: "Call; Jane, Evercore",
+        location: "Zoom \\ 123",
+        notes: "Ask about:\nthe group",
+        status: "canceled",
+      })
+    );
+    expect(lines).toContain("SUMMARY:Call\\; Jane\\, Evercore");
+    expect(lines).toContain("LOCATION:Zoom \\\\ 123");
+    expect(lines).toContain("DESCRIPTION:Ask about:\\nthe group");
+    expect(lines).toContain("STATUS:CANCELLED");
+  });
+
+  it("is an invitation when there's an organizer and an attendee", () => {
+    const lines = contentLines(
+      callEventToIcs(EVENT, {
+        organizer: { name: "Alex Student", email: "alex@example.edu" },
+        attendee: { name: 'Jane "JD" Doe', email: "jane@example.com" },
+      })
+    );
+    expect(lines).toContain("METHOD:REQUEST");
+    expect(lines).toContain('ORGANIZER;CN="Alex Student":mailto:alex@example.edu');
+    expect(lines).toContain(
+      'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;CN="Jane JD Doe":mailto:jane@example.com'
+    );
+  });
+
+  it("keeps line breaks and other control characters out of names", () => {
+    const lines = contentLines(
+      callEventToIcs(EVENT, {
+        organizer: { name: "Alex Student", email: "alex@example.edu" },
+        attendee: { name: "Jane\r\nDoe\t", email: "jane@example.com" },
+      })
+    );
+    expect(lines).toContain(
+      'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;CN="Jane Doe":mailto:jane@example.com'
+    );
+    expect(lines).toContain("END:VEVENT");
+  });
+
+  it("stays published with only an organizer", () => {
+    const lines = contentLines(callEventToIcs(EVENT, { organizer: { name: "Alex", email: "alex@example.edu" } }));
+    expect(lines).toContain("METHOD:PUBLISH");
+    expect(lines.some((l) => l.startsWith("ATTENDEE"))).toBe(false);
+  });
+
+  it("folds long lines", () => {
+    const ics = callEventToIcs({ ...EVENT, notes: "n".repeat(200) });
+    expect(ics.split("\r\n").every((line) => line.length <= 75)).toBe(true);
+    expect(contentLines(ics)).toContain(`DESCRIPTION:${"n".repeat(200)}`);
+  });
+});
+
+describe("icsFileName", () => {
+  it("slugs the title", () => {
+    expect(icsFileName("Coffee chat with Jane")).toBe("coffee-chat-with-jane.ics");
+    expect(icsFileName("  Call: J.P. Morgan (M&A)! ")).toBe("call-j-p-morgan-m-a.ics");
+  });
+
+  it("falls back to a generic name", () => {
+    expect(icsFileName("☕")).toBe("call.ics");
+  });
+});
+
+describe("buildCalendarFeed", () => {
+  const feedEvent: IcsCallEvent = {
+    ...EVENT,
+    contact: { name: "Jane Doe", firm: "Evercore", email: "jane@example.com" },
+  };
+
+  it("wraps every call in one named calendar", () => {
+    const lines = contentLines(
+      buildCalendarFeed([feedEvent, { ...feedEvent, id: "call-2", status: "canceled", contact: null }], "OfferReady Calls")
+    );
+    expect(lines.slice(0, 8)).toEqual([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//OfferReady//Calls//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:OfferReady Calls",
+      "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+      "X-PUBLISHED-TTL:PT1H",
+    ]);
+    expect(lines.filter((l) => l === "BEGIN:VEVENT")).toHaveLength(2);
+    expect(lines).toContain("UID:call-2@offerready.net");
+    expect(lines).toContain("STATUS:CANCELLED");
+    expect(lines[lines.length - 1]).toBe("END:VCALENDAR");
+  });
+
+  it("describes the contact ahead of the notes", () => {
+    const lines = contentLines(buildCalendarFeed([{ ...feedEvent, notes: "Bring resume" }], "Calls"));
+    expect(lines).toContain("DESCRIPTION:Contact: Jane Doe (Evercore)\\n\\nEmail: jane@example.com\\n\\nBring resume");
+  });
+
+  it("leaves out the description when there's nothing to say", () => {
+    const lines = contentLines(buildCalendarFeed([{ ...feedEvent, contact: null }], "Calls"));
+    expect(lines.some((l) => l.startsWith("DESCRIPTION"))).toBe(false);
+  });
+
+  it("is an empty calendar without calls", () => {
+    expect(contentLines(buildCalendarFeed([], "Calls"))).not.toContain("BEGIN:VEVENT");
+  });
+});
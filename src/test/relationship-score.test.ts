@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  DECAY_HALF_LIFE_DAYS,
+  STALE_AFTER_DAYS,
+  isGoingStale,
+  pointsToStrength,
+  scoreRelationship,
+  type RelationshipScore,
+} from "@/lib/relationship-score";
+import { DEFAULT_STAGES, type InteractionType, type StageDefinition } from "@/lib/types";
+
+const NOW = new Date("2026-03-31T12:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * DAY_MS).toISOString();
+}
+
+function interaction(type: InteractionType, ageDays: number) {
+  return { type, date: daysAgo(ageDays) };
+}
+
+describe("pointsToStrength", () => {
+  it("maps points onto strengths 1-5", () => {
+    expect(pointsToStrength(0)).toBe(1);
+    expect(pointsToStrength(0.99)).toBe(1);
+    expect(pointsToStrength(1)).toBe(2);
+    expect(pointsToStrength(2.5)).toBe(3);
+    expect(pointsToStrength(4.5)).toBe(4);
+    expect(pointsToStrength(6.99)).toBe(4);
+    expect(pointsToStrength(7)).toBe(5);
+  });
+});
+
+describe("scoreRelationship", () => {
+  const contact = { stage: "messaged", last_contacted_at: null };
+
+  it("scores a contact with no history as 1", () => {
+    expect(scoreRelationship(contact, [], DEFAULT_STAGES, NOW)).toEqual({
+      suggested: 1,
+      points: 0,
+      factors: [],
+      daysSinceContact: null,
+    });
+  });
+
+  it("weights interactions by type and groups them into factors", () => {
+    const score = scoreRelationship(
+      contact,
+      [interaction("coffee_chat", 0), interaction("email", 0), interaction("email", 0)],
+      DEFAULT_STAGES,
+      NOW
+    );
+    expect(score.factors).toEqual([
+      { label: "Coffee Chat", detail: "1 logged, worth 3 each when fresh", points: 3 },
+      { label: "Email", detail: "2 logged, worth 1 each when fresh", points: 2 },
+    ]);
+    expect(score.points).toBe(5);
+    expect(score.suggested).toBe(4);
+    expect(score.daysSinceContact).toBe(0);
+  });
+
+  it("halves an interaction's weight every half-life", () => {
+    const fresh = scoreRelationship(contact, [interaction("coffee_chat", 0)], DEFAULT_STAGES, NOW);
+    const halved = scoreRelationship(contact, [interaction("coffee_chat", DECAY_HALF_LIFE_DAYS)], DEFAULT_STAGES, NOW);
+    const quartered = scoreRelationship(contact, [interaction("coffee_chat", 2 * DECAY_HALF_LIFE_DAYS)], DEFAULT_STAGES, NOW);
+    expect(fresh.points).toBe(3);
+    expect(halved.points).toBe(1.5);
+    expect(quartered.points).toBe(0.8);
+  });
+
+  it("doesn't count future interactions for more than fresh ones", () => {
+    const score = scoreRelationship(contact, [interaction("call", -10)], DEFAULT_STAGES, NOW);
+    expect(score.points).toBe(2);
+  });
+
+  it("falls back to the last contact date when nothing is logged", () => {
+    const score = scoreRelationship({ stage: "messaged", last_contacted_at: daysAgo(DECAY_HALF_LIFE_DAYS) }, [], DEFAULT_STAGES, NOW);
+    expect(score.factors[0]).toEqual({
+      label: "Last contact",
+      detail: "No interactions logged, using the last contact date",
+      points: 0.5,
+    });
+    expect(score.daysSinceContact).toBe(DECAY_HALF_LIFE_DAYS);
+  });
+
+  it("adds a bonus for the stage by its place in the user's order", () => {
+    const bonus = (stage: string, stages: StageDefinition[] = DEFAULT_STAGES) =>
+      scoreRelationship({ stage, last_contacted_at: null }, [], stages, NOW).factors.find((f) => f.label === "Stage");
+
+    expect(bonus("messaged")).toBeUndefined();
+    expect(bonus("scheduled")).toEqual({ label: "Stage", detail: "Scheduled", points: 0.5 });
+    expect(bonus("call_done")?.points).toBe(1);
+    expect(bonus("offer")?.points).toBe(2);
+
+    // A custom stage placed before Call Done earns nothing
+    const custom: StageDefinition[] = [
+      ...DEFAULT_STAGES.slice(0, 3),
+      { key: "prep", label: "Prep", color: "amber", show_on_board: true },
+      ...DEFAULT_STAGES.slice(3),
+    ];
+    expect(bonus("prep", custom)).toBeUndefined();
+  });
+
+  it("notes the time without contact after a week", () => {
+    const recent = scoreRelationship(contact, [interaction("email", 6)], DEFAULT_STAGES, NOW);
+    expect(recent.factors.some((f) => f.label === "Time without contact")).toBe(false);
+
+    const quiet = scoreRelationship(contact, [interaction("email", 45), interaction("email", 90)], DEFAULT_STAGES, NOW);
+    expect(quiet.daysSinceContact).toBe(45);
+    expect(quiet.factors.find((f) => f.label === "Time without contact")).toEqual({
+      label: "Time without contact",
+      detail: "45 days since you last spoke; your latest touch now counts 50% of full weight",
+      points: 0,
+    });
+  });
+});
+
+describe("isGoingStale", () => {
+  const score = (suggested: number, daysSinceContact: number | null): RelationshipScore => ({
+    suggested,
+    points: 0,
+    factors: [],
+    daysSinceContact,
+  });
+  const contact = { relationship_strength: 4, relationship_strength_pinned: false };
+
+  it("flags decent relationships that have gone quiet and dropped", () => {
+    expect(isGoingStale(contact, score(2, STALE_AFTER_DAYS))).toBe(true);
+    expect(isGoingStale(contact, score(2, null))).toBe(true);
+  });
+
+  it("leaves recent, weak, pinned or unchanged relationships alone", () => {
+    expect(isGoingStale(contact, score(2, STALE_AFTER_DAYS - 1))).toBe(false);
+    expect(isGoingStale({ ...contact, relationship_strength: 2 }, score(1, 60))).toBe(false);
+    expect(isGoingStale({ ...contact, relationship_strength_pinned: true }, score(2, 60))).toBe(false);
+    expect(isGoingStale(contact, score(4, 60))).toBe(false);
+  });
+});
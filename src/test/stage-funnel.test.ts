@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { buildFunnelByConnectionType, buildFunnelReport, median } from "@/lib/stage-funnel";
+import type { Contact, ContactStageEvent, StageEventSource } from "@/lib/types";
+
+const STAGES = ["researching", "messaged", "scheduled", "call_done"];
+
+function makeContact(id: string, stage: string, connectionType: Contact["connection_type"] = "cold"): Contact {
+  return { id, stage, connection_type: connectionType } as Contact;
+}
+
+let eventId = 0;
+function makeEvent(
+  contactId: string,
+  fromStage: string | null,
+  toStage: string,
+  createdAt: string,
+  source: StageEventSource = "manual"
+): ContactStageEvent {
+  eventId++;
+  return {
+    id: `event-${eventId}`,
+    user_id: "user-1",
+    contact_id: contactId,
+    from_stage: fromStage,
+    to_stage: toStage,
+    source,
+    created_at: createdAt,
+  };
+}
+
+describe("median", () => {
+  it("returns null for no values", () => {
+    expect(median([])).toBeNull();
+  });
+
+  it("takes the middle value, or the mean of the two middle values", () => {
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+});
+
+describe("buildFunnelReport", () => {
+  it("counts a contact as reaching every stage up to its current one", () => {
+    const report = buildFunnelReport(
+      [makeContact("a", "researching"), makeContact("b", "messaged"), makeContact("c", "call_done")],
+      [],
+      STAGES
+    );
+    expect(report.total).toBe(3);
+    expect(report.stages.map((s) => s.reached)).toEqual([3, 2, 1, 1]);
+    expect(report.stages.map((s) => s.conversionToNext)).toEqual([2 / 3, 1 / 2, 1, null]);
+    expect(report.stages.map((s) => s.conversionFromStart)).toEqual([1, 2 / 3, 1 / 3, 1 / 3]);
+  });
+
+  it("counts the furthest stage ever reached for contacts moved back", () => {
+    const report = buildFunnelReport(
+      [makeContact("a", "messaged")],
+      [
+        makeEvent("a", null, "researching", "2026-03-01T00:00:00Z"),
+        makeEvent("a", "researching", "scheduled", "2026-03-02T00:00:00Z"),
+        makeEvent("a", "scheduled", "messaged", "2026-03-03T00:00:00Z"),
+      ],
+      STAGES
+    );
+    expect(report.stages.map((s) => s.reached)).toEqual([1, 1, 1, 0]);
+  });
+
+  it("takes the median days over completed stints, in event order", () => {
+    const report = buildFunnelReport(
+      [makeContact("a", "scheduled"), makeContact("b", "scheduled")],
+      [
+        // Out of order on purpose: events are sorted by created_at per contact
+        makeEvent("a", "messaged", "scheduled", "2026-03-05T00:00:00Z"),
+        makeEvent("a", null, "messaged", "2026-03-01T00:00:00Z"),
+        makeEvent("b", null, "messaged", "2026-03-01T00:00:00Z"),
+        makeEvent("b", "messaged", "scheduled", "2026-03-03T12:00:00Z"),
+      ],
+      STAGES
+    );
+    const byStage = Object.fromEntries(report.stages.map((s) => [s.stage, s.medianDays]));
+    expect(byStage.messaged).toBe(3.25);
+    // Both contacts are still in scheduled, so there's no completed stint yet
+    expect(byStage.scheduled).toBeNull();
+  });
+
+  it("counts stage changes by source, leaving out creation events", () => {
+    const report = buildFunnelReport(
+      [makeContact("a", "call_done")],
+      [
+        makeEvent("a", null, "researching", "2026-03-01T00:00:00Z", "import"),
+        makeEvent("a", "researching", "messaged", "2026-03-02T00:00:00Z", "inbound_email"),
+        makeEvent("a", "messaged", "scheduled", "2026-03-03T00:00:00Z", "gcal_sync"),
+        makeEvent("a", "scheduled", "call_done", "2026-03-04T00:00:00Z"),
+      ],
+      STAGES
+    );
+    expect(report.changesBySource).toEqual({
+      manual: 1,
+      import: 0,
+      gcal_sync: 1,
+      inbound_email: 1,
+      outlook_sync: 0,
+    });
+  });
+
+  it("ignores events of contacts outside the funnel", () => {
+    const report = buildFunnelReport(
+      [makeContact("a", "researching")],
+      [makeEvent("other", "researching", "call_done", "2026-03-01T00:00:00Z")],
+      STAGES
+    );
+    expect(report.stages.map((s) => s.reached)).toEqual([1, 0, 0, 0]);
+    expect(report.changesBySource.manual).toBe(0);
+  });
+
+  it("has no conversion rates for an empty funnel", () => {
+    const report = buildFunnelReport([], [], STAGES);
+    expect(report.total).toBe(0);
+    expect(report.stages.every((s) => s.conversionToNext === null && s.conversionFromStart === null)).toBe(true);
+  });
+
+  it("follows the user's stage order", () => {
+    const report = buildFunnelReport([makeContact("a", "messaged")], [], ["messaged", "researching"]);
+    expect(report.stages.map((s) => [s.stage, s.reached])).toEqual([
+      ["messaged", 1],
+      ["researching", 0],
+    ]);
+  });
+});
+
+describe("buildFunnelByConnectionType", () => {
+  it("builds one report per connection type", () => {
+    const funnels = buildFunnelByConnectionType(
+      [makeContact("a", "messaged", "alumni"), makeContact("b", "researching", "cold"), makeContact("c", "call_done", "alumni")],
+      [],
+      STAGES
+    );
+    const byType = Object.fromEntries(funnels.map((f) => [f.connectionType, f.report]));
+    expect(funnels.map((f) => f.connectionType)).toEqual(["cold", "alumni", "friend", "referral"]);
+    expect(byType.alumni.total).toBe(2);
+    expect(byType.alumni.stages.map((s) => s.reached)).toEqual([2, 2, 1, 1]);
+    expect(byType.cold.total).toBe(1);
+    expect(byType.friend.total).toBe(0);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * In-memory stand-in for the parts of the Google Calendar API the gcal-*
+ * functions use, for trying the sync and push notifications locally.
+ *
+ *   deno run --allow-net supabase/functions/_dev/google-calendar-stub.ts
+ *
+ * Then serve the functions against it, e.g. with these in an env file:
+ *   GOOGLE_API_BASE_URL=http://host.docker.internal:8787
+ *   GOOGLE_TOKEN_URL=http://host.docker.internal:8787/token
+ *   GCAL_WEBHOOK_URL=http://host.docker.internal:54321/functions/v1/gcal-webhook
+ *
+ * Calling gcal-watch opens a channel here. To play the user editing their
+ * calendar in Google, POST an event to /_stub/events (an `id` updates that
+ * event, `status: 'cancelled'` cancels it); every open channel is notified.
+ * GET /_stub/events shows the calendar as the functions left it.
+ * POST /_stub/expire-sync-tokens makes the next incremental list return 410.
+ */
+
+interface StubEvent {
+  id: string;
+  status: 'confirmed' | 'cancelled';
+  summary?: string;
+  description?: string;
+  location?: string;
+  start?: { dateTime?: string; date?: string; timeZone?: string };
+  end?: { dateTime?: string; date?: string; timeZone?: string };
+  attendees?: { email: string; displayName?: string; self?: boolean }[];
+  updated: string;
+  /** Change counter; sync tokens are the counter value at the time of listing */
+  seq: number;
+}
+
+interface StubChannel {
+  id: string;
+  token: string;
+  address: string;
+  messageNumber: number;
+}
+
+const PORT = Number(Deno.env.get('PORT') ?? 8787);
+const RESOURCE_ID = 'stub-calendar-resource';
+
+const events = new Map<string, StubEvent>();
+const channels = new Map<string, StubChannel>();
+let seq = 0;
+let oldestValidSyncToken = 0;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function save(fields: Partial<StubEvent> & { id?: string }): StubEvent {
+  const id = fields.id ?? crypto.randomUUID().replaceAll('-', '');
+  const event: StubEvent = {
+    status: 'confirmed',
+    ...events.get(id),
+    ...fields,
+    id,
+    updated: new Date().toISOString(),
+    seq: ++seq,
+  };
+  events.set(id, event);
+  return event;
+}
+
+async function notify(channel: StubChannel, state: 'sync' | 'exists') {
+  try {
+    const resp = await fetch(channel.address, {
+      method: 'POST',
+      headers: {
+        'X-Goog-Channel-ID': channel.id,
+        'X-Goog-Channel-Token': channel.token,
+        'X-Goog-Resource-ID': RESOURCE_ID,
+        'X-Goog-Resource-State': state,
+        'X-Goog-Message-Number': String(channel.messageNumber++),
+      },
+    });
+    console.log(`Notified ${channel.id} (${state}):`, resp.status, await resp.text());
+  } catch (error) {
+    console.error(`Failed to notify ${channel.id}:`, error);
+  }
+}
+
+function listEvents(url: URL): Response {
+  const syncToken = url.searchParams.get('syncToken');
+  const timeMin = url.searchParams.get('timeMin');
+
+  let items = Array.from(events.values());
+  if (syncToken) {
+    if (Number(syncToken) < oldestValidSyncToken) {
+      return json({ error: { code: 410, message: 'Sync token is no longer valid' } }, 410);
+    }
+    items = items.filter((e) => e.seq > Number(syncToken));
+  } else {
+    // A full listing leaves out cancelled events, like Google's
+    items = items.filter((e) => e.status !== 'cancelled');
+    if (timeMin) {
+      items = items.filter((e) => (e.end?.dateTime ?? e.end?.date ?? '') >= timeMin);
+    }
+  }
+
+  return json({
+    items: items.map(({ seq: _seq, ...event }) => event),
+    nextSyncToken: String(seq),
+  });
+}
+
+Deno.serve({ port: PORT }, async (req: Request) => {
+  const url = new URL(req.url);
+  const path = url.pathname;
+  console.log(req.method, path + url.search);
+
+  if (path === '/token') {
+    return json({ access_token: 'stub-access-token', expires_in: 3600 });
+  }
+
+  // Test controls
+  if (path === '/_stub/events' && req.method === 'GET') {
+    return json(Array.from(events.values()));
+  }
+  if (path === '/_stub/events' && req.method === 'POST') {
+    const event = save(await req.json());
+    await Promise.all(Array.from(channels.values()).map((c) => notify(c, 'exists')));
+    return json(event);
+  }
+  if (path === '/_stub/expire-sync-tokens' && req.method === 'POST') {
+    oldestValidSyncToken = seq + 1;
+    return json({ ok: true });
+  }
+
+  if (path === '/calendar/v3/channels/stop' && req.method === 'POST') {
+    const { id } = await req.json();
+    channels.delete(id);
+    return new Response(null, { status: 204 });
+  }
+
+  const match = path.match(/^\/calendar\/v3\/calendars\/[^/]+\/events(?:\/([^/]+))?$/);
+  if (!match) {
+    return json({ error: { code: 404, message: 'Not found' } }, 404);
+  }
+  const eventId = match[1] ? decodeURIComponent(match[1]) : null;
+
+  if (eventId === 'watch' && req.method === 'POST') {
+    const { id, token, address, params } = await req.json();
+    const channel: StubChannel = { id, token, address, messageNumber: 1 };
+    channels.set(id, channel);
+    // Google confirms a new channel with a 'sync' notification
+    queueMicrotask(() => notify(channel, 'sync'));
+    const ttlMs = Number(params?.ttl ?? 604800) * 1000;
+    return json({ kind: 'api#channel', id, resourceId: RESOURCE_ID, expiration: String(Date.now() + ttlMs) });
+  }
+
+  if (!eventId) {
+    if (req.method === 'GET') return listEvents(url);
+    if (req.method === 'POST') {
+      const { id: _id, ...fields } = await req.json();
+      return json(save(fields));
+    }
+  }
+
+  if (eventId) {
+    const existing = events.get(eventId);
+    if (!existing) {
+      return json({ error: { code: 404, message: 'Not found' } }, 404);
+    }
+    if (existing.status === 'cancelled') {
+      return json({ error: { code: 410, message: 'Resource has been deleted' } }, 410);
+    }
+    if (req.method === 'GET') return json(existing);
+    if (req.method === 'PUT') return json(save({ ...(await req.json()), id: eventId, status: 'confirmed' }));
+    if (req.method === 'PATCH') return json(save({ ...existing, ...(await req.json()), id: eventId }));
+    if (req.method === 'DELETE') {
+      save({ id: eventId, status: 'cancelled' });
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return json({ error: { code: 405, message: 'Method not allowed' } }, 405);
+});
@@ -0,0 +1,156 @@
+// Date math behind the availability put into emails: working hours in the
+// user's timezone, across DST changes, and the free ranges left by busy events.
+// Kept free of Deno and remote imports so it runs under the app's tests too.
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface AvailabilityPreferences {
+  timeZone: string;
+  startHour: number;
+  endHour: number;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The wall-clock date and time of an instant in a timezone
+export function zonedParts(ms: number, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(new Date(ms));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+// How far ahead of UTC a timezone is at an instant, in ms (negative west of UTC)
+export function timeZoneOffset(ms: number, timeZone: string): number {
+  const p = zonedParts(ms, timeZone);
+  const minuteMs = Math.floor(ms / 60_000) * 60_000;
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - minuteMs;
+}
+
+// The instant a wall-clock hour occurs in a timezone. The offset is checked
+// again at the result, since the first guess can land across a DST change.
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, timeZone: string): number {
+  const wall = Date.UTC(year, month - 1, day, hour, 0, 0);
+  const guess = wall - timeZoneOffset(wall, timeZone);
+  return wall - timeZoneOffset(guess, timeZone);
+}
+
+// e.g. "EST", "EDT", or "GMT+5:30" where the zone has no common abbreviation
+function timeZoneAbbreviation(ms: number, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(ms));
+  return parts.find((p) => p.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+// e.g. "9am", "12pm", "9:30am"
+function formatTime(ms: number, timeZone: string): string {
+  const { hour, minute } = zonedParts(ms, timeZone);
+  const suffix = hour < 12 ? 'am' : 'pm';
+  const h12 = hour % 12 === 0 ? 12 : hour % 12;
+  return minute === 0 ? `${h12}${suffix}` : `${h12}:${String(minute).padStart(2, '0')}${suffix}`;
+}
+
+// A free range in a timezone, prefixed with the weekday when it falls on a
+// different day there than the user's, e.g. "Tue 9am - 12pm"
+function formatRange(
+  range: { start: number; end: number },
+  timeZone: string,
+  userDay: { year: number; month: number; day: number },
+): string {
+  const local = zonedParts(range.start, timeZone);
+  const text = `${formatTime(range.start, timeZone)} - ${formatTime(range.end, timeZone)}`;
+  if (local.year === userDay.year && local.month === userDay.month && local.day === userDay.day) return text;
+  const weekday = DAY_NAMES[new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay()].slice(0, 3);
+  return `${weekday} ${text}`;
+}
+
+// One line per weekday after the given date (up to five), listing the whole
+// working hours not overlapped by a busy interval
+export function findDailyAvailability(
+  busyIntervals: { start: string; end: string }[],
+  year: number,
+  month: number,
+  dayOfMonth: number,
+  preferences: AvailabilityPreferences,
+  contactTimeZone: string | null,
+): string[] {
+  const { timeZone, startHour, endHour } = preferences;
+  const results: string[] = [];
+  let weekdaysFound = 0;
+
+  // Pre-parse all busy intervals into UTC millisecond pairs
+  const busyMs = busyIntervals.map((b) => ({
+    start: new Date(b.start).getTime(),
+    end: new Date(b.end).getTime(),
+  }));
+
+  for (let d = 1; weekdaysFound < 5 && d <= 14; d++) {
+    // Calendar arithmetic on the user's local date; noon UTC keeps it on the right day
+    const day = new Date(Date.UTC(year, month - 1, dayOfMonth + d, 12, 0, 0));
+
+    const dow = day.getUTCDay();
+    if (dow === 0 || dow === 6) continue;
+    weekdaysFound++;
+
+    const userDay = { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate() };
+    const hourStart = (h: number) => zonedTimeToUtc(userDay.year, userDay.month, userDay.day, h, timeZone);
+
+    // Build free ranges from non-busy working hours, in UTC ms
+    const freeRanges: { start: number; end: number }[] = [];
+    let rangeStart: number | null = null;
+
+    for (let h = startHour; h < endHour; h++) {
+      const slotStart = hourStart(h);
+      const slotEnd = hourStart(h + 1);
+      const busy = busyMs.some((b) => b.start < slotEnd && b.end > slotStart);
+
+      if (!busy) {
+        if (rangeStart === null) rangeStart = slotStart;
+      } else if (rangeStart !== null) {
+        freeRanges.push({ start: rangeStart, end: slotStart });
+        rangeStart = null;
+      }
+    }
+    if (rangeStart !== null) {
+      freeRanges.push({ start: rangeStart, end: hourStart(endHour) });
+    }
+
+    if (freeRanges.length === 0) continue;
+
+    const dayLabel = `${DAY_NAMES[dow]} (${userDay.month}/${userDay.day})`;
+    const firstSlot = freeRanges[0].start;
+    let line = `${dayLabel}: ${freeRanges.map((r) => formatRange(r, timeZone, userDay)).join('; ')} ${timeZoneAbbreviation(firstSlot, timeZone)}`;
+
+    // The contact's local times, when they differ from the user's that day
+    if (contactTimeZone && timeZoneOffset(firstSlot, contactTimeZone) !== timeZoneOffset(firstSlot, timeZone)) {
+      const contactRanges = freeRanges.map((r) => formatRange(r, contactTimeZone, userDay)).join('; ');
+      line += ` (${contactRanges} ${timeZoneAbbreviation(firstSlot, contactTimeZone)})`;
+    }
+
+    results.push(line);
+  }
+
+  return results;
+}
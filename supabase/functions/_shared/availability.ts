@@ -0,0 +1,110 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  findDailyAvailability,
+  isValidTimeZone,
+  zonedParts,
+  type AvailabilityPreferences,
+} from './availability-slots.ts';
+import { eventsUrl, getGoogleAccess, type GoogleEvent } from './google-calendar.ts';
+
+// Free time over the next five weekdays, within the user's working hours in
+// their own timezone, from their Google Calendar when connected. Shared by the
+// functions that put availability into emails.
+
+export interface ClientDate {
+  year?: number;
+  month?: number;
+  day?: number;
+}
+
+// Used until the user sets their own timezone and working hours
+const DEFAULT_TIME_ZONE = 'America/New_York';
+const DEFAULT_START_HOUR = 9;  // 9am
+const DEFAULT_END_HOUR = 22;   // 10pm
+
+async function getAvailabilityPreferences(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+): Promise<AvailabilityPreferences> {
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('timezone, working_hours_start, working_hours_end')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const startHour = profile?.working_hours_start ?? DEFAULT_START_HOUR;
+  const endHour = profile?.working_hours_end ?? DEFAULT_END_HOUR;
+  const validHours = startHour >= 0 && endHour <= 24 && startHour < endHour;
+
+  return {
+    timeZone: isValidTimeZone(profile?.timezone) ? profile.timezone : DEFAULT_TIME_ZONE,
+    startHour: validHours ? startHour : DEFAULT_START_HOUR,
+    endHour: validHours ? endHour : DEFAULT_END_HOUR,
+  };
+}
+
+/**
+ * One line per weekday with the user's free ranges within their working hours,
+ * in their timezone, e.g. "Monday (3/2): 9am - 12pm; 2pm - 10pm EST". When the
+ * contact's timezone is known and differs, their local times follow in
+ * parentheses: "... EST (6am - 9am; 11am - 7pm PST)". Counted from the
+ * client's local date, since the server's UTC date can already be tomorrow.
+ */
+export async function getAvailabilityLines(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+  clientDate: ClientDate,
+  contactTimeZone: string | null = null,
+): Promise<string[]> {
+  const preferences = await getAvailabilityPreferences(supabaseAdmin, userId);
+  const contactZone = isValidTimeZone(contactTimeZone) ? contactTimeZone : null;
+
+  let availabilityLines: string[] = [];
+  // Without a client date, today in the user's timezone
+  const today = zonedParts(Date.now(), preferences.timeZone);
+  const cy = clientDate.year || today.year;
+  const cm = clientDate.month || today.month;
+  const cd = clientDate.day || today.day;
+
+  // Without a connected calendar, every working hour counts as free
+  const access = await getGoogleAccess(supabaseAdmin, userId);
+  if (access.error === undefined) {
+    try {
+      const anchor = new Date(Date.UTC(cy, cm - 1, cd, 12, 0, 0));
+      const future = new Date(anchor.getTime() + 14 * 24 * 60 * 60 * 1000);
+
+      const params = new URLSearchParams({
+        timeMin: anchor.toISOString(),
+        timeMax: future.toISOString(),
+        singleEvents: 'true',
+        orderBy: 'startTime',
+        maxResults: '250',
+      });
+
+      const gcalResp = await fetch(`${eventsUrl(access.tokenRow.calendar_id)}?${params}`, {
+        headers: { Authorization: `Bearer ${access.accessToken}` },
+      });
+
+      if (gcalResp.ok) {
+        const gcalData: { items?: GoogleEvent[] } = await gcalResp.json();
+        const busyIntervals = (gcalData.items ?? [])
+          .filter((item) => item.status !== 'cancelled' && item.start?.dateTime && item.end?.dateTime)
+          .map((item) => ({
+            start: item.start!.dateTime!,
+            end: item.end!.dateTime!,
+          }));
+
+        availabilityLines = findDailyAvailability(busyIntervals, cy, cm, cd, preferences, contactZone);
+      }
+    } catch (e) {
+      console.warn('Failed to fetch calendar availability:', e);
+    }
+  }
+
+  // If no gcal or no results, generate default availability (all day free for next 5 weekdays)
+  if (availabilityLines.length === 0) {
+    availabilityLines = findDailyAvailability([], cy, cm, cd, preferences, contactZone);
+  }
+
+  return availabilityLines;
+}
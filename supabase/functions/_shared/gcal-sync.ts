@@ -0,0 +1,541 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  buildGoogleEvent,
+  eventTimes,
+  eventsUrl,
+  getGoogleAccess,
+  type GoogleEvent,
+  type GoogleTokenRow,
+} from './google-calendar.ts';
+import { advanceToScheduled, getStageOrder } from './stages.ts';
+
+/**
+ * Two-way sync between Google Calendar and a user's calls, run by
+ * gcal-sync-calls when the user asks and by gcal-webhook when Google reports
+ * a change.
+ *
+ * The first sync lists every event from timeMin on and stores Google's sync
+ * token; later syncs only fetch events changed since then. If Google expires
+ * the token (410 Gone) the sync starts over with a full listing.
+ *
+ *  1. Calls deleted in the app delete their Google event
+ *  2. Changed events that are already calls are reconciled:
+ *     - changed only in Google: the reschedule, rename or cancellation is
+ *       applied to the call (a canceled call moves its contact from
+ *       'scheduled' back to 'messaged')
+ *     - changed only in the app: the change is pushed to Google, and a
+ *       canceled call deletes its Google event
+ *     - changed on both sides: a cancellation on either side wins, otherwise
+ *       the most recent edit wins
+ *     Completed calls are never changed by a sync.
+ *  3. New events between timeMin and timeMax with attendees:
+ *     - For each non-self attendee email that matches a contact, create a
+ *       call_event and move the contact to 'scheduled' stage, unless it is
+ *       already past it in the user's own stage order
+ *     - Unmatched attendees are returned for the user to review; syncs the
+ *       user didn't start hold them until the user's next sync
+ *
+ * Only one sync runs per user at a time; a second one gets a 409.
+ */
+
+// Longer than an edge function can run, so a crashed sync never holds the lock for long
+const SYNC_LOCK_MS = 5 * 60 * 1000;
+
+export interface PendingContact {
+  email: string;
+  displayName: string;
+  gcalEventId: string;
+  eventTitle: string;
+  startAt: string;
+  endAt: string;
+  location: string | null;
+  notes: string | null;
+}
+
+export interface SyncResult {
+  synced: number;
+  updated: number;
+  canceled: number;
+  pushed: number;
+  deleted: number;
+  conflicts: number;
+  skipped: number;
+  pending_contacts: PendingContact[];
+}
+
+/** timeMin also bounds the first listing; new events outside the window aren't imported as calls */
+export interface SyncWindow {
+  timeMin?: string;
+  timeMax?: string;
+}
+
+function mergePendingContacts(a: PendingContact[], b: PendingContact[]): PendingContact[] {
+  const byEmail = new Map<string, PendingContact>();
+  for (const contact of [...a, ...b]) {
+    if (!byEmail.has(contact.email)) byEmail.set(contact.email, contact);
+  }
+  return Array.from(byEmail.values());
+}
+
+/** Keep attendees found by a sync the user didn't start, for their next sync */
+export async function holdPendingContacts(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+  contacts: PendingContact[],
+): Promise<void> {
+  if (contacts.length === 0) return;
+  const { data } = await supabaseAdmin
+    .from('user_google_tokens')
+    .select('pending_contacts')
+    .eq('user_id', userId)
+    .single();
+  await supabaseAdmin
+    .from('user_google_tokens')
+    .update({ pending_contacts: mergePendingContacts(data?.pending_contacts ?? [], contacts) })
+    .eq('user_id', userId);
+}
+
+/** Attendees held by holdPendingContacts plus `contacts`, clearing the held ones */
+export async function takeHeldPendingContacts(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+  contacts: PendingContact[],
+): Promise<PendingContact[]> {
+  const { data } = await supabaseAdmin
+    .from('user_google_tokens')
+    .select('pending_contacts')
+    .eq('user_id', userId)
+    .single();
+  const held: PendingContact[] = data?.pending_contacts ?? [];
+  if (held.length === 0) return contacts;
+
+  await supabaseAdmin
+    .from('user_google_tokens')
+    .update({ pending_contacts: [] })
+    .eq('user_id', userId);
+  return mergePendingContacts(held, contacts);
+}
+
+type SyncOutcome =
+  | { result: SyncResult; error?: undefined }
+  | { error: string; status: number };
+
+interface SyncedCallRow {
+  id: string;
+  contact_id: string;
+  title: string;
+  start_at: string;
+  end_at: string;
+  location: string | null;
+  status: 'scheduled' | 'completed' | 'canceled';
+  external_event_id: string;
+  external_updated_at: string | null;
+  synced_at: string | null;
+  updated_at: string;
+}
+
+class SyncTokenExpiredError extends Error {}
+
+// Every event changed since syncToken, or every event from timeMin on when
+// there's no token yet, plus the token for the next sync
+async function listChangedEvents(
+  baseUrl: string,
+  googleAccessToken: string,
+  syncToken: string | null,
+  timeMin: string,
+): Promise<{ items: GoogleEvent[]; nextSyncToken: string | null }> {
+  const items: GoogleEvent[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | null = null;
+
+  do {
+    const params = new URLSearchParams({ singleEvents: 'true', maxResults: '250' });
+    if (syncToken) {
+      params.set('syncToken', syncToken);
+    } else {
+      params.set('timeMin', timeMin);
+    }
+    if (pageToken) params.set('pageToken', pageToken);
+
+    const resp = await fetch(`${baseUrl}?${params}`, {
+      headers: { Authorization: `Bearer ${googleAccessToken}` },
+    });
+    if (resp.status === 410) {
+      throw new SyncTokenExpiredError('Sync token expired');
+    }
+    if (!resp.ok) {
+      throw new Error(`GCal list failed: ${await resp.text()}`);
+    }
+
+    const page = await resp.json();
+    items.push(...(page.items ?? []));
+    pageToken = page.nextPageToken;
+    nextSyncToken = page.nextSyncToken ?? nextSyncToken;
+  } while (pageToken);
+
+  return { items, nextSyncToken };
+}
+
+function isAfter(a: string | null | undefined, b: string | null | undefined) {
+  if (!a) return false;
+  if (!b) return true;
+  return new Date(a).getTime() > new Date(b).getTime();
+}
+
+export async function syncGoogleCalendar(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+  userEmail: string | undefined,
+  syncWindow: SyncWindow,
+): Promise<SyncOutcome> {
+  // Get user's Google tokens, refreshed if expired
+  const access = await getGoogleAccess(supabaseAdmin, userId);
+  if (access.error !== undefined) {
+    return { error: access.error, status: access.status };
+  }
+
+  const now = new Date();
+  const { data: claimed } = await supabaseAdmin
+    .from('user_google_tokens')
+    .update({ sync_locked_until: new Date(now.getTime() + SYNC_LOCK_MS).toISOString() })
+    .eq('user_id', userId)
+    .or(`sync_locked_until.is.null,sync_locked_until.lt.${now.toISOString()}`)
+    .select('user_id');
+  if (!claimed?.length) {
+    return { error: 'A calendar sync is already running', status: 409 };
+  }
+
+  try {
+    return await runSync(supabaseAdmin, access.tokenRow, access.accessToken, userEmail, syncWindow);
+  } finally {
+    await supabaseAdmin
+      .from('user_google_tokens')
+      .update({ sync_locked_until: null })
+      .eq('user_id', userId);
+  }
+}
+
+async function runSync(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  tokenRow: GoogleTokenRow,
+  googleAccessToken: string,
+  userEmail: string | undefined,
+  { timeMin, timeMax }: SyncWindow,
+): Promise<SyncOutcome> {
+  const userId = tokenRow.user_id;
+  const windowStart = timeMin ?? new Date().toISOString();
+
+  const gcalBase = eventsUrl(tokenRow.calendar_id);
+  const gcalHeaders = {
+    Authorization: `Bearer ${googleAccessToken}`,
+    'Content-Type': 'application/json',
+  };
+
+  let synced = 0;
+  let updated = 0;
+  let canceled = 0;
+  let pushed = 0;
+  let deleted = 0;
+  let conflicts = 0;
+  let skipped = 0;
+
+  // Delete the Google events of calls deleted in the app. Failures stay
+  // queued for the next sync.
+  const { data: deletions } = await supabaseAdmin
+    .from('call_event_deletions')
+    .select('id, external_event_id')
+    .eq('user_id', userId)
+    .eq('external_provider', 'google');
+
+  const deletedIds = new Set<string>();
+  for (const deletion of deletions ?? []) {
+    deletedIds.add(deletion.external_event_id);
+    const resp = await fetch(`${gcalBase}/${encodeURIComponent(deletion.external_event_id)}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${googleAccessToken}` },
+    });
+    if (!resp.ok && resp.status !== 404 && resp.status !== 410) {
+      console.error('GCal delete failed:', await resp.text());
+      continue;
+    }
+    await supabaseAdmin.from('call_event_deletions').delete().eq('id', deletion.id);
+    if (resp.ok) deleted++;
+  }
+
+  // Fetch changed events from Google Calendar
+  let listed: { items: GoogleEvent[]; nextSyncToken: string | null };
+  try {
+    listed = await listChangedEvents(gcalBase, googleAccessToken, tokenRow.sync_token, windowStart)
+      .catch((error) => {
+        // Google expired the token; start over with a full listing
+        if (error instanceof SyncTokenExpiredError) {
+          return listChangedEvents(gcalBase, googleAccessToken, null, windowStart);
+        }
+        throw error;
+      });
+  } catch (error) {
+    console.error('GCal list failed:', error);
+    return { error: 'Failed to fetch Google Calendar events', status: 500 };
+  }
+  const items = listed.items;
+
+  // Calls already linked to Google events, grouped by event
+  const { data: existingSynced } = await supabaseAdmin
+    .from('call_events')
+    .select('id, contact_id, title, start_at, end_at, location, status, external_event_id, external_updated_at, synced_at, updated_at')
+    .eq('user_id', userId)
+    .eq('external_provider', 'google');
+
+  const callsByEventId = new Map<string, SyncedCallRow[]>();
+  (existingSynced ?? []).forEach((row: SyncedCallRow) => {
+    const rows = callsByEventId.get(row.external_event_id) ?? [];
+    rows.push(row);
+    callsByEventId.set(row.external_event_id, rows);
+  });
+
+  const markSynced = (event: { updated?: string } | null) => ({
+    external_updated_at: event?.updated ?? null,
+    // The database stamps the actual time
+    synced_at: new Date().toISOString(),
+  });
+
+  // Google -> app
+  const applyRemote = async (row: SyncedCallRow, event: GoogleEvent) => {
+    if (event.status === 'cancelled') {
+      await supabaseAdmin
+        .from('call_events')
+        .update({ status: 'canceled', ...markSynced(event) })
+        .eq('id', row.id);
+      if (row.status === 'canceled') return;
+      canceled++;
+
+      // Same as canceling in the app: the contact goes back to 'messaged'
+      const { data: contactRow } = await supabaseAdmin
+        .from('contacts')
+        .select('stage')
+        .eq('id', row.contact_id)
+        .single();
+      if (contactRow?.stage === 'scheduled') {
+        await supabaseAdmin
+          .from('contacts')
+          .update({ stage: 'messaged', stage_source: 'gcal_sync' })
+          .eq('id', row.contact_id);
+      }
+      return;
+    }
+
+    const { startAt, endAt } = eventTimes(event);
+    const fields = {
+      title: event.summary ?? '(No title)',
+      start_at: startAt,
+      end_at: endAt,
+      location: event.location ?? null,
+    };
+    await supabaseAdmin
+      .from('call_events')
+      .update({ ...fields, ...markSynced(event) })
+      .eq('id', row.id);
+
+    const changed =
+      fields.title !== row.title ||
+      fields.location !== row.location ||
+      new Date(startAt).getTime() !== new Date(row.start_at).getTime() ||
+      new Date(endAt).getTime() !== new Date(row.end_at).getTime();
+    if (changed) updated++;
+  };
+
+  // App -> Google. A canceled call deletes its event; anything else only
+  // updates the fields the app owns, leaving attendees and description alone.
+  const pushLocal = async (row: SyncedCallRow) => {
+    const eventUrl = `${gcalBase}/${encodeURIComponent(row.external_event_id)}`;
+    if (row.status === 'canceled') {
+      const resp = await fetch(eventUrl, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${googleAccessToken}` },
+      });
+      if (!resp.ok && resp.status !== 404 && resp.status !== 410) {
+        console.error('GCal delete failed:', await resp.text());
+        return;
+      }
+      await supabaseAdmin.from('call_events').update(markSynced(null)).eq('id', row.id);
+      pushed++;
+      return;
+    }
+
+    const { summary, location, start, end } = buildGoogleEvent({ ...row, notes: null }, null);
+    const resp = await fetch(eventUrl, {
+      method: 'PATCH',
+      headers: gcalHeaders,
+      body: JSON.stringify({ summary, location, start, end }),
+    });
+    if (!resp.ok) {
+      console.error('GCal update failed:', await resp.text());
+      return;
+    }
+    const result = await resp.json();
+    await supabaseAdmin.from('call_events').update(markSynced(result)).eq('id', row.id);
+    pushed++;
+  };
+
+  // Changed since the last sync, on each side. Rows synced before sync
+  // markers existed count as unchanged locally.
+  const remoteChanged = (row: SyncedCallRow, event: GoogleEvent) =>
+    isAfter(event.updated, row.external_updated_at);
+  const localChanged = (row: SyncedCallRow) =>
+    row.synced_at !== null && isAfter(row.updated_at, row.synced_at);
+
+  // Get all user's contacts for email matching
+  const { data: existingContacts } = await supabaseAdmin
+    .from('contacts')
+    .select('id, email, name')
+    .eq('user_id', userId);
+
+  const contactsByEmail = new Map<string, { id: string; name: string }>();
+  (existingContacts ?? []).forEach((c: any) => {
+    if (c.email) {
+      contactsByEmail.set(c.email.toLowerCase(), { id: c.id, name: c.name });
+    }
+  });
+
+  const stageOrder = await getStageOrder(supabaseAdmin, userId);
+
+  // Collect unmatched attendees for user review (deduped by email)
+  const pendingContactsMap = new Map<string, PendingContact>();
+
+  const reconciledIds = new Set<string>();
+
+  for (const item of items) {
+    // Being deleted in Google
+    if (deletedIds.has(item.id)) {
+      skipped++;
+      continue;
+    }
+
+    // Already a call: reconcile each call linked to the event
+    const linkedCalls = callsByEventId.get(item.id);
+    if (linkedCalls) {
+      for (const row of linkedCalls) {
+        reconciledIds.add(row.id);
+        if (row.status === 'completed') continue;
+
+        const inGoogle = remoteChanged(row, item);
+        const inApp = localChanged(row);
+        if (inGoogle && inApp) {
+          conflicts++;
+          const googleWins = item.status === 'cancelled' ||
+            (row.status !== 'canceled' && isAfter(item.updated, row.updated_at));
+          await (googleWins ? applyRemote(row, item) : pushLocal(row));
+        } else if (inGoogle) {
+          await applyRemote(row, item);
+        } else if (inApp) {
+          await pushLocal(row);
+        }
+      }
+      continue;
+    }
+
+    // Skip cancelled events
+    if (item.status === 'cancelled') {
+      skipped++;
+      continue;
+    }
+
+    const { startAt, endAt } = eventTimes(item);
+
+    // Only import calls within the requested window
+    const startMs = new Date(startAt).getTime();
+    if ((timeMin && startMs < new Date(timeMin).getTime()) || (timeMax && startMs > new Date(timeMax).getTime())) {
+      skipped++;
+      continue;
+    }
+
+    // Get attendees (exclude self)
+    const attendees = item.attendees ?? [];
+    const otherAttendees = attendees.filter(
+      (a) => !a.self && a.email?.toLowerCase() !== userEmail,
+    );
+
+    // Skip events with no other attendees (solo events, focus time, etc.)
+    if (otherAttendees.length === 0) {
+      skipped++;
+      continue;
+    }
+
+    // Process each attendee
+    for (const attendee of otherAttendees) {
+      const email = attendee.email?.toLowerCase();
+      if (!email) continue;
+
+      // Check if contact exists
+      const existing = contactsByEmail.get(email);
+      if (existing) {
+        // Auto-sync: create call_event for existing contact
+        const { error: callErr } = await supabaseAdmin
+          .from('call_events')
+          .insert({
+            user_id: userId,
+            contact_id: existing.id,
+            title: item.summary ?? '(No title)',
+            start_at: startAt,
+            end_at: endAt,
+            location: item.location ?? null,
+            notes: item.description ?? null,
+            status: 'scheduled',
+            external_provider: 'google',
+            external_event_id: item.id,
+            ...markSynced(item),
+          });
+
+        if (callErr) {
+          console.error('Failed to create call_event for', item.id, callErr);
+          continue;
+        }
+
+        // Move contact to 'scheduled' stage only if not already past it
+        await advanceToScheduled(supabaseAdmin, existing.id, stageOrder, 'gcal_sync');
+
+        synced++;
+      } else {
+        // Unmatched: collect for user review (don't auto-create)
+        if (!pendingContactsMap.has(email)) {
+          pendingContactsMap.set(email, {
+            email,
+            displayName: attendee.displayName || email.split('@')[0],
+            gcalEventId: item.id,
+            eventTitle: item.summary ?? '(No title)',
+            startAt,
+            endAt,
+            location: item.location ?? null,
+            notes: item.description ?? null,
+          });
+        }
+      }
+    }
+  }
+
+  // Calls edited in the app whose events didn't change in Google
+  for (const rows of callsByEventId.values()) {
+    for (const row of rows) {
+      if (reconciledIds.has(row.id) || row.status === 'completed') continue;
+      if (localChanged(row)) await pushLocal(row);
+    }
+  }
+
+  await supabaseAdmin
+    .from('user_google_tokens')
+    .update({ sync_token: listed.nextSyncToken, last_synced_at: new Date().toISOString() })
+    .eq('user_id', userId);
+
+  return {
+    result: {
+      synced,
+      updated,
+      canceled,
+      pushed,
+      deleted,
+      conflicts,
+      skipped,
+      pending_contacts: Array.from(pendingContactsMap.values()),
+    },
+  };
+}
@@ -0,0 +1,244 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Google Calendar helpers shared by the functions that write to or sync with
+// the user's calendar.
+
+// Overridable so the functions can run against a local stub of the Google APIs
+// (see _dev/google-calendar-stub.ts)
+const GOOGLE_API_BASE_URL = Deno.env.get('GOOGLE_API_BASE_URL') ?? 'https://www.googleapis.com';
+const GOOGLE_TOKEN_URL = Deno.env.get('GOOGLE_TOKEN_URL') ?? 'https://oauth2.googleapis.com/token';
+
+// Watch channels last at most a week
+const CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface GoogleTokenRow {
+  user_id: string;
+  access_token: string;
+  refresh_token: string;
+  token_expires_at: string;
+  calendar_id: string | null;
+  sync_token: string | null;
+  last_synced_at: string | null;
+}
+
+export interface GoogleEvent {
+  id: string;
+  status?: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  start?: { dateTime?: string; date?: string };
+  end?: { dateTime?: string; date?: string };
+  /** RFC 3339 last-modified time */
+  updated?: string;
+  attendees?: { email?: string; displayName?: string; self?: boolean }[];
+}
+
+export interface CallEventForGoogle {
+  title: string;
+  start_at: string;
+  end_at: string;
+  location: string | null;
+  notes: string | null;
+}
+
+export interface WatchChannel {
+  user_id: string;
+  channel_id: string;
+  resource_id: string;
+  token: string;
+  expires_at: string;
+}
+
+type GoogleAccess =
+  | { tokenRow: GoogleTokenRow; accessToken: string; error?: undefined }
+  | { error: string; status: number };
+
+async function refreshAccessToken(
+  refreshToken: string,
+  clientId: string,
+  clientSecret: string,
+): Promise<{ access_token: string; expires_in: number } | null> {
+  const resp = await fetch(GOOGLE_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      refresh_token: refreshToken,
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: 'refresh_token',
+    }),
+  });
+  if (!resp.ok) {
+    console.error('Token refresh failed:', await resp.text());
+    return null;
+  }
+  return resp.json();
+}
+
+/** The user's stored tokens with an access token that's good for at least another minute */
+export async function getGoogleAccess(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+): Promise<GoogleAccess> {
+  const { data: tokenRow, error: tokenErr } = await supabaseAdmin
+    .from('user_google_tokens')
+    .select('*')
+    .eq('user_id', userId)
+    .single();
+
+  if (tokenErr || !tokenRow) {
+    return { error: 'Google Calendar not connected', status: 400 };
+  }
+
+  let accessToken = tokenRow.access_token;
+  const expiresAt = new Date(tokenRow.token_expires_at).getTime();
+  if (Date.now() > expiresAt - 60_000) {
+    const refreshed = await refreshAccessToken(
+      tokenRow.refresh_token,
+      Deno.env.get('GOOGLE_CLIENT_ID')!,
+      Deno.env.get('GOOGLE_CLIENT_SECRET')!,
+    );
+    if (!refreshed) {
+      return { error: 'Failed to refresh Google token. Please reconnect.', status: 401 };
+    }
+    accessToken = refreshed.access_token;
+    const newExpiry = new Date(Date.now() + refreshed.expires_in * 1000).toISOString();
+    await supabaseAdmin
+      .from('user_google_tokens')
+      .update({ access_token: accessToken, token_expires_at: newExpiry })
+      .eq('user_id', userId);
+  }
+
+  return { tokenRow: tokenRow as GoogleTokenRow, accessToken };
+}
+
+export function eventsUrl(calendarId: string | null): string {
+  return `${GOOGLE_API_BASE_URL}/calendar/v3/calendars/${encodeURIComponent(calendarId || 'primary')}/events`;
+}
+
+/** Google Calendar event body for a call */
+export function buildGoogleEvent(
+  callEvent: CallEventForGoogle,
+  contact: { name: string; firm: string | null } | null,
+): Record<string, unknown> {
+  const description = [
+    callEvent.notes,
+    contact ? `Contact: ${contact.name}${contact.firm ? ` (${contact.firm})` : ''}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    summary: callEvent.title,
+    description,
+    location: callEvent.location || undefined,
+    start: {
+      dateTime: callEvent.start_at,
+      timeZone: 'UTC',
+    },
+    end: {
+      dateTime: callEvent.end_at,
+      timeZone: 'UTC',
+    },
+  };
+}
+
+/** Start and end of an event as ISO strings; all-day events use their dates */
+export function eventTimes(event: GoogleEvent): { startAt: string; endAt: string } {
+  const startAt = event.start?.dateTime ?? event.start?.date ?? new Date().toISOString();
+  const endAt = event.end?.dateTime ?? event.end?.date ?? startAt;
+  return { startAt, endAt };
+}
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Tell Google to stop sending a channel's notifications. Best-effort: it expires on its own. */
+export async function stopWatchChannel(
+  googleAccessToken: string,
+  channel: Pick<WatchChannel, 'channel_id' | 'resource_id'>,
+): Promise<void> {
+  const resp = await fetch(`${GOOGLE_API_BASE_URL}/calendar/v3/channels/stop`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${googleAccessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ id: channel.channel_id, resourceId: channel.resource_id }),
+  });
+  if (!resp.ok && resp.status !== 404) {
+    console.error('GCal channel stop failed:', await resp.text());
+  }
+}
+
+/**
+ * Open a watch channel on the user's calendar that notifies gcal-webhook of
+ * every change, replacing the user's previous channel
+ */
+export async function watchCalendar(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+): Promise<{ channel: WatchChannel; error?: undefined } | { error: string; status: number }> {
+  const access = await getGoogleAccess(supabaseAdmin, userId);
+  if (access.error !== undefined) {
+    return { error: access.error, status: access.status };
+  }
+
+  const webhookUrl = Deno.env.get('GCAL_WEBHOOK_URL') ??
+    `${Deno.env.get('SUPABASE_URL')}/functions/v1/gcal-webhook`;
+  const channelId = crypto.randomUUID();
+  const token = randomToken();
+
+  const resp = await fetch(`${eventsUrl(access.tokenRow.calendar_id)}/watch`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${access.accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      id: channelId,
+      type: 'web_hook',
+      address: webhookUrl,
+      token,
+      params: { ttl: String(CHANNEL_TTL_SECONDS) },
+    }),
+  });
+  if (!resp.ok) {
+    console.error('GCal watch failed:', await resp.text());
+    return { error: 'Failed to watch Google Calendar', status: 502 };
+  }
+  const watched = await resp.json();
+
+  const { data: previous } = await supabaseAdmin
+    .from('google_calendar_channels')
+    .select('channel_id, resource_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const channel: WatchChannel = {
+    user_id: userId,
+    channel_id: watched.id,
+    resource_id: watched.resourceId,
+    token,
+    // Google gives the expiration in milliseconds since the epoch
+    expires_at: new Date(Number(watched.expiration)).toISOString(),
+  };
+  const { error: saveErr } = await supabaseAdmin
+    .from('google_calendar_channels')
+    .upsert(channel, { onConflict: 'user_id' });
+  if (saveErr) {
+    console.error('Failed to store watch channel:', saveErr);
+    await stopWatchChannel(access.accessToken, channel);
+    return { error: 'Failed to store watch channel', status: 500 };
+  }
+
+  // The new channel is live before the old one stops, so no change slips through
+  if (previous) {
+    await stopWatchChannel(access.accessToken, previous);
+  }
+
+  return { channel };
+}
@@ -0,0 +1,91 @@
+// iCalendar (RFC 5545) rendering of call events for the subscription feed, and
+// the text helpers the app's .ics downloads and vCards share with it. Kept free
+// of Deno and remote imports so the app can import it too.
+
+export interface IcsCallEvent {
+  id: string;
+  title: string;
+  start_at: string;
+  end_at: string;
+  location: string | null;
+  notes: string | null;
+  status: string;
+  updated_at: string;
+  contact: { name: string; firm: string | null; email: string | null } | null;
+}
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+// Content lines longer than 75 octets are folded with CRLF + a single space
+// (the same rule applies to vCard 3.0)
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// e.g. 20260212T150000Z
+export function formatIcsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function eventLines(event: IcsCallEvent, stamp: string): string[] {
+  const contact = event.contact;
+  const description = [
+    contact && `Contact: ${contact.name}${contact.firm ? ` (${contact.firm})` : ''}`,
+    contact?.email && `Email: ${contact.email}`,
+    event.notes,
+  ].filter(Boolean).join('\n\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@offerready.net`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${formatIcsDate(event.updated_at)}`,
+    `DTSTART:${formatIcsDate(event.start_at)}`,
+    `DTEND:${formatIcsDate(event.end_at)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    `STATUS:${event.status === 'canceled' ? 'CANCELLED' : 'CONFIRMED'}`,
+  ];
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (description) lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/** A subscribable VCALENDAR of all the given calls */
+export function buildCalendarFeed(events: IcsCallEvent[], calendarName: string): string {
+  const stamp = formatIcsDate(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//OfferReady//Calls//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    // Hints for how often subscribers refetch
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
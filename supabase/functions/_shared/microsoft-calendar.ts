@@ -0,0 +1,159 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Microsoft Graph helpers for the Outlook / Office 365 calendar functions,
+// the counterpart of google-calendar.ts.
+
+// Overridable so the functions can run against a local stub of Microsoft Graph
+const GRAPH_BASE_URL = Deno.env.get('MICROSOFT_GRAPH_BASE_URL') ?? 'https://graph.microsoft.com/v1.0';
+export const MICROSOFT_TOKEN_URL = Deno.env.get('MICROSOFT_TOKEN_URL') ??
+  'https://login.microsoftonline.com/common/oauth2/v2.0/token';
+export const MICROSOFT_SCOPES = 'offline_access User.Read Calendars.ReadWrite';
+
+/** Ask Graph for times in UTC, so event times can be read without a timezone table */
+export const UTC_PREFERENCE = { Prefer: 'outlook.timezone="UTC"' };
+
+export interface MicrosoftTokenRow {
+  user_id: string;
+  access_token: string;
+  refresh_token: string;
+  token_expires_at: string;
+  calendar_id: string | null;
+  account_email: string | null;
+}
+
+export interface GraphEvent {
+  id: string;
+  subject?: string;
+  bodyPreview?: string;
+  webLink?: string;
+  isCancelled?: boolean;
+  isOrganizer?: boolean;
+  /** Graph dateTimes carry no offset; with UTC_PREFERENCE they're UTC */
+  start?: { dateTime: string; timeZone: string };
+  end?: { dateTime: string; timeZone: string };
+  location?: { displayName?: string };
+  organizer?: { emailAddress?: { address?: string; name?: string } };
+  attendees?: { emailAddress?: { address?: string; name?: string } }[];
+}
+
+type MicrosoftAccess =
+  | { tokenRow: MicrosoftTokenRow; accessToken: string; error?: undefined }
+  | { error: string; status: number };
+
+async function refreshAccessToken(
+  refreshToken: string,
+): Promise<{ access_token: string; refresh_token?: string; expires_in: number } | null> {
+  const resp = await fetch(MICROSOFT_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      refresh_token: refreshToken,
+      client_id: Deno.env.get('MICROSOFT_CLIENT_ID')!,
+      client_secret: Deno.env.get('MICROSOFT_CLIENT_SECRET')!,
+      grant_type: 'refresh_token',
+      scope: MICROSOFT_SCOPES,
+    }),
+  });
+  if (!resp.ok) {
+    console.error('Microsoft token refresh failed:', await resp.text());
+    return null;
+  }
+  return resp.json();
+}
+
+/** The user's stored tokens with an access token that's good for at least another minute */
+export async function getMicrosoftAccess(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+): Promise<MicrosoftAccess> {
+  const { data: tokenRow, error: tokenErr } = await supabaseAdmin
+    .from('user_microsoft_tokens')
+    .select('*')
+    .eq('user_id', userId)
+    .single();
+
+  if (tokenErr || !tokenRow) {
+    return { error: 'Outlook Calendar not connected', status: 400 };
+  }
+
+  let accessToken = tokenRow.access_token;
+  const expiresAt = new Date(tokenRow.token_expires_at).getTime();
+  if (Date.now() > expiresAt - 60_000) {
+    const refreshed = await refreshAccessToken(tokenRow.refresh_token);
+    if (!refreshed) {
+      return { error: 'Failed to refresh Microsoft token. Please reconnect.', status: 401 };
+    }
+    accessToken = refreshed.access_token;
+    const newExpiry = new Date(Date.now() + refreshed.expires_in * 1000).toISOString();
+    // Microsoft rotates refresh tokens
+    await supabaseAdmin
+      .from('user_microsoft_tokens')
+      .update({
+        access_token: accessToken,
+        refresh_token: refreshed.refresh_token ?? tokenRow.refresh_token,
+        token_expires_at: newExpiry,
+      })
+      .eq('user_id', userId);
+  }
+
+  return { tokenRow: tokenRow as MicrosoftTokenRow, accessToken };
+}
+
+export function graphUrl(path: string): string {
+  return `${GRAPH_BASE_URL}${path}`;
+}
+
+/** The events collection of the user's chosen calendar */
+export function eventsUrl(calendarId: string | null): string {
+  return calendarId
+    ? graphUrl(`/me/calendars/${encodeURIComponent(calendarId)}/events`)
+    : graphUrl('/me/events');
+}
+
+/** Occurrences between two times, with recurring events expanded */
+export function calendarViewUrl(calendarId: string | null, startDateTime: string, endDateTime: string): string {
+  const base = calendarId
+    ? graphUrl(`/me/calendars/${encodeURIComponent(calendarId)}/calendarView`)
+    : graphUrl('/me/calendarView');
+  const params = new URLSearchParams({
+    startDateTime,
+    endDateTime,
+    $top: '250',
+    $orderby: 'start/dateTime',
+  });
+  return `${base}?${params}`;
+}
+
+function toGraphDateTime(iso: string) {
+  return { dateTime: new Date(iso).toISOString().replace('Z', ''), timeZone: 'UTC' };
+}
+
+/** Graph event body for a call */
+export function buildMicrosoftEvent(
+  callEvent: { title: string; start_at: string; end_at: string; location: string | null; notes: string | null },
+  contact: { name: string; firm: string | null } | null,
+): Record<string, unknown> {
+  const description = [
+    callEvent.notes,
+    contact ? `Contact: ${contact.name}${contact.firm ? ` (${contact.firm})` : ''}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    subject: callEvent.title,
+    body: { contentType: 'text', content: description },
+    location: callEvent.location ? { displayName: callEvent.location } : undefined,
+    start: toGraphDateTime(callEvent.start_at),
+    end: toGraphDateTime(callEvent.end_at),
+  };
+}
+
+/** Start and end of an event fetched with UTC_PREFERENCE, as ISO strings */
+export function eventTimes(event: GraphEvent): { startAt: string; endAt: string } {
+  const toIso = (dateTime: string | undefined) =>
+    dateTime ? new Date(`${dateTime.replace(/Z$/, '')}Z`).toISOString() : null;
+  const startAt = toIso(event.start?.dateTime) ?? new Date().toISOString();
+  const endAt = toIso(event.end?.dateTime) ?? startAt;
+  return { startAt, endAt };
+}
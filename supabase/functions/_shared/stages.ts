@@ -0,0 +1,48 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// The user's pipeline stage order, and moving contacts along it when a
+// calendar sync or a forwarded scheduling email finds a call with them.
+
+// Used when the user has not set up their own stages yet
+export const DEFAULT_STAGE_ORDER = ['researching', 'messaged', 'scheduled', 'call_done', 'strong_connection', 'referral_requested', 'interview', 'offer'];
+
+/** Stage keys in the user's own order */
+export async function getStageOrder(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+): Promise<string[]> {
+  const { data: userStages } = await supabaseAdmin
+    .from('user_stages')
+    .select('key')
+    .eq('user_id', userId)
+    .order('position', { ascending: true });
+
+  return userStages?.length
+    ? userStages.map((s: { key: string }) => s.key)
+    : DEFAULT_STAGE_ORDER;
+}
+
+/** Moves the contact to 'scheduled', unless it is already there or past it in `stageOrder` */
+export async function advanceToScheduled(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  contactId: string,
+  stageOrder: string[],
+  stageSource: 'gcal_sync' | 'outlook_sync' | 'inbound_email',
+): Promise<void> {
+  const { data: contactRow } = await supabaseAdmin
+    .from('contacts')
+    .select('stage')
+    .eq('id', contactId)
+    .single();
+
+  if (!contactRow) return;
+
+  const currentIdx = stageOrder.indexOf(contactRow.stage);
+  const scheduledIdx = stageOrder.indexOf('scheduled');
+  if (currentIdx < scheduledIdx) {
+    await supabaseAdmin
+      .from('contacts')
+      .update({ stage: 'scheduled', stage_source: stageSource })
+      .eq('id', contactId);
+  }
+}
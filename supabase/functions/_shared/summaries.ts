@@ -0,0 +1,215 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Regenerates a contact's running notes from their history. Used by
+// summarize-contact and by the functions that log interactions on the server.
+
+// Keeps the prompt bounded for contacts with a long history
+const MAX_INTERACTIONS = 30;
+const MAX_NOTES_LENGTH = 1500;
+
+function truncate(text: string, max = MAX_NOTES_LENGTH) {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function asStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+}
+
+interface SummaryResponse {
+  summary?: unknown;
+  key_facts?: {
+    hometown?: unknown;
+    school?: unknown;
+    interests?: unknown;
+    deals?: unknown;
+  };
+}
+
+// Summary paragraph followed by a "Key facts" list, leaving out facts nobody mentioned
+function composeSummary(parsed: SummaryResponse | null): string {
+  const summary = typeof parsed?.summary === 'string' ? parsed.summary.trim() : '';
+  const keyFacts = parsed?.key_facts ?? {};
+
+  const facts: string[] = [];
+  if (typeof keyFacts.hometown === 'string' && keyFacts.hometown.trim()) {
+    facts.push(`- Hometown: ${keyFacts.hometown.trim()}`);
+  }
+  if (typeof keyFacts.school === 'string' && keyFacts.school.trim()) {
+    facts.push(`- School: ${keyFacts.school.trim()}`);
+  }
+  const interests = asStringList(keyFacts.interests);
+  if (interests.length > 0) facts.push(`- Interests: ${interests.join(', ')}`);
+  const deals = asStringList(keyFacts.deals);
+  if (deals.length > 0) facts.push(`- Deals mentioned: ${deals.join('; ')}`);
+
+  if (facts.length === 0) return summary;
+  return `${summary}\n\nKey facts:\n${facts.join('\n')}`.trim();
+}
+
+export type SummaryResult =
+  | { suggestion: string | null; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Rewrites the contact's summary and stores it as notes_summary_suggestion;
+ * `suggestion` is null when there is no history or nothing changed. The
+ * contact must belong to `userId`.
+ */
+export async function summarizeContact(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+  contactId: string,
+  openaiApiKey: string,
+): Promise<SummaryResult> {
+  // Fetch contact record
+  const { data: contact, error: contactErr } = await supabaseAdmin
+    .from('contacts')
+    .select('id, user_id, name, firm, group_name, position, connection_type, notes_summary')
+    .eq('id', contactId)
+    .single();
+
+  if (contactErr || !contact) {
+    return { error: 'Contact not found', status: 404 };
+  }
+
+  if (contact.user_id !== userId) {
+    return { error: 'Forbidden', status: 403 };
+  }
+
+  // Fetch the contact's history
+  const [interactionsRes, callsRes, debriefsRes, emailsRes] = await Promise.all([
+    supabaseAdmin
+      .from('interactions')
+      .select('type, date, notes, outcome, duration_minutes')
+      .eq('contact_id', contactId)
+      .order('date', { ascending: false })
+      .limit(MAX_INTERACTIONS),
+    supabaseAdmin
+      .from('call_events')
+      .select('title, start_at, status, notes')
+      .eq('contact_id', contactId)
+      .order('start_at', { ascending: false }),
+    supabaseAdmin
+      .from('call_debriefs')
+      .select('topics, advice, intro_offers, rating, asked_for_referral, created_at')
+      .eq('contact_id', contactId)
+      .order('created_at', { ascending: false }),
+    supabaseAdmin
+      .from('inbound_emails')
+      .select('subject, body_text, created_at')
+      .eq('contact_id', contactId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_INTERACTIONS),
+  ]);
+
+  const historyErr = interactionsRes.error ?? callsRes.error ?? debriefsRes.error ?? emailsRes.error;
+  if (historyErr) {
+    console.error('Failed to load contact history:', historyErr);
+    return { error: 'Failed to load contact history', status: 500 };
+  }
+
+  // Build context string
+  const parts: string[] = [];
+  parts.push(`Name: ${contact.name}`);
+  if (contact.firm) parts.push(`Firm: ${contact.firm}`);
+  if (contact.group_name) parts.push(`Group: ${contact.group_name}`);
+  if (contact.position) parts.push(`Position: ${contact.position}`);
+  if (contact.connection_type) parts.push(`Connection type: ${contact.connection_type}`);
+
+  const history: string[] = [];
+  for (const i of interactionsRes.data ?? []) {
+    const details = [i.outcome, i.duration_minutes ? `${i.duration_minutes} min` : null].filter(Boolean).join(', ');
+    history.push(`[${i.date.slice(0, 10)}] ${i.type}${details ? ` (${details})` : ''}${i.notes ? `: ${truncate(i.notes)}` : ''}`);
+  }
+  for (const c of callsRes.data ?? []) {
+    history.push(`[${c.start_at.slice(0, 10)}] Call "${c.title}" (${c.status})${c.notes ? `: ${truncate(c.notes)}` : ''}`);
+  }
+  for (const d of debriefsRes.data ?? []) {
+    const lines = [
+      d.topics ? `topics: ${truncate(d.topics)}` : null,
+      d.advice ? `advice: ${truncate(d.advice)}` : null,
+      d.intro_offers?.length ? `offered to introduce: ${d.intro_offers.join(', ')}` : null,
+      d.rating ? `rating: ${d.rating}/5` : null,
+      d.asked_for_referral ? 'asked for a referral' : null,
+    ].filter(Boolean);
+    history.push(`[${d.created_at.slice(0, 10)}] Call debrief: ${lines.join('; ')}`);
+  }
+  for (const e of emailsRes.data ?? []) {
+    history.push(`[${e.created_at.slice(0, 10)}] Email "${e.subject ?? '(no subject)'}"${e.body_text ? `: ${truncate(e.body_text, 500)}` : ''}`);
+  }
+
+  if (history.length === 0) {
+    return { suggestion: null };
+  }
+
+  const prompt = `You keep the running notes an aspiring investment banking analyst has on a networking contact. Rewrite the notes from the contact's details, the current notes and their full history below.
+
+Contact:
+${parts.join('\n')}
+
+Current notes (written by the user, keep anything still true):
+${contact.notes_summary || '(none)'}
+
+History, newest first:
+${history.join('\n')}
+
+Guidelines:
+- "summary" is 3-5 concise sentences: who they are, how the relationship has developed, what was discussed and what is still outstanding.
+- "key_facts" holds only facts actually stated in the notes or history. Use null or an empty list when unknown; never guess.
+- Return STRICT JSON with this shape: { "summary": string, "key_facts": { "hometown": string | null, "school": string | null, "interests": string[], "deals": string[] } }
+- Return valid JSON only, no markdown fencing.`;
+
+  const chatResp = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${openaiApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: 'gpt-4o-mini',
+      temperature: 0.2,
+      messages: [{ role: 'user', content: prompt }],
+      response_format: { type: 'json_object' },
+    }),
+  });
+
+  if (!chatResp.ok) {
+    const errText = await chatResp.text();
+    console.error('OpenAI error:', errText);
+    return { error: 'Failed to generate summary', status: 500 };
+  }
+
+  const chatJson = await chatResp.json();
+  const content = chatJson?.choices?.[0]?.message?.content;
+
+  if (!content) {
+    console.error('No content in response:', JSON.stringify(chatJson));
+    return { error: 'No content in response', status: 500 };
+  }
+
+  let parsed: SummaryResponse | null = null;
+  try {
+    parsed = JSON.parse(content);
+  } catch (e) {
+    console.error('Failed to parse JSON:', content);
+    return { error: 'Invalid response format', status: 500 };
+  }
+
+  const suggestion = composeSummary(parsed);
+  if (!suggestion || suggestion === (contact.notes_summary ?? '').trim()) {
+    return { suggestion: null };
+  }
+
+  // Stored as a suggestion; notes_summary only changes once the user accepts it
+  const { error: updateErr } = await supabaseAdmin
+    .from('contacts')
+    .update({ notes_summary_suggestion: suggestion, notes_summary_suggested_at: new Date().toISOString() })
+    .eq('id', contactId);
+
+  if (updateErr) {
+    console.error('Failed to store suggestion:', updateErr);
+    return { error: 'Failed to store suggestion', status: 500 };
+  }
+
+  return { suggestion };
+}
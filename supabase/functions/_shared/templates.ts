@@ -0,0 +1,131 @@
+// Email template helpers shared by the functions that render or generate
+// emails: filling in {{variables}}, loading a user's template, and logging uses.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAvailabilityLines, type ClientDate } from './availability.ts';
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export type TemplateUseMode = 'as_is' | 'style_seed';
+
+export interface EmailTemplateRow {
+  id: string;
+  name: string;
+  category: string;
+  subject: string;
+  body: string;
+}
+
+interface TemplateContact {
+  id: string;
+  name: string;
+  firm: string | null;
+  group_name: string | null;
+  position: string | null;
+  timezone?: string | null;
+}
+
+export function usesVariable(text: string, key: string): boolean {
+  return new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, 'i').test(text);
+}
+
+// Replaces known {{variables}}; unknown ones are left as typed so typos stay visible
+export function interpolate(text: string, values: Record<string, string>, missing: Set<string>): string {
+  return text.replace(VARIABLE_PATTERN, (match, rawKey: string) => {
+    const key = rawKey.toLowerCase();
+    if (!(key in values)) return match;
+    if (!values[key]) missing.add(key);
+    return values[key];
+  });
+}
+
+/**
+ * Values for every template variable, from the contact, the user's profile and
+ * their latest parsed resume. Availability is only looked up when asked for,
+ * since it means a calendar call.
+ */
+export async function getTemplateValues(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+  contact: TemplateContact,
+  options: { availability?: ClientDate } = {},
+): Promise<Record<string, string>> {
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('name, school, graduation_year, email')
+    .eq('user_id', userId)
+    .single();
+
+  const { data: resume } = await supabaseAdmin
+    .from('user_resumes')
+    .select('parsed_resume_json')
+    .eq('user_id', userId)
+    .order('uploaded_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const parsedResume = (resume?.parsed_resume_json ?? {}) as Record<string, Record<string, unknown> | undefined>;
+  const resumeSummary = (parsedResume.summary ?? parsedResume) as Record<string, unknown>;
+  const asText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+  const values: Record<string, string> = {
+    first_name: contact.name.split(' ')[0],
+    name: contact.name,
+    firm: contact.firm ?? '',
+    group: contact.group_name ?? '',
+    position: contact.position ?? '',
+    my_name: asText(resumeSummary.name) || profile?.name || profile?.email?.split('@')[0] || '',
+    school: asText(resumeSummary.school) || profile?.school || '',
+    major: asText(resumeSummary.major),
+    graduation_year: asText(resumeSummary.graduation_year || profile?.graduation_year),
+    availability: '',
+  };
+
+  if (options.availability) {
+    const lines = await getAvailabilityLines(supabaseAdmin, userId, options.availability, contact.timezone);
+    values.availability = lines.join('\n');
+  }
+
+  return values;
+}
+
+/** The user's template, or null if it doesn't exist or belongs to someone else */
+export async function getUserTemplate(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userId: string,
+  templateId: string,
+): Promise<EmailTemplateRow | null> {
+  const { data } = await supabaseAdmin
+    .from('email_templates')
+    .select('id, user_id, name, category, subject, body')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (!data || data.user_id !== userId) return null;
+  return data as EmailTemplateRow;
+}
+
+export async function recordTemplateUse(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  use: { userId: string; templateId: string; contactId: string; mode: TemplateUseMode },
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('email_template_uses').insert({
+    user_id: use.userId,
+    template_id: use.templateId,
+    contact_id: use.contactId,
+    mode: use.mode,
+  });
+  // Stats are best-effort; never fail the email over them
+  if (error) console.error('Failed to record template use:', error);
+}
+
+/** Prompt section asking the model to write in the style of one of the user's templates */
+export function styleSeedPrompt(template: { subject: string; body: string }): string {
+  return `
+The user has written this email before and wants the new one to sound like them. Match its tone, structure, length and sign-off, but write it fresh for this contact:
+---
+Subject: ${template.subject}
+
+${template.body}
+---
+`;
+}
@@ -0,0 +1,76 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildCalendarFeed, type IcsCallEvent } from '../_shared/ics.ts';
+
+/**
+ * Serve a user's calls as an ICS subscription feed, for calendar clients
+ * other than the connected Google or Outlook calendar.
+ *
+ * GET ?token=<calendar_feeds.token>
+ *
+ * Calendar clients can't send an Authorization header, so the secret token in
+ * the URL is the only credential. Canceled calls stay in the feed as
+ * STATUS:CANCELLED so subscribers remove them; deleted calls just drop out.
+ */
+
+function textResponse(body: string, status: number) {
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  try {
+    if (req.method !== 'GET') {
+      return textResponse('Method not allowed', 405);
+    }
+
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return textResponse('Missing token', 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feed } = await supabaseAdmin
+      .from('calendar_feeds')
+      .select('id, user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (!feed) {
+      return textResponse('Feed not found', 404);
+    }
+
+    const { data: callEvents, error: callErr } = await supabaseAdmin
+      .from('call_events')
+      .select('id, title, start_at, end_at, location, notes, status, updated_at, contact:contacts(name, firm, email)')
+      .eq('user_id', feed.user_id)
+      .order('start_at', { ascending: true });
+
+    if (callErr) {
+      console.error('Failed to load call events:', callErr);
+      return textResponse('Failed to load calls', 500);
+    }
+
+    await supabaseAdmin
+      .from('calendar_feeds')
+      .update({ last_fetched_at: new Date().toISOString() })
+      .eq('id', feed.id);
+
+    const body = buildCalendarFeed((callEvents ?? []) as IcsCallEvent[], 'OfferReady Calls');
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="offerready-calls.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error in calendar-feed:', error);
+    return textResponse('Internal error', 500);
+  }
+});
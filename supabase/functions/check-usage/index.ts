@@ -3,7 +3,10 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 /**
  * Check whether a user can perform a gated action.
  *
- * POST body: { feature: 'mock_interview' | 'flashcard' | 'contact' }
+ * POST body: { feature: 'mock_interview' | 'flashcard' | 'contact', quantity?: number }
+ *
+ * `quantity` is how many items the action will create (e.g. rows in a bulk
+ * contact import). Defaults to 1.
  *
  * Returns:
  *   { allowed: boolean, usage: { mock_interviews, flashcards_viewed, contacts }, limits: {...}, plan: string }
@@ -50,11 +53,16 @@ Deno.serve(async (req: Request) => {
 
     const userId = userData.user.id;
 
-    const { feature } = await req.json();
+    const { feature, quantity: rawQuantity } = await req.json();
     if (!feature || !['mock_interview', 'flashcard', 'contact'].includes(feature)) {
       return jsonResponse({ error: 'Invalid feature. Must be mock_interview, flashcard, or contact' }, { status: 400 });
     }
 
+    const quantity = rawQuantity === undefined ? 1 : Number(rawQuantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return jsonResponse({ error: 'Invalid quantity. Must be a positive integer' }, { status: 400 });
+    }
+
     // Check subscription status
     const { data: sub } = await supabaseAdmin
       .from('user_subscriptions')
@@ -100,11 +108,11 @@ Deno.serve(async (req: Request) => {
     };
 
     let allowed = true;
-    if (feature === 'mock_interview' && usage.mock_interviews >= FREE_LIMITS.mock_interviews) {
+    if (feature === 'mock_interview' && usage.mock_interviews + quantity > FREE_LIMITS.mock_interviews) {
       allowed = false;
-    } else if (feature === 'flashcard' && usage.flashcards_viewed >= FREE_LIMITS.flashcards_viewed) {
+    } else if (feature === 'flashcard' && usage.flashcards_viewed + quantity > FREE_LIMITS.flashcards_viewed) {
       allowed = false;
-    } else if (feature === 'contact' && usage.contacts >= FREE_LIMITS.contacts) {
+    } else if (feature === 'contact' && usage.contacts + quantity > FREE_LIMITS.contacts) {
       allowed = false;
     }
 
@@ -3,7 +3,9 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 /**
  * Create confirmed contacts and their call events after user review.
  *
- * Body: { contacts: ConfirmedContact[] }
+ * Body: { contacts: ConfirmedContact[], provider?: 'google' | 'microsoft' }
+ *
+ * provider is the calendar the events came from (default 'google').
  *
  * Each ConfirmedContact:
  *   name: string
@@ -11,7 +13,7 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
  *   firm?: string
  *   position?: string
  *   connection_type: 'cold' | 'alumni' | 'friend' | 'referral'
- *   gcalEventId: string
+ *   gcalEventId: string (the event's id with the provider)
  *   eventTitle: string
  *   startAt: string
  *   endAt: string
@@ -75,10 +77,13 @@ Deno.serve(async (req: Request) => {
 
     const userId = userData.user.id;
 
-    const { contacts } = await req.json();
+    const { contacts, provider = 'google' } = await req.json();
     if (!Array.isArray(contacts) || contacts.length === 0) {
       return jsonResponse({ error: 'No contacts provided' }, { status: 400 });
     }
+    if (!['google', 'microsoft'].includes(provider)) {
+      return jsonResponse({ error: 'Invalid provider' }, { status: 400 });
+    }
 
     let created = 0;
 
@@ -95,6 +100,7 @@ Deno.serve(async (req: Request) => {
           connection_type: c.connection_type || 'cold',
           relationship_strength: 1,
           stage: 'scheduled',
+          stage_source: provider === 'google' ? 'gcal_sync' : 'outlook_sync',
         })
         .select('id')
         .single();
@@ -116,8 +122,10 @@ Deno.serve(async (req: Request) => {
           location: c.location || null,
           notes: c.notes || null,
           status: 'scheduled',
-          external_provider: 'google',
+          external_provider: provider,
           external_event_id: c.gcalEventId,
+          // Matches the event as listed; the next Google sync fills in external_updated_at
+          synced_at: provider === 'google' ? new Date().toISOString() : null,
         });
 
       if (callErr) {
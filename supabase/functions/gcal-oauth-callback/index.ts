@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { watchCalendar } from '../_shared/google-calendar.ts';
 
 /**
  * Google Calendar OAuth callback handler.
@@ -8,7 +9,8 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
  *  2. Google redirects here with ?code=...&state=JWT
  *  3. We exchange the code for tokens
  *  4. We upsert the tokens into user_google_tokens
- *  5. We redirect the user back to the calendar page
+ *  5. We open a watch channel so calendar changes sync on their own
+ *  6. We redirect the user back to the calendar page
  */
 
 const corsHeaders = {
@@ -90,6 +92,8 @@ Deno.serve(async (req: Request) => {
           access_token: tokens.access_token,
           refresh_token: tokens.refresh_token ?? '',
           token_expires_at: expiresAt,
+          // A reconnect may be a different account; start the next sync over
+          sync_token: null,
         },
         { onConflict: 'user_id' },
       );
@@ -99,6 +103,13 @@ Deno.serve(async (req: Request) => {
       return redirectToApp('?gcal_error=storage_failed');
     }
 
+    // Get notified of calendar changes. Best-effort: the scheduled renewal
+    // retries users without a channel.
+    const watched = await watchCalendar(supabaseAdmin, userId);
+    if (watched.error !== undefined) {
+      console.error('Failed to watch calendar:', watched.error);
+    }
+
     return redirectToApp('?gcal_connected=true');
   } catch (err) {
     console.error('Unexpected error:', err);
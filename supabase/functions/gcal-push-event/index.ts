@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildGoogleEvent, eventsUrl, getGoogleAccess } from '../_shared/google-calendar.ts';
 
 /**
  * Push a call event to Google Calendar (create / update / delete).
@@ -9,7 +10,8 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
  * - Reads the user's stored Google tokens
  * - Refreshes the access token if expired
  * - Calls the Google Calendar API
- * - Stores the external_event_id back on the call_event row
+ * - Stores the external_event_id back on the call_event row, and marks it
+ *   synced so the next calendar sync doesn't treat it as a local edit
  */
 
 const corsHeaders = {
@@ -29,26 +31,14 @@ function jsonResponse(body: unknown, init?: ResponseInit) {
   });
 }
 
-async function refreshAccessToken(
-  refreshToken: string,
-  clientId: string,
-  clientSecret: string,
-): Promise<{ access_token: string; expires_in: number } | null> {
-  const resp = await fetch('https://oauth2.googleapis.com/token', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: new URLSearchParams({
-      refresh_token: refreshToken,
-      client_id: clientId,
-      client_secret: clientSecret,
-      grant_type: 'refresh_token',
-    }),
-  });
-  if (!resp.ok) {
-    console.error('Token refresh failed:', await resp.text());
-    return null;
-  }
-  return resp.json();
+// The database stamps synced_at itself; any non-null value marks the row as matching Google
+function syncedFields(event: { id: string; updated?: string }) {
+  return {
+    external_provider: 'google',
+    external_event_id: event.id,
+    external_updated_at: event.updated ?? null,
+    synced_at: new Date().toISOString(),
+  };
 }
 
 Deno.serve(async (req: Request) => {
@@ -63,8 +53,6 @@ Deno.serve(async (req: Request) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const clientId = Deno.env.get('GOOGLE_CLIENT_ID')!;
-    const clientSecret = Deno.env.get('GOOGLE_CLIENT_SECRET')!;
 
     // Auth
     const authHeader =
@@ -99,33 +87,12 @@ Deno.serve(async (req: Request) => {
       return jsonResponse({ error: 'Invalid action' }, { status: 400 });
     }
 
-    // Get user's Google tokens
-    const { data: tokenRow, error: tokenErr } = await supabaseAdmin
-      .from('user_google_tokens')
-      .select('*')
-      .eq('user_id', userId)
-      .single();
-
-    if (tokenErr || !tokenRow) {
-      return jsonResponse({ error: 'Google Calendar not connected' }, { status: 400 });
-    }
-
-    // Refresh token if expired (with 60s buffer)
-    let googleAccessToken = tokenRow.access_token;
-    const expiresAt = new Date(tokenRow.token_expires_at).getTime();
-    if (Date.now() > expiresAt - 60_000) {
-      const refreshed = await refreshAccessToken(tokenRow.refresh_token, clientId, clientSecret);
-      if (!refreshed) {
-        return jsonResponse({ error: 'Failed to refresh Google token. Please reconnect.' }, { status: 401 });
-      }
-      googleAccessToken = refreshed.access_token;
-      const newExpiry = new Date(Date.now() + refreshed.expires_in * 1000).toISOString();
-
-      await supabaseAdmin
-        .from('user_google_tokens')
-        .update({ access_token: googleAccessToken, token_expires_at: newExpiry })
-        .eq('user_id', userId);
+    // Get user's Google tokens, refreshed if expired
+    const access = await getGoogleAccess(supabaseAdmin, userId);
+    if (access.error !== undefined) {
+      return jsonResponse({ error: access.error }, { status: access.status });
     }
+    const { tokenRow, accessToken: googleAccessToken } = access;
 
     // Get call event
     const { data: callEvent, error: callErr } = await supabaseAdmin
@@ -142,31 +109,11 @@ Deno.serve(async (req: Request) => {
       return jsonResponse({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const calendarId = tokenRow.calendar_id || 'primary';
-    const gcalBase = `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events`;
+    const gcalBase = eventsUrl(tokenRow.calendar_id);
 
     // Build Google Calendar event body
     const contact = callEvent.contact as { name: string; firm: string | null } | null;
-    const description = [
-      callEvent.notes,
-      contact ? `Contact: ${contact.name}${contact.firm ? ` (${contact.firm})` : ''}` : null,
-    ]
-      .filter(Boolean)
-      .join('\n\n');
-
-    const gcalEvent: Record<string, unknown> = {
-      summary: callEvent.title,
-      description,
-      location: callEvent.location || undefined,
-      start: {
-        dateTime: callEvent.start_at,
-        timeZone: 'UTC',
-      },
-      end: {
-        dateTime: callEvent.end_at,
-        timeZone: 'UTC',
-      },
-    };
+    const gcalEvent = buildGoogleEvent(callEvent, contact);
 
     // Add attendee if email provided — Google will send them a calendar invite
     if (attendeeEmail && typeof attendeeEmail === 'string') {
@@ -204,7 +151,7 @@ Deno.serve(async (req: Request) => {
       // Store external_event_id
       await supabaseAdmin
         .from('call_events')
-        .update({ external_provider: 'google', external_event_id: result.id })
+        .update(syncedFields(result))
         .eq('id', callEventId);
 
     } else if (action === 'update') {
@@ -225,7 +172,7 @@ Deno.serve(async (req: Request) => {
         result = await resp.json();
         await supabaseAdmin
           .from('call_events')
-          .update({ external_provider: 'google', external_event_id: result.id })
+          .update(syncedFields(result))
           .eq('id', callEventId);
       } else {
         const pUrl = attendeeEmail
@@ -242,6 +189,10 @@ Deno.serve(async (req: Request) => {
           return jsonResponse({ error: 'Failed to update Google Calendar event' }, { status: 500 });
         }
         result = await resp.json();
+        await supabaseAdmin
+          .from('call_events')
+          .update(syncedFields(result))
+          .eq('id', callEventId);
       }
 
     } else if (action === 'delete') {
@@ -0,0 +1,113 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { watchCalendar } from '../_shared/google-calendar.ts';
+
+/**
+ * Register Google Calendar push notifications (events.watch channels).
+ *
+ * - Called by a user (Bearer user JWT): opens a channel on their calendar,
+ *   replacing any previous one. Returns { expires_at }.
+ * - Called by the scheduler (Bearer service role key, every 6 hours, see the
+ *   gcal_watch_channels migration): renews channels that expire within a day
+ *   and opens one for every connected user who has none. Returns
+ *   { renewed, failed }.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Auth
+    const authHeader =
+      req.headers.get('authorization') ??
+      req.headers.get('Authorization');
+
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing Authorization header' }, { status: 401 });
+    }
+
+    const tokenMatch = authHeader.match(/^Bearer\s+(.+)$/i);
+    const accessToken = tokenMatch?.[1];
+    if (!accessToken) {
+      return jsonResponse({ error: 'Invalid Authorization header' }, { status: 401 });
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Scheduled renewal
+    if (accessToken === supabaseServiceKey) {
+      const [{ data: connected }, { data: channels }] = await Promise.all([
+        supabaseAdmin.from('user_google_tokens').select('user_id'),
+        supabaseAdmin.from('google_calendar_channels').select('user_id, expires_at'),
+      ]);
+
+      const expiryByUser = new Map<string, string>(
+        (channels ?? []).map((c: { user_id: string; expires_at: string }) => [c.user_id, c.expires_at]),
+      );
+      const renewBy = Date.now() + RENEW_BEFORE_MS;
+      const due = (connected ?? [])
+        .map((t: { user_id: string }) => t.user_id)
+        .filter((userId: string) => {
+          const expiresAt = expiryByUser.get(userId);
+          return !expiresAt || new Date(expiresAt).getTime() < renewBy;
+        });
+
+      let renewed = 0;
+      let failed = 0;
+      for (const userId of due) {
+        const outcome = await watchCalendar(supabaseAdmin, userId);
+        if (outcome.error !== undefined) {
+          console.error('Failed to renew watch channel for', userId, outcome.error);
+          failed++;
+        } else {
+          renewed++;
+        }
+      }
+
+      return jsonResponse({ renewed, failed });
+    }
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonResponse({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const outcome = await watchCalendar(supabaseAdmin, userData.user.id);
+    if (outcome.error !== undefined) {
+      return jsonResponse({ error: outcome.error }, { status: outcome.status });
+    }
+
+    return jsonResponse({ expires_at: outcome.channel.expires_at });
+  } catch (error: unknown) {
+    console.error('Error in gcal-watch:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, { status: 500 });
+  }
+});
@@ -0,0 +1,105 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { holdPendingContacts, syncGoogleCalendar } from '../_shared/gcal-sync.ts';
+
+/**
+ * Receives Google Calendar push notifications for the channels opened by
+ * gcal-watch, and syncs the user's calendar when it changed.
+ *
+ * Google sends no body, only X-Goog-* headers:
+ *  - X-Goog-Channel-ID / X-Goog-Channel-Token: the channel and the secret we
+ *    gave it, checked against google_calendar_channels
+ *  - X-Goog-Resource-State: 'sync' when the channel opens, 'exists' on changes
+ *
+ * Anything other than a 2xx makes Google retry, so notifications we won't act
+ * on (unknown channels, a sync already running) are still acknowledged.
+ * Unmatched attendees the sync finds are held for the user's next sync.
+ */
+
+// Same window the calendar page uses for new calls
+const IMPORT_WINDOW_MONTHS = 3;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const channelId = req.headers.get('X-Goog-Channel-ID');
+    const channelToken = req.headers.get('X-Goog-Channel-Token');
+    const resourceId = req.headers.get('X-Goog-Resource-ID');
+    const resourceState = req.headers.get('X-Goog-Resource-State');
+
+    if (!channelId || !resourceState) {
+      return jsonResponse({ error: 'Not a Google Calendar notification' }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { data: channel } = await supabaseAdmin
+      .from('google_calendar_channels')
+      .select('user_id, token, resource_id')
+      .eq('channel_id', channelId)
+      .maybeSingle();
+
+    // Replaced or disconnected; Google stops sending once the channel expires
+    if (!channel) {
+      return jsonResponse({ ignored: 'unknown channel' });
+    }
+
+    if (channel.token !== channelToken || channel.resource_id !== resourceId) {
+      console.error('Rejected notification with a bad token for channel', channelId);
+      return jsonResponse({ error: 'Invalid channel token' }, 403);
+    }
+
+    if (resourceState === 'sync') {
+      return jsonResponse({ ok: true });
+    }
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.admin.getUserById(channel.user_id);
+    if (userErr || !userData?.user) {
+      console.error('User not found for channel', channelId, userErr);
+      return jsonResponse({ ignored: 'unknown user' });
+    }
+
+    const now = new Date();
+    const timeMin = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const timeMax = new Date(timeMin);
+    timeMax.setUTCMonth(timeMax.getUTCMonth() + IMPORT_WINDOW_MONTHS);
+
+    const outcome = await syncGoogleCalendar(
+      supabaseAdmin,
+      channel.user_id,
+      userData.user.email?.toLowerCase(),
+      { timeMin: timeMin.toISOString(), timeMax: timeMax.toISOString() },
+    );
+
+    if (outcome.error !== undefined) {
+      // The running sync or the next notification picks the change up
+      if (outcome.status === 409) {
+        return jsonResponse({ ignored: outcome.error });
+      }
+      console.error('Sync from notification failed for', channel.user_id, outcome.error);
+      // Let Google retry what may be a passing failure
+      return jsonResponse({ error: outcome.error }, outcome.status >= 500 ? 500 : 200);
+    }
+
+    // Nobody is looking at the result; the user reviews new attendees on their next sync
+    await holdPendingContacts(supabaseAdmin, channel.user_id, outcome.result.pending_contacts);
+
+    return jsonResponse({ ok: true });
+  } catch (error: unknown) {
+    console.error('Error in gcal-webhook:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -1,4 +1,12 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  getTemplateValues,
+  getUserTemplate,
+  interpolate,
+  recordTemplateUse,
+  styleSeedPrompt,
+  usesVariable,
+} from '../_shared/templates.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -31,10 +39,6 @@ Deno.serve(async (req: Request) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
 
-    if (!openaiApiKey) {
-      return jsonResponse({ error: 'Missing OPENAI_API_KEY secret' }, { status: 500 });
-    }
-
     // Authenticate user
     const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization');
     if (!authHeader) {
@@ -56,7 +60,7 @@ Deno.serve(async (req: Request) => {
 
     const userId = userData.user.id;
 
-    const { contactId } = await req.json();
+    const { contactId, clientYear, clientMonth, clientDay, templateId, templateMode } = await req.json();
     if (!contactId || typeof contactId !== 'string') {
       return jsonResponse({ error: 'Missing contactId' }, { status: 400 });
     }
@@ -64,7 +68,7 @@ Deno.serve(async (req: Request) => {
     // Fetch contact
     const { data: contact, error: contactErr } = await supabaseAdmin
       .from('contacts')
-      .select('id, user_id, name, firm, group_name, position, connection_type, email, notes_summary, prep_questions_json')
+      .select('id, user_id, name, firm, group_name, position, connection_type, email, timezone, notes_summary, prep_questions_json')
       .eq('id', contactId)
       .single();
 
@@ -75,6 +79,32 @@ Deno.serve(async (req: Request) => {
       return jsonResponse({ error: 'Forbidden' }, { status: 403 });
     }
 
+    // Optional template: filled in and returned as-is, or used as a style seed below
+    const template = templateId ? await getUserTemplate(supabaseAdmin, userId, templateId) : null;
+    if (templateId && !template) {
+      return jsonResponse({ error: 'Template not found' }, { status: 404 });
+    }
+
+    if (template && templateMode === 'as_is') {
+      const values = await getTemplateValues(supabaseAdmin, userId, contact, {
+        availability: usesVariable(template.subject + template.body, 'availability')
+          ? { year: clientYear, month: clientMonth, day: clientDay }
+          : undefined,
+      });
+      const missing = new Set<string>();
+      const rendered = {
+        subject: interpolate(template.subject, values, missing),
+        body: interpolate(template.body, values, missing),
+        missing: [...missing],
+      };
+      await recordTemplateUse(supabaseAdmin, { userId, templateId: template.id, contactId, mode: 'as_is' });
+      return jsonResponse(rendered);
+    }
+
+    if (!openaiApiKey) {
+      return jsonResponse({ error: 'Missing OPENAI_API_KEY secret' }, { status: 500 });
+    }
+
     // Fetch the most recent completed call event for this contact
     const { data: callEvent } = await supabaseAdmin
       .from('call_events')
@@ -166,6 +196,16 @@ Deno.serve(async (req: Request) => {
       contextBlock += `\nRecent interaction history:\n${interactionNotes.map((n) => `- ${n}`).join('\n')}\n`;
     }
 
+    let styleSeed = '';
+    if (template) {
+      const values = await getTemplateValues(supabaseAdmin, userId, contact);
+      const unused = new Set<string>();
+      styleSeed = styleSeedPrompt({
+        subject: interpolate(template.subject, values, unused),
+        body: interpolate(template.body, values, unused),
+      });
+    }
+
     const prompt = `Write a short, professional thank-you email (4-6 sentences max) from ${userIntro} to ${contactDesc}.
 
 The user recently had a phone call / coffee chat with this contact and wants to send a thank-you note.
@@ -179,7 +219,7 @@ Guidelines:
 - Start the email with "Hi ${contact.name.split(' ')[0]}," (first name only).
 - End with "Best,\\n${userName}" as the sign-off.
 - Do NOT use placeholder brackets like [Your Name] — use the actual information provided.
-
+${styleSeed}
 Return STRICT JSON: { "subject": "...", "body": "..." }
 - subject: a short email subject line (e.g. "Thank you for your time")
 - body: the full email text (use \\n for line breaks)
@@ -220,6 +260,10 @@ Return STRICT JSON: { "subject": "...", "body": "..." }
       return jsonResponse({ error: 'Invalid response format' }, { status: 500 });
     }
 
+    if (template) {
+      await recordTemplateUse(supabaseAdmin, { userId, templateId: template.id, contactId, mode: 'style_seed' });
+    }
+
     return jsonResponse({
       subject: parsed?.subject || 'Thank you for your time',
       body: parsed?.body || '',
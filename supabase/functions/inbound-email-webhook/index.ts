@@ -1,4 +1,6 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { advanceToScheduled, getStageOrder } from '../_shared/stages.ts';
+import { summarizeContact } from '../_shared/summaries.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -37,6 +39,24 @@ async function refreshAccessToken(
   return resp.json();
 }
 
+// ─── Contact Summary ──────────────────────────────────────────────────────────
+
+// The email was just logged as an interaction, so the contact's notes are out
+// of date. Best effort: the email is processed either way.
+async function refreshContactSummary(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  contactId: string,
+  openaiApiKey: string,
+): Promise<void> {
+  try {
+    const result = await summarizeContact(supabase, userId, contactId, openaiApiKey);
+    if (result.error !== undefined) console.error('Failed to refresh contact summary:', result.error);
+  } catch (e) {
+    console.error('Failed to refresh contact summary:', e);
+  }
+}
+
 // ─── Google Calendar Push ─────────────────────────────────────────────────────
 
 async function pushToGoogleCalendar(opts: {
@@ -384,6 +404,7 @@ Deno.serve(async (req: Request) => {
           connection_type: 'cold',
           relationship_strength: 1,
           stage: 'researching',
+          stage_source: 'inbound_email',
           next_followup_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
         })
         .select('id')
@@ -437,10 +458,12 @@ Deno.serve(async (req: Request) => {
       } else {
         callEventId = callEvent.id;
 
-        // Update contact stage to scheduled
+        // Move the contact to scheduled, unless it is already past it
+        const stageOrder = await getStageOrder(supabase, userId);
+        await advanceToScheduled(supabase, contactId, stageOrder, 'inbound_email');
         await supabase
           .from('contacts')
-          .update({ stage: 'scheduled', last_contacted_at: new Date().toISOString() })
+          .update({ last_contacted_at: new Date().toISOString() })
           .eq('id', contactId);
 
         // Create interaction
@@ -498,6 +521,8 @@ Deno.serve(async (req: Request) => {
         call_event_id: callEventId,
       });
 
+      if (contactId) await refreshContactSummary(supabase, userId, contactId, openaiApiKey);
+
       return jsonResponse({
         message: 'Email processed and meeting scheduled',
         contact_id: contactId,
@@ -536,6 +561,8 @@ Deno.serve(async (req: Request) => {
         contact_id: contactId,
       });
 
+      if (contactId) await refreshContactSummary(supabase, userId, contactId, openaiApiKey);
+
       return jsonResponse({
         message: 'Email received, needs manual confirmation',
         contact_id: contactId,
@@ -0,0 +1,121 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  calendarViewUrl,
+  eventTimes,
+  getMicrosoftAccess,
+  UTC_PREFERENCE,
+  type GraphEvent,
+} from '../_shared/microsoft-calendar.ts';
+
+/**
+ * Fetch Outlook calendar events for a date range, in the same shape as
+ * gcal-list-events.
+ *
+ * Body: { timeMin: string (ISO), timeMax: string (ISO) }
+ * Returns: { events: ExternalCalendarEvent[] }
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Auth
+    const authHeader =
+      req.headers.get('authorization') ??
+      req.headers.get('Authorization');
+
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing Authorization header' }, { status: 401 });
+    }
+
+    const tokenMatch = authHeader.match(/^Bearer\s+(.+)$/i);
+    const accessToken = tokenMatch?.[1];
+    if (!accessToken) {
+      return jsonResponse({ error: 'Invalid Authorization header' }, { status: 401 });
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonResponse({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const userId = userData.user.id;
+
+    // Parse body
+    const { timeMin, timeMax } = await req.json();
+    if (!timeMin || !timeMax) {
+      return jsonResponse({ error: 'Missing timeMin or timeMax' }, { status: 400 });
+    }
+
+    // Get user's Microsoft tokens, refreshed if expired
+    const access = await getMicrosoftAccess(supabaseAdmin, userId);
+    if (access.error !== undefined) {
+      return jsonResponse({ error: access.error }, { status: access.status });
+    }
+
+    // Fetch events, following Graph's pages
+    const items: GraphEvent[] = [];
+    let nextUrl: string | null = calendarViewUrl(access.tokenRow.calendar_id, timeMin, timeMax);
+    while (nextUrl) {
+      const resp = await fetch(nextUrl, {
+        headers: { Authorization: `Bearer ${access.accessToken}`, ...UTC_PREFERENCE },
+      });
+      if (!resp.ok) {
+        console.error('Graph list failed:', await resp.text());
+        return jsonResponse({ error: 'Failed to fetch Outlook events' }, { status: 500 });
+      }
+      const page = await resp.json();
+      items.push(...(page.value ?? []));
+      nextUrl = page['@odata.nextLink'] ?? null;
+    }
+
+    // Map to the shape gcal-list-events returns
+    const events = items.map((item) => {
+      const { startAt, endAt } = eventTimes(item);
+      return {
+        id: item.id,
+        summary: item.subject || '(No title)',
+        description: item.bodyPreview || null,
+        location: item.location?.displayName || null,
+        start: startAt,
+        end: endAt,
+        htmlLink: item.webLink ?? null,
+        status: item.isCancelled ? 'cancelled' : 'confirmed',
+      };
+    });
+
+    return jsonResponse({ events });
+  } catch (error: unknown) {
+    console.error('Error in outlook-list-events:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, { status: 500 });
+  }
+});
@@ -0,0 +1,128 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { graphUrl, MICROSOFT_SCOPES, MICROSOFT_TOKEN_URL } from '../_shared/microsoft-calendar.ts';
+
+/**
+ * Microsoft (Outlook / Office 365) OAuth callback handler.
+ *
+ * Flow:
+ *  1. Frontend redirects user to the Microsoft consent URL with state = JWT
+ *  2. Microsoft redirects here with ?code=...&state=JWT
+ *  3. We exchange the code for tokens and look up the account's address
+ *  4. We upsert the tokens into user_microsoft_tokens
+ *  5. We redirect the user back to the calendar page
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const code = url.searchParams.get('code');
+    const state = url.searchParams.get('state'); // JWT access token
+    const error = url.searchParams.get('error');
+
+    if (error) {
+      console.error('Microsoft OAuth error:', error, url.searchParams.get('error_description'));
+      return redirectToApp('?outlook_error=' + encodeURIComponent(error));
+    }
+
+    if (!code || !state) {
+      return new Response('Missing code or state', { status: 400 });
+    }
+
+    // Validate the JWT to get the user
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(state);
+    if (userErr || !userData?.user) {
+      console.error('Invalid JWT in state:', userErr);
+      return redirectToApp('?outlook_error=invalid_token');
+    }
+
+    const userId = userData.user.id;
+
+    // Exchange code for tokens
+    const tokenResp = await fetch(MICROSOFT_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        code,
+        client_id: Deno.env.get('MICROSOFT_CLIENT_ID')!,
+        client_secret: Deno.env.get('MICROSOFT_CLIENT_SECRET')!,
+        redirect_uri: `${supabaseUrl}/functions/v1/outlook-oauth-callback`,
+        grant_type: 'authorization_code',
+        scope: MICROSOFT_SCOPES,
+      }),
+    });
+
+    if (!tokenResp.ok) {
+      const errText = await tokenResp.text();
+      console.error('Token exchange failed:', errText);
+      return redirectToApp('?outlook_error=token_exchange_failed');
+    }
+
+    const tokens = await tokenResp.json();
+
+    if (!tokens.refresh_token) {
+      console.error('No refresh_token returned. Is the offline_access scope granted?');
+    }
+
+    // University accounts often differ from the login email; attendee matching needs this one
+    let accountEmail: string | null = null;
+    const meResp = await fetch(graphUrl('/me?$select=mail,userPrincipalName'), {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    if (meResp.ok) {
+      const me = await meResp.json();
+      accountEmail = (me.mail ?? me.userPrincipalName ?? null)?.toLowerCase() ?? null;
+    }
+
+    const expiresAt = new Date(Date.now() + (tokens.expires_in ?? 3600) * 1000).toISOString();
+
+    // Upsert tokens
+    const { error: upsertErr } = await supabaseAdmin
+      .from('user_microsoft_tokens')
+      .upsert(
+        {
+          user_id: userId,
+          access_token: tokens.access_token,
+          refresh_token: tokens.refresh_token ?? '',
+          token_expires_at: expiresAt,
+          account_email: accountEmail,
+        },
+        { onConflict: 'user_id' },
+      );
+
+    if (upsertErr) {
+      console.error('Failed to store tokens:', upsertErr);
+      return redirectToApp('?outlook_error=storage_failed');
+    }
+
+    return redirectToApp('?outlook_connected=true');
+  } catch (err) {
+    console.error('Unexpected error:', err);
+    return redirectToApp('?outlook_error=unexpected');
+  }
+});
+
+function redirectToApp(query: string) {
+  // Redirect to the frontend calendar page
+  const appUrl = Deno.env.get('APP_URL') ?? 'http://localhost:8080';
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: `${appUrl}/calendar${query}`,
+      ...corsHeaders,
+    },
+  });
+}
@@ -0,0 +1,172 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildMicrosoftEvent, eventsUrl, getMicrosoftAccess } from '../_shared/microsoft-calendar.ts';
+
+/**
+ * Push a call event to the user's Outlook calendar (create / update / delete).
+ *
+ * Body: { callEventId: string, action: 'create' | 'update' | 'delete', attendeeEmail?: string }
+ *
+ * - Reads the call_event row from DB
+ * - Reads the user's stored Microsoft tokens, refreshing them if expired
+ * - Calls Microsoft Graph. Graph emails the invite itself when the event has
+ *   attendees.
+ * - Stores the external_event_id back on the call_event row
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Auth
+    const authHeader =
+      req.headers.get('authorization') ??
+      req.headers.get('Authorization');
+
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing Authorization header' }, { status: 401 });
+    }
+
+    const tokenMatch = authHeader.match(/^Bearer\s+(.+)$/i);
+    const accessToken = tokenMatch?.[1];
+    if (!accessToken) {
+      return jsonResponse({ error: 'Invalid Authorization header' }, { status: 401 });
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonResponse({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const userId = userData.user.id;
+
+    // Parse body
+    const { callEventId, action, attendeeEmail } = await req.json();
+    if (!callEventId || !action) {
+      return jsonResponse({ error: 'Missing callEventId or action' }, { status: 400 });
+    }
+    if (!['create', 'update', 'delete'].includes(action)) {
+      return jsonResponse({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    // Get user's Microsoft tokens, refreshed if expired
+    const access = await getMicrosoftAccess(supabaseAdmin, userId);
+    if (access.error !== undefined) {
+      return jsonResponse({ error: access.error }, { status: access.status });
+    }
+    const { tokenRow, accessToken: graphAccessToken } = access;
+
+    // Get call event
+    const { data: callEvent, error: callErr } = await supabaseAdmin
+      .from('call_events')
+      .select('*, contact:contacts(name, firm)')
+      .eq('id', callEventId)
+      .single();
+
+    if (callErr || !callEvent) {
+      return jsonResponse({ error: 'Call event not found' }, { status: 404 });
+    }
+
+    if (callEvent.user_id !== userId) {
+      return jsonResponse({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const graphBase = eventsUrl(tokenRow.calendar_id);
+    const contact = callEvent.contact as { name: string; firm: string | null } | null;
+    const graphEvent = buildMicrosoftEvent(callEvent, contact);
+
+    if (attendeeEmail && typeof attendeeEmail === 'string') {
+      graphEvent.attendees = [
+        { emailAddress: { address: attendeeEmail, name: contact?.name }, type: 'required' },
+      ];
+    }
+
+    const graphHeaders = {
+      Authorization: `Bearer ${graphAccessToken}`,
+      'Content-Type': 'application/json',
+    };
+
+    // Only events this integration created can be updated or deleted here
+    const externalId = callEvent.external_provider === 'microsoft' ? callEvent.external_event_id : null;
+    let eventId: string | null = null;
+
+    if (action === 'create' || (action === 'update' && !externalId)) {
+      const resp = await fetch(graphBase, {
+        method: 'POST',
+        headers: graphHeaders,
+        body: JSON.stringify(graphEvent),
+      });
+      if (!resp.ok) {
+        console.error('Graph create failed:', await resp.text());
+        return jsonResponse({ error: 'Failed to create Outlook event' }, { status: 500 });
+      }
+      const created = await resp.json();
+      eventId = created.id;
+
+      await supabaseAdmin
+        .from('call_events')
+        .update({ external_provider: 'microsoft', external_event_id: created.id })
+        .eq('id', callEventId);
+
+    } else if (action === 'update') {
+      const resp = await fetch(`${graphBase}/${encodeURIComponent(externalId!)}`, {
+        method: 'PATCH',
+        headers: graphHeaders,
+        body: JSON.stringify(graphEvent),
+      });
+      if (!resp.ok) {
+        console.error('Graph update failed:', await resp.text());
+        return jsonResponse({ error: 'Failed to update Outlook event' }, { status: 500 });
+      }
+      eventId = externalId;
+
+    } else if (action === 'delete' && externalId) {
+      const resp = await fetch(`${graphBase}/${encodeURIComponent(externalId)}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${graphAccessToken}` },
+      });
+      if (!resp.ok && resp.status !== 404) {
+        console.error('Graph delete failed:', await resp.text());
+        return jsonResponse({ error: 'Failed to delete Outlook event' }, { status: 500 });
+      }
+      // Clear external references
+      await supabaseAdmin
+        .from('call_events')
+        .update({ external_provider: null, external_event_id: null })
+        .eq('id', callEventId);
+    }
+
+    return jsonResponse({ success: true, externalEventId: eventId });
+  } catch (error: unknown) {
+    console.error('Error in outlook-push-event:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, { status: 500 });
+  }
+});
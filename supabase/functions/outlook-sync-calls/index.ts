@@ -0,0 +1,265 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  calendarViewUrl,
+  eventsUrl,
+  eventTimes,
+  getMicrosoftAccess,
+  UTC_PREFERENCE,
+  type GraphEvent,
+} from '../_shared/microsoft-calendar.ts';
+import { advanceToScheduled, getStageOrder } from '../_shared/stages.ts';
+
+/**
+ * Sync Outlook calendar call events into the pipeline, like gcal-sync-calls
+ * does for Google.
+ *
+ * Body: { timeMin: string (ISO), timeMax: string (ISO) }
+ *
+ *  1. Outlook events of calls deleted in the app are deleted
+ *  2. For each Outlook event in the window with attendees that isn't a call yet:
+ *     - For each attendee email (other than the user's own) that matches a
+ *       contact, create a call_event and move the contact to 'scheduled'
+ *       stage, unless it is already past it in the user's own stage order
+ *
+ * Returns: { synced, deleted, skipped, pending_contacts }
+ *
+ * pending_contacts contains unmatched attendees for the user to review before creating.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Auth
+    const authHeader =
+      req.headers.get('authorization') ??
+      req.headers.get('Authorization');
+
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing Authorization header' }, { status: 401 });
+    }
+
+    const tokenMatch = authHeader.match(/^Bearer\s+(.+)$/i);
+    const accessToken = tokenMatch?.[1];
+    if (!accessToken) {
+      return jsonResponse({ error: 'Invalid Authorization header' }, { status: 401 });
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonResponse({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const userId = userData.user.id;
+
+    // Parse body
+    const { timeMin, timeMax } = await req.json();
+    if (!timeMin || !timeMax) {
+      return jsonResponse({ error: 'Missing timeMin or timeMax' }, { status: 400 });
+    }
+
+    // Get user's Microsoft tokens, refreshed if expired
+    const access = await getMicrosoftAccess(supabaseAdmin, userId);
+    if (access.error !== undefined) {
+      return jsonResponse({ error: access.error }, { status: access.status });
+    }
+    const { tokenRow, accessToken: graphAccessToken } = access;
+
+    // The user's own addresses, so they aren't matched as attendees
+    const ownEmails = new Set(
+      [userData.user.email, tokenRow.account_email]
+        .filter((e): e is string => !!e)
+        .map((e) => e.toLowerCase()),
+    );
+
+    let synced = 0;
+    let deleted = 0;
+    let skipped = 0;
+
+    // Delete the Outlook events of calls deleted in the app. Failures stay
+    // queued for the next sync.
+    const { data: deletions } = await supabaseAdmin
+      .from('call_event_deletions')
+      .select('id, external_event_id')
+      .eq('user_id', userId)
+      .eq('external_provider', 'microsoft');
+
+    for (const deletion of deletions ?? []) {
+      const resp = await fetch(`${eventsUrl(tokenRow.calendar_id)}/${encodeURIComponent(deletion.external_event_id)}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${graphAccessToken}` },
+      });
+      if (!resp.ok && resp.status !== 404) {
+        console.error('Graph delete failed:', await resp.text());
+        continue;
+      }
+      await supabaseAdmin.from('call_event_deletions').delete().eq('id', deletion.id);
+      if (resp.ok) deleted++;
+    }
+
+    // Fetch events from Outlook, following Graph's pages
+    const items: GraphEvent[] = [];
+    let nextUrl: string | null = calendarViewUrl(tokenRow.calendar_id, timeMin, timeMax);
+    while (nextUrl) {
+      const resp = await fetch(nextUrl, {
+        headers: { Authorization: `Bearer ${graphAccessToken}`, ...UTC_PREFERENCE },
+      });
+      if (!resp.ok) {
+        console.error('Graph list failed:', await resp.text());
+        return jsonResponse({ error: 'Failed to fetch Outlook events' }, { status: 500 });
+      }
+      const page = await resp.json();
+      items.push(...(page.value ?? []));
+      nextUrl = page['@odata.nextLink'] ?? null;
+    }
+
+    // Get existing synced event IDs to avoid duplicates
+    const { data: existingSynced } = await supabaseAdmin
+      .from('call_events')
+      .select('external_event_id')
+      .eq('user_id', userId)
+      .eq('external_provider', 'microsoft');
+
+    const syncedIds = new Set(
+      (existingSynced ?? []).map((e: { external_event_id: string }) => e.external_event_id),
+    );
+
+    // Get all user's contacts for email matching
+    const { data: existingContacts } = await supabaseAdmin
+      .from('contacts')
+      .select('id, email, name')
+      .eq('user_id', userId);
+
+    const contactsByEmail = new Map<string, { id: string; name: string }>();
+    (existingContacts ?? []).forEach((c: { id: string; email: string | null; name: string }) => {
+      if (c.email) {
+        contactsByEmail.set(c.email.toLowerCase(), { id: c.id, name: c.name });
+      }
+    });
+
+    const stageOrder = await getStageOrder(supabaseAdmin, userId);
+
+    // Collect unmatched attendees for user review (deduped by email)
+    const pendingContactsMap = new Map<string, {
+      email: string;
+      displayName: string;
+      gcalEventId: string;
+      eventTitle: string;
+      startAt: string;
+      endAt: string;
+      location: string | null;
+      notes: string | null;
+    }>();
+
+    for (const item of items) {
+      if (item.isCancelled || syncedIds.has(item.id)) {
+        skipped++;
+        continue;
+      }
+
+      // Attendees other than the user; when someone else organized the
+      // meeting, they're a candidate too
+      const people = [
+        ...(item.attendees ?? []).map((a) => a.emailAddress),
+        item.isOrganizer ? undefined : item.organizer?.emailAddress,
+      ].filter((p): p is { address: string; name?: string } =>
+        !!p?.address && !ownEmails.has(p.address.toLowerCase()),
+      );
+
+      // Skip events with no other attendees (solo events, focus time, etc.)
+      if (people.length === 0) {
+        skipped++;
+        continue;
+      }
+
+      const { startAt, endAt } = eventTimes(item);
+      const title = item.subject || '(No title)';
+      const location = item.location?.displayName || null;
+      const notes = item.bodyPreview || null;
+
+      for (const person of people) {
+        const email = person.address.toLowerCase();
+
+        const existing = contactsByEmail.get(email);
+        if (existing) {
+          // Auto-sync: create call_event for existing contact
+          const { error: callErr } = await supabaseAdmin
+            .from('call_events')
+            .insert({
+              user_id: userId,
+              contact_id: existing.id,
+              title,
+              start_at: startAt,
+              end_at: endAt,
+              location,
+              notes,
+              status: 'scheduled',
+              external_provider: 'microsoft',
+              external_event_id: item.id,
+            });
+
+          if (callErr) {
+            console.error('Failed to create call_event for', item.id, callErr);
+            continue;
+          }
+
+          // Move contact to 'scheduled' stage only if not already past it
+          await advanceToScheduled(supabaseAdmin, existing.id, stageOrder, 'outlook_sync');
+
+          synced++;
+        } else if (!pendingContactsMap.has(email)) {
+          // Unmatched: collect for user review (don't auto-create)
+          pendingContactsMap.set(email, {
+            email,
+            displayName: person.name || email.split('@')[0],
+            gcalEventId: item.id,
+            eventTitle: title,
+            startAt,
+            endAt,
+            location,
+            notes,
+          });
+        }
+      }
+    }
+
+    return jsonResponse({
+      synced,
+      deleted,
+      skipped,
+      pending_contacts: Array.from(pendingContactsMap.values()),
+    });
+  } catch (error: unknown) {
+    console.error('Error in outlook-sync-calls:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, { status: 500 });
+  }
+});
@@ -0,0 +1,249 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Contacts whose activity is looked up per followup_contact_activity call
+const ACTIVITY_BATCH_SIZE = 200;
+
+interface FollowupRule {
+  user_id: string;
+  stage: string;
+  connection_type: string | null;
+  delay_days: number;
+  max_followups: number;
+  mark_cold: boolean;
+}
+
+interface ContactActivity {
+  contact_id: string;
+  entered_stage_at: string | null;
+  last_interaction_at: string | null;
+}
+
+interface ContactRow {
+  id: string;
+  user_id: string;
+  name: string;
+  stage: string;
+  connection_type: string;
+  next_followup_at: string | null;
+  followup_count: number;
+  created_at: string;
+}
+
+// A rule for the contact's exact connection type beats a catch-all rule for the stage
+function findRule(rules: FollowupRule[], contact: ContactRow): FollowupRule | undefined {
+  const forStage = rules.filter((r) => r.stage === contact.stage);
+  return (
+    forStage.find((r) => r.connection_type === contact.connection_type) ??
+    forStage.find((r) => r.connection_type === null)
+  );
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+// Scheduled hourly (see the followup_rules migration). For every contact in a
+// stage with a follow-up rule:
+// - an interaction logged since the contact entered the stage stops the cadence
+// - once next_followup_at is due, a follow-up task is created and the next one scheduled
+// - after max_followups unanswered follow-ups, the contact is marked cold
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+    const today = now.toISOString().split('T')[0];
+
+    const { data: rules, error: rulesError } = await supabase
+      .from('followup_rules')
+      .select('user_id, stage, connection_type, delay_days, max_followups, mark_cold')
+      .eq('enabled', true);
+
+    if (rulesError) {
+      console.error('Error fetching followup rules:', rulesError);
+      throw rulesError;
+    }
+
+    const rulesByUser = new Map<string, FollowupRule[]>();
+    for (const rule of (rules || []) as FollowupRule[]) {
+      rulesByUser.set(rule.user_id, [...(rulesByUser.get(rule.user_id) || []), rule]);
+    }
+
+    let tasksCreated = 0;
+    let markedCold = 0;
+    let stopped = 0;
+
+    for (const [userId, userRules] of rulesByUser) {
+      const stages = Array.from(new Set(userRules.map((r) => r.stage)));
+
+      const contacts: ContactRow[] = [];
+      let contactsError = null;
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data: page, error } = await supabase
+          .from('contacts')
+          .select('id, user_id, name, stage, connection_type, next_followup_at, followup_count, created_at')
+          .eq('user_id', userId)
+          .in('stage', stages)
+          .is('went_cold_at', null)
+          .order('id')
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) {
+          contactsError = error;
+          break;
+        }
+        contacts.push(...((page || []) as ContactRow[]));
+        if (!page || page.length < PAGE_SIZE) break;
+      }
+
+      if (contactsError) {
+        console.error(`Error fetching contacts for ${userId}:`, contactsError);
+        continue;
+      }
+      if (contacts.length === 0) continue;
+
+      // When each contact entered its current stage, when it last had an
+      // interaction, and whether an outreach sequence is running for it
+      const enteredStageAt = new Map<string, string>();
+      const lastInteractionAt = new Map<string, string>();
+      const inSequence = new Set<string>();
+      let activityError = null;
+
+      for (let i = 0; i < contacts.length; i += ACTIVITY_BATCH_SIZE) {
+        const batchIds = contacts.slice(i, i + ACTIVITY_BATCH_SIZE).map((c) => c.id);
+
+        const { data: activity, error } = await supabase
+          .rpc('followup_contact_activity', { p_contact_ids: batchIds });
+        if (error) {
+          activityError = error;
+          break;
+        }
+        for (const row of (activity || []) as ContactActivity[]) {
+          if (row.entered_stage_at) enteredStageAt.set(row.contact_id, row.entered_stage_at);
+          if (row.last_interaction_at) lastInteractionAt.set(row.contact_id, row.last_interaction_at);
+        }
+
+        // A running outreach sequence already schedules this contact's follow-ups
+        const { data: activeSequences, error: sequencesError } = await supabase
+          .from('outreach_sequences')
+          .select('contact_id')
+          .in('contact_id', batchIds)
+          .eq('status', 'active');
+        if (sequencesError) {
+          activityError = sequencesError;
+          break;
+        }
+        for (const sequence of activeSequences || []) inSequence.add(sequence.contact_id);
+      }
+
+      // Without the latest interactions, contacts who replied would be chased again
+      if (activityError) {
+        console.error(`Error fetching contact activity for ${userId}:`, activityError);
+        continue;
+      }
+
+      for (const contact of contacts) {
+        if (inSequence.has(contact.id)) continue;
+
+        const rule = findRule(userRules, contact);
+        if (!rule) continue;
+
+        const anchor = enteredStageAt.get(contact.id) || contact.created_at;
+        const lastInteraction = lastInteractionAt.get(contact.id);
+
+        // They replied (or we logged a conversation): stop chasing
+        if (lastInteraction && new Date(lastInteraction) > new Date(anchor)) {
+          if (contact.next_followup_at) {
+            await supabase.from('contacts').update({ next_followup_at: null }).eq('id', contact.id);
+            stopped++;
+          }
+          continue;
+        }
+
+        const dueAt = contact.next_followup_at
+          ? new Date(contact.next_followup_at)
+          : new Date(new Date(anchor).getTime() + rule.delay_days * DAY_MS);
+
+        if (dueAt > now) {
+          if (!contact.next_followup_at) {
+            await supabase.from('contacts').update({ next_followup_at: dueAt.toISOString() }).eq('id', contact.id);
+          }
+          continue;
+        }
+
+        if (contact.followup_count >= rule.max_followups) {
+          if (rule.mark_cold) {
+            await supabase
+              .from('contacts')
+              .update({ next_followup_at: null, went_cold_at: now.toISOString() })
+              .eq('id', contact.id);
+            markedCold++;
+          } else if (contact.next_followup_at) {
+            await supabase.from('contacts').update({ next_followup_at: null }).eq('id', contact.id);
+            stopped++;
+          }
+          continue;
+        }
+
+        const followupNumber = contact.followup_count + 1;
+        const { error: taskError } = await supabase.from('tasks').insert({
+          user_id: contact.user_id,
+          contact_id: contact.id,
+          title: followupNumber === 1
+            ? `Follow up with ${contact.name}`
+            : `Follow up with ${contact.name} (${ordinal(followupNumber)} follow-up)`,
+          task_type: 'follow_up',
+          due_date: today,
+        });
+
+        if (taskError) {
+          console.error(`Error creating follow-up task for ${contact.id}:`, taskError);
+          continue;
+        }
+
+        await supabase
+          .from('contacts')
+          .update({
+            followup_count: followupNumber,
+            next_followup_at: new Date(now.getTime() + rule.delay_days * DAY_MS).toISOString(),
+          })
+          .eq('id', contact.id);
+        tasksCreated++;
+      }
+    }
+
+    console.log(`Follow-ups: ${tasksCreated} tasks created, ${markedCold} marked cold, ${stopped} stopped`);
+
+    return new Response(
+      JSON.stringify({ created: tasksCreated, markedCold, stopped }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in process-followups:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
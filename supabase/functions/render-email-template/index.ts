@@ -0,0 +1,97 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getTemplateValues, interpolate, usesVariable } from '../_shared/templates.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+// Fills a template's {{variables}} for one contact, for previews and sequence
+// emails. Availability is only looked up when the template asks for it.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Authenticate user
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing Authorization header' }, { status: 401 });
+    }
+
+    const tokenMatch = authHeader.match(/^Bearer\s+(.+)$/i);
+    const accessToken = tokenMatch?.[1];
+    if (!accessToken) {
+      return jsonResponse({ error: 'Invalid Authorization header' }, { status: 401 });
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonResponse({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const userId = userData.user.id;
+
+    const { contactId, subject, body, clientYear, clientMonth, clientDay } = await req.json();
+    if (!contactId || typeof contactId !== 'string') {
+      return jsonResponse({ error: 'Missing contactId' }, { status: 400 });
+    }
+    if (typeof body !== 'string') {
+      return jsonResponse({ error: 'Missing body' }, { status: 400 });
+    }
+
+    // Fetch contact
+    const { data: contact, error: contactErr } = await supabaseAdmin
+      .from('contacts')
+      .select('id, user_id, name, firm, group_name, position, timezone')
+      .eq('id', contactId)
+      .single();
+
+    if (contactErr || !contact) {
+      return jsonResponse({ error: 'Contact not found' }, { status: 404 });
+    }
+    if (contact.user_id !== userId) {
+      return jsonResponse({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const subjectText = typeof subject === 'string' ? subject : '';
+    const values = await getTemplateValues(supabaseAdmin, userId, contact, {
+      availability: usesVariable(subjectText + body, 'availability')
+        ? { year: clientYear, month: clientMonth, day: clientDay }
+        : undefined,
+    });
+
+    const missing = new Set<string>();
+    return jsonResponse({
+      subject: interpolate(subjectText, values, missing),
+      body: interpolate(body, values, missing),
+      missing: [...missing],
+    });
+  } catch (error: unknown) {
+    console.error('Error in render-email-template:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, { status: 500 });
+  }
+});
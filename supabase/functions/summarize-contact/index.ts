@@ -0,0 +1,105 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { summarizeContact } from '../_shared/summaries.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Each one is an OpenAI call; keeps a request well within the function's time limit
+const MAX_CONTACTS_PER_REQUEST = 10;
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
+
+    if (!openaiApiKey) {
+      return jsonResponse({ error: 'Missing OPENAI_API_KEY secret' }, { status: 500 });
+    }
+
+    // Authenticate user
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing Authorization header' }, { status: 401 });
+    }
+
+    const tokenMatch = authHeader.match(/^Bearer\s+(.+)$/i);
+    const accessToken = tokenMatch?.[1];
+    if (!accessToken) {
+      return jsonResponse({ error: 'Invalid Authorization header' }, { status: 401 });
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonResponse({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const userId = userData.user.id;
+
+    const { contactId, contactIds } = await req.json();
+
+    // Several contacts, e.g. everyone at a group event: summarized one after
+    // another, each reported separately
+    if (contactIds !== undefined) {
+      if (!Array.isArray(contactIds) || contactIds.length === 0 || !contactIds.every((id) => typeof id === 'string')) {
+        return jsonResponse({ error: 'Missing contactIds' }, { status: 400 });
+      }
+      if (contactIds.length > MAX_CONTACTS_PER_REQUEST) {
+        return jsonResponse({ error: `At most ${MAX_CONTACTS_PER_REQUEST} contacts per request` }, { status: 400 });
+      }
+
+      const results: { contactId: string; suggestion?: string | null; error?: string }[] = [];
+      for (const id of contactIds as string[]) {
+        try {
+          const result = await summarizeContact(supabaseAdmin, userId, id, openaiApiKey);
+          results.push(result.error !== undefined
+            ? { contactId: id, error: result.error }
+            : { contactId: id, suggestion: result.suggestion });
+        } catch (e) {
+          console.error(`Failed to summarize contact ${id}:`, e);
+          results.push({ contactId: id, error: 'Failed to generate summary' });
+        }
+      }
+      return jsonResponse({ results });
+    }
+
+    if (!contactId || typeof contactId !== 'string') {
+      return jsonResponse({ error: 'Missing contactId' }, { status: 400 });
+    }
+
+    const result = await summarizeContact(supabaseAdmin, userId, contactId, openaiApiKey);
+    if (result.error !== undefined) {
+      return jsonResponse({ error: result.error }, { status: result.status });
+    }
+
+    return jsonResponse({ suggestion: result.suggestion });
+  } catch (error: unknown) {
+    console.error('Error in summarize-contact:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, { status: 500 });
+  }
+});
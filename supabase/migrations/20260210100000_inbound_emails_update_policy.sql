@@ -0,0 +1,3 @@
+-- Allow users to re-point their own inbound emails (e.g. when merging duplicate contacts)
+CREATE POLICY "Users can update their own inbound emails" ON public.inbound_emails
+    FOR UPDATE USING (auth.uid() = user_id);
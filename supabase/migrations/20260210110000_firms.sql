@@ -0,0 +1,136 @@
+-- Firm and group entities: normalize free-text contacts.firm / group_name
+-- so "GS", "Goldman" and "Goldman Sachs" resolve to the same firm.
+
+CREATE TABLE public.firms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.firm_groups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    firm_id UUID REFERENCES public.firms(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.contacts
+    ADD COLUMN firm_id UUID REFERENCES public.firms(id) ON DELETE SET NULL,
+    ADD COLUMN firm_group_id UUID REFERENCES public.firm_groups(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE public.firms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.firm_groups ENABLE ROW LEVEL SECURITY;
+
+-- Firms policies
+CREATE POLICY "Users can view their own firms" ON public.firms
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own firms" ON public.firms
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own firms" ON public.firms
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own firms" ON public.firms
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Firm groups policies
+CREATE POLICY "Users can view their own firm groups" ON public.firm_groups
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own firm groups" ON public.firm_groups
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own firm groups" ON public.firm_groups
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own firm groups" ON public.firm_groups
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Triggers for updated_at
+CREATE TRIGGER set_firms_updated_at
+    BEFORE UPDATE ON public.firms
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_firm_groups_updated_at
+    BEFORE UPDATE ON public.firm_groups
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Indexes
+CREATE INDEX idx_firms_user_id ON public.firms(user_id);
+CREATE UNIQUE INDEX idx_firms_user_name ON public.firms(user_id, LOWER(name));
+CREATE INDEX idx_firm_groups_firm_id ON public.firm_groups(firm_id);
+CREATE UNIQUE INDEX idx_firm_groups_firm_name ON public.firm_groups(firm_id, LOWER(name));
+CREATE INDEX idx_contacts_firm_id ON public.contacts(firm_id);
+
+-- Resolve contacts.firm / group_name to firm entities on every write, matching the
+-- canonical name or any alias case-insensitively and creating the firm if it is new.
+-- Every insert path (UI, CSV import, inbound email, calendar sync) goes through this.
+CREATE OR REPLACE FUNCTION public.resolve_contact_firm()
+RETURNS TRIGGER AS $$
+DECLARE
+    firm_text TEXT := NULLIF(TRIM(NEW.firm), '');
+    group_text TEXT := NULLIF(TRIM(NEW.group_name), '');
+    resolved_firm public.firms%ROWTYPE;
+    resolved_group public.firm_groups%ROWTYPE;
+BEGIN
+    -- An explicit firm_id change (e.g. from the autocomplete) wins over the text
+    IF TG_OP = 'UPDATE' AND NEW.firm_id IS DISTINCT FROM OLD.firm_id AND NEW.firm_id IS NOT NULL THEN
+        SELECT * INTO resolved_firm FROM public.firms WHERE id = NEW.firm_id AND user_id = NEW.user_id;
+    ELSIF firm_text IS NOT NULL THEN
+        SELECT * INTO resolved_firm
+        FROM public.firms
+        WHERE user_id = NEW.user_id
+          AND (LOWER(name) = LOWER(firm_text)
+               OR LOWER(firm_text) = ANY (SELECT LOWER(a) FROM UNNEST(aliases) AS a))
+        LIMIT 1;
+
+        IF resolved_firm.id IS NULL THEN
+            INSERT INTO public.firms (user_id, name)
+            VALUES (NEW.user_id, firm_text)
+            RETURNING * INTO resolved_firm;
+        END IF;
+    END IF;
+
+    IF resolved_firm.id IS NULL THEN
+        NEW.firm_id := NULL;
+        NEW.firm_group_id := NULL;
+        NEW.firm := firm_text;
+        RETURN NEW;
+    END IF;
+
+    NEW.firm_id := resolved_firm.id;
+    NEW.firm := resolved_firm.name;
+
+    IF group_text IS NOT NULL THEN
+        SELECT * INTO resolved_group
+        FROM public.firm_groups
+        WHERE firm_id = resolved_firm.id
+          AND (LOWER(name) = LOWER(group_text)
+               OR LOWER(group_text) = ANY (SELECT LOWER(a) FROM UNNEST(aliases) AS a))
+        LIMIT 1;
+
+        IF resolved_group.id IS NULL THEN
+            INSERT INTO public.firm_groups (user_id, firm_id, name)
+            VALUES (NEW.user_id, resolved_firm.id, group_text)
+            RETURNING * INTO resolved_group;
+        END IF;
+
+        NEW.firm_group_id := resolved_group.id;
+        NEW.group_name := resolved_group.name;
+    ELSE
+        NEW.firm_group_id := NULL;
+        NEW.group_name := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER resolve_contacts_firm
+    BEFORE INSERT OR UPDATE OF firm, group_name, firm_id ON public.contacts
+    FOR EACH ROW EXECUTE FUNCTION public.resolve_contact_firm();
+
+-- Backfill existing contacts (the UPDATE fires the trigger above)
+UPDATE public.contacts SET firm = firm WHERE firm IS NOT NULL;
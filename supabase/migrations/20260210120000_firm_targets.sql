@@ -0,0 +1,3 @@
+-- Per-user target list: firms the user is actively trying to network into
+ALTER TABLE public.firms
+    ADD COLUMN is_target BOOLEAN NOT NULL DEFAULT false;
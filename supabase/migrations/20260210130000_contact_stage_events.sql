@@ -0,0 +1,65 @@
+-- Stage transition history: every change to contacts.stage is recorded with
+-- its timestamp and where it came from, for funnel analytics.
+
+CREATE TYPE public.stage_event_source AS ENUM ('manual', 'import', 'gcal_sync', 'inbound_email');
+
+CREATE TABLE public.contact_stage_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    -- Deferred so the BEFORE INSERT trigger below can log a contact's first stage
+    contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED NOT NULL,
+    from_stage public.contact_stage,
+    to_stage public.contact_stage NOT NULL,
+    source public.stage_event_source NOT NULL DEFAULT 'manual',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Write-only hint: callers set it alongside `stage` to attribute the change.
+-- The trigger consumes it and clears it, so an unattributed change counts as manual.
+ALTER TABLE public.contacts
+    ADD COLUMN stage_source public.stage_event_source;
+
+-- Enable RLS
+ALTER TABLE public.contact_stage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stage events" ON public.contact_stage_events
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own stage events" ON public.contact_stage_events
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own stage events" ON public.contact_stage_events
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own stage events" ON public.contact_stage_events
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX idx_contact_stage_events_user_id ON public.contact_stage_events(user_id);
+CREATE INDEX idx_contact_stage_events_contact_id ON public.contact_stage_events(contact_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.record_contact_stage_event()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.stage IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.stage IS DISTINCT FROM OLD.stage) THEN
+        INSERT INTO public.contact_stage_events (user_id, contact_id, from_stage, to_stage, source)
+        VALUES (
+            NEW.user_id,
+            NEW.id,
+            CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage END,
+            NEW.stage,
+            COALESCE(NEW.stage_source, 'manual')
+        );
+    END IF;
+
+    NEW.stage_source := NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_contacts_stage_event
+    BEFORE INSERT OR UPDATE OF stage, stage_source ON public.contacts
+    FOR EACH ROW EXECUTE FUNCTION public.record_contact_stage_event();
+
+-- Seed history for existing contacts: we only know where they are now
+INSERT INTO public.contact_stage_events (user_id, contact_id, from_stage, to_stage, source, created_at)
+SELECT user_id, id, NULL, stage, 'manual', created_at
+FROM public.contacts
+WHERE stage IS NOT NULL;
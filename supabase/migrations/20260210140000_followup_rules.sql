@@ -0,0 +1,94 @@
+-- Follow-up cadence rules: "in stage X (optionally for connection type Y), no
+-- reply after N days -> follow-up task; after M follow-ups -> mark cold".
+-- Evaluated by the process-followups edge function.
+
+CREATE TABLE public.followup_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    stage public.contact_stage NOT NULL,
+    -- NULL applies to every connection type without a more specific rule
+    connection_type public.connection_type,
+    delay_days INTEGER NOT NULL DEFAULT 5 CHECK (delay_days > 0),
+    max_followups INTEGER NOT NULL DEFAULT 2 CHECK (max_followups >= 0),
+    mark_cold BOOLEAN NOT NULL DEFAULT true,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.contacts
+    ADD COLUMN followup_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN went_cold_at TIMESTAMP WITH TIME ZONE;
+
+-- Enable RLS
+ALTER TABLE public.followup_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own followup rules" ON public.followup_rules
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own followup rules" ON public.followup_rules
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own followup rules" ON public.followup_rules
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own followup rules" ON public.followup_rules
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_followup_rules_updated_at
+    BEFORE UPDATE ON public.followup_rules
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- One rule per stage and connection type (NULL counts as its own value)
+CREATE UNIQUE INDEX idx_followup_rules_user_stage_type
+    ON public.followup_rules(user_id, stage, COALESCE(connection_type::TEXT, ''));
+CREATE INDEX idx_contacts_next_followup_at ON public.contacts(next_followup_at);
+
+-- Entering a stage starts a fresh cadence: reset the counter and schedule the
+-- first follow-up from the matching rule, if there is one.
+CREATE OR REPLACE FUNCTION public.start_contact_followup_cadence()
+RETURNS TRIGGER AS $$
+DECLARE
+    rule_delay INTEGER;
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.stage IS DISTINCT FROM OLD.stage THEN
+        NEW.followup_count := 0;
+        NEW.went_cold_at := NULL;
+
+        SELECT delay_days INTO rule_delay
+        FROM public.followup_rules
+        WHERE user_id = NEW.user_id
+          AND enabled
+          AND stage = NEW.stage
+          AND (connection_type = NEW.connection_type OR connection_type IS NULL)
+        ORDER BY connection_type NULLS LAST
+        LIMIT 1;
+
+        IF rule_delay IS NOT NULL THEN
+            NEW.next_followup_at := now() + make_interval(days => rule_delay);
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER start_contacts_followup_cadence
+    BEFORE INSERT OR UPDATE OF stage ON public.contacts
+    FOR EACH ROW EXECUTE FUNCTION public.start_contact_followup_cadence();
+
+-- Run the engine hourly. Expects `project_url` and `service_role_key` in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+    'process-followups',
+    '0 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-followups',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
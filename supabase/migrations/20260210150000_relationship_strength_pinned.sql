@@ -0,0 +1,3 @@
+-- Pinned strengths are kept as entered and excluded from auto-scoring suggestions
+ALTER TABLE public.contacts
+    ADD COLUMN relationship_strength_pinned BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,59 @@
+-- Per-user pipeline stages: users can add, rename, recolor, reorder and remove
+-- stages. Contacts reference a stage by its immutable `key`. The built-in keys
+-- (researching, messaged, scheduled, call_done, ...) keep their meaning for the
+-- calendar and email automations, whatever the user renames them to.
+
+CREATE TABLE public.user_stages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    key TEXT NOT NULL,
+    label TEXT NOT NULL,
+    color TEXT NOT NULL DEFAULT 'stone',
+    position INTEGER NOT NULL DEFAULT 0,
+    show_on_board BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, key)
+);
+
+-- Enable RLS
+ALTER TABLE public.user_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stages" ON public.user_stages
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own stages" ON public.user_stages
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own stages" ON public.user_stages
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own stages" ON public.user_stages
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_user_stages_updated_at
+    BEFORE UPDATE ON public.user_stages
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX idx_user_stages_user_id ON public.user_stages(user_id, position);
+
+-- Stage columns hold user-defined keys from here on. The column-specific
+-- triggers depend on contacts.stage, so they are recreated around the change.
+DROP TRIGGER record_contacts_stage_event ON public.contacts;
+DROP TRIGGER start_contacts_followup_cadence ON public.contacts;
+
+ALTER TABLE public.contacts ALTER COLUMN stage DROP DEFAULT;
+ALTER TABLE public.contacts ALTER COLUMN stage TYPE TEXT USING stage::TEXT;
+ALTER TABLE public.contacts ALTER COLUMN stage SET DEFAULT 'researching';
+
+ALTER TABLE public.contact_stage_events
+    ALTER COLUMN from_stage TYPE TEXT USING from_stage::TEXT,
+    ALTER COLUMN to_stage TYPE TEXT USING to_stage::TEXT;
+
+ALTER TABLE public.followup_rules
+    ALTER COLUMN stage TYPE TEXT USING stage::TEXT;
+
+CREATE TRIGGER record_contacts_stage_event
+    BEFORE INSERT OR UPDATE OF stage, stage_source ON public.contacts
+    FOR EACH ROW EXECUTE FUNCTION public.record_contact_stage_event();
+
+CREATE TRIGGER start_contacts_followup_cadence
+    BEFORE INSERT OR UPDATE OF stage ON public.contacts
+    FOR EACH ROW EXECUTE FUNCTION public.start_contact_followup_cadence();
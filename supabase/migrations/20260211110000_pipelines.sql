@@ -0,0 +1,59 @@
+-- Extra recruiting pipelines (e.g. summer analyst and off-cycle searches run in
+-- parallel). Every contact is in the main pipeline, whose stage stays on
+-- contacts.stage; a contact can also join any number of extra pipelines, each
+-- with its own stage. All pipelines share the user's stage list.
+
+CREATE TABLE public.pipelines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.pipeline_contacts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    pipeline_id UUID REFERENCES public.pipelines(id) ON DELETE CASCADE NOT NULL,
+    contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE NOT NULL,
+    stage TEXT NOT NULL DEFAULT 'researching',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (pipeline_id, contact_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.pipelines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pipeline_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own pipelines" ON public.pipelines
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own pipelines" ON public.pipelines
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own pipelines" ON public.pipelines
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own pipelines" ON public.pipelines
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own pipeline contacts" ON public.pipeline_contacts
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own pipeline contacts" ON public.pipeline_contacts
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own pipeline contacts" ON public.pipeline_contacts
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own pipeline contacts" ON public.pipeline_contacts
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_pipelines_updated_at
+    BEFORE UPDATE ON public.pipelines
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_pipeline_contacts_updated_at
+    BEFORE UPDATE ON public.pipeline_contacts
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Indexes
+CREATE INDEX idx_pipelines_user_id ON public.pipelines(user_id, position);
+CREATE INDEX idx_pipeline_contacts_user_id ON public.pipeline_contacts(user_id);
+CREATE INDEX idx_pipeline_contacts_contact_id ON public.pipeline_contacts(contact_id);
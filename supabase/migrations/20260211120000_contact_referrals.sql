@@ -0,0 +1,6 @@
+-- "Referred by" link between contacts, for tracking introduction chains
+ALTER TABLE public.contacts
+    ADD COLUMN referred_by_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+    ADD CONSTRAINT contacts_referred_by_not_self CHECK (referred_by_id <> id);
+
+CREATE INDEX idx_contacts_referred_by_id ON public.contacts(referred_by_id);
@@ -0,0 +1,30 @@
+-- Named pipeline filter sets ("views") saved per user. `filters` holds the
+-- ContactFilters object from the app as-is.
+
+CREATE TABLE public.saved_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved views" ON public.saved_views
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own saved views" ON public.saved_views
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own saved views" ON public.saved_views
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own saved views" ON public.saved_views
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_saved_views_updated_at
+    BEFORE UPDATE ON public.saved_views
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Indexes
+CREATE INDEX idx_saved_views_user_id ON public.saved_views(user_id);
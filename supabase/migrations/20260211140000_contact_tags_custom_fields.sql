@@ -0,0 +1,39 @@
+-- Free-form tags and user-defined custom fields on contacts. Custom field
+-- values live in contacts.custom_fields, keyed by the field definition's id.
+
+ALTER TABLE public.contacts
+    ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+    ADD COLUMN custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX idx_contacts_tags ON public.contacts USING GIN (tags);
+
+CREATE TABLE public.custom_field_definitions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    field_type TEXT NOT NULL DEFAULT 'text' CHECK (field_type IN ('text', 'number', 'date', 'select')),
+    -- Choices for 'select' fields
+    options TEXT[] NOT NULL DEFAULT '{}',
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.custom_field_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own custom fields" ON public.custom_field_definitions
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own custom fields" ON public.custom_field_definitions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own custom fields" ON public.custom_field_definitions
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own custom fields" ON public.custom_field_definitions
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_custom_field_definitions_updated_at
+    BEFORE UPDATE ON public.custom_field_definitions
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Indexes
+CREATE INDEX idx_custom_field_definitions_user_id ON public.custom_field_definitions(user_id, position);
@@ -0,0 +1,32 @@
+-- Richer interaction logging: how long it took, what came of it, and files
+-- attached to it. Attachments are stored in the interaction-attachments bucket
+-- under <user_id>/<contact_id>/ and listed in interactions.attachments.
+
+ALTER TABLE public.interactions
+    ADD COLUMN duration_minutes INTEGER CHECK (duration_minutes > 0),
+    ADD COLUMN outcome TEXT,
+    ADD COLUMN attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Create storage bucket for interaction attachments
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('interaction-attachments', 'interaction-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own interaction attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'interaction-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can view their own interaction attachments"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'interaction-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own interaction attachments"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'interaction-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own interaction attachments"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'interaction-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Indexes
+CREATE INDEX idx_interactions_contact_date ON public.interactions(contact_id, date DESC);
@@ -0,0 +1,45 @@
+-- More ways to reach people, and group events (info sessions, superdays,
+-- career fairs) logged once against everyone met there. Each attendee still
+-- gets their own interaction row, linked back to the event by event_id.
+
+ALTER TYPE public.interaction_type ADD VALUE IF NOT EXISTS 'linkedin_message';
+ALTER TYPE public.interaction_type ADD VALUE IF NOT EXISTS 'text_message';
+ALTER TYPE public.interaction_type ADD VALUE IF NOT EXISTS 'info_session';
+ALTER TYPE public.interaction_type ADD VALUE IF NOT EXISTS 'superday';
+ALTER TYPE public.interaction_type ADD VALUE IF NOT EXISTS 'career_fair';
+ALTER TYPE public.interaction_type ADD VALUE IF NOT EXISTS 'networking_event';
+
+CREATE TABLE public.interaction_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    type public.interaction_type NOT NULL,
+    date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    location TEXT,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.interactions
+    ADD COLUMN event_id UUID REFERENCES public.interaction_events(id) ON DELETE CASCADE;
+
+-- Enable RLS
+ALTER TABLE public.interaction_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own interaction events" ON public.interaction_events
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own interaction events" ON public.interaction_events
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own interaction events" ON public.interaction_events
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own interaction events" ON public.interaction_events
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_interaction_events_updated_at
+    BEFORE UPDATE ON public.interaction_events
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Indexes
+CREATE INDEX idx_interaction_events_user_id ON public.interaction_events(user_id);
+CREATE INDEX idx_interactions_event_id ON public.interactions(event_id);
@@ -0,0 +1,42 @@
+-- Structured post-call debriefs. Each one belongs to the call interaction it
+-- was logged with and, when the call was on the calendar, to that call event.
+-- Promised follow-ups are also created as tasks; follow_ups keeps the list as
+-- it was written at the time.
+
+CREATE TABLE public.call_debriefs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE NOT NULL,
+    call_event_id UUID REFERENCES public.call_events(id) ON DELETE SET NULL,
+    interaction_id UUID REFERENCES public.interactions(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    topics TEXT,
+    advice TEXT,
+    -- [{ "title": string, "due_date": "yyyy-MM-dd" | null }]
+    follow_ups JSONB NOT NULL DEFAULT '[]'::jsonb,
+    -- Names of people the contact offered to introduce
+    intro_offers TEXT[] NOT NULL DEFAULT '{}',
+    rating INTEGER CHECK (rating BETWEEN 1 AND 5),
+    asked_for_referral BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.call_debriefs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own call debriefs" ON public.call_debriefs
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own call debriefs" ON public.call_debriefs
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own call debriefs" ON public.call_debriefs
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own call debriefs" ON public.call_debriefs
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_call_debriefs_updated_at
+    BEFORE UPDATE ON public.call_debriefs
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Indexes
+CREATE INDEX idx_call_debriefs_contact_id ON public.call_debriefs(contact_id);
+CREATE INDEX idx_call_debriefs_call_event_id ON public.call_debriefs(call_event_id);
@@ -0,0 +1,7 @@
+-- AI-proposed replacement for contacts.notes_summary, written by the
+-- summarize-contact function after new interactions. It only replaces the
+-- summary once the user accepts it.
+
+ALTER TABLE public.contacts
+    ADD COLUMN notes_summary_suggestion TEXT,
+    ADD COLUMN notes_summary_suggested_at TIMESTAMP WITH TIME ZONE;
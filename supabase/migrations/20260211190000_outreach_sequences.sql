@@ -0,0 +1,242 @@
+-- Outreach sequences: an initial email plus up to two timed follow-ups, each
+-- written from one of the user's email templates. Every step is a task due on
+-- its send date; completing the task records the email as sent. A sequence
+-- stops on its own once the contact moves past Messaged or a reply (any
+-- interaction the sequence did not log itself) comes in.
+
+CREATE TABLE public.email_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    category TEXT NOT NULL DEFAULT 'outreach' CHECK (category IN ('outreach', 'follow_up')),
+    subject TEXT NOT NULL DEFAULT '',
+    -- {{variable}} placeholders are filled in when the email is rendered
+    body TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.outreach_sequences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'stopped')),
+    stop_reason TEXT CHECK (stop_reason IN ('stage_advanced', 'reply_logged', 'manual')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    ended_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.outreach_sequence_steps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    sequence_id UUID REFERENCES public.outreach_sequences(id) ON DELETE CASCADE NOT NULL,
+    -- 0 is the initial email, 1 and 2 the follow-ups
+    position INTEGER NOT NULL CHECK (position BETWEEN 0 AND 2),
+    template_id UUID REFERENCES public.email_templates(id) ON DELETE SET NULL,
+    -- Copied from the template when the sequence starts, so later edits to the
+    -- template don't change a sequence already under way
+    subject TEXT NOT NULL DEFAULT '',
+    body TEXT NOT NULL,
+    due_date DATE NOT NULL,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (sequence_id, position)
+);
+
+ALTER TABLE public.tasks
+    ADD COLUMN outreach_sequence_step_id UUID REFERENCES public.outreach_sequence_steps(id) ON DELETE CASCADE;
+
+-- Emails sent by a sequence, so they don't count as the contact replying
+ALTER TABLE public.interactions
+    ADD COLUMN outreach_sequence_id UUID REFERENCES public.outreach_sequences(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.outreach_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.outreach_sequence_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own email templates" ON public.email_templates
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own email templates" ON public.email_templates
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own email templates" ON public.email_templates
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own email templates" ON public.email_templates
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own outreach sequences" ON public.outreach_sequences
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own outreach sequences" ON public.outreach_sequences
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own outreach sequences" ON public.outreach_sequences
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own outreach sequences" ON public.outreach_sequences
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own outreach sequence steps" ON public.outreach_sequence_steps
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own outreach sequence steps" ON public.outreach_sequence_steps
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own outreach sequence steps" ON public.outreach_sequence_steps
+    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own outreach sequence steps" ON public.outreach_sequence_steps
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_email_templates_updated_at
+    BEFORE UPDATE ON public.email_templates
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_outreach_sequences_updated_at
+    BEFORE UPDATE ON public.outreach_sequences
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_outreach_sequence_steps_updated_at
+    BEFORE UPDATE ON public.outreach_sequence_steps
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Whether `stage` comes after `reference` in the user's stage order, falling
+-- back to the built-in order for users who haven't set up their own stages
+CREATE OR REPLACE FUNCTION public.is_stage_past(p_user_id UUID, p_stage TEXT, p_reference TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    default_order TEXT[] := ARRAY['researching', 'messaged', 'scheduled', 'call_done', 'strong_connection', 'referral_requested', 'interview', 'offer'];
+    stage_position INTEGER;
+    reference_position INTEGER;
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.user_stages WHERE user_id = p_user_id) THEN
+        SELECT position INTO stage_position FROM public.user_stages WHERE user_id = p_user_id AND key = p_stage;
+        SELECT position INTO reference_position FROM public.user_stages WHERE user_id = p_user_id AND key = p_reference;
+    ELSE
+        stage_position := array_position(default_order, p_stage);
+        reference_position := array_position(default_order, p_reference);
+    END IF;
+
+    RETURN COALESCE(stage_position > reference_position, false);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Leaving the active state ends the sequence: steps not yet sent lose their tasks
+CREATE OR REPLACE FUNCTION public.end_outreach_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status = 'active' AND NEW.status <> 'active' THEN
+        NEW.ended_at := now();
+
+        DELETE FROM public.tasks
+        WHERE NOT COALESCE(completed, false)
+          AND outreach_sequence_step_id IN (
+              SELECT id FROM public.outreach_sequence_steps
+              WHERE sequence_id = NEW.id AND sent_at IS NULL
+          );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER end_outreach_sequences
+    BEFORE UPDATE OF status ON public.outreach_sequences
+    FOR EACH ROW EXECUTE FUNCTION public.end_outreach_sequence();
+
+-- Moving past Messaged means the outreach worked (or was overtaken): stop it
+CREATE OR REPLACE FUNCTION public.stop_outreach_on_stage_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.stage IS DISTINCT FROM OLD.stage AND public.is_stage_past(NEW.user_id, NEW.stage, 'messaged') THEN
+        UPDATE public.outreach_sequences
+        SET status = 'stopped', stop_reason = 'stage_advanced'
+        WHERE contact_id = NEW.id AND status = 'active';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stop_contacts_outreach_on_stage_change
+    AFTER UPDATE OF stage ON public.contacts
+    FOR EACH ROW EXECUTE FUNCTION public.stop_outreach_on_stage_change();
+
+-- Any interaction since the sequence started, other than its own emails, counts as a reply
+CREATE OR REPLACE FUNCTION public.stop_outreach_on_reply()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.outreach_sequence_id IS NULL THEN
+        UPDATE public.outreach_sequences
+        SET status = 'stopped', stop_reason = 'reply_logged'
+        WHERE contact_id = NEW.contact_id AND status = 'active' AND started_at <= NEW.date;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stop_interactions_outreach_on_reply
+    AFTER INSERT ON public.interactions
+    FOR EACH ROW EXECUTE FUNCTION public.stop_outreach_on_reply();
+
+-- Completing a step's task sends it: log the email, move the contact to
+-- Messaged if it isn't there yet, and finish the sequence after the last step
+CREATE OR REPLACE FUNCTION public.record_outreach_step_sent()
+RETURNS TRIGGER AS $$
+DECLARE
+    step RECORD;
+BEGIN
+    IF NEW.outreach_sequence_step_id IS NULL OR NOT COALESCE(NEW.completed, false) OR COALESCE(OLD.completed, false) THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE public.outreach_sequence_steps s
+    SET sent_at = now()
+    FROM public.outreach_sequences q
+    WHERE s.id = NEW.outreach_sequence_step_id
+      AND s.sent_at IS NULL
+      AND q.id = s.sequence_id
+      AND q.status = 'active'
+    RETURNING s.sequence_id, s.position, s.subject, q.contact_id INTO step;
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.interactions (user_id, contact_id, type, date, notes, outreach_sequence_id)
+    VALUES (
+        NEW.user_id,
+        step.contact_id,
+        'email',
+        now(),
+        CASE WHEN step.position = 0 THEN 'Sent outreach email' ELSE 'Sent follow-up email' END
+            || CASE WHEN step.subject <> '' THEN ': ' || step.subject ELSE '' END,
+        step.sequence_id
+    );
+
+    UPDATE public.contacts
+    SET last_contacted_at = now(),
+        stage = CASE WHEN public.is_stage_past(user_id, 'messaged', stage) THEN 'messaged' ELSE stage END
+    WHERE id = step.contact_id;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.outreach_sequence_steps
+        WHERE sequence_id = step.sequence_id AND sent_at IS NULL
+    ) THEN
+        UPDATE public.outreach_sequences SET status = 'completed' WHERE id = step.sequence_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_tasks_outreach_step_sent
+    AFTER UPDATE OF completed ON public.tasks
+    FOR EACH ROW EXECUTE FUNCTION public.record_outreach_step_sent();
+
+-- Indexes
+CREATE INDEX idx_email_templates_user_id ON public.email_templates(user_id);
+CREATE INDEX idx_outreach_sequences_contact_id ON public.outreach_sequences(contact_id);
+-- At most one running sequence per contact
+CREATE UNIQUE INDEX idx_outreach_sequences_active_contact
+    ON public.outreach_sequences(contact_id) WHERE status = 'active';
+CREATE INDEX idx_outreach_sequence_steps_sequence_id ON public.outreach_sequence_steps(sequence_id);
+CREATE INDEX idx_tasks_outreach_sequence_step_id ON public.tasks(outreach_sequence_step_id);
@@ -0,0 +1,52 @@
+-- Template library: thank-you and referral ask templates alongside outreach and
+-- follow-ups, and a log of every time a template is used so each one can show
+-- how often it's been sent.
+
+ALTER TABLE public.email_templates DROP CONSTRAINT IF EXISTS email_templates_category_check;
+ALTER TABLE public.email_templates
+    ADD CONSTRAINT email_templates_category_check
+    CHECK (category IN ('outreach', 'follow_up', 'thank_you', 'referral_ask'));
+
+CREATE TABLE public.email_template_uses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    template_id UUID REFERENCES public.email_templates(id) ON DELETE CASCADE NOT NULL,
+    contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+    -- as_is: filled in and used verbatim; style_seed: given to the AI as an
+    -- example to write like; sequence: sent as an outreach sequence step
+    mode TEXT NOT NULL CHECK (mode IN ('as_is', 'style_seed', 'sequence')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.email_template_uses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own email template uses" ON public.email_template_uses
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own email template uses" ON public.email_template_uses
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own email template uses" ON public.email_template_uses
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- A sequence step counts as a use once it's sent
+CREATE OR REPLACE FUNCTION public.record_outreach_step_template_use()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.sent_at IS NULL AND NEW.sent_at IS NOT NULL AND NEW.template_id IS NOT NULL THEN
+        INSERT INTO public.email_template_uses (user_id, template_id, contact_id, mode)
+        SELECT NEW.user_id, NEW.template_id, q.contact_id, 'sequence'
+        FROM public.outreach_sequences q
+        WHERE q.id = NEW.sequence_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_outreach_sequence_steps_template_use
+    AFTER UPDATE OF sent_at ON public.outreach_sequence_steps
+    FOR EACH ROW EXECUTE FUNCTION public.record_outreach_step_template_use();
+
+-- Indexes
+CREATE INDEX idx_email_template_uses_user_id ON public.email_template_uses(user_id);
+CREATE INDEX idx_email_template_uses_template_id ON public.email_template_uses(template_id);
@@ -0,0 +1,76 @@
+-- Incremental two-way Google Calendar sync. Each user keeps Google's sync token
+-- so a sync only fetches what changed since the last one, and each synced call
+-- remembers when it was last reconciled so edits on either side can be told apart.
+
+ALTER TABLE public.user_google_tokens
+    ADD COLUMN sync_token TEXT,
+    ADD COLUMN last_synced_at TIMESTAMP WITH TIME ZONE;
+
+-- external_updated_at: Google's last-modified time for the event as of the last sync.
+-- synced_at: when the row last matched Google. A row edited in the app since
+-- then has updated_at > synced_at.
+ALTER TABLE public.call_events
+    ADD COLUMN external_updated_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN synced_at TIMESTAMP WITH TIME ZONE;
+
+-- Google events whose calls were deleted in the app, waiting to be deleted in Google
+CREATE TABLE public.call_event_deletions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    external_provider TEXT NOT NULL,
+    external_event_id TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, external_provider, external_event_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.call_event_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own call event deletions" ON public.call_event_deletions
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own call event deletions" ON public.call_event_deletions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Stamp synced_at with the same clock as updated_at, so a write that marks a
+-- row synced doesn't also look like a local edit
+CREATE OR REPLACE FUNCTION public.stamp_call_event_synced_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.synced_at IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.synced_at IS DISTINCT FROM OLD.synced_at) THEN
+        NEW.synced_at := now();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_call_events_synced_at
+    BEFORE INSERT OR UPDATE ON public.call_events
+    FOR EACH ROW EXECUTE FUNCTION public.stamp_call_event_synced_at();
+
+-- Deleting the last call linked to a Google event queues the event for deletion
+CREATE OR REPLACE FUNCTION public.queue_call_event_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.external_event_id IS NOT NULL AND OLD.external_provider IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.call_events
+        WHERE user_id = OLD.user_id
+          AND external_provider = OLD.external_provider
+          AND external_event_id = OLD.external_event_id
+    ) THEN
+        INSERT INTO public.call_event_deletions (user_id, external_provider, external_event_id)
+        VALUES (OLD.user_id, OLD.external_provider, OLD.external_event_id)
+        ON CONFLICT DO NOTHING;
+    END IF;
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_call_events_deletion
+    AFTER DELETE ON public.call_events
+    FOR EACH ROW EXECUTE FUNCTION public.queue_call_event_deletion();
+
+-- Indexes
+CREATE INDEX idx_call_events_external_event_id ON public.call_events(user_id, external_event_id);
+CREATE INDEX idx_call_event_deletions_user_id ON public.call_event_deletions(user_id);
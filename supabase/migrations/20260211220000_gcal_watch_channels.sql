@@ -0,0 +1,54 @@
+-- Google Calendar push notifications. Each connected user has one watch
+-- channel on their calendar; Google notifies gcal-webhook when it changes and
+-- the webhook runs a sync for that user.
+
+CREATE TABLE public.google_calendar_channels (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Disconnecting the calendar drops the channel; its notifications are then ignored
+    user_id UUID REFERENCES public.user_google_tokens(user_id) ON DELETE CASCADE NOT NULL UNIQUE,
+    channel_id TEXT NOT NULL UNIQUE,
+    -- Google's id for the watched calendar, needed to stop the channel
+    resource_id TEXT NOT NULL,
+    -- Sent back by Google with every notification, to tell them from forgeries
+    token TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS. Channels are managed by edge functions only.
+ALTER TABLE public.google_calendar_channels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own google calendar channels" ON public.google_calendar_channels
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_google_calendar_channels_updated_at
+    BEFORE UPDATE ON public.google_calendar_channels
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- sync_locked_until: syncs started by a notification and by the user can
+-- overlap; whichever starts second backs off until this passes.
+-- pending_contacts: unmatched attendees found by notification syncs, held for
+-- the user to review on their next sync.
+ALTER TABLE public.user_google_tokens
+    ADD COLUMN sync_locked_until TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN pending_contacts JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Renew channels before they expire. Expects `project_url` and `service_role_key` in Vault.
+SELECT cron.schedule(
+    'gcal-renew-watch-channels',
+    '0 */6 * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/gcal-watch',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+-- Indexes
+CREATE INDEX idx_google_calendar_channels_expires_at ON public.google_calendar_channels(expires_at);
@@ -0,0 +1,29 @@
+-- Store Microsoft OAuth tokens per user for the Outlook / Office 365 calendar integration
+CREATE TABLE public.user_microsoft_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    access_token TEXT NOT NULL,
+    refresh_token TEXT NOT NULL,
+    token_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- NULL is the account's default calendar
+    calendar_id TEXT,
+    -- The Microsoft account's address, which may differ from the login email
+    account_email TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.user_microsoft_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own microsoft tokens" ON public.user_microsoft_tokens
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own microsoft tokens" ON public.user_microsoft_tokens
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_user_microsoft_tokens_updated_at
+    BEFORE UPDATE ON public.user_microsoft_tokens
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Stage changes made by an Outlook sync
+ALTER TYPE public.stage_event_source ADD VALUE 'outlook_sync';
@@ -0,0 +1,24 @@
+-- Secret ICS subscription URL per user, served by the calendar-feed function
+CREATE TABLE public.calendar_feeds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    -- Anyone with the token can read the user's calls; resetting the feed replaces the row
+    token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    last_fetched_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feeds" ON public.calendar_feeds
+    FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own calendar feeds" ON public.calendar_feeds
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own calendar feeds" ON public.calendar_feeds
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_calendar_feeds_updated_at
+    BEFORE UPDATE ON public.calendar_feeds
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
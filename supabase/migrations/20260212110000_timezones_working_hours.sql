@@ -0,0 +1,13 @@
+-- Timezones and working hours for the availability put into outreach emails
+
+-- IANA names, e.g. 'America/New_York'; NULL falls back to Eastern time
+ALTER TABLE public.profiles
+    ADD COLUMN timezone TEXT,
+    ADD COLUMN working_hours_start SMALLINT NOT NULL DEFAULT 9,
+    ADD COLUMN working_hours_end SMALLINT NOT NULL DEFAULT 22,
+    ADD CONSTRAINT profiles_working_hours_check
+        CHECK (working_hours_start >= 0 AND working_hours_end <= 24 AND working_hours_start < working_hours_end);
+
+-- The contact's own timezone, so emails can show availability in their local time too
+ALTER TABLE public.contacts
+    ADD COLUMN timezone TEXT;
@@ -0,0 +1,3 @@
+-- Allow users to re-point their own template uses (e.g. when merging duplicate contacts)
+CREATE POLICY "Users can update their own email template uses" ON public.email_template_uses
+    FOR UPDATE USING (auth.uid() = user_id);
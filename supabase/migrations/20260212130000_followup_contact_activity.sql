@@ -0,0 +1,16 @@
+-- For the follow-up engine: when each contact entered its current stage and
+-- when it last had an interaction (emails sent by an outreach sequence don't
+-- count as replies). One row per contact, so the engine never depends on
+-- paging through every stage event and interaction.
+CREATE OR REPLACE FUNCTION public.followup_contact_activity(p_contact_ids UUID[])
+RETURNS TABLE (contact_id UUID, entered_stage_at TIMESTAMP WITH TIME ZONE, last_interaction_at TIMESTAMP WITH TIME ZONE) AS $$
+    SELECT
+        c.id,
+        (SELECT MAX(e.created_at) FROM public.contact_stage_events e WHERE e.contact_id = c.id),
+        (SELECT MAX(i.created_at) FROM public.interactions i WHERE i.contact_id = c.id AND i.outreach_sequence_id IS NULL)
+    FROM public.contacts c
+    WHERE c.id = ANY (p_contact_ids);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Indexes
+CREATE INDEX idx_interactions_contact_created ON public.interactions(contact_id, created_at DESC);